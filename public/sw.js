@@ -1,10 +1,6 @@
-const CACHE_NAME = 'nutriguide-v2';
+const CACHE_NAME = 'nutriguide-v3';
 const urlsToCache = [
   '/',
-  '/dashboard',
-  '/profile',
-  '/static/js/bundle.js',
-  '/static/css/main.css',
   '/manifest.json'
 ];
 
@@ -18,17 +14,25 @@ self.addEventListener('install', (event) => {
   );
 });
 
-// Fetch event - serve from cache, fallback to network
+// Activate event - drop caches from older versions
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys().then((names) =>
+      Promise.all(names.filter((name) => name !== CACHE_NAME).map((name) => caches.delete(name)))
+    )
+  );
+});
+
+// Fetch event - network first so new builds show up, cache as the offline fallback
 self.addEventListener('fetch', (event) => {
+  if (event.request.method !== 'GET' || new URL(event.request.url).origin !== self.location.origin) {
+    return;
+  }
+
   event.respondWith(
-    caches.match(event.request)
-      .then((response) => {
-        // Return cached version or fetch from network
-        if (response) {
-          return response;
-        }
-        return fetch(event.request);
-      })
+    fetch(event.request).catch(() =>
+      caches.match(event.request).then((response) => response || caches.match('/'))
+    )
   );
 });
 
@@ -39,55 +43,72 @@ self.addEventListener('sync', (event) => {
   }
 });
 
-// Push notifications for meal reminders
+// Push notifications sent by the dispatch-reminders edge function. The payload is
+// JSON: { title, body, tag, kind, data: { actionUrl, token, date } }.
+const ACTIONS_BY_KIND = {
+  meal: [
+    { action: 'mark_eaten', title: 'Mark eaten' },
+    { action: 'snooze', title: 'Snooze 15 min' },
+  ],
+  hydration: [
+    { action: 'snooze', title: 'Snooze 15 min' },
+  ],
+};
+
 self.addEventListener('push', (event) => {
-  const options = {
-    body: event.data ? event.data.text() : 'Time for your next meal!',
-    icon: '/icon-192.png',
-    badge: '/icon-192.png',
-    vibrate: [100, 50, 100],
-    data: {
-      dateOfArrival: Date.now(),
-      primaryKey: 1
-    },
-    actions: [
-      {
-        action: 'log-meal',
-        title: 'Log Meal',
-        icon: '/icons/log-meal.png'
-      },
-      {
-        action: 'snooze',
-        title: 'Remind Later',
-        icon: '/icons/snooze.png'
-      }
-    ]
-  };
+  let payload = {};
+  try {
+    payload = event.data ? event.data.json() : {};
+  } catch {
+    payload = { body: event.data.text() };
+  }
+
+  const data = payload.data || {};
+  // Actions need a signed token to act on the user's behalf
+  const actions = data.token ? ACTIONS_BY_KIND[payload.kind] || [] : [];
 
   event.waitUntil(
-    self.registration.showNotification('NutriGuide Reminder', options)
+    self.registration.showNotification(payload.title || 'NutriGuide Reminder', {
+      body: payload.body || 'Time for your next meal!',
+      icon: '/logo.png',
+      badge: '/logo.png',
+      tag: payload.tag,
+      vibrate: [100, 50, 100],
+      data,
+      actions,
+    })
   );
 });
 
+// Run an action against the notification-action function without opening the app
+async function runNotificationAction(action, data) {
+  const response = await fetch(data.actionUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ action, token: data.token }),
+  });
+  if (!response.ok) throw new Error(`Notification action failed: ${response.status}`);
+}
+
 // Handle notification clicks
 self.addEventListener('notificationclick', (event) => {
   event.notification.close();
+  const data = event.notification.data || {};
 
-  if (event.action === 'log-meal') {
+  if (event.action === 'mark_eaten') {
     event.waitUntil(
-      clients.openWindow('/dashboard')
+      runNotificationAction('mark_eaten', data)
+        .then(() => self.registration.showNotification('Meal logged ✅', { body: 'Nice work staying on plan!', tag: 'meal-logged', icon: '/logo.png' }))
+        .catch((error) => console.error(error))
     );
   } else if (event.action === 'snooze') {
-    // Schedule another notification in 15 minutes
-    setTimeout(() => {
-      self.registration.showNotification('NutriGuide Reminder', {
-        body: 'Don\'t forget to log your meal!',
-        icon: '/icon-192.png'
-      });
-    }, 15 * 60 * 1000);
+    event.waitUntil(runNotificationAction('snooze', data).catch((error) => console.error(error)));
   } else {
     event.waitUntil(
-      clients.openWindow('/dashboard')
+      clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+        const open = windows.find((client) => 'focus' in client);
+        return open ? open.focus() : clients.openWindow('/dashboard');
+      })
     );
   }
 });
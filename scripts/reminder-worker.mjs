@@ -0,0 +1,30 @@
+// Stand-in for the production cron job: calls the dispatch-reminders edge function
+// once a minute. Start the functions first with `supabase functions serve`.
+//
+//   SUPABASE_SERVICE_ROLE_KEY=... npm run reminders:worker [-- --once]
+
+const functionsUrl = process.env.SUPABASE_FUNCTIONS_URL || 'http://127.0.0.1:54321/functions/v1';
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const intervalMs = Number(process.env.REMINDER_INTERVAL_MS || 60_000);
+const once = process.argv.includes('--once');
+
+if (!serviceRoleKey) {
+  console.error('SUPABASE_SERVICE_ROLE_KEY is required (see `supabase status`)');
+  process.exit(1);
+}
+
+const dispatch = async () => {
+  try {
+    const response = await fetch(`${functionsUrl}/dispatch-reminders`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${serviceRoleKey}` },
+    });
+    const result = await response.text();
+    console.log(`[${new Date().toISOString()}] ${response.status} ${result}`);
+  } catch (error) {
+    console.error(`[${new Date().toISOString()}] Dispatch failed:`, error.message);
+  }
+};
+
+await dispatch();
+if (!once) setInterval(dispatch, intervalMs);
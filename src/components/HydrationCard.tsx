@@ -0,0 +1,95 @@
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Droplets, Plus, X } from 'lucide-react';
+import { NutritionTrackingService } from '../services/nutritionTrackingService';
+import { DRINK_SERVINGS, DrinkType, WaterEntry, WaterService } from '../services/waterService';
+import Card, { CardHeader, CardTitle, CardContent } from './ui/Card';
+
+interface HydrationCardProps {
+  date: string;
+  goal: number; // ml
+}
+
+export default function HydrationCard({ date, goal }: HydrationCardProps) {
+  const [entries, setEntries] = useState<WaterEntry[]>([]);
+  const [adding, setAdding] = useState<DrinkType | null>(null);
+
+  useEffect(() => {
+    WaterService.getWaterEntries(date).then(({ data }) => setEntries(data || []));
+  }, [date]);
+
+  const handleAdd = async (type: DrinkType) => {
+    setAdding(type);
+    const { data } = await WaterService.logWater(date, DRINK_SERVINGS[type].amount, type);
+    if (data) setEntries(prev => NutritionTrackingService.trackWaterIntake(prev, data));
+    setAdding(null);
+  };
+
+  const handleRemove = async (entryId: string) => {
+    const { error } = await WaterService.deleteWaterEntry(entryId);
+    if (!error) setEntries(prev => prev.filter(entry => entry.id !== entryId));
+  };
+
+  const total = WaterService.getTotal(entries);
+  const percent = goal > 0 ? Math.min(100, Math.round((total / goal) * 100)) : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Droplets className="w-5 h-5 text-sky-600" />
+          <span>Hydration</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <div>
+            <div className="flex justify-between items-center">
+              <span className="text-sm text-gray-600">{total} of {goal} ml</span>
+              <span className="font-semibold text-sky-600">{percent}%</span>
+            </div>
+            <div className="mt-2 w-full bg-gray-200 rounded-full h-2">
+              <motion.div
+                initial={{ width: 0 }}
+                animate={{ width: `${percent}%` }}
+                transition={{ duration: 0.5 }}
+                className="bg-sky-500 h-2 rounded-full"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2">
+            {(Object.keys(DRINK_SERVINGS) as DrinkType[]).map(type => (
+              <button
+                key={type}
+                onClick={() => handleAdd(type)}
+                disabled={adding !== null}
+                className="flex flex-col items-center p-2 rounded-lg border border-sky-200 bg-sky-50 hover:bg-sky-100 disabled:opacity-50 transition-colors"
+              >
+                <span className="flex items-center text-sm font-medium text-sky-700">
+                  <Plus className="w-3 h-3 mr-1" />
+                  {DRINK_SERVINGS[type].label}
+                </span>
+                <span className="text-xs text-gray-500">{DRINK_SERVINGS[type].amount} ml</span>
+              </button>
+            ))}
+          </div>
+
+          {entries.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {entries.map(entry => (
+                <span key={entry.id} className="inline-flex items-center px-2 py-1 rounded-full bg-gray-100 text-xs text-gray-700">
+                  {DRINK_SERVINGS[entry.type].label} {entry.amount} ml ·{' '}
+                  {new Date(entry.time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  <button onClick={() => handleRemove(entry.id)} className="ml-1 text-gray-400 hover:text-red-500">
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,332 @@
+import { useMemo, useState } from 'react';
+import { motion } from 'framer-motion';
+import { X, Search, Plus, Trash2, Undo2 } from 'lucide-react';
+import { Meal, MealLog, MealNutrition } from '../types';
+import { FoodItem } from '../data/foodDatabase';
+import { FoodDatabaseService } from '../services/foodDatabaseService';
+import { MealLogService } from '../services/mealLogService';
+import Button from './ui/Button';
+import Input from './ui/Input';
+
+export interface MealLogEntry {
+  portion: number;
+  eaten?: { name: string; nutrition: MealNutrition }; // left out when the planned meal was eaten
+}
+
+interface MealLogModalProps {
+  title: string; // e.g. "Breakfast" or "Snack 2"
+  plannedMeal: Meal;
+  existingLog?: MealLog;
+  onSave: (entry: MealLogEntry) => Promise<void> | void;
+  onUndo?: () => Promise<void> | void;
+  onClose: () => void;
+}
+
+// A food eaten instead of the planned meal; custom items only carry calories
+interface SubstituteItem {
+  key: string;
+  name: string;
+  foodId?: string;
+  amount: number;
+  unit: string;
+  calories?: number;
+}
+
+const PORTION_MIN = 0.25;
+const PORTION_MAX = 2;
+const PORTION_STEP = 0.25;
+
+const defaultServing = (food: FoodItem): { amount: number; unit: string } =>
+  food.portions?.medium !== undefined ? { amount: 1, unit: 'medium' } : { amount: 100, unit: 'g' };
+
+export default function MealLogModal({ title, plannedMeal, existingLog, onSave, onUndo, onClose }: MealLogModalProps) {
+  const wasSubstituted = !!existingLog && MealLogService.isSubstitute(existingLog);
+
+  const [mode, setMode] = useState<'planned' | 'substitute'>(wasSubstituted ? 'substitute' : 'planned');
+  const [portion, setPortion] = useState(existingLog && !wasSubstituted ? existingLog.portion : 1);
+  const [query, setQuery] = useState('');
+  const [items, setItems] = useState<SubstituteItem[]>([]);
+  const [substituteName, setSubstituteName] = useState(wasSubstituted ? existingLog!.eatenMealName : '');
+  const [custom, setCustom] = useState({ name: '', calories: '' });
+  const [saving, setSaving] = useState(false);
+
+  const searchResults = useMemo(() => FoodDatabaseService.searchFoods(query), [query]);
+
+  const substituteNutrition = useMemo((): MealNutrition => {
+    const { nutrition } = FoodDatabaseService.calculateMealNutrition(items.filter(item => item.foodId));
+    const customCalories = items
+      .filter(item => !item.foodId)
+      .reduce((sum, item) => sum + (item.calories || 0), 0);
+    return { ...nutrition, calories: Math.round(nutrition.calories + customCalories) };
+  }, [items]);
+
+  const addFood = (food: FoodItem) => {
+    setItems(prev => [...prev, { key: `${food.id}_${Date.now()}`, name: food.name, foodId: food.id, ...defaultServing(food) }]);
+    setQuery('');
+  };
+
+  const addCustomItem = () => {
+    const calories = Number(custom.calories);
+    if (!custom.name.trim() || !(calories > 0)) return;
+    setItems(prev => [...prev, { key: `custom_${Date.now()}`, name: custom.name.trim(), amount: 1, unit: 'serving', calories }]);
+    setCustom({ name: '', calories: '' });
+  };
+
+  const updateItem = (key: string, updates: Partial<SubstituteItem>) => {
+    setItems(prev => prev.map(item => (item.key === key ? { ...item, ...updates } : item)));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      if (mode === 'planned') {
+        await onSave({ portion });
+      } else {
+        await onSave({
+          portion: 1,
+          eaten: {
+            name: substituteName.trim() || items.map(item => item.name).join(', '),
+            nutrition: substituteNutrition,
+          },
+        });
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUndo = async () => {
+    if (!onUndo) return;
+    setSaving(true);
+    try {
+      await onUndo();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const canSave = mode === 'planned' ? portion > 0 : items.length > 0;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.9 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-lg p-6 max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-lg font-semibold">Log {title}</h3>
+          <Button variant="ghost" size="sm" onClick={onClose}>
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+
+        <div className="flex rounded-lg border border-gray-200 p-1 mb-6">
+          {(['planned', 'substitute'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setMode(option)}
+              className={`flex-1 px-3 py-1.5 text-sm rounded-md transition-colors ${
+                mode === option ? 'bg-emerald-600 text-white' : 'text-gray-600 hover:bg-gray-100'
+              }`}
+            >
+              {option === 'planned' ? 'Ate the planned meal' : 'Ate something else'}
+            </button>
+          ))}
+        </div>
+
+        {mode === 'planned' ? (
+          <div className="space-y-4">
+            <div>
+              <p className="font-medium text-gray-900">{plannedMeal.name}</p>
+              <p className="text-sm text-gray-600">{plannedMeal.nutrition.calories} cal for a full portion</p>
+            </div>
+            <div>
+              <div className="flex justify-between text-sm text-gray-700 mb-2">
+                <span>Portion eaten</span>
+                <span className="font-medium">{portion}×</span>
+              </div>
+              <input
+                type="range"
+                min={PORTION_MIN}
+                max={PORTION_MAX}
+                step={PORTION_STEP}
+                value={portion}
+                onChange={(e) => setPortion(Number(e.target.value))}
+                className="w-full accent-emerald-600"
+              />
+              <div className="flex justify-between text-xs text-gray-500 mt-1">
+                <span>¼</span>
+                <span>½</span>
+                <span>1</span>
+                <span>1½</span>
+                <span>2</span>
+              </div>
+            </div>
+            <div className="grid grid-cols-4 gap-2 text-center text-sm bg-gray-50 rounded-lg p-3">
+              <div>
+                <p className="font-semibold text-gray-900">{Math.round(plannedMeal.nutrition.calories * portion)}</p>
+                <p className="text-xs text-gray-500">cal</p>
+              </div>
+              <div>
+                <p className="font-semibold text-gray-900">{Math.round(plannedMeal.nutrition.protein * portion)}g</p>
+                <p className="text-xs text-gray-500">protein</p>
+              </div>
+              <div>
+                <p className="font-semibold text-gray-900">{Math.round(plannedMeal.nutrition.carbs * portion)}g</p>
+                <p className="text-xs text-gray-500">carbs</p>
+              </div>
+              <div>
+                <p className="font-semibold text-gray-900">{Math.round(plannedMeal.nutrition.fat * portion)}g</p>
+                <p className="text-xs text-gray-500">fat</p>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="relative">
+              <Search className="w-4 h-4 text-gray-400 absolute left-3 top-3" />
+              <input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search foods, e.g. banana, rice, salmon"
+                className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500"
+              />
+              {searchResults.length > 0 && (
+                <div className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg max-h-56 overflow-y-auto">
+                  {searchResults.map(food => (
+                    <button
+                      key={food.id}
+                      onClick={() => addFood(food)}
+                      className="w-full text-left px-3 py-2 text-sm hover:bg-emerald-50 flex justify-between"
+                    >
+                      <span>{food.name}</span>
+                      <span className="text-gray-500">{food.per100g.calories} cal/100g</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {items.length > 0 && (
+              <div className="space-y-2">
+                {items.map(item => {
+                  const food = item.foodId ? FoodDatabaseService.getFood(item.foodId) : undefined;
+                  const units = food ? ['g', ...Object.keys(food.portions || {})] : [];
+
+                  return (
+                    <div key={item.key} className="flex items-center gap-2 bg-gray-50 rounded-lg p-2">
+                      <span className="flex-1 text-sm text-gray-900">{item.name}</span>
+                      {food ? (
+                        <>
+                          <input
+                            type="number"
+                            min={0}
+                            step="any"
+                            value={item.amount}
+                            onChange={(e) => updateItem(item.key, { amount: Number(e.target.value) })}
+                            className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+                          />
+                          <select
+                            value={item.unit}
+                            onChange={(e) => updateItem(item.key, { unit: e.target.value })}
+                            className="px-2 py-1 border border-gray-300 rounded text-sm bg-white"
+                          >
+                            {units.map(unit => (
+                              <option key={unit} value={unit}>{unit}</option>
+                            ))}
+                          </select>
+                        </>
+                      ) : (
+                        <span className="text-sm text-gray-600">{item.calories} cal</span>
+                      )}
+                      <button
+                        onClick={() => setItems(prev => prev.filter(existing => existing.key !== item.key))}
+                        className="text-gray-400 hover:text-red-600"
+                        title="Remove"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <div>
+              <p className="text-sm text-gray-600 mb-2">Not in the list? Add it with its calories:</p>
+              <div className="flex gap-2">
+                <input
+                  value={custom.name}
+                  onChange={(e) => setCustom(prev => ({ ...prev, name: e.target.value }))}
+                  placeholder="Food"
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                />
+                <input
+                  type="number"
+                  min={0}
+                  value={custom.calories}
+                  onChange={(e) => setCustom(prev => ({ ...prev, calories: e.target.value }))}
+                  placeholder="cal"
+                  className="w-24 px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                />
+                <Button variant="outline" size="sm" onClick={addCustomItem}>
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+
+            <Input
+              label="What did you eat? - Optional"
+              value={substituteName}
+              onChange={(e) => setSubstituteName(e.target.value)}
+              placeholder={items.map(item => item.name).join(', ') || 'e.g. Office lunch'}
+            />
+
+            {wasSubstituted && items.length === 0 && (
+              <p className="text-xs text-gray-500">
+                Currently logged: {existingLog!.eatenMealName} ({Math.round(existingLog!.eatenNutrition.calories)} cal). Add foods to replace it.
+              </p>
+            )}
+
+            <div className="grid grid-cols-4 gap-2 text-center text-sm bg-gray-50 rounded-lg p-3">
+              <div>
+                <p className="font-semibold text-gray-900">{Math.round(substituteNutrition.calories)}</p>
+                <p className="text-xs text-gray-500">cal</p>
+              </div>
+              <div>
+                <p className="font-semibold text-gray-900">{Math.round(substituteNutrition.protein)}g</p>
+                <p className="text-xs text-gray-500">protein</p>
+              </div>
+              <div>
+                <p className="font-semibold text-gray-900">{Math.round(substituteNutrition.carbs)}g</p>
+                <p className="text-xs text-gray-500">carbs</p>
+              </div>
+              <div>
+                <p className="font-semibold text-gray-900">{Math.round(substituteNutrition.fat)}g</p>
+                <p className="text-xs text-gray-500">fat</p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-between items-center mt-6">
+          {existingLog && onUndo ? (
+            <Button variant="ghost" size="sm" onClick={handleUndo} disabled={saving}>
+              <Undo2 className="w-4 h-4 mr-2" />
+              Mark as not eaten
+            </Button>
+          ) : <span />}
+          <div className="flex space-x-2">
+            <Button variant="outline" onClick={onClose} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} isLoading={saving} disabled={!canSave}>
+              Save
+            </Button>
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
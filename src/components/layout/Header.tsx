@@ -1,13 +1,15 @@
 import { Link, useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence, Variants } from 'framer-motion';
-import { Menu, X, User, LogOut, Home, BarChart3, ChevronDown, Sparkles } from 'lucide-react';
+import { Menu, X, User, LogOut, Home, BarChart3, ChevronDown, Sparkles, Bell } from 'lucide-react';
 import { useState, useRef, useEffect } from 'react';
 import { useAuth } from '../../context/AuthContext';
+import { InboxService } from '../../services/inboxService';
 import Button from '../ui/Button';
 
 export default function Header() {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [isProfileOpen, setIsProfileOpen] = useState(false);
+  const [unreadCount, setUnreadCount] = useState(0);
   const { user, signOut } = useAuth();
   const navigate = useNavigate();
   const profileRef = useRef<HTMLDivElement | null>(null);
@@ -30,6 +32,24 @@ export default function Header() {
     };
   }, []);
 
+  // Unread badge, refreshed whenever the inbox changes
+  useEffect(() => {
+    if (!user) {
+      setUnreadCount(0);
+      return;
+    }
+
+    const refreshUnreadCount = async () => {
+      const { data } = await InboxService.getUnreadCount();
+      setUnreadCount(data);
+    };
+
+    refreshUnreadCount();
+    return InboxService.subscribe(user.id, refreshUnreadCount);
+  }, [user]);
+
+  const unreadLabel = unreadCount > 99 ? '99+' : String(unreadCount);
+
   const handleSignOut = () => {
     signOut();
     navigate('/');
@@ -173,6 +193,22 @@ export default function Header() {
 
           {/* User Menu */}
           <div className="hidden md:flex items-center space-x-4">
+            {user && (
+              <motion.div whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.9 }}>
+                <Link
+                  to="/notifications"
+                  className="relative block p-2 rounded-full text-gray-700 hover:text-emerald-600 hover:bg-gray-100 transition-colors"
+                  aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : 'Notifications'}
+                >
+                  <Bell className="w-5 h-5" />
+                  {unreadCount > 0 && (
+                    <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] font-semibold flex items-center justify-center">
+                      {unreadLabel}
+                    </span>
+                  )}
+                </Link>
+              </motion.div>
+            )}
             {user ? (
               <div className="flex items-center space-x-2" ref={profileRef}>
                 <motion.div
@@ -321,6 +357,18 @@ export default function Header() {
                         </div>
                         <span className="truncate max-w-[150px]">{user.email}</span>
                       </div>
+                      <Link
+                        to="/notifications"
+                        className="block px-3 py-2 text-base font-medium text-gray-700 hover:text-emerald-600 hover:bg-gray-50 rounded-md flex items-center justify-between"
+                        onClick={() => setIsMenuOpen(false)}
+                      >
+                        <span>Notifications</span>
+                        {unreadCount > 0 && (
+                          <span className="min-w-[20px] h-5 px-1.5 rounded-full bg-red-500 text-white text-xs font-semibold flex items-center justify-center">
+                            {unreadLabel}
+                          </span>
+                        )}
+                      </Link>
                       <Link
                         to="/profile"
                         className="block px-3 py-2 text-base font-medium text-gray-700 hover:text-emerald-600 hover:bg-gray-50 rounded-md"
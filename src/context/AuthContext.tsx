@@ -1,6 +1,7 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
+import { PreferencesService } from '../services/preferencesService';
 import toast from 'react-hot-toast';
 
 interface AuthContextType {
@@ -49,6 +50,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         setUser(session?.user ?? null);
         setLoading(false);
 
+        // Pick up preferences saved on other devices. Deferred because Supabase calls
+        // made inside this callback wait on the auth lock it holds.
+        if (session?.user && (event === 'INITIAL_SESSION' || event === 'SIGNED_IN')) {
+          setTimeout(() => PreferencesService.loadPreferences(), 0);
+        } else if (event === 'SIGNED_OUT') {
+          PreferencesService.clearCache();
+        }
+
         // Handle different auth events
         switch (event) {
           case 'SIGNED_IN':
@@ -0,0 +1,582 @@
+import { MealNutrition } from '../types';
+
+export interface FoodItem {
+  id: string;
+  name: string;
+  aliases: string[]; // other lower-case names the food is listed under
+  per100g: MealNutrition;
+  portions?: Record<string, number>; // grams per unit, e.g. { large: 50, slice: 30 }
+  density?: number; // g per ml, for foods measured by volume
+}
+
+// Bundled food composition table, per 100 g edible portion. Values are rounded
+// from USDA FoodData Central; grains, pasta and legumes are dry unless noted.
+export const FOOD_DATABASE: FoodItem[] = [
+  // Grains and bread
+  {
+    id: 'rolled_oats', name: 'Rolled oats', aliases: ['oats', 'oatmeal', 'porridge oats'],
+    per100g: { calories: 379, protein: 13.2, carbs: 67.7, fat: 6.5, fiber: 10.1, sugar: 1, sodium: 6, cholesterol: 0,
+      vitamins: { thiamin: 0.46, riboflavin: 0.16, niacin: 1.1, vitaminB6: 0.1, folate: 32 },
+      minerals: { calcium: 52, iron: 4.3, magnesium: 138, phosphorus: 410, potassium: 362, zinc: 3.6, copper: 0.4, manganese: 4.9, selenium: 29 } },
+    portions: { cup: 81 },
+    density: 0.34,
+  },
+  {
+    id: 'granola', name: 'Granola', aliases: [],
+    per100g: { calories: 471, protein: 10, carbs: 64, fat: 20, fiber: 7, sugar: 20, sodium: 26, cholesterol: 0,
+      vitamins: { vitaminE: 5, thiamin: 0.5, folate: 40 },
+      minerals: { calcium: 76, iron: 3.8, magnesium: 145, potassium: 460, zinc: 3 } },
+    portions: { cup: 120 },
+  },
+  {
+    id: 'whole_wheat_bread', name: 'Whole wheat bread', aliases: ['bread', 'wholemeal bread', 'whole grain bread', 'toast'],
+    per100g: { calories: 252, protein: 12.5, carbs: 43, fat: 3.5, fiber: 6, sugar: 4.4, sodium: 450, cholesterol: 0,
+      vitamins: { thiamin: 0.4, riboflavin: 0.2, niacin: 4.4, vitaminB6: 0.2, folate: 42 },
+      minerals: { calcium: 160, iron: 2.5, magnesium: 75, phosphorus: 210, potassium: 250, zinc: 1.8, selenium: 26 } },
+    portions: { slice: 32 },
+  },
+  {
+    id: 'flour_tortilla', name: 'Flour tortilla', aliases: ['tortilla', 'wrap', 'whole wheat tortilla'],
+    per100g: { calories: 306, protein: 8.2, carbs: 50, fat: 8, fiber: 3.5, sugar: 2.5, sodium: 600, cholesterol: 0,
+      vitamins: { thiamin: 0.5, folate: 100 },
+      minerals: { calcium: 140, iron: 3.4, magnesium: 25, potassium: 130 } },
+    portions: { large: 64, medium: 45, small: 30 },
+  },
+  {
+    id: 'corn_tortilla', name: 'Corn tortilla', aliases: ['corn tortillas'],
+    per100g: { calories: 218, protein: 5.7, carbs: 44.6, fat: 2.9, fiber: 6.3, sugar: 0.9, sodium: 45, cholesterol: 0,
+      vitamins: { thiamin: 0.1, niacin: 1.5, folate: 5 },
+      minerals: { calcium: 81, iron: 1.2, magnesium: 72, potassium: 186, zinc: 1.3 } },
+    portions: { medium: 26, small: 20 },
+  },
+  {
+    id: 'wheat_flour', name: 'Wheat flour', aliases: ['flour', 'all-purpose flour', 'plain flour'],
+    per100g: { calories: 364, protein: 10.3, carbs: 76.3, fat: 1, fiber: 2.7, sugar: 0.3, sodium: 2, cholesterol: 0,
+      vitamins: { thiamin: 0.8, riboflavin: 0.5, niacin: 5.9, folate: 183 },
+      minerals: { calcium: 15, iron: 4.6, magnesium: 22, phosphorus: 108, potassium: 107, zinc: 0.7, selenium: 34 } },
+    portions: { cup: 125 },
+    density: 0.53,
+  },
+  {
+    id: 'pasta', name: 'Pasta', aliases: ['whole wheat pasta', 'spaghetti', 'linguine', 'penne', 'lasagna sheets', 'lasagne sheets'],
+    per100g: { calories: 371, protein: 13, carbs: 75, fat: 1.5, fiber: 3.2, sugar: 2.7, sodium: 6, cholesterol: 0,
+      vitamins: { thiamin: 0.9, riboflavin: 0.4, niacin: 7.2, folate: 237 },
+      minerals: { calcium: 21, iron: 3.3, magnesium: 53, phosphorus: 189, potassium: 223, zinc: 1.4, selenium: 63 } },
+  },
+  {
+    id: 'white_rice', name: 'White rice', aliases: ['rice', 'basmati rice', 'arborio rice', 'jasmine rice'],
+    per100g: { calories: 360, protein: 6.6, carbs: 79, fat: 0.6, fiber: 1.3, sugar: 0.1, sodium: 1, cholesterol: 0,
+      vitamins: { thiamin: 0.07, niacin: 1.6, vitaminB6: 0.15, folate: 9 },
+      minerals: { calcium: 9, iron: 0.8, magnesium: 35, phosphorus: 115, potassium: 86, zinc: 1.2, manganese: 1.1, selenium: 15 } },
+    portions: { cup: 185 },
+    density: 0.78,
+  },
+  {
+    id: 'brown_rice', name: 'Brown rice', aliases: [],
+    per100g: { calories: 367, protein: 7.5, carbs: 76, fat: 3.2, fiber: 3.6, sugar: 0.7, sodium: 4, cholesterol: 0,
+      vitamins: { thiamin: 0.4, niacin: 5.1, vitaminB6: 0.5, folate: 20 },
+      minerals: { calcium: 9, iron: 1.5, magnesium: 143, phosphorus: 333, potassium: 223, zinc: 2, manganese: 3.7, selenium: 23 } },
+    portions: { cup: 190 },
+    density: 0.8,
+  },
+  {
+    id: 'quinoa', name: 'Quinoa', aliases: [],
+    per100g: { calories: 368, protein: 14.1, carbs: 64.2, fat: 6.1, fiber: 7, sugar: 0, sodium: 5, cholesterol: 0,
+      vitamins: { vitaminE: 2.4, thiamin: 0.36, riboflavin: 0.32, vitaminB6: 0.49, folate: 184 },
+      minerals: { calcium: 47, iron: 4.6, magnesium: 197, phosphorus: 457, potassium: 563, zinc: 3.1, copper: 0.6, manganese: 2, selenium: 8.5 } },
+    portions: { cup: 170 },
+    density: 0.72,
+  },
+
+  // Legumes and soy
+  {
+    id: 'lentils', name: 'Lentils', aliases: ['red lentils', 'green lentils', 'yellow dal', 'dal', 'toor dal', 'moong dal'],
+    per100g: { calories: 352, protein: 24.6, carbs: 63.4, fat: 1.1, fiber: 10.7, sugar: 2, sodium: 6, cholesterol: 0,
+      vitamins: { thiamin: 0.87, vitaminB6: 0.54, folate: 479 },
+      minerals: { calcium: 35, iron: 6.5, magnesium: 47, phosphorus: 281, potassium: 677, zinc: 3.3, copper: 0.75, manganese: 1.4 } },
+    portions: { cup: 192 },
+    density: 0.81,
+  },
+  {
+    id: 'chickpeas', name: 'Chickpeas', aliases: ['garbanzo beans', 'canned chickpeas'],
+    per100g: { calories: 164, protein: 8.9, carbs: 27.4, fat: 2.6, fiber: 7.6, sugar: 4.8, sodium: 7, cholesterol: 0,
+      vitamins: { vitaminC: 1.3, thiamin: 0.12, vitaminB6: 0.14, folate: 172 },
+      minerals: { calcium: 49, iron: 2.9, magnesium: 48, phosphorus: 168, potassium: 291, zinc: 1.5, manganese: 1 } },
+    portions: { cup: 164, can: 240 },
+  },
+  {
+    id: 'black_beans', name: 'Black beans', aliases: ['kidney beans', 'pinto beans', 'beans'],
+    per100g: { calories: 132, protein: 8.9, carbs: 23.7, fat: 0.5, fiber: 8.7, sugar: 0.3, sodium: 1, cholesterol: 0,
+      vitamins: { thiamin: 0.24, folate: 149 },
+      minerals: { calcium: 27, iron: 2.1, magnesium: 70, phosphorus: 140, potassium: 355, zinc: 1.1 } },
+    portions: { cup: 172, can: 240 },
+  },
+  {
+    id: 'white_beans', name: 'White beans', aliases: ['cannellini beans', 'navy beans', 'butter beans'],
+    per100g: { calories: 139, protein: 9.7, carbs: 25.1, fat: 0.4, fiber: 6.3, sugar: 0.3, sodium: 6, cholesterol: 0,
+      vitamins: { thiamin: 0.12, folate: 81 },
+      minerals: { calcium: 90, iron: 3.7, magnesium: 63, phosphorus: 169, potassium: 561, zinc: 1.4 } },
+    portions: { cup: 179, can: 240 },
+  },
+  {
+    id: 'firm_tofu', name: 'Firm tofu', aliases: ['tofu', 'extra firm tofu'],
+    per100g: { calories: 144, protein: 17.3, carbs: 2.8, fat: 8.7, fiber: 2.3, sugar: 0.6, sodium: 14, cholesterol: 0,
+      vitamins: { vitaminB6: 0.1, folate: 29 },
+      minerals: { calcium: 683, iron: 2.7, magnesium: 58, phosphorus: 190, potassium: 237, zinc: 1.6, selenium: 17 } },
+  },
+  {
+    id: 'hummus', name: 'Hummus', aliases: [],
+    per100g: { calories: 166, protein: 7.9, carbs: 14.3, fat: 9.6, fiber: 6, sugar: 0.3, sodium: 379, cholesterol: 0,
+      vitamins: { vitaminC: 0, thiamin: 0.18, vitaminB6: 0.2, folate: 83 },
+      minerals: { calcium: 38, iron: 2.4, magnesium: 71, phosphorus: 176, potassium: 228, zinc: 1.8 } },
+    portions: { tbsp: 15 },
+    density: 1.0,
+  },
+  {
+    id: 'green_peas', name: 'Green peas', aliases: ['peas', 'frozen peas'],
+    per100g: { calories: 81, protein: 5.4, carbs: 14.5, fat: 0.4, fiber: 5.1, sugar: 5.7, sodium: 5, cholesterol: 0,
+      vitamins: { vitaminA: 38, vitaminC: 40, vitaminK: 25, thiamin: 0.27, folate: 65 },
+      minerals: { calcium: 25, iron: 1.5, magnesium: 33, phosphorus: 108, potassium: 244, zinc: 1.2 } },
+    portions: { cup: 145 },
+  },
+
+  // Dairy and eggs
+  {
+    id: 'eggs', name: 'Eggs', aliases: ['egg', 'whole eggs'],
+    per100g: { calories: 143, protein: 12.6, carbs: 0.7, fat: 9.5, fiber: 0, sugar: 0.4, sodium: 142, cholesterol: 372,
+      vitamins: { vitaminA: 160, vitaminD: 2, vitaminE: 1.1, riboflavin: 0.46, vitaminB6: 0.17, folate: 47, vitaminB12: 0.9 },
+      minerals: { calcium: 56, iron: 1.8, magnesium: 12, phosphorus: 198, potassium: 138, zinc: 1.3, selenium: 31 } },
+    portions: { large: 50, medium: 44, small: 38 },
+  },
+  {
+    id: 'greek_yogurt', name: 'Greek yogurt', aliases: ['greek yoghurt', 'low-fat greek yogurt'],
+    per100g: { calories: 73, protein: 9.9, carbs: 3.9, fat: 1.9, fiber: 0, sugar: 3.6, sodium: 34, cholesterol: 5,
+      vitamins: { riboflavin: 0.23, vitaminB12: 0.75 },
+      minerals: { calcium: 115, magnesium: 11, phosphorus: 137, potassium: 141, zinc: 0.5, selenium: 9.7 } },
+    portions: { cup: 245 },
+    density: 1.04,
+  },
+  {
+    id: 'yogurt', name: 'Plain yogurt', aliases: ['yogurt', 'yoghurt', 'natural yogurt'],
+    per100g: { calories: 61, protein: 3.5, carbs: 4.7, fat: 3.3, fiber: 0, sugar: 4.7, sodium: 46, cholesterol: 13,
+      vitamins: { vitaminA: 27, riboflavin: 0.14, vitaminB12: 0.37 },
+      minerals: { calcium: 121, magnesium: 12, phosphorus: 95, potassium: 155, zinc: 0.6 } },
+    portions: { cup: 245 },
+    density: 1.03,
+  },
+  {
+    id: 'milk', name: 'Milk', aliases: ['semi-skimmed milk', 'whole milk', 'skim milk'],
+    per100g: { calories: 50, protein: 3.3, carbs: 4.8, fat: 2, fiber: 0, sugar: 5.1, sodium: 47, cholesterol: 8,
+      vitamins: { vitaminA: 55, vitaminD: 1.2, riboflavin: 0.19, vitaminB12: 0.5 },
+      minerals: { calcium: 120, magnesium: 11, phosphorus: 92, potassium: 140, zinc: 0.5 } },
+    portions: { cup: 244 },
+    density: 1.03,
+  },
+  {
+    id: 'almond_milk', name: 'Almond milk', aliases: ['unsweetened almond milk'],
+    per100g: { calories: 15, protein: 0.6, carbs: 0.6, fat: 1.1, fiber: 0.2, sugar: 0, sodium: 72, cholesterol: 0,
+      vitamins: { vitaminA: 63, vitaminD: 1, vitaminE: 6.3 },
+      minerals: { calcium: 184, potassium: 67 } },
+    portions: { cup: 240 },
+    density: 1,
+  },
+  {
+    id: 'cheddar', name: 'Cheddar cheese', aliases: ['cheddar', 'cheese'],
+    per100g: { calories: 403, protein: 24.9, carbs: 1.3, fat: 33.1, fiber: 0, sugar: 0.5, sodium: 621, cholesterol: 105,
+      vitamins: { vitaminA: 265, vitaminK: 2.8, riboflavin: 0.38, vitaminB12: 0.83 },
+      minerals: { calcium: 721, magnesium: 28, phosphorus: 512, potassium: 98, zinc: 3.1, selenium: 14 } },
+    portions: { slice: 28 },
+  },
+  {
+    id: 'feta', name: 'Feta cheese', aliases: ['feta'],
+    per100g: { calories: 264, protein: 14.2, carbs: 4.1, fat: 21.3, fiber: 0, sugar: 4.1, sodium: 1116, cholesterol: 89,
+      vitamins: { vitaminA: 125, riboflavin: 0.84, vitaminB12: 1.7 },
+      minerals: { calcium: 493, magnesium: 19, phosphorus: 337, potassium: 62, zinc: 2.9, selenium: 15 } },
+  },
+  {
+    id: 'mozzarella', name: 'Mozzarella', aliases: ['mozzarella cheese', 'fresh mozzarella'],
+    per100g: { calories: 280, protein: 27.5, carbs: 3.1, fat: 17.1, fiber: 0, sugar: 1.2, sodium: 627, cholesterol: 54,
+      vitamins: { vitaminA: 179, riboflavin: 0.3, vitaminB12: 0.9 },
+      minerals: { calcium: 731, magnesium: 26, phosphorus: 524, potassium: 95, zinc: 3.6, selenium: 17 } },
+  },
+  {
+    id: 'parmesan', name: 'Parmesan', aliases: ['parmesan cheese', 'parmigiano'],
+    per100g: { calories: 431, protein: 38.5, carbs: 4.1, fat: 28.6, fiber: 0, sugar: 0.9, sodium: 1529, cholesterol: 88,
+      vitamins: { vitaminA: 207, vitaminB12: 1.2 },
+      minerals: { calcium: 1184, magnesium: 44, phosphorus: 694, potassium: 125, zinc: 2.8, selenium: 22 } },
+    portions: { tbsp: 5 },
+  },
+  {
+    id: 'paneer', name: 'Paneer', aliases: ['cottage cheese'],
+    per100g: { calories: 296, protein: 18.3, carbs: 3.6, fat: 22.9, fiber: 0, sugar: 2.6, sodium: 18, cholesterol: 70,
+      vitamins: { vitaminA: 200, vitaminB12: 0.6 },
+      minerals: { calcium: 480, magnesium: 20, phosphorus: 320, potassium: 100, zinc: 2.7 } },
+  },
+  {
+    id: 'butter', name: 'Butter', aliases: [],
+    per100g: { calories: 717, protein: 0.9, carbs: 0.1, fat: 81.1, fiber: 0, sugar: 0.1, sodium: 11, cholesterol: 215,
+      vitamins: { vitaminA: 684, vitaminD: 1.5, vitaminE: 2.3 },
+      minerals: { calcium: 24, potassium: 24 } },
+    portions: { tbsp: 14, tsp: 5 },
+  },
+
+  // Meat and fish
+  {
+    id: 'chicken_breast', name: 'Chicken breast', aliases: ['chicken', 'skinless chicken breast', 'chicken fillet'],
+    per100g: { calories: 120, protein: 22.5, carbs: 0, fat: 2.6, fiber: 0, sugar: 0, sodium: 45, cholesterol: 73,
+      vitamins: { niacin: 9.6, vitaminB6: 0.8, vitaminB12: 0.2 },
+      minerals: { calcium: 5, iron: 0.4, magnesium: 28, phosphorus: 213, potassium: 334, zinc: 0.7, selenium: 22.8 } },
+  },
+  {
+    id: 'turkey_breast', name: 'Turkey breast', aliases: ['turkey', 'sliced turkey', 'ground turkey'],
+    per100g: { calories: 114, protein: 23.7, carbs: 0.1, fat: 1.5, fiber: 0, sugar: 0, sodium: 55, cholesterol: 56,
+      vitamins: { niacin: 9.9, vitaminB6: 0.8, vitaminB12: 0.6 },
+      minerals: { calcium: 8, iron: 0.6, magnesium: 30, phosphorus: 210, potassium: 300, zinc: 1.2, selenium: 27 } },
+  },
+  {
+    id: 'lean_beef', name: 'Lean beef', aliases: ['beef', 'beef sirloin', 'steak', 'beef strips'],
+    per100g: { calories: 158, protein: 22, carbs: 0, fat: 7.6, fiber: 0, sugar: 0, sodium: 56, cholesterol: 62,
+      vitamins: { niacin: 6.1, vitaminB6: 0.6, vitaminB12: 2.1 },
+      minerals: { calcium: 18, iron: 2.2, magnesium: 22, phosphorus: 201, potassium: 342, zinc: 4.7, selenium: 26 } },
+  },
+  {
+    id: 'ground_beef', name: 'Ground beef', aliases: ['minced beef', 'beef mince'],
+    per100g: { calories: 250, protein: 17.2, carbs: 0, fat: 20, fiber: 0, sugar: 0, sodium: 66, cholesterol: 71,
+      vitamins: { niacin: 4.2, vitaminB6: 0.3, vitaminB12: 2.2 },
+      minerals: { calcium: 14, iron: 1.9, magnesium: 17, phosphorus: 158, potassium: 270, zinc: 4.2, selenium: 15 } },
+  },
+  {
+    id: 'beef_jerky', name: 'Beef jerky', aliases: ['jerky'],
+    per100g: { calories: 410, protein: 33.2, carbs: 11, fat: 25.6, fiber: 1.8, sugar: 9, sodium: 1785, cholesterol: 48,
+      vitamins: { niacin: 1.7, vitaminB12: 1 },
+      minerals: { calcium: 20, iron: 5.4, magnesium: 51, phosphorus: 407, potassium: 597, zinc: 8.1, selenium: 10 } },
+  },
+  {
+    id: 'pork_tenderloin', name: 'Pork tenderloin', aliases: ['pork', 'pork loin'],
+    per100g: { calories: 121, protein: 21, carbs: 0, fat: 3.5, fiber: 0, sugar: 0, sodium: 53, cholesterol: 65,
+      vitamins: { thiamin: 1, niacin: 6.7, vitaminB6: 0.8, vitaminB12: 0.5 },
+      minerals: { calcium: 5, iron: 1, magnesium: 27, phosphorus: 247, potassium: 399, zinc: 1.9, selenium: 31 } },
+  },
+  {
+    id: 'pork_sausage', name: 'Pork sausage', aliases: ['sausage', 'breakfast sausage'],
+    per100g: { calories: 301, protein: 12, carbs: 1.5, fat: 27, fiber: 0, sugar: 1, sodium: 750, cholesterol: 70,
+      vitamins: { thiamin: 0.4, vitaminB12: 0.8 },
+      minerals: { calcium: 15, iron: 0.9, magnesium: 15, phosphorus: 150, potassium: 230, zinc: 1.7, selenium: 16 } },
+    portions: { link: 45 },
+  },
+  {
+    id: 'bacon', name: 'Bacon', aliases: ['bacon rashers'],
+    per100g: { calories: 541, protein: 37, carbs: 1.4, fat: 42, fiber: 0, sugar: 0, sodium: 1717, cholesterol: 110,
+      vitamins: { thiamin: 0.4, niacin: 11, vitaminB12: 1.2 },
+      minerals: { calcium: 11, iron: 1.4, magnesium: 34, phosphorus: 533, potassium: 565, zinc: 3.5, selenium: 62 } },
+    portions: { slice: 8, rasher: 8 },
+  },
+  {
+    id: 'salmon', name: 'Salmon', aliases: ['salmon fillet', 'atlantic salmon'],
+    per100g: { calories: 208, protein: 20.4, carbs: 0, fat: 13.4, fiber: 0, sugar: 0, sodium: 59, cholesterol: 55,
+      vitamins: { vitaminA: 58, vitaminD: 11, vitaminE: 3.6, niacin: 8.7, vitaminB6: 0.6, vitaminB12: 3.2 },
+      minerals: { calcium: 9, iron: 0.3, magnesium: 27, phosphorus: 240, potassium: 363, zinc: 0.4, selenium: 24 } },
+    portions: { fillet: 150 },
+  },
+  {
+    id: 'tuna', name: 'Tuna', aliases: ['canned tuna', 'tuna in water'],
+    per100g: { calories: 116, protein: 25.5, carbs: 0, fat: 0.8, fiber: 0, sugar: 0, sodium: 247, cholesterol: 30,
+      vitamins: { vitaminD: 1.7, niacin: 13.3, vitaminB6: 0.35, vitaminB12: 2.5 },
+      minerals: { calcium: 11, iron: 1.5, magnesium: 27, phosphorus: 217, potassium: 237, zinc: 0.8, selenium: 80 } },
+    portions: { can: 140 },
+  },
+  {
+    id: 'white_fish', name: 'White fish', aliases: ['cod', 'tilapia', 'haddock', 'cod fillet'],
+    per100g: { calories: 82, protein: 17.8, carbs: 0, fat: 0.7, fiber: 0, sugar: 0, sodium: 54, cholesterol: 43,
+      vitamins: { vitaminD: 0.9, niacin: 2.1, vitaminB6: 0.25, vitaminB12: 0.9 },
+      minerals: { calcium: 16, iron: 0.4, magnesium: 32, phosphorus: 203, potassium: 413, zinc: 0.5, selenium: 33 } },
+    portions: { fillet: 120 },
+  },
+  {
+    id: 'shrimp', name: 'Shrimp', aliases: ['prawns', 'king prawns'],
+    per100g: { calories: 85, protein: 20.1, carbs: 0, fat: 0.5, fiber: 0, sugar: 0, sodium: 119, cholesterol: 161,
+      vitamins: { vitaminE: 1.3, niacin: 2.7, vitaminB12: 1.1 },
+      minerals: { calcium: 64, iron: 0.5, magnesium: 35, phosphorus: 214, potassium: 264, zinc: 1.3, copper: 0.2, selenium: 38 } },
+  },
+
+  // Vegetables
+  {
+    id: 'spinach', name: 'Spinach', aliases: ['baby spinach'],
+    per100g: { calories: 23, protein: 2.9, carbs: 3.6, fat: 0.4, fiber: 2.2, sugar: 0.4, sodium: 79, cholesterol: 0,
+      vitamins: { vitaminA: 469, vitaminC: 28, vitaminE: 2, vitaminK: 483, riboflavin: 0.19, vitaminB6: 0.2, folate: 194 },
+      minerals: { calcium: 99, iron: 2.7, magnesium: 79, phosphorus: 49, potassium: 558, zinc: 0.5, manganese: 0.9 } },
+    portions: { cup: 30 },
+  },
+  {
+    id: 'mixed_greens', name: 'Mixed greens', aliases: ['salad leaves', 'lettuce', 'rocket', 'arugula', 'mixed salad'],
+    per100g: { calories: 17, protein: 1.5, carbs: 3.2, fat: 0.3, fiber: 2, sugar: 1.2, sodium: 20, cholesterol: 0,
+      vitamins: { vitaminA: 250, vitaminC: 15, vitaminK: 120, folate: 100 },
+      minerals: { calcium: 50, iron: 1, magnesium: 15, potassium: 250 } },
+    portions: { cup: 36 },
+  },
+  {
+    id: 'kale', name: 'Kale', aliases: [],
+    per100g: { calories: 49, protein: 4.3, carbs: 8.8, fat: 0.9, fiber: 3.6, sugar: 2.3, sodium: 38, cholesterol: 0,
+      vitamins: { vitaminA: 241, vitaminC: 120, vitaminK: 390, folate: 141 },
+      minerals: { calcium: 150, iron: 1.5, magnesium: 47, potassium: 491, manganese: 0.7 } },
+    portions: { cup: 21 },
+  },
+  {
+    id: 'broccoli', name: 'Broccoli', aliases: ['broccoli florets', 'tenderstem broccoli'],
+    per100g: { calories: 34, protein: 2.8, carbs: 6.6, fat: 0.4, fiber: 2.6, sugar: 1.7, sodium: 33, cholesterol: 0,
+      vitamins: { vitaminA: 31, vitaminC: 89, vitaminK: 102, vitaminB6: 0.18, folate: 63 },
+      minerals: { calcium: 47, iron: 0.7, magnesium: 21, phosphorus: 66, potassium: 316, zinc: 0.4 } },
+    portions: { cup: 91 },
+  },
+  {
+    id: 'bell_pepper', name: 'Bell pepper', aliases: ['bell peppers', 'red pepper', 'green pepper', 'peppers'],
+    per100g: { calories: 31, protein: 1, carbs: 6, fat: 0.3, fiber: 2.1, sugar: 4.2, sodium: 4, cholesterol: 0,
+      vitamins: { vitaminA: 157, vitaminC: 128, vitaminE: 1.6, vitaminB6: 0.3, folate: 46 },
+      minerals: { calcium: 7, iron: 0.4, magnesium: 12, potassium: 211 } },
+    portions: { large: 165, medium: 120, small: 75 },
+  },
+  {
+    id: 'carrot', name: 'Carrot', aliases: ['carrots', 'carrot sticks'],
+    per100g: { calories: 41, protein: 0.9, carbs: 9.6, fat: 0.2, fiber: 2.8, sugar: 4.7, sodium: 69, cholesterol: 0,
+      vitamins: { vitaminA: 835, vitaminC: 5.9, vitaminK: 13, folate: 19 },
+      minerals: { calcium: 33, iron: 0.3, magnesium: 12, potassium: 320 } },
+    portions: { large: 72, medium: 61, small: 50 },
+  },
+  {
+    id: 'cucumber', name: 'Cucumber', aliases: [],
+    per100g: { calories: 15, protein: 0.7, carbs: 3.6, fat: 0.1, fiber: 0.5, sugar: 1.7, sodium: 2, cholesterol: 0,
+      vitamins: { vitaminC: 2.8, vitaminK: 16 },
+      minerals: { calcium: 16, magnesium: 13, potassium: 147 } },
+    portions: { medium: 200 },
+  },
+  {
+    id: 'tomato', name: 'Tomato', aliases: ['tomatoes', 'cherry tomatoes', 'chopped tomatoes', 'canned tomatoes', 'marinara sauce', 'tomato sauce'],
+    per100g: { calories: 18, protein: 0.9, carbs: 3.9, fat: 0.2, fiber: 1.2, sugar: 2.6, sodium: 5, cholesterol: 0,
+      vitamins: { vitaminA: 42, vitaminC: 14, vitaminK: 7.9, folate: 15 },
+      minerals: { calcium: 10, iron: 0.3, magnesium: 11, potassium: 237 } },
+    portions: { large: 182, medium: 123, small: 91, can: 400 },
+  },
+  {
+    id: 'onion', name: 'Onion', aliases: ['red onion', 'white onion', 'yellow onion', 'spring onion'],
+    per100g: { calories: 40, protein: 1.1, carbs: 9.3, fat: 0.1, fiber: 1.7, sugar: 4.2, sodium: 4, cholesterol: 0,
+      vitamins: { vitaminC: 7.4, vitaminB6: 0.12, folate: 19 },
+      minerals: { calcium: 23, magnesium: 10, potassium: 146 } },
+    portions: { large: 150, medium: 110, small: 70 },
+  },
+  {
+    id: 'garlic', name: 'Garlic', aliases: ['garlic cloves'],
+    per100g: { calories: 149, protein: 6.4, carbs: 33.1, fat: 0.5, fiber: 2.1, sugar: 1, sodium: 17, cholesterol: 0,
+      vitamins: { vitaminC: 31, vitaminB6: 1.2 },
+      minerals: { calcium: 181, iron: 1.7, magnesium: 25, potassium: 401, manganese: 1.7 } },
+    portions: { clove: 3 },
+  },
+  {
+    id: 'zucchini', name: 'Zucchini', aliases: ['courgette'],
+    per100g: { calories: 17, protein: 1.2, carbs: 3.1, fat: 0.3, fiber: 1, sugar: 2.5, sodium: 8, cholesterol: 0,
+      vitamins: { vitaminA: 10, vitaminC: 17.9, vitaminK: 4.3, vitaminB6: 0.16, folate: 24 },
+      minerals: { calcium: 16, iron: 0.4, magnesium: 18, potassium: 261 } },
+    portions: { medium: 196 },
+  },
+  {
+    id: 'eggplant', name: 'Eggplant', aliases: ['aubergine'],
+    per100g: { calories: 25, protein: 1, carbs: 5.9, fat: 0.2, fiber: 3, sugar: 3.5, sodium: 2, cholesterol: 0,
+      vitamins: { vitaminC: 2.2, vitaminK: 3.5, folate: 22 },
+      minerals: { calcium: 9, iron: 0.2, magnesium: 14, potassium: 229, manganese: 0.2 } },
+    portions: { medium: 458 },
+  },
+  {
+    id: 'cauliflower', name: 'Cauliflower', aliases: ['cauliflower florets', 'cauliflower rice'],
+    per100g: { calories: 25, protein: 1.9, carbs: 5, fat: 0.3, fiber: 2, sugar: 1.9, sodium: 30, cholesterol: 0,
+      vitamins: { vitaminC: 48, vitaminK: 15.5, vitaminB6: 0.18, folate: 57 },
+      minerals: { calcium: 22, iron: 0.4, magnesium: 15, potassium: 299 } },
+    portions: { cup: 107 },
+  },
+  {
+    id: 'mushrooms', name: 'Mushrooms', aliases: ['mushroom', 'button mushrooms', 'chestnut mushrooms'],
+    per100g: { calories: 22, protein: 3.1, carbs: 3.3, fat: 0.3, fiber: 1, sugar: 2, sodium: 5, cholesterol: 0,
+      vitamins: { vitaminD: 0.2, riboflavin: 0.4, niacin: 3.6, folate: 17 },
+      minerals: { calcium: 3, iron: 0.5, magnesium: 9, phosphorus: 86, potassium: 318, copper: 0.3, selenium: 9.3 } },
+    portions: { cup: 70 },
+  },
+  {
+    id: 'sweet_potato', name: 'Sweet potato', aliases: ['sweet potatoes'],
+    per100g: { calories: 86, protein: 1.6, carbs: 20.1, fat: 0.1, fiber: 3, sugar: 4.2, sodium: 55, cholesterol: 0,
+      vitamins: { vitaminA: 709, vitaminC: 2.4, vitaminB6: 0.2, folate: 11 },
+      minerals: { calcium: 30, iron: 0.6, magnesium: 25, potassium: 337, manganese: 0.3 } },
+    portions: { medium: 130 },
+  },
+  {
+    id: 'potato', name: 'Potato', aliases: ['potatoes', 'hash browns'],
+    per100g: { calories: 77, protein: 2, carbs: 17, fat: 0.1, fiber: 2.2, sugar: 0.8, sodium: 6, cholesterol: 0,
+      vitamins: { vitaminC: 19.7, vitaminB6: 0.3, folate: 15 },
+      minerals: { calcium: 12, iron: 0.8, magnesium: 23, phosphorus: 57, potassium: 425 } },
+    portions: { large: 300, medium: 213, small: 170 },
+  },
+  {
+    id: 'mixed_vegetables', name: 'Mixed vegetables', aliases: ['mixed veggies', 'stir-fry vegetables', 'frozen mixed vegetables', 'vegetables'],
+    per100g: { calories: 65, protein: 2.9, carbs: 13.1, fat: 0.5, fiber: 4, sugar: 3.1, sodium: 47, cholesterol: 0,
+      vitamins: { vitaminA: 390, vitaminC: 8.5, vitaminK: 23, folate: 36 },
+      minerals: { calcium: 25, iron: 0.9, magnesium: 24, potassium: 212 } },
+    portions: { cup: 135 },
+  },
+  {
+    id: 'sweetcorn', name: 'Sweetcorn', aliases: ['corn', 'sweet corn', 'corn kernels'],
+    per100g: { calories: 86, protein: 3.3, carbs: 19, fat: 1.4, fiber: 2, sugar: 6.3, sodium: 15, cholesterol: 0,
+      vitamins: { vitaminA: 9, vitaminC: 6.8, thiamin: 0.16, folate: 42 },
+      minerals: { calcium: 2, iron: 0.5, magnesium: 37, potassium: 270 } },
+    portions: { cup: 145 },
+  },
+  {
+    id: 'avocado', name: 'Avocado', aliases: [],
+    per100g: { calories: 160, protein: 2, carbs: 8.5, fat: 14.7, fiber: 6.7, sugar: 0.7, sodium: 7, cholesterol: 0,
+      vitamins: { vitaminA: 7, vitaminC: 10, vitaminE: 2.1, vitaminK: 21, vitaminB6: 0.26, folate: 81 },
+      minerals: { calcium: 12, iron: 0.6, magnesium: 29, potassium: 485, copper: 0.2 } },
+    portions: { large: 200, medium: 150, small: 100 },
+  },
+
+  // Fruit
+  {
+    id: 'banana', name: 'Banana', aliases: ['bananas'],
+    per100g: { calories: 89, protein: 1.1, carbs: 22.8, fat: 0.3, fiber: 2.6, sugar: 12.2, sodium: 1, cholesterol: 0,
+      vitamins: { vitaminC: 8.7, vitaminB6: 0.37, folate: 20 },
+      minerals: { calcium: 5, iron: 0.3, magnesium: 27, potassium: 358, manganese: 0.3 } },
+    portions: { large: 136, medium: 118, small: 101 },
+  },
+  {
+    id: 'apple', name: 'Apple', aliases: ['apples'],
+    per100g: { calories: 52, protein: 0.3, carbs: 13.8, fat: 0.2, fiber: 2.4, sugar: 10.4, sodium: 1, cholesterol: 0,
+      vitamins: { vitaminC: 4.6, vitaminK: 2.2 },
+      minerals: { calcium: 6, iron: 0.1, magnesium: 5, potassium: 107 } },
+    portions: { large: 223, medium: 182, small: 149 },
+  },
+  {
+    id: 'mixed_berries', name: 'Mixed berries', aliases: ['berries', 'blueberries', 'strawberries', 'raspberries'],
+    per100g: { calories: 48, protein: 0.8, carbs: 11.5, fat: 0.4, fiber: 3.5, sugar: 7, sodium: 1, cholesterol: 0,
+      vitamins: { vitaminC: 35, vitaminK: 12, folate: 20 },
+      minerals: { calcium: 18, iron: 0.5, magnesium: 15, potassium: 140, manganese: 0.5 } },
+    portions: { cup: 145 },
+    density: 0.6,
+  },
+  {
+    id: 'mixed_fruit', name: 'Mixed fruit', aliases: ['mixed fruits', 'fruit salad', 'fresh fruit'],
+    per100g: { calories: 50, protein: 0.7, carbs: 12.7, fat: 0.2, fiber: 1.8, sugar: 10, sodium: 2, cholesterol: 0,
+      vitamins: { vitaminA: 20, vitaminC: 30, folate: 15 },
+      minerals: { calcium: 12, iron: 0.2, magnesium: 10, potassium: 180 } },
+    portions: { cup: 150 },
+  },
+  {
+    id: 'orange', name: 'Orange', aliases: ['oranges'],
+    per100g: { calories: 47, protein: 0.9, carbs: 11.8, fat: 0.1, fiber: 2.4, sugar: 9.4, sodium: 0, cholesterol: 0,
+      vitamins: { vitaminA: 11, vitaminC: 53, thiamin: 0.09, folate: 30 },
+      minerals: { calcium: 40, iron: 0.1, magnesium: 10, potassium: 181 } },
+    portions: { large: 184, medium: 131, small: 96 },
+  },
+  {
+    id: 'lemon', name: 'Lemon', aliases: ['lemon juice', 'lime', 'lime juice'],
+    per100g: { calories: 29, protein: 1.1, carbs: 9.3, fat: 0.3, fiber: 2.8, sugar: 2.5, sodium: 2, cholesterol: 0,
+      vitamins: { vitaminC: 53, folate: 11 },
+      minerals: { calcium: 26, iron: 0.6, magnesium: 8, potassium: 138 } },
+    portions: { medium: 58, tbsp: 15 },
+  },
+
+  // Nuts, seeds and fats
+  {
+    id: 'almonds', name: 'Almonds', aliases: ['almond', 'flaked almonds'],
+    per100g: { calories: 579, protein: 21.2, carbs: 21.6, fat: 49.9, fiber: 12.5, sugar: 4.4, sodium: 1, cholesterol: 0,
+      vitamins: { vitaminE: 25.6, riboflavin: 1.1, niacin: 3.6, folate: 44 },
+      minerals: { calcium: 269, iron: 3.7, magnesium: 270, phosphorus: 481, potassium: 733, zinc: 3.1, copper: 1, manganese: 2.2 } },
+  },
+  {
+    id: 'walnuts', name: 'Walnuts', aliases: ['walnut'],
+    per100g: { calories: 654, protein: 15.2, carbs: 13.7, fat: 65.2, fiber: 6.7, sugar: 2.6, sodium: 2, cholesterol: 0,
+      vitamins: { vitaminE: 0.7, vitaminB6: 0.54, folate: 98 },
+      minerals: { calcium: 98, iron: 2.9, magnesium: 158, phosphorus: 346, potassium: 441, zinc: 3.1, copper: 1.6, manganese: 3.4 } },
+  },
+  {
+    id: 'mixed_nuts', name: 'Mixed nuts', aliases: ['nuts', 'trail mix', 'cashews'],
+    per100g: { calories: 607, protein: 20, carbs: 21, fat: 54, fiber: 7, sugar: 4.5, sodium: 5, cholesterol: 0,
+      vitamins: { vitaminE: 11, thiamin: 0.5, folate: 50 },
+      minerals: { calcium: 105, iron: 3.7, magnesium: 225, phosphorus: 435, potassium: 600, zinc: 3.8, copper: 1.3, selenium: 10 } },
+  },
+  {
+    id: 'peanut_butter', name: 'Peanut butter', aliases: [],
+    per100g: { calories: 588, protein: 25.1, carbs: 20, fat: 50.4, fiber: 6, sugar: 9.2, sodium: 459, cholesterol: 0,
+      vitamins: { vitaminE: 9, niacin: 13.1, vitaminB6: 0.44, folate: 87 },
+      minerals: { calcium: 43, iron: 1.9, magnesium: 154, phosphorus: 358, potassium: 649, zinc: 2.8 } },
+    portions: { tbsp: 16, tsp: 5 },
+    density: 1.07,
+  },
+  {
+    id: 'almond_butter', name: 'Almond butter', aliases: [],
+    per100g: { calories: 614, protein: 21, carbs: 18.8, fat: 55.5, fiber: 10.3, sugar: 4.4, sodium: 7, cholesterol: 0,
+      vitamins: { vitaminE: 24.2, riboflavin: 0.9, folate: 53 },
+      minerals: { calcium: 347, iron: 3.5, magnesium: 279, phosphorus: 508, potassium: 748, zinc: 3.3 } },
+    portions: { tbsp: 16, tsp: 5 },
+    density: 1.07,
+  },
+  {
+    id: 'chia_seeds', name: 'Chia seeds', aliases: ['chia'],
+    per100g: { calories: 486, protein: 16.5, carbs: 42.1, fat: 30.7, fiber: 34.4, sugar: 0, sodium: 16, cholesterol: 0,
+      vitamins: { vitaminE: 0.5, thiamin: 0.62, niacin: 8.8 },
+      minerals: { calcium: 631, iron: 7.7, magnesium: 335, phosphorus: 860, potassium: 407, zinc: 4.6, manganese: 2.7, selenium: 55 } },
+    portions: { tbsp: 12 },
+    density: 0.65,
+  },
+  {
+    id: 'tahini', name: 'Tahini', aliases: ['sesame paste'],
+    per100g: { calories: 595, protein: 17, carbs: 21.2, fat: 53.8, fiber: 9.3, sugar: 0.5, sodium: 115, cholesterol: 0,
+      vitamins: { thiamin: 1.2, folate: 98 },
+      minerals: { calcium: 426, iron: 8.9, magnesium: 362, phosphorus: 732, potassium: 414, zinc: 4.6, copper: 1.6 } },
+    portions: { tbsp: 15 },
+    density: 0.96,
+  },
+  {
+    id: 'olive_oil', name: 'Olive oil', aliases: ['extra virgin olive oil', 'oil', 'vegetable oil'],
+    per100g: { calories: 884, protein: 0, carbs: 0, fat: 100, fiber: 0, sugar: 0, sodium: 2, cholesterol: 0,
+      vitamins: { vitaminE: 14.4, vitaminK: 60 },
+      minerals: { iron: 0.6, potassium: 1 } },
+    portions: { tbsp: 13.5, tsp: 4.5 },
+    density: 0.91,
+  },
+  {
+    id: 'coconut_oil', name: 'Coconut oil', aliases: [],
+    per100g: { calories: 862, protein: 0, carbs: 0, fat: 100, fiber: 0, sugar: 0, sodium: 0, cholesterol: 0,
+      vitamins: { vitaminE: 0.1 },
+      minerals: {} },
+    portions: { tbsp: 13.6, tsp: 4.5 },
+    density: 0.92,
+  },
+
+  // Other
+  {
+    id: 'honey', name: 'Honey', aliases: [],
+    per100g: { calories: 304, protein: 0.3, carbs: 82.4, fat: 0, fiber: 0.2, sugar: 82.1, sodium: 4, cholesterol: 0,
+      vitamins: { vitaminC: 0.5 },
+      minerals: { calcium: 6, iron: 0.4, potassium: 52 } },
+    portions: { tbsp: 21, tsp: 7 },
+    density: 1.42,
+  },
+  {
+    id: 'whey_protein', name: 'Protein powder', aliases: ['whey protein', 'protein powder'],
+    per100g: { calories: 400, protein: 78, carbs: 8, fat: 6, fiber: 0, sugar: 5, sodium: 200, cholesterol: 150,
+      vitamins: { riboflavin: 0.5, vitaminB12: 1 },
+      minerals: { calcium: 500, magnesium: 170, phosphorus: 400, potassium: 600 } },
+    portions: { scoop: 30 },
+  },
+  {
+    id: 'soy_sauce', name: 'Soy sauce', aliases: ['tamari'],
+    per100g: { calories: 53, protein: 8.1, carbs: 4.9, fat: 0.6, fiber: 0.8, sugar: 0.4, sodium: 5493, cholesterol: 0,
+      vitamins: { niacin: 3.4, vitaminB6: 0.15 },
+      minerals: { calcium: 33, iron: 1.5, magnesium: 43, potassium: 435 } },
+    portions: { tbsp: 16, tsp: 5 },
+    density: 1.1,
+  },
+  {
+    id: 'coconut_milk', name: 'Coconut milk', aliases: ['light coconut milk'],
+    per100g: { calories: 197, protein: 2, carbs: 2.8, fat: 21.3, fiber: 0, sugar: 2.8, sodium: 13, cholesterol: 0,
+      vitamins: { folate: 14 },
+      minerals: { calcium: 18, iron: 3.3, magnesium: 46, potassium: 220, manganese: 0.8 } },
+    portions: { can: 400, cup: 226 },
+    density: 1,
+  },
+];
@@ -0,0 +1,101 @@
+// Typical supermarket prices in USD per 100 g (or 100 ml for liquids), keyed by
+// food database id. Rough mid-range store-brand averages, good enough to compare
+// meals and spot expensive days rather than to predict a receipt.
+export const FOOD_PRICES: Record<string, number> = {
+  // Grains and bread
+  rolled_oats: 0.18,
+  granola: 0.9,
+  whole_wheat_bread: 0.55,
+  flour_tortilla: 0.6,
+  corn_tortilla: 0.45,
+  wheat_flour: 0.1,
+  pasta: 0.3,
+  white_rice: 0.2,
+  brown_rice: 0.3,
+  quinoa: 1.1,
+
+  // Legumes and soy
+  lentils: 0.35,
+  chickpeas: 0.3,
+  black_beans: 0.28,
+  white_beans: 0.3,
+  firm_tofu: 0.8,
+  hummus: 1.2,
+  green_peas: 0.4,
+
+  // Dairy and eggs
+  eggs: 0.75,
+  greek_yogurt: 0.9,
+  yogurt: 0.5,
+  milk: 0.1,
+  almond_milk: 0.2,
+  cheddar: 1.6,
+  feta: 2.0,
+  mozzarella: 1.6,
+  parmesan: 3.5,
+  paneer: 2.0,
+  butter: 1.5,
+
+  // Meat and fish
+  chicken_breast: 1.3,
+  turkey_breast: 1.6,
+  lean_beef: 2.6,
+  ground_beef: 1.3,
+  beef_jerky: 6.0,
+  pork_tenderloin: 1.3,
+  pork_sausage: 1.1,
+  bacon: 1.8,
+  salmon: 3.0,
+  tuna: 1.2,
+  white_fish: 2.0,
+  shrimp: 2.6,
+
+  // Vegetables
+  spinach: 1.0,
+  mixed_greens: 1.2,
+  kale: 0.9,
+  broccoli: 0.55,
+  bell_pepper: 0.6,
+  carrot: 0.2,
+  cucumber: 0.35,
+  tomato: 0.45,
+  onion: 0.2,
+  garlic: 1.0,
+  zucchini: 0.45,
+  eggplant: 0.45,
+  cauliflower: 0.5,
+  mushrooms: 0.9,
+  sweet_potato: 0.35,
+  potato: 0.2,
+  mixed_vegetables: 0.4,
+  sweetcorn: 0.35,
+
+  // Fruit
+  avocado: 1.0,
+  banana: 0.15,
+  apple: 0.4,
+  mixed_berries: 1.2,
+  mixed_fruit: 0.6,
+  orange: 0.35,
+  lemon: 0.6,
+
+  // Nuts, seeds and spreads
+  almonds: 2.0,
+  walnuts: 2.2,
+  mixed_nuts: 2.0,
+  peanut_butter: 0.7,
+  almond_butter: 2.2,
+  chia_seeds: 1.8,
+  tahini: 1.5,
+
+  // Oils, sweeteners and extras
+  olive_oil: 1.2,
+  coconut_oil: 1.5,
+  honey: 1.2,
+  whey_protein: 3.0,
+  soy_sauce: 0.6,
+  coconut_milk: 0.5,
+};
+
+// Used for ingredients the food database can't resolve, priced by their listed calories
+export const DEFAULT_PRICE_PER_100_KCAL = 0.35;
@@ -0,0 +1,84 @@
+export type GroceryAisle =
+  | 'produce'
+  | 'meat_seafood'
+  | 'dairy_eggs'
+  | 'bakery'
+  | 'grains_pasta'
+  | 'canned_dry'
+  | 'nuts_seeds'
+  | 'oils_condiments'
+  | 'spices_baking'
+  | 'frozen'
+  | 'beverages'
+  | 'other';
+
+export interface GroceryAisleDefinition {
+  label: string;
+  keywords: string[];
+}
+
+// Listed in a typical walk through the store; the shopping list is grouped in this order.
+// An ingredient goes to the aisle with the longest matching keyword, so
+// "peanut butter" lands in nuts & seeds rather than dairy.
+export const GROCERY_AISLES: Record<GroceryAisle, GroceryAisleDefinition> = {
+  produce: {
+    label: 'Fruit & Vegetables',
+    keywords: [
+      'spinach', 'kale', 'lettuce', 'greens', 'salad', 'rocket', 'arugula', 'broccoli', 'pepper', 'carrot', 'cucumber',
+      'tomato', 'onion', 'garlic', 'ginger', 'zucchini', 'courgette', 'eggplant', 'aubergine', 'cauliflower', 'mushroom',
+      'potato', 'sweet potato', 'vegetable', 'celery', 'asparagus', 'green bean', 'cabbage', 'avocado', 'banana', 'apple',
+      'berries', 'berry', 'fruit', 'orange', 'lemon', 'lime', 'grape', 'mango', 'pineapple', 'pear', 'peach', 'herb',
+      'basil', 'cilantro', 'coriander', 'parsley', 'mint', 'dill', 'chili', 'jalapeno', 'peas', 'corn', 'sweetcorn',
+    ],
+  },
+  meat_seafood: {
+    label: 'Meat & Seafood',
+    keywords: [
+      'chicken', 'turkey', 'beef', 'steak', 'mince', 'pork', 'sausage', 'bacon', 'ham', 'lamb', 'salmon', 'tuna',
+      'fish', 'cod', 'tilapia', 'haddock', 'shrimp', 'prawn', 'jerky',
+    ],
+  },
+  dairy_eggs: {
+    label: 'Dairy & Eggs',
+    keywords: [
+      'egg', 'milk', 'yogurt', 'yoghurt', 'cheese', 'cheddar', 'feta', 'mozzarella', 'parmesan', 'paneer', 'butter',
+      'cream', 'kefir', 'tofu',
+    ],
+  },
+  bakery: {
+    label: 'Bakery',
+    keywords: ['bread', 'toast', 'tortilla', 'wrap', 'bagel', 'pita', 'naan', 'bun', 'roll'],
+  },
+  grains_pasta: {
+    label: 'Grains & Pasta',
+    keywords: ['rice', 'pasta', 'spaghetti', 'linguine', 'penne', 'lasagna', 'lasagne', 'quinoa', 'couscous', 'oats', 'oatmeal', 'granola', 'cereal', 'noodle'],
+  },
+  canned_dry: {
+    label: 'Canned & Dry Goods',
+    keywords: ['lentil', 'dal', 'chickpea', 'bean', 'canned', 'tomato sauce', 'marinara', 'coconut milk', 'hummus', 'stock', 'broth'],
+  },
+  nuts_seeds: {
+    label: 'Nuts & Seeds',
+    keywords: ['almond', 'walnut', 'cashew', 'nuts', 'trail mix', 'peanut', 'peanut butter', 'almond butter', 'chia', 'flax', 'seeds', 'tahini'],
+  },
+  oils_condiments: {
+    label: 'Oils & Condiments',
+    keywords: ['oil', 'vinegar', 'soy sauce', 'tamari', 'mustard', 'mayo', 'mayonnaise', 'ketchup', 'sauce', 'dressing', 'honey', 'syrup'],
+  },
+  spices_baking: {
+    label: 'Spices & Baking',
+    keywords: ['salt', 'black pepper', 'cumin', 'paprika', 'turmeric', 'cinnamon', 'oregano', 'spice', 'seasoning', 'curry powder', 'flour', 'sugar', 'baking', 'vanilla', 'cocoa', 'protein powder'],
+  },
+  frozen: {
+    label: 'Frozen',
+    keywords: ['frozen peas', 'frozen vegetables', 'frozen mixed vegetables', 'frozen berries', 'frozen fruit', 'ice cream'],
+  },
+  beverages: {
+    label: 'Beverages',
+    keywords: ['juice', 'coffee', 'tea', 'water', 'almond milk', 'oat milk', 'soy milk'],
+  },
+  other: {
+    label: 'Other',
+    keywords: [],
+  },
+};
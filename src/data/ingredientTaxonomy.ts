@@ -0,0 +1,155 @@
+import { UserProfile } from '../types';
+
+export type IngredientCategory =
+  | 'red_meat'
+  | 'pork'
+  | 'poultry'
+  | 'fish'
+  | 'shellfish'
+  | 'dairy'
+  | 'egg'
+  | 'gluten'
+  | 'grain'
+  | 'legume'
+  | 'peanut'
+  | 'tree_nut'
+  | 'soy'
+  | 'sesame'
+  | 'honey'
+  | 'added_sugar'
+  | 'high_carb';
+
+export interface IngredientCategoryDefinition {
+  label: string;
+  keywords: string[];
+  // Phrases that contain a keyword but don't belong to the category (e.g. "peanut butter" for dairy)
+  exceptions?: string[];
+}
+
+export const INGREDIENT_CATEGORIES: Record<IngredientCategory, IngredientCategoryDefinition> = {
+  red_meat: {
+    label: 'red meat',
+    keywords: ['beef', 'steak', 'lamb', 'veal', 'mutton', 'venison', 'goat', 'jerky', 'meatball', 'burger patty'],
+    exceptions: ['goat cheese', 'veggie burger patty', 'bean burger patty'],
+  },
+  pork: {
+    label: 'pork',
+    keywords: ['pork', 'bacon', 'ham', 'sausage', 'prosciutto', 'pancetta', 'chorizo', 'salami', 'pepperoni', 'lard', 'gelatin'],
+    exceptions: ['chicken sausage', 'turkey sausage', 'veggie sausage', 'turkey bacon'],
+  },
+  poultry: {
+    label: 'poultry',
+    keywords: ['chicken', 'turkey', 'duck', 'goose', 'quail', 'chicken sausage', 'turkey sausage', 'turkey bacon'],
+  },
+  fish: {
+    label: 'fish',
+    keywords: ['fish', 'salmon', 'tuna', 'cod', 'tilapia', 'trout', 'mackerel', 'sardine', 'anchovy', 'anchovies', 'halibut', 'haddock', 'sea bass', 'fish sauce'],
+    exceptions: ['shellfish'],
+  },
+  shellfish: {
+    label: 'shellfish',
+    keywords: ['shellfish', 'shrimp', 'prawn', 'crab', 'lobster', 'scallop', 'mussel', 'clam', 'oyster', 'squid', 'calamari', 'octopus'],
+  },
+  dairy: {
+    label: 'dairy',
+    keywords: ['milk', 'cheese', 'butter', 'yogurt', 'yoghurt', 'cream', 'paneer', 'mozzarella', 'parmesan', 'feta', 'ricotta', 'ghee', 'whey', 'casein', 'kefir'],
+    exceptions: [
+      'peanut butter', 'almond butter', 'cashew butter', 'nut butter', 'cocoa butter', 'sunflower seed butter',
+      'almond milk', 'oat milk', 'soy milk', 'rice milk', 'coconut milk', 'coconut cream', 'coconut yogurt', 'soy yogurt',
+      'vegan cheese', 'cream of tartar',
+    ],
+  },
+  egg: {
+    label: 'egg',
+    keywords: ['egg', 'omelet', 'omelette', 'mayonnaise', 'mayo', 'meringue'],
+    exceptions: ['eggplant', 'vegan mayo', 'vegan mayonnaise'],
+  },
+  gluten: {
+    label: 'gluten',
+    keywords: ['wheat', 'bread', 'flour', 'pasta', 'tortilla', 'barley', 'rye', 'couscous', 'seitan', 'bulgur', 'semolina', 'spelt', 'lasagna', 'linguine', 'spaghetti', 'granola', 'pancake', 'toast', 'bagel', 'crouton', 'soy sauce'],
+    exceptions: ['corn tortilla', 'rice flour', 'almond flour', 'coconut flour', 'tamari'],
+  },
+  grain: {
+    label: 'grain',
+    keywords: ['oat', 'oats', 'wheat', 'bread', 'flour', 'pasta', 'tortilla', 'rice', 'quinoa', 'barley', 'rye', 'corn', 'couscous', 'bulgur', 'granola', 'lasagna', 'linguine', 'spaghetti', 'pancake', 'toast', 'bagel'],
+    exceptions: ['almond flour', 'coconut flour', 'cauliflower rice'],
+  },
+  legume: {
+    label: 'legume',
+    keywords: ['bean', 'lentil', 'chickpea', 'pea', 'peanut', 'soy', 'tofu', 'tempeh', 'edamame', 'hummus', 'dal', 'falafel'],
+    exceptions: ['green bean', 'coffee bean', 'vanilla bean', 'snap pea', 'snow pea'],
+  },
+  peanut: {
+    label: 'peanut',
+    keywords: ['peanut', 'groundnut', 'satay'],
+  },
+  tree_nut: {
+    label: 'tree nut',
+    keywords: ['nut', 'almond', 'walnut', 'cashew', 'pecan', 'pistachio', 'hazelnut', 'macadamia', 'brazil nut', 'pine nut', 'praline', 'marzipan', 'pesto', 'trail mix'],
+    exceptions: ['nutmeg', 'coconut', 'butternut', 'peanut', 'doughnut', 'donut', 'chestnut mushroom'],
+  },
+  soy: {
+    label: 'soy',
+    keywords: ['soy', 'soya', 'tofu', 'tempeh', 'edamame', 'miso', 'tamari'],
+  },
+  sesame: {
+    label: 'sesame',
+    keywords: ['sesame', 'tahini', 'hummus', 'halva'],
+  },
+  honey: {
+    label: 'honey',
+    keywords: ['honey'],
+  },
+  added_sugar: {
+    label: 'added sugar',
+    keywords: ['sugar', 'syrup', 'honey', 'agave', 'molasses', 'candy', 'chocolate chip'],
+    exceptions: ['sugar snap'],
+  },
+  high_carb: {
+    label: 'high-carb',
+    keywords: ['rice', 'pasta', 'bread', 'oat', 'oats', 'flour', 'tortilla', 'quinoa', 'potato', 'hash brown', 'banana', 'corn', 'granola', 'couscous', 'lentil', 'chickpea', 'bean', 'hummus', 'dal', 'lasagna', 'linguine', 'spaghetti', 'pancake', 'toast', 'bagel', 'dried fruit', 'mixed fruit', 'fruit juice', 'orange juice', 'apple juice'],
+    exceptions: ['cauliflower rice', 'almond flour', 'coconut flour', 'green bean'],
+  },
+};
+
+// Categories each diet type rules out
+export const DIET_TYPE_EXCLUSIONS: Record<UserProfile['dietaryRestrictions']['dietType'], IngredientCategory[]> = {
+  omnivore: [],
+  vegetarian: ['red_meat', 'pork', 'poultry', 'fish', 'shellfish'],
+  vegan: ['red_meat', 'pork', 'poultry', 'fish', 'shellfish', 'dairy', 'egg', 'honey'],
+  pescatarian: ['red_meat', 'pork', 'poultry'],
+  keto: ['high_carb', 'added_sugar'],
+  paleo: ['grain', 'legume', 'dairy', 'added_sugar'],
+};
+
+// Allergy, intolerance and restriction labels (lower-cased) mapped to the categories they rule out.
+// Labels not listed here are matched literally against ingredient names.
+export const RULE_EXCLUSIONS: Record<string, IngredientCategory[]> = {
+  nuts: ['peanut', 'tree_nut'],
+  'tree nuts': ['tree_nut'],
+  peanuts: ['peanut'],
+  peanut: ['peanut'],
+  shellfish: ['shellfish'],
+  seafood: ['fish', 'shellfish'],
+  fish: ['fish'],
+  dairy: ['dairy'],
+  milk: ['dairy'],
+  lactose: ['dairy'],
+  eggs: ['egg'],
+  egg: ['egg'],
+  soy: ['soy'],
+  gluten: ['gluten'],
+  wheat: ['gluten'],
+  'celiac disease': ['gluten'],
+  sesame: ['sesame'],
+  pork: ['pork'],
+  'no pork': ['pork'],
+  halal: ['pork'],
+  kosher: ['pork', 'shellfish'],
+  beef: ['red_meat'],
+  'no beef': ['red_meat'],
+  'red meat': ['red_meat'],
+  sugar: ['added_sugar'],
+  'no added sugar': ['added_sugar'],
+  legumes: ['legume'],
+};
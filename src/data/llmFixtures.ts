@@ -0,0 +1,262 @@
+import { UserProfile } from '../types';
+
+type DietType = UserProfile['dietaryRestrictions']['dietType'];
+
+export interface FixtureMeal {
+  name: string;
+  description: string;
+  ingredients: { name: string; amount: number; unit: string; calories: number }[];
+  instructions: string[];
+  nutrition: { calories: number; protein: number; carbs: number; fat: number; fiber: number };
+  prepTime: number;
+  cookTime: number;
+  diets: DietType[];
+}
+
+const PLANT_BASED: DietType[] = ['omnivore', 'vegetarian', 'vegan', 'pescatarian'];
+const VEGETARIAN: DietType[] = ['omnivore', 'vegetarian', 'pescatarian'];
+
+// Canned responses for the offline fixture provider. Nutrition is given for the
+// listed portion; the provider scales each meal to the requested calorie slice.
+export const FIXTURE_MEALS: Record<'breakfast' | 'lunch' | 'dinner' | 'snack', FixtureMeal[]> = {
+  breakfast: [
+    {
+      name: 'Oats with Banana and Peanut Butter',
+      description: 'Rolled oats cooked in water, topped with banana and peanut butter',
+      ingredients: [
+        { name: 'Rolled oats', amount: 60, unit: 'g', calories: 228 },
+        { name: 'Banana', amount: 1, unit: 'medium', calories: 105 },
+        { name: 'Peanut butter', amount: 15, unit: 'g', calories: 88 },
+      ],
+      instructions: ['Simmer oats in water for 5 minutes', 'Top with sliced banana and peanut butter'],
+      nutrition: { calories: 421, protein: 13, carbs: 68, fat: 12, fiber: 9 },
+      prepTime: 5,
+      cookTime: 5,
+      diets: PLANT_BASED,
+    },
+    {
+      name: 'Spinach and Feta Omelette',
+      description: 'Three-egg omelette with wilted spinach and feta',
+      ingredients: [
+        { name: 'Eggs', amount: 3, unit: 'large', calories: 215 },
+        { name: 'Spinach', amount: 60, unit: 'g', calories: 14 },
+        { name: 'Feta cheese', amount: 30, unit: 'g', calories: 79 },
+        { name: 'Olive oil', amount: 5, unit: 'ml', calories: 40 },
+      ],
+      instructions: ['Wilt spinach in oil', 'Add beaten eggs and cook until set', 'Fold with crumbled feta'],
+      nutrition: { calories: 348, protein: 24, carbs: 3, fat: 26, fiber: 1 },
+      prepTime: 5,
+      cookTime: 8,
+      diets: [...VEGETARIAN, 'keto'],
+    },
+    {
+      name: 'Sweet Potato and Egg Hash',
+      description: 'Pan-fried sweet potato cubes with eggs and peppers',
+      ingredients: [
+        { name: 'Sweet potato', amount: 150, unit: 'g', calories: 129 },
+        { name: 'Eggs', amount: 2, unit: 'large', calories: 143 },
+        { name: 'Bell pepper', amount: 80, unit: 'g', calories: 25 },
+        { name: 'Olive oil', amount: 10, unit: 'ml', calories: 80 },
+      ],
+      instructions: ['Fry diced sweet potato until tender', 'Add peppers', 'Crack eggs on top and cover until set'],
+      nutrition: { calories: 377, protein: 15, carbs: 35, fat: 20, fiber: 5 },
+      prepTime: 10,
+      cookTime: 15,
+      diets: [...VEGETARIAN, 'paleo'],
+    },
+    {
+      name: 'Tofu Scramble',
+      description: 'Turmeric-spiced tofu scramble with tomatoes and toast',
+      ingredients: [
+        { name: 'Firm tofu', amount: 150, unit: 'g', calories: 216 },
+        { name: 'Tomato', amount: 1, unit: 'medium', calories: 22 },
+        { name: 'Whole wheat bread', amount: 1, unit: 'slices', calories: 80 },
+      ],
+      instructions: ['Crumble tofu into a hot pan with turmeric', 'Add chopped tomato', 'Serve with toast'],
+      nutrition: { calories: 318, protein: 25, carbs: 20, fat: 15, fiber: 4 },
+      prepTime: 5,
+      cookTime: 10,
+      diets: PLANT_BASED,
+    },
+  ],
+  lunch: [
+    {
+      name: 'Chickpea and Quinoa Bowl',
+      description: 'Quinoa with roasted chickpeas, cucumber and lemon-tahini dressing',
+      ingredients: [
+        { name: 'Quinoa', amount: 75, unit: 'g', calories: 276 },
+        { name: 'Chickpeas', amount: 120, unit: 'g', calories: 197 },
+        { name: 'Cucumber', amount: 100, unit: 'g', calories: 15 },
+        { name: 'Tahini', amount: 15, unit: 'g', calories: 89 },
+      ],
+      instructions: ['Cook quinoa', 'Roast chickpeas until crisp', 'Assemble with cucumber and dressing'],
+      nutrition: { calories: 577, protein: 23, carbs: 80, fat: 17, fiber: 15 },
+      prepTime: 10,
+      cookTime: 20,
+      diets: PLANT_BASED,
+    },
+    {
+      name: 'Grilled Chicken and Avocado Salad',
+      description: 'Grilled chicken over greens with avocado and olive oil',
+      ingredients: [
+        { name: 'Chicken breast', amount: 150, unit: 'g', calories: 248 },
+        { name: 'Avocado', amount: 0.5, unit: 'medium', calories: 120 },
+        { name: 'Mixed greens', amount: 80, unit: 'g', calories: 15 },
+        { name: 'Olive oil', amount: 10, unit: 'ml', calories: 80 },
+      ],
+      instructions: ['Season and grill chicken', 'Slice over greens with avocado', 'Dress with olive oil'],
+      nutrition: { calories: 463, protein: 48, carbs: 9, fat: 26, fiber: 6 },
+      prepTime: 10,
+      cookTime: 12,
+      diets: ['omnivore', 'keto', 'paleo'],
+    },
+    {
+      name: 'Lentil Dal with Brown Rice',
+      description: 'Red lentils simmered with tomato and spices, served with rice',
+      ingredients: [
+        { name: 'Red lentils', amount: 80, unit: 'g', calories: 282 },
+        { name: 'Brown rice', amount: 60, unit: 'g', calories: 218 },
+        { name: 'Tomato', amount: 1, unit: 'medium', calories: 22 },
+      ],
+      instructions: ['Simmer lentils with tomato and spices', 'Cook rice', 'Serve together'],
+      nutrition: { calories: 522, protein: 24, carbs: 96, fat: 3, fiber: 14 },
+      prepTime: 10,
+      cookTime: 25,
+      diets: PLANT_BASED,
+    },
+    {
+      name: 'Tuna and White Bean Salad',
+      description: 'Tuna with cannellini beans, red onion and parsley',
+      ingredients: [
+        { name: 'Tuna', amount: 120, unit: 'g', calories: 139 },
+        { name: 'White beans', amount: 150, unit: 'g', calories: 210 },
+        { name: 'Red onion', amount: 30, unit: 'g', calories: 12 },
+        { name: 'Olive oil', amount: 10, unit: 'ml', calories: 80 },
+      ],
+      instructions: ['Drain tuna and beans', 'Toss with onion, parsley and oil'],
+      nutrition: { calories: 441, protein: 44, carbs: 33, fat: 13, fiber: 10 },
+      prepTime: 10,
+      cookTime: 0,
+      diets: ['omnivore', 'pescatarian'],
+    },
+  ],
+  dinner: [
+    {
+      name: 'Baked Salmon with Roasted Vegetables',
+      description: 'Oven-baked salmon with broccoli and zucchini',
+      ingredients: [
+        { name: 'Salmon', amount: 150, unit: 'g', calories: 312 },
+        { name: 'Broccoli', amount: 150, unit: 'g', calories: 51 },
+        { name: 'Zucchini', amount: 150, unit: 'g', calories: 26 },
+        { name: 'Olive oil', amount: 10, unit: 'ml', calories: 80 },
+      ],
+      instructions: ['Toss vegetables in oil and roast for 10 minutes', 'Add salmon and bake 15 minutes more'],
+      nutrition: { calories: 469, protein: 36, carbs: 14, fat: 30, fiber: 6 },
+      prepTime: 10,
+      cookTime: 25,
+      diets: ['omnivore', 'pescatarian', 'keto', 'paleo'],
+    },
+    {
+      name: 'Black Bean and Vegetable Chili',
+      description: 'Hearty chili with black beans, peppers and corn',
+      ingredients: [
+        { name: 'Black beans', amount: 200, unit: 'g', calories: 264 },
+        { name: 'Bell pepper', amount: 100, unit: 'g', calories: 31 },
+        { name: 'Sweetcorn', amount: 80, unit: 'g', calories: 69 },
+        { name: 'Chopped tomatoes', amount: 200, unit: 'g', calories: 40 },
+      ],
+      instructions: ['Sauté peppers', 'Add beans, corn, tomatoes and spices', 'Simmer for 20 minutes'],
+      nutrition: { calories: 404, protein: 21, carbs: 72, fat: 3, fiber: 22 },
+      prepTime: 10,
+      cookTime: 25,
+      diets: PLANT_BASED,
+    },
+    {
+      name: 'Beef and Broccoli Stir-fry',
+      description: 'Lean beef strips stir-fried with broccoli and garlic',
+      ingredients: [
+        { name: 'Lean beef', amount: 150, unit: 'g', calories: 263 },
+        { name: 'Broccoli', amount: 150, unit: 'g', calories: 51 },
+        { name: 'Garlic', amount: 2, unit: 'cloves', calories: 9 },
+        { name: 'Coconut oil', amount: 10, unit: 'ml', calories: 86 },
+      ],
+      instructions: ['Sear beef strips in hot oil', 'Add broccoli and garlic', 'Stir-fry until tender'],
+      nutrition: { calories: 409, protein: 40, carbs: 11, fat: 23, fiber: 4 },
+      prepTime: 10,
+      cookTime: 10,
+      diets: ['omnivore', 'keto', 'paleo'],
+    },
+    {
+      name: 'Paneer and Pea Curry',
+      description: 'Paneer and green peas in a tomato curry sauce with rice',
+      ingredients: [
+        { name: 'Paneer', amount: 100, unit: 'g', calories: 265 },
+        { name: 'Green peas', amount: 80, unit: 'g', calories: 65 },
+        { name: 'Basmati rice', amount: 60, unit: 'g', calories: 210 },
+      ],
+      instructions: ['Simmer tomato sauce with spices', 'Add paneer and peas', 'Serve with rice'],
+      nutrition: { calories: 540, protein: 25, carbs: 55, fat: 24, fiber: 5 },
+      prepTime: 15,
+      cookTime: 20,
+      diets: VEGETARIAN,
+    },
+  ],
+  snack: [
+    {
+      name: 'Apple with Almonds',
+      description: 'A crisp apple and a handful of almonds',
+      ingredients: [
+        { name: 'Apple', amount: 1, unit: 'medium', calories: 95 },
+        { name: 'Almonds', amount: 20, unit: 'g', calories: 116 },
+      ],
+      instructions: ['Slice apple and serve with almonds'],
+      nutrition: { calories: 211, protein: 5, carbs: 29, fat: 10, fiber: 7 },
+      prepTime: 2,
+      cookTime: 0,
+      diets: ['omnivore', 'vegetarian', 'vegan', 'pescatarian', 'paleo'],
+    },
+    {
+      name: 'Greek Yogurt with Berries',
+      description: 'Plain Greek yogurt topped with mixed berries',
+      ingredients: [
+        { name: 'Greek yogurt', amount: 150, unit: 'g', calories: 146 },
+        { name: 'Mixed berries', amount: 80, unit: 'g', calories: 40 },
+      ],
+      instructions: ['Top yogurt with berries'],
+      nutrition: { calories: 186, protein: 15, carbs: 15, fat: 7, fiber: 2 },
+      prepTime: 2,
+      cookTime: 0,
+      diets: VEGETARIAN,
+    },
+    {
+      name: 'Hummus with Carrot Sticks',
+      description: 'Chickpea hummus with fresh carrot sticks',
+      ingredients: [
+        { name: 'Hummus', amount: 60, unit: 'g', calories: 100 },
+        { name: 'Carrot', amount: 100, unit: 'g', calories: 41 },
+      ],
+      instructions: ['Cut carrots into sticks and serve with hummus'],
+      nutrition: { calories: 141, protein: 5, carbs: 16, fat: 6, fiber: 6 },
+      prepTime: 3,
+      cookTime: 0,
+      diets: PLANT_BASED,
+    },
+    {
+      name: 'Cheese and Walnuts',
+      description: 'Aged cheddar with a few walnut halves',
+      ingredients: [
+        { name: 'Cheddar cheese', amount: 30, unit: 'g', calories: 121 },
+        { name: 'Walnuts', amount: 15, unit: 'g', calories: 98 },
+      ],
+      instructions: ['Serve together'],
+      nutrition: { calories: 219, protein: 10, carbs: 2, fat: 19, fiber: 1 },
+      prepTime: 1,
+      cookTime: 0,
+      diets: ['omnivore', 'vegetarian', 'pescatarian', 'keto'],
+    },
+  ],
+};
+
+export const FIXTURE_EXPLANATION =
+  'This recommendation balances your calorie target across the day, keeps protein evenly distributed ' +
+  'between meals, and only uses foods compatible with your diet type and allergies.';
@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import type { MealNutrition, MealsDataDocument } from '../types';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -27,21 +28,31 @@ export interface Database {
           email: string;
           phone_number: string | null;
           age: number;
-          gender: string;
+          gender: 'male' | 'female' | 'other';
           weight: number;
           height: number;
-          activity_level: string;
-          primary_goal: string;
+          body_fat_percentage: number | null;
+          activity_level: 'sedentary' | 'light' | 'moderate' | 'active' | 'very_active';
+          primary_goal: 'weight_loss' | 'muscle_gain' | 'maintenance' | 'general_health';
           target_weight: number | null;
           timeframe: string | null;
           allergies: string[];
-          diet_type: string;
+          diet_type: 'omnivore' | 'vegetarian' | 'vegan' | 'pescatarian' | 'keto' | 'paleo';
           cuisines: string[];
           breakfast_time: string;
           lunch_time: string;
           dinner_time: string;
-          budget_range: string;
+          budget_range: 'low' | 'medium' | 'high';
+          bmr_formula: 'mifflin_st_jeor' | 'katch_mcardle' | 'harris_benedict' | null;
+          sms_opt_in: boolean;
+          sms_opt_in_changed_at: string | null;
           medical_conditions: string[];
+          sport_activities: string[];
+          plan_duration_days: number;
+          plan_duration_type: 'days' | 'weeks' | 'months';
+          intolerances: string[];
+          restrictions: string[];
+          snack_times: string[];
           created_at: string;
           updated_at: string;
         };
@@ -52,21 +63,31 @@ export interface Database {
           email: string;
           phone_number?: string | null;
           age: number;
-          gender: string;
+          gender: 'male' | 'female' | 'other';
           weight: number;
           height: number;
-          activity_level: string;
-          primary_goal: string;
+          body_fat_percentage?: number | null;
+          activity_level: 'sedentary' | 'light' | 'moderate' | 'active' | 'very_active';
+          primary_goal: 'weight_loss' | 'muscle_gain' | 'maintenance' | 'general_health';
           target_weight?: number | null;
           timeframe?: string | null;
           allergies?: string[];
-          diet_type: string;
+          diet_type: 'omnivore' | 'vegetarian' | 'vegan' | 'pescatarian' | 'keto' | 'paleo';
           cuisines?: string[];
           breakfast_time: string;
           lunch_time: string;
           dinner_time: string;
-          budget_range: string;
+          budget_range: 'low' | 'medium' | 'high';
+          bmr_formula?: 'mifflin_st_jeor' | 'katch_mcardle' | 'harris_benedict' | null;
+          sms_opt_in?: boolean;
+          sms_opt_in_changed_at?: string | null;
           medical_conditions?: string[];
+          sport_activities?: string[];
+          plan_duration_days?: number;
+          plan_duration_type?: 'days' | 'weeks' | 'months';
+          intolerances?: string[];
+          restrictions?: string[];
+          snack_times?: string[];
           created_at?: string;
           updated_at?: string;
         };
@@ -74,21 +95,31 @@ export interface Database {
           name?: string;
           phone_number?: string | null;
           age?: number;
-          gender?: string;
+          gender?: 'male' | 'female' | 'other';
           weight?: number;
           height?: number;
-          activity_level?: string;
-          primary_goal?: string;
+          body_fat_percentage?: number | null;
+          activity_level?: 'sedentary' | 'light' | 'moderate' | 'active' | 'very_active';
+          primary_goal?: 'weight_loss' | 'muscle_gain' | 'maintenance' | 'general_health';
           target_weight?: number | null;
           timeframe?: string | null;
           allergies?: string[];
-          diet_type?: string;
+          diet_type?: 'omnivore' | 'vegetarian' | 'vegan' | 'pescatarian' | 'keto' | 'paleo';
           cuisines?: string[];
           breakfast_time?: string;
           lunch_time?: string;
           dinner_time?: string;
-          budget_range?: string;
+          budget_range?: 'low' | 'medium' | 'high';
+          bmr_formula?: 'mifflin_st_jeor' | 'katch_mcardle' | 'harris_benedict' | null;
+          sms_opt_in?: boolean;
+          sms_opt_in_changed_at?: string | null;
           medical_conditions?: string[];
+          sport_activities?: string[];
+          plan_duration_days?: number;
+          plan_duration_type?: 'days' | 'weeks' | 'months';
+          intolerances?: string[];
+          restrictions?: string[];
+          snack_times?: string[];
           updated_at?: string;
         };
       };
@@ -103,7 +134,7 @@ export interface Database {
           protein_g: number;
           carbs_g: number;
           fat_g: number;
-          meals_data: any;
+          meals_data: unknown; // validated by DietPlanService.parseMealsData
           is_active: boolean;
           completed_days: number;
           adherence_rate: number;
@@ -120,7 +151,7 @@ export interface Database {
           protein_g: number;
           carbs_g: number;
           fat_g: number;
-          meals_data: any;
+          meals_data: MealsDataDocument;
           is_active?: boolean;
           completed_days?: number;
           adherence_rate?: number;
@@ -133,10 +164,373 @@ export interface Database {
           is_active?: boolean;
           completed_days?: number;
           adherence_rate?: number;
-          meals_data?: any;
+          meals_data?: MealsDataDocument;
           updated_at?: string;
         };
       };
+      meal_logs: {
+        Row: {
+          id: string;
+          user_id: string;
+          diet_plan_id: string | null;
+          log_date: string;
+          slot: string;
+          planned_meal_id: string | null;
+          planned_meal_name: string | null;
+          planned_nutrition: MealNutrition | null;
+          eaten_meal_name: string;
+          eaten_nutrition: MealNutrition;
+          portion: number;
+          notes: string | null;
+          logged_at: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          diet_plan_id?: string | null;
+          log_date: string;
+          slot: string;
+          planned_meal_id?: string | null;
+          planned_meal_name?: string | null;
+          planned_nutrition?: MealNutrition | null;
+          eaten_meal_name: string;
+          eaten_nutrition: MealNutrition;
+          portion?: number;
+          notes?: string | null;
+          logged_at?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          eaten_meal_name?: string;
+          eaten_nutrition?: MealNutrition;
+          portion?: number;
+          notes?: string | null;
+          logged_at?: string;
+          updated_at?: string;
+        };
+      };
+      weight_entries: {
+        Row: {
+          id: string;
+          user_id: string;
+          entry_date: string;
+          weight: number;
+          body_fat_percentage: number | null;
+          note: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          entry_date: string;
+          weight: number;
+          body_fat_percentage?: number | null;
+          note?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          entry_date?: string;
+          weight?: number;
+          body_fat_percentage?: number | null;
+          note?: string | null;
+          updated_at?: string;
+        };
+      };
+      water_intake_entries: {
+        Row: {
+          id: string;
+          user_id: string;
+          entry_date: string;
+          amount_ml: number;
+          drink_type: 'water' | 'tea' | 'coffee' | 'juice' | 'other';
+          logged_at: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          entry_date: string;
+          amount_ml: number;
+          drink_type?: 'water' | 'tea' | 'coffee' | 'juice' | 'other';
+          logged_at?: string;
+          created_at?: string;
+        };
+        Update: {
+          entry_date?: string;
+          amount_ml?: number;
+          drink_type?: 'water' | 'tea' | 'coffee' | 'juice' | 'other';
+          logged_at?: string;
+        };
+      };
+      scheduled_notifications: {
+        Row: {
+          id: string;
+          user_id: string;
+          reminder_key: string;
+          kind: 'meal' | 'hydration' | 'progress';
+          title: string;
+          body: string;
+          local_time: string;
+          time_zone: string;
+          days_of_week: number[];
+          channels: ('push' | 'sms' | 'email')[];
+          enabled: boolean;
+          next_run_at: string | null;
+          last_run_at: string | null;
+          last_error: string | null;
+          run_once: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          reminder_key: string;
+          kind: 'meal' | 'hydration' | 'progress';
+          title: string;
+          body: string;
+          local_time: string;
+          time_zone?: string;
+          days_of_week?: number[];
+          channels?: ('push' | 'sms' | 'email')[];
+          enabled?: boolean;
+          run_once?: boolean;
+          next_run_at?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          title?: string;
+          body?: string;
+          local_time?: string;
+          time_zone?: string;
+          days_of_week?: number[];
+          channels?: ('push' | 'sms' | 'email')[];
+          enabled?: boolean;
+          last_error?: string | null;
+          updated_at?: string;
+        };
+      };
+      push_subscriptions: {
+        Row: {
+          id: string;
+          user_id: string;
+          endpoint: string;
+          p256dh: string;
+          auth: string;
+          user_agent: string | null;
+          created_at: string;
+          last_used_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          endpoint: string;
+          p256dh: string;
+          auth: string;
+          user_agent?: string | null;
+          created_at?: string;
+          last_used_at?: string | null;
+        };
+        Update: {
+          p256dh?: string;
+          auth?: string;
+          user_agent?: string | null;
+          last_used_at?: string | null;
+        };
+      };
+      sms_messages: {
+        Row: {
+          id: string;
+          user_id: string;
+          to_number: string;
+          body: string;
+          kind: string;
+          provider: string;
+          provider_message_id: string | null;
+          status: 'queued' | 'sent' | 'delivered' | 'undelivered' | 'failed' | 'blocked' | 'rate_limited';
+          error: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          to_number: string;
+          body: string;
+          kind: string;
+          provider: string;
+          provider_message_id?: string | null;
+          status: 'queued' | 'sent' | 'delivered' | 'undelivered' | 'failed' | 'blocked' | 'rate_limited';
+          error?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          status?: 'queued' | 'sent' | 'delivered' | 'undelivered' | 'failed' | 'blocked' | 'rate_limited';
+          error?: string | null;
+          updated_at?: string;
+        };
+      };
+      notifications: {
+        Row: {
+          id: string;
+          user_id: string;
+          type: 'meal_reminder' | 'progress_update' | 'achievement' | 'system';
+          title: string;
+          message: string;
+          action_required: boolean;
+          action_url: string | null;
+          dedupe_key: string | null;
+          read_at: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          type: 'meal_reminder' | 'progress_update' | 'achievement' | 'system';
+          title: string;
+          message: string;
+          action_required?: boolean;
+          action_url?: string | null;
+          dedupe_key?: string | null;
+          read_at?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          read_at?: string | null;
+        };
+      };
+      user_preferences: {
+        Row: {
+          user_id: string;
+          meal_reminders: boolean;
+          hydration_reminders: boolean;
+          progress_updates: boolean;
+          achievements: boolean;
+          system_notifications: boolean;
+          push_enabled: boolean;
+          sms_enabled: boolean;
+          email_enabled: boolean;
+          reminder_lead_minutes: number;
+          wake_time: string;
+          sleep_time: string;
+          quiet_hours_enabled: boolean;
+          quiet_hours_start: string;
+          quiet_hours_end: string;
+          unit_system: 'metric' | 'imperial';
+          language: string;
+          theme: 'light' | 'dark' | 'system';
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          meal_reminders?: boolean;
+          hydration_reminders?: boolean;
+          progress_updates?: boolean;
+          achievements?: boolean;
+          system_notifications?: boolean;
+          push_enabled?: boolean;
+          sms_enabled?: boolean;
+          email_enabled?: boolean;
+          reminder_lead_minutes?: number;
+          wake_time?: string;
+          sleep_time?: string;
+          quiet_hours_enabled?: boolean;
+          quiet_hours_start?: string;
+          quiet_hours_end?: string;
+          unit_system?: 'metric' | 'imperial';
+          language?: string;
+          theme?: 'light' | 'dark' | 'system';
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          meal_reminders?: boolean;
+          hydration_reminders?: boolean;
+          progress_updates?: boolean;
+          achievements?: boolean;
+          system_notifications?: boolean;
+          push_enabled?: boolean;
+          sms_enabled?: boolean;
+          email_enabled?: boolean;
+          reminder_lead_minutes?: number;
+          wake_time?: string;
+          sleep_time?: string;
+          quiet_hours_enabled?: boolean;
+          quiet_hours_start?: string;
+          quiet_hours_end?: string;
+          unit_system?: 'metric' | 'imperial';
+          language?: string;
+          theme?: 'light' | 'dark' | 'system';
+          updated_at?: string;
+        };
+      };
+      account_deletions: {
+        Row: {
+          id: string;
+          user_id: string;
+          status: 'pending' | 'cancelled' | 'completed';
+          requested_at: string;
+          scheduled_for: string;
+          cancelled_at: string | null;
+          completed_at: string | null;
+          erased_rows: Record<string, number> | null;
+          error: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          status?: 'pending' | 'cancelled' | 'completed';
+          requested_at?: string;
+          scheduled_for: string;
+          cancelled_at?: string | null;
+          completed_at?: string | null;
+          erased_rows?: Record<string, number> | null;
+          error?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          status?: 'pending' | 'cancelled' | 'completed';
+          cancelled_at?: string | null;
+          completed_at?: string | null;
+          erased_rows?: Record<string, number> | null;
+          error?: string | null;
+          updated_at?: string;
+        };
+      };
+    };
+    Functions: {
+      activate_diet_plan: {
+        Args: {
+          plan_id: string;
+        };
+        Returns: Database['public']['Tables']['diet_plans']['Row'];
+      };
+      create_active_diet_plan: {
+        Args: {
+          plan_name: string;
+          plan_description: string;
+          plan_duration: number;
+          plan_daily_calories: number;
+          plan_protein_g: number;
+          plan_carbs_g: number;
+          plan_fat_g: number;
+          plan_meals_data: MealsDataDocument;
+          plan_completed_days?: number;
+          plan_adherence_rate?: number;
+        };
+        Returns: Database['public']['Tables']['diet_plans']['Row'];
+      };
     };
   };
 }
\ No newline at end of file
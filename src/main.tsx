@@ -2,12 +2,17 @@ import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
 import './index.css';
+import { PushService } from './services/pushService';
 
-// ✅ Disable service worker in dev to avoid white screen issues
+// ✅ Disable service worker in dev to avoid white screen issues; production needs it for push
 if ('serviceWorker' in navigator) {
-  navigator.serviceWorker.getRegistrations().then((regs) => {
-    regs.forEach((reg) => reg.unregister());
-  });
+  if (import.meta.env.DEV) {
+    navigator.serviceWorker.getRegistrations().then((regs) => {
+      regs.forEach((reg) => reg.unregister());
+    });
+  } else {
+    window.addEventListener('load', () => PushService.registerServiceWorker());
+  }
 }
 
 createRoot(document.getElementById('root')!).render(
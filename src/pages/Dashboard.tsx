@@ -1,14 +1,20 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { Calendar, TrendingUp, Settings, Bell, Play, CheckCircle, Target, Utensils, Activity, User } from 'lucide-react';
+import { Calendar, TrendingUp, Settings, Bell, Play, CheckCircle, Target, Utensils, Activity, User, Edit3 } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 import { ProfileService } from '../services/profileService';
 import { DietPlanService } from '../services/dietPlanService';
 import { NutritionTrackingService } from '../services/nutritionTrackingService';
-import { NotificationService } from '../services/notificationService';
-import { DietPlan, DayMeal, UserProfile } from '../types';
+import { MealLogService } from '../services/mealLogService';
+import { AdherenceService } from '../services/adherenceService';
+import { ReminderService } from '../services/reminderService';
+import { DietPlan, DayMeal, MealLog, MealSlot, UserProfile } from '../types';
 import { smsService } from '../services/smsService';
+import MealLogModal, { MealLogEntry } from '../components/MealLogModal';
+import HydrationCard from '../components/HydrationCard';
+import { WaterService } from '../services/waterService';
+import { AccountService, AccountDeletion } from '../services/accountService';
 import Button from '../components/ui/Button';
 import Card, { CardHeader, CardTitle, CardContent } from '../components/ui/Card';
 import toast from 'react-hot-toast';
@@ -21,7 +27,10 @@ export default function Dashboard() {
   const [activePlan, setActivePlan] = useState<DietPlan | null>(null);
   const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]);
   const [currentDayMeal, setCurrentDayMeal] = useState<DayMeal | null>(null);
+  const [mealLogs, setMealLogs] = useState<MealLog[]>([]);
+  const [loggingSlot, setLoggingSlot] = useState<MealSlot | null>(null);
   const [loading, setLoading] = useState(true);
+  const [pendingDeletion, setPendingDeletion] = useState<AccountDeletion | null>(null);
 
   useEffect(() => {
     if (!user) {
@@ -42,17 +51,16 @@ export default function Dashboard() {
   const loadDashboardData = async () => {
     setLoading(true);
     try {
+      AccountService.getPendingDeletion().then(({ data }) => setPendingDeletion(data));
+
       // Load user profile
       const { data: profileData } = await ProfileService.getProfile();
       if (profileData) {
         const profile = ProfileService.profileRowToUserProfile(profileData);
         setUserProfile(profile);
 
-        // Setup meal reminders automatically
-        const settings = NotificationService.getNotificationSettings();
-        if (settings.browserNotifications && settings.mealReminders) {
-          NotificationService.scheduleMealReminders(profile);
-        }
+        // Keep push and the server-side reminder schedule in step with the profile
+        ReminderService.setupReminders(profile);
       }
 
       // Load diet plans
@@ -64,6 +72,20 @@ export default function Dashboard() {
         // Find active plan
         const active = plans.find(plan => plan.isActive);
         setActivePlan(active || null);
+
+        if (active) {
+          const { data: logs } = await MealLogService.getPlanMealLogs(active);
+          setMealLogs(logs || []);
+
+          // Meals marked eaten from a push notification, and days that have since elapsed,
+          // aren't reflected in the stored progress yet
+          const summary = AdherenceService.summarizePlanProgress(active, logs || []);
+          if (summary.completedDays !== active.progress.completedDays || summary.adherenceRate !== active.progress.adherenceRate) {
+            const progress = { ...active.progress, ...summary };
+            await DietPlanService.updateDietPlan(active.id, { progress });
+            setActivePlan({ ...active, progress });
+          }
+        }
       }
     } catch (error) {
       console.error('Dashboard data loading error:', error);
@@ -72,62 +94,67 @@ export default function Dashboard() {
     }
   };
 
-  const handleMealComplete = async (mealType: 'breakfast' | 'lunch' | 'dinner' | 'snack', snackIndex?: number) => {
-    if (!activePlan || !currentDayMeal) return;
-
-    const updatedDayMeal = { ...currentDayMeal };
-
-    if (mealType === 'snack' && snackIndex !== undefined) {
-      updatedDayMeal.meals.snacks[snackIndex].completed = true;
-    } else if (mealType === 'breakfast' || mealType === 'lunch' || mealType === 'dinner') {
-      updatedDayMeal.meals[mealType].completed = true;
+  const handleKeepAccount = async () => {
+    const { error } = await AccountService.cancelDeletion();
+    if (error) {
+      toast.error(error.message || 'Failed to cancel account deletion');
+      return;
     }
+    setPendingDeletion(null);
+    toast.success('Welcome back! Your account will not be deleted.');
+  };
 
-    // Recalculate nutrition totals
-    const recalculatedDayMeal = NutritionTrackingService.recalculateDayMealTotals(updatedDayMeal);
-
-    // Check if all meals are completed
-    const allMealsCompleted =
-      recalculatedDayMeal.meals.breakfast.completed &&
-      recalculatedDayMeal.meals.lunch.completed &&
-      recalculatedDayMeal.meals.dinner.completed &&
-      recalculatedDayMeal.meals.snacks.every(snack => snack.completed);
+  const handleLogMeal = async (slot: MealSlot, entry: MealLogEntry = { portion: 1 }) => {
+    if (!activePlan || !currentDayMeal) return;
 
-    if (allMealsCompleted) {
-      recalculatedDayMeal.completed = true;
-    }
+    const { data: log, error } = await MealLogService.logMeal({
+      date: selectedDate,
+      slot,
+      planId: activePlan.id,
+      plannedMeal: MealLogService.getPlannedMeal(currentDayMeal, slot),
+      eaten: entry.eaten,
+      portion: entry.portion,
+    });
+    if (error || !log) return;
+
+    setLoggingSlot(null);
+    toast.success(`${MealLogService.getSlotLabel(slot)} logged!`);
+    await applyMealLogs([
+      ...mealLogs.filter(existing => !(existing.date === log.date && existing.slot === log.slot)),
+      log,
+    ]);
+  };
 
-    // Update the plan
-    const updatedMeals = activePlan.meals.map(meal =>
-      meal.date === selectedDate ? recalculatedDayMeal : meal
-    );
+  const handleUndoMeal = async (slot: MealSlot) => {
+    const { error } = await MealLogService.unlogMeal(selectedDate, slot);
+    if (error) return;
 
-    const completedDays = updatedMeals.filter(meal => meal.completed).length;
-    const adherenceRate = Math.round((completedDays / activePlan.duration) * 100);
+    setLoggingSlot(null);
+    toast.success(`${MealLogService.getSlotLabel(slot)} marked as not eaten`);
+    await applyMealLogs(mealLogs.filter(existing => !(existing.date === selectedDate && existing.slot === slot)));
+  };
 
-    const updatedPlan = {
-      ...activePlan,
-      meals: updatedMeals,
-      progress: {
-        ...activePlan.progress,
-        completedDays,
-        adherenceRate,
-      },
-    };
+  // Keep the plan's progress columns in step with the logs; the planned meals themselves don't change
+  const applyMealLogs = async (updatedLogs: MealLog[]) => {
+    if (!activePlan || !currentDayMeal) return;
+    setMealLogs(updatedLogs);
 
-    await DietPlanService.updateDietPlan(activePlan.id, updatedPlan);
-    setActivePlan(updatedPlan);
-    setCurrentDayMeal(recalculatedDayMeal);
+    const wasComplete = MealLogService.isDayComplete(currentDayMeal, mealLogs);
+    const allMealsCompleted = MealLogService.isDayComplete(currentDayMeal, updatedLogs);
+    const adherence = AdherenceService.calculatePlanAdherence(activePlan, updatedLogs);
+    const { completedDays, overall: adherenceRate } = adherence;
 
-    toast.success(`${mealType.charAt(0).toUpperCase() + mealType.slice(1)} marked as completed!`);
+    const progress = { ...activePlan.progress, completedDays, adherenceRate };
+    await DietPlanService.updateDietPlan(activePlan.id, { progress });
+    setActivePlan({ ...activePlan, progress });
 
-    // Send progress update SMS if enabled
-    if (userProfile?.phoneNumber && allMealsCompleted) {
+    // Send progress update SMS; the server only texts users who have opted in
+    if (userProfile?.phoneNumber && allMealsCompleted && !wasComplete) {
       await smsService.sendProgressUpdate(
-        userProfile.phoneNumber,
         completedDays,
         activePlan.duration,
-        adherenceRate
+        adherenceRate,
+        adherence.lastSevenDays
       );
     }
   };
@@ -217,15 +244,56 @@ export default function Dashboard() {
     );
   }
 
-  const todaysMeals = currentDayMeal?.meals;
-  const completedMealsToday = todaysMeals ? [
-    todaysMeals.breakfast.completed,
-    todaysMeals.lunch.completed,
-    todaysMeals.dinner.completed,
-    ...todaysMeals.snacks.map(s => s.completed)
-  ].filter(Boolean).length : 0;
+  const adherence = activePlan ? AdherenceService.calculatePlanAdherence(activePlan, mealLogs) : null;
+
+  const isLogged = (slot: MealSlot) => !!MealLogService.getLog(mealLogs, selectedDate, slot);
+
+  // "½ portion" or "Ate: Pizza" for logs that differ from the plan
+  const renderLogSummary = (slot: MealSlot) => {
+    const log = MealLogService.getLog(mealLogs, selectedDate, slot);
+    if (!log) return null;
 
-  const totalMealsToday = todaysMeals ? 3 + todaysMeals.snacks.length : 0;
+    if (MealLogService.isSubstitute(log)) {
+      return <p className="text-xs text-amber-700 mt-1">Ate instead: {log.eatenMealName} ({Math.round(log.eatenNutrition.calories)} cal)</p>;
+    }
+    if (log.portion !== 1) {
+      return <p className="text-xs text-emerald-700 mt-1">{log.portion}× portion ({Math.round(log.eatenNutrition.calories * log.portion)} cal)</p>;
+    }
+    return null;
+  };
+
+  const renderLogActions = (slot: MealSlot) => (
+    <div className="flex items-center space-x-2">
+      {isLogged(slot) ? (
+        <motion.div
+          initial={{ scale: 0 }}
+          animate={{ scale: 1 }}
+          transition={{ type: "spring", stiffness: 500 }}
+        >
+          <CheckCircle className="w-6 h-6 text-green-600" />
+        </motion.div>
+      ) : (
+        <Button
+          size="sm"
+          onClick={() => handleLogMeal(slot)}
+        >
+          <Play className="w-3 h-3 mr-1" />
+          Complete
+        </Button>
+      )}
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setLoggingSlot(slot)}
+        title={isLogged(slot) ? 'Edit or undo' : 'Log a partial portion or something else'}
+      >
+        <Edit3 className="w-4 h-4" />
+      </Button>
+    </div>
+  );
+  const todaysSlots = currentDayMeal ? MealLogService.getSlots(currentDayMeal) : [];
+  const completedMealsToday = todaysSlots.filter(isLogged).length;
+  const totalMealsToday = todaysSlots.length;
 
   return (
     <div className="min-h-screen bg-gray-50 py-8">
@@ -257,6 +325,24 @@ export default function Dashboard() {
             </div>
           </div>
 
+          {/* Pending account deletion */}
+          {pendingDeletion && (
+            <Card className="mb-8 border-red-200 bg-red-50">
+              <CardContent>
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+                  <p className="text-red-700">
+                    Your account and all its data will be deleted on{' '}
+                    <span className="font-semibold">{new Date(pendingDeletion.scheduledFor).toLocaleDateString()}</span>.
+                    Reminders are paused until then.
+                  </p>
+                  <Button size="sm" onClick={handleKeepAccount}>
+                    Keep My Account
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
           {/* Plan Selector */}
           {dietPlans.length > 1 && (
             <Card className="mb-8">
@@ -349,7 +435,9 @@ export default function Dashboard() {
                   <div>
                     <p className="text-sm font-medium text-gray-600">Plan Progress</p>
                     <p className="text-2xl font-bold text-orange-600">{activePlan.progress.adherenceRate}%</p>
-                    <p className="text-xs text-gray-500">Adherence rate</p>
+                    <p className="text-xs text-gray-500">
+                      Adherence rate · {adherence?.lastSevenDays ?? 0}% last 7 days
+                    </p>
                   </div>
                   <TrendingUp className="w-8 h-8 text-orange-600" />
                 </div>
@@ -392,7 +480,7 @@ export default function Dashboard() {
                       <motion.div
                         whileHover={{ scale: 1.02 }}
                         transition={{ type: "spring", stiffness: 300 }}
-                        className={`p-4 rounded-lg border-2 transition-all ${currentDayMeal.meals.breakfast.completed
+                        className={`p-4 rounded-lg border-2 transition-all ${isLogged('breakfast')
                           ? 'border-green-300 bg-green-50 shadow-md'
                           : 'border-gray-200 hover:border-emerald-300 hover:shadow-sm'
                           }`}>
@@ -408,25 +496,9 @@ export default function Dashboard() {
                               {currentDayMeal.meals.breakfast.nutrition.calories} cal •
                               {currentDayMeal.meals.breakfast.prepTime + currentDayMeal.meals.breakfast.cookTime} min
                             </p>
+                            {renderLogSummary('breakfast')}
                           </div>
-                          {!currentDayMeal.meals.breakfast.completed && (
-                            <Button
-                              size="sm"
-                              onClick={() => handleMealComplete('breakfast')}
-                            >
-                              <Play className="w-3 h-3 mr-1" />
-                              Complete
-                            </Button>
-                          )}
-                          {currentDayMeal.meals.breakfast.completed && (
-                            <motion.div
-                              initial={{ scale: 0 }}
-                              animate={{ scale: 1 }}
-                              transition={{ type: "spring", stiffness: 500 }}
-                            >
-                              <CheckCircle className="w-6 h-6 text-green-600" />
-                            </motion.div>
-                          )}
+                          {renderLogActions('breakfast')}
                         </div>
                       </motion.div>
 
@@ -434,7 +506,7 @@ export default function Dashboard() {
                       <motion.div
                         whileHover={{ scale: 1.02 }}
                         transition={{ type: "spring", stiffness: 300 }}
-                        className={`p-4 rounded-lg border-2 transition-all ${currentDayMeal.meals.lunch.completed
+                        className={`p-4 rounded-lg border-2 transition-all ${isLogged('lunch')
                           ? 'border-green-300 bg-green-50 shadow-md'
                           : 'border-gray-200 hover:border-emerald-300 hover:shadow-sm'
                           }`}>
@@ -450,25 +522,9 @@ export default function Dashboard() {
                               {currentDayMeal.meals.lunch.nutrition.calories} cal •
                               {currentDayMeal.meals.lunch.prepTime + currentDayMeal.meals.lunch.cookTime} min
                             </p>
+                            {renderLogSummary('lunch')}
                           </div>
-                          {!currentDayMeal.meals.lunch.completed && (
-                            <Button
-                              size="sm"
-                              onClick={() => handleMealComplete('lunch')}
-                            >
-                              <Play className="w-3 h-3 mr-1" />
-                              Complete
-                            </Button>
-                          )}
-                          {currentDayMeal.meals.lunch.completed && (
-                            <motion.div
-                              initial={{ scale: 0 }}
-                              animate={{ scale: 1 }}
-                              transition={{ type: "spring", stiffness: 500 }}
-                            >
-                              <CheckCircle className="w-6 h-6 text-green-600" />
-                            </motion.div>
-                          )}
+                          {renderLogActions('lunch')}
                         </div>
                       </motion.div>
 
@@ -476,7 +532,7 @@ export default function Dashboard() {
                       <motion.div
                         whileHover={{ scale: 1.02 }}
                         transition={{ type: "spring", stiffness: 300 }}
-                        className={`p-4 rounded-lg border-2 transition-all ${currentDayMeal.meals.dinner.completed
+                        className={`p-4 rounded-lg border-2 transition-all ${isLogged('dinner')
                           ? 'border-green-300 bg-green-50 shadow-md'
                           : 'border-gray-200 hover:border-emerald-300 hover:shadow-sm'
                           }`}>
@@ -492,25 +548,9 @@ export default function Dashboard() {
                               {currentDayMeal.meals.dinner.nutrition.calories} cal •
                               {currentDayMeal.meals.dinner.prepTime + currentDayMeal.meals.dinner.cookTime} min
                             </p>
+                            {renderLogSummary('dinner')}
                           </div>
-                          {!currentDayMeal.meals.dinner.completed && (
-                            <Button
-                              size="sm"
-                              onClick={() => handleMealComplete('dinner')}
-                            >
-                              <Play className="w-3 h-3 mr-1" />
-                              Complete
-                            </Button>
-                          )}
-                          {currentDayMeal.meals.dinner.completed && (
-                            <motion.div
-                              initial={{ scale: 0 }}
-                              animate={{ scale: 1 }}
-                              transition={{ type: "spring", stiffness: 500 }}
-                            >
-                              <CheckCircle className="w-6 h-6 text-green-600" />
-                            </motion.div>
-                          )}
+                          {renderLogActions('dinner')}
                         </div>
                       </motion.div>
 
@@ -520,7 +560,7 @@ export default function Dashboard() {
                           key={index}
                           whileHover={{ scale: 1.02 }}
                           transition={{ type: "spring", stiffness: 300 }}
-                          className={`p-4 rounded-lg border-2 transition-all ${snack.completed
+                          className={`p-4 rounded-lg border-2 transition-all ${isLogged(`snack_${index}`)
                             ? 'border-green-300 bg-green-50 shadow-md'
                             : 'border-gray-200 hover:border-emerald-300 hover:shadow-sm'
                             }`}>
@@ -533,25 +573,9 @@ export default function Dashboard() {
                               <p className="text-xs text-gray-500">
                                 {snack.nutrition.calories} cal • {snack.prepTime} min prep
                               </p>
+                              {renderLogSummary(`snack_${index}`)}
                             </div>
-                            {!snack.completed && (
-                              <Button
-                                size="sm"
-                                onClick={() => handleMealComplete('snack', index)}
-                              >
-                                <Play className="w-3 h-3 mr-1" />
-                                Complete
-                              </Button>
-                            )}
-                            {snack.completed && (
-                              <motion.div
-                                initial={{ scale: 0 }}
-                                animate={{ scale: 1 }}
-                                transition={{ type: "spring", stiffness: 500 }}
-                              >
-                                <CheckCircle className="w-6 h-6 text-green-600" />
-                              </motion.div>
-                            )}
+                            {renderLogActions(`snack_${index}`)}
                           </div>
                         </motion.div>
                       ))}
@@ -572,7 +596,7 @@ export default function Dashboard() {
                   <CardContent>
                     <div className="space-y-4">
                       {(() => {
-                        const completedNutrition = NutritionTrackingService.calculateCompletedNutrition(currentDayMeal);
+                        const completedNutrition = NutritionTrackingService.calculateCompletedNutrition(MealLogService.getDayLogs(mealLogs, selectedDate));
                         const dayNutrition = NutritionTrackingService.calculateDayNutrition(currentDayMeal);
 
                         return (
@@ -650,6 +674,8 @@ export default function Dashboard() {
                   </CardContent>
                 </Card>
 
+                {userProfile && <HydrationCard date={selectedDate} goal={WaterService.getDailyGoal(userProfile)} />}
+
                 <Card>
                   <CardHeader>
                     <CardTitle className="flex items-center space-x-2">
@@ -660,7 +686,7 @@ export default function Dashboard() {
                   <CardContent>
                     <div className="space-y-4">
                       <div className="flex justify-between items-center">
-                        <span className="text-sm text-gray-600">Completion Rate</span>
+                        <span className="text-sm text-gray-600">Adherence</span>
                         <span className="font-semibold">{activePlan.progress.adherenceRate}%</span>
                       </div>
                       <div className="w-full bg-gray-200 rounded-full h-2">
@@ -670,6 +696,14 @@ export default function Dashboard() {
                         />
                       </div>
                       <div className="grid grid-cols-2 gap-4 text-sm">
+                        <div>
+                          <p className="text-gray-600">Today</p>
+                          <p className="font-semibold">{adherence?.today?.score ?? 0}%</p>
+                        </div>
+                        <div>
+                          <p className="text-gray-600">Last 7 Days</p>
+                          <p className="font-semibold">{adherence?.lastSevenDays ?? 0}%</p>
+                        </div>
                         <div>
                           <p className="text-gray-600">Days Completed</p>
                           <p className="font-semibold">{activePlan.progress.completedDays}</p>
@@ -708,6 +742,17 @@ export default function Dashboard() {
           )}
         </motion.div>
       </div>
+
+      {loggingSlot && currentDayMeal && MealLogService.getPlannedMeal(currentDayMeal, loggingSlot) && (
+        <MealLogModal
+          title={MealLogService.getSlotLabel(loggingSlot)}
+          plannedMeal={MealLogService.getPlannedMeal(currentDayMeal, loggingSlot)!}
+          existingLog={MealLogService.getLog(mealLogs, selectedDate, loggingSlot)}
+          onSave={(entry) => handleLogMeal(loggingSlot, entry)}
+          onUndo={() => handleUndoMeal(loggingSlot)}
+          onClose={() => setLoggingSlot(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,28 +1,58 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion, Variants } from 'framer-motion';
-import { Plus, Edit, ArrowLeft, Clock, Utensils, ChefHat, Save, RefreshCw, Heart, ShoppingCart, BookOpen, X, Check, AlertCircle, TrendingUp, Target } from 'lucide-react';
+import { Plus, Minus, Edit, ArrowLeft, Clock, Utensils, ChefHat, Save, RefreshCw, Heart, ShoppingCart, BookOpen, X, Check, AlertCircle, TrendingUp, Target, Download, FileText, Copy, Package, DollarSign, CheckCircle } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 import { ProfileService } from '../services/profileService';
 import { DietPlanService } from '../services/dietPlanService';
 import { NutritionTrackingService } from '../services/nutritionTrackingService';
+import { MealLogService } from '../services/mealLogService';
+import { AIService, MealHint } from '../services/aiService';
+import { ComplianceService } from '../services/complianceService';
+import { CostService } from '../services/costService';
+import { UnitService, UnitSystem } from '../services/unitService';
+import { ShoppingListService, ShoppingList, ShoppingListItem, PantryItem } from '../services/shoppingListService';
+import { DayMeal, DietPlan, Meal, MealLog, MealSlot, UserProfile } from '../types';
+import MealLogModal, { MealLogEntry } from '../components/MealLogModal';
 import Button from '../components/ui/Button';
 import Input from '../components/ui/Input';
 import Card, { CardHeader, CardTitle, CardContent } from '../components/ui/Card';
 import toast from 'react-hot-toast';
 
+const mealHintOptions: { value: MealHint; label: string }[] = [
+  { value: 'quicker', label: 'Quicker' },
+  { value: 'cheaper', label: 'Cheaper' },
+  { value: 'higher_protein', label: 'Higher protein' },
+];
+
+// Shift a YYYY-MM-DD date by a number of days
+function addDays(date: string, days: number): string {
+  const result = new Date(date);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().split('T')[0];
+}
+
 export default function MealPlanner() {
   const [loading, setLoading] = useState(true);
   const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]);
-  const [activePlan, setActivePlan] = useState<any>(null);
-  const [currentDayMeal, setCurrentDayMeal] = useState<any>(null);
-  const [editingMeal, setEditingMeal] = useState<any>(null);
-  const [viewingRecipe, setViewingRecipe] = useState<any>(null);
-  const [userProfile, setUserProfile] = useState<any>(null);
-  const [shoppingList, setShoppingList] = useState<any[]>([]);
+  const [activePlan, setActivePlan] = useState<DietPlan | null>(null);
+  const [currentDayMeal, setCurrentDayMeal] = useState<DayMeal | null>(null);
+  const [dayLogs, setDayLogs] = useState<MealLog[]>([]);
+  const [loggingSlot, setLoggingSlot] = useState<MealSlot | null>(null);
+  const [editingMeal, setEditingMeal] = useState<{ type: string; data: Meal } | null>(null);
+  const [viewingRecipe, setViewingRecipe] = useState<Meal | null>(null);
+  const [recipeServings, setRecipeServings] = useState(1);
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>(UnitService.getUnitSystem());
+  const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
+  const [shoppingList, setShoppingList] = useState<ShoppingList | null>(null);
+  const [shoppingRange, setShoppingRange] = useState({ start: selectedDate, end: addDays(selectedDate, 6) });
+  const [pantry, setPantry] = useState<PantryItem[]>(ShoppingListService.getPantry());
   const [showShoppingList, setShowShoppingList] = useState(false);
   const [favoriteMeals, setFavoriteMeals] = useState<string[]>([]);
   const [ratedMeals, setRatedMeals] = useState<{[key: string]: number}>({});
+  const [regeneratingMeal, setRegeneratingMeal] = useState<{ type: string; hints: MealHint[]; note: string } | null>(null);
+  const [regenerating, setRegenerating] = useState(false);
+  const [reducingCost, setReducingCost] = useState(false);
   const navigate = useNavigate();
   const { user } = useAuth();
 
@@ -42,6 +72,15 @@ export default function MealPlanner() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [userProfile, selectedDate]);
 
+  useEffect(() => {
+    setShoppingRange({ start: selectedDate, end: addDays(selectedDate, 6) });
+  }, [selectedDate]);
+
+  useEffect(() => {
+    refreshShoppingList();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activePlan, shoppingRange]);
+
   const loadUserData = async () => {
     try {
       const { data: profileData } = await ProfileService.getProfile();
@@ -63,14 +102,12 @@ export default function MealPlanner() {
         const active = plans.find(plan => plan.isActive) || plans[0];
         setActivePlan(active);
 
-        const dayMeal = active.meals.find((meal: any) => meal.date === selectedDate);
+        const dayMeal = active.meals.find(meal => meal.date === selectedDate);
         setCurrentDayMeal(dayMeal || null);
-        
-        // Generate shopping list from the day's meals
-        if (dayMeal) {
-          generateShoppingList(dayMeal);
-        }
       }
+
+      const { data: logs } = await MealLogService.getMealLogs(selectedDate, selectedDate);
+      setDayLogs(logs || []);
     } catch (error) {
       toast.error('Failed to load meal plan');
     } finally {
@@ -78,58 +115,83 @@ export default function MealPlanner() {
     }
   };
 
-  const generateShoppingList = (dayMeal: any) => {
-    const ingredients: any[] = [];
-    
-    // Add ingredients from main meals
-    ['breakfast', 'lunch', 'dinner'].forEach(mealType => {
-      const meal = dayMeal.meals[mealType];
-      if (meal && meal.ingredients) {
-        meal.ingredients.forEach((ingredient: any) => {
-          ingredients.push({
-            ...ingredient,
-            mealType,
-            mealName: meal.name
-          });
-        });
-      }
-    });
-    
-    // Add ingredients from snacks
-    if (dayMeal.meals.snacks) {
-      dayMeal.meals.snacks.forEach((snack: any) => {
-        if (snack.ingredients) {
-          snack.ingredients.forEach((ingredient: any) => {
-            ingredients.push({
-              ...ingredient,
-              mealType: 'snack',
-              mealName: snack.name
-            });
-          });
+  const refreshShoppingList = () => {
+    if (activePlan) {
+      setShoppingList(ShoppingListService.buildShoppingList(activePlan, shoppingRange.start, shoppingRange.end));
+    }
+    setPantry(ShoppingListService.getPantry());
+  };
+
+  const handleToggleShoppingItem = (item: ShoppingListItem) => {
+    if (!activePlan) return;
+    ShoppingListService.toggleChecked(activePlan.id, item.key);
+    refreshShoppingList();
+  };
+
+  // Marks the item as fully stocked; amounts can be tracked by adding them to the pantry with a quantity
+  const handleMarkInPantry = (item: ShoppingListItem) => {
+    ShoppingListService.addToPantry({ key: item.key, name: item.name });
+    refreshShoppingList();
+    toast.success(`${item.name} marked as in your pantry`);
+  };
+
+  const handleRemoveFromPantry = (key: string) => {
+    ShoppingListService.removeFromPantry(key);
+    refreshShoppingList();
+  };
+
+  const handleExportShoppingList = async (format: 'pdf' | 'csv' | 'text') => {
+    if (!shoppingList) return;
+
+    try {
+      if (format === 'pdf') {
+        ShoppingListService.downloadPDF(shoppingList, unitSystem);
+      } else if (format === 'csv') {
+        ShoppingListService.downloadCSV(shoppingList, unitSystem);
+      } else {
+        const text = ShoppingListService.toText(shoppingList, unitSystem);
+        if (navigator.share) {
+          await navigator.share({ title: 'Shopping list', text });
+        } else {
+          await navigator.clipboard.writeText(text);
+          toast.success('Shopping list copied to clipboard');
         }
-      });
+      }
+    } catch (error) {
+      // Closing the share sheet isn't an error worth reporting
+      if ((error as Error)?.name === 'AbortError') return;
+      toast.error('Failed to export shopping list');
+      console.error('Shopping list export error:', error);
     }
-    
-    setShoppingList(ingredients);
   };
 
-  const handleEditMeal = (mealType: string, meal: any) => {
+  const handleEditMeal = (mealType: string, meal: Meal) => {
     setEditingMeal({ type: mealType, data: meal });
   };
 
-  const handleSaveMeal = async (updatedMeal: any) => {
+  const handleSaveMeal = async (updatedMeal: Meal) => {
     if (!activePlan || !currentDayMeal || !editingMeal) return;
+
+    // Meals that break an allergy, intolerance or diet rule can't be saved
+    if (userProfile) {
+      const { violations } = ComplianceService.checkMeal(updatedMeal, userProfile.dietaryRestrictions);
+      if (violations.length > 0) {
+        toast.error(`This meal conflicts with your profile: ${ComplianceService.describeViolations(violations)}`);
+        return;
+      }
+    }
+
     try {
-      const updatedDayMeal = { ...currentDayMeal };
-      updatedDayMeal.meals[editingMeal.type] = updatedMeal;
+      const updatedDayMeal = MealLogService.setPlannedMeal(currentDayMeal, editingMeal.type as MealSlot, updatedMeal);
       const recalculatedDayMeal = NutritionTrackingService.recalculateDayMealTotals(updatedDayMeal);
 
-      const updatedMeals = activePlan.meals.map((meal: any) =>
+      const updatedMeals = activePlan.meals.map(meal =>
         meal.date === selectedDate ? recalculatedDayMeal : meal
       );
 
       const updatedPlan = { ...activePlan, meals: updatedMeals };
-      await DietPlanService.updateDietPlan(activePlan.id, updatedPlan);
+      const { error: saveError } = await DietPlanService.updateDietPlan(activePlan.id, updatedPlan);
+      if (saveError) return; // the service has shown the error
       setActivePlan(updatedPlan);
       setCurrentDayMeal(recalculatedDayMeal);
       setEditingMeal(null);
@@ -139,99 +201,86 @@ export default function MealPlanner() {
     }
   };
 
-  const handleRegenerateMeal = async (mealType: string) => {
-    if (!activePlan || !currentDayMeal || !userProfile) return;
+  const handleRegenerateMeal = async () => {
+    if (!activePlan || !currentDayMeal || !userProfile || !regeneratingMeal) return;
+    const { type: mealType, hints, note } = regeneratingMeal;
+
+    setRegenerating(true);
     try {
-      setLoading(true);
-      
-      // In a real app, this would call an AI service with the user's diet preferences
-      // For now, we'll simulate a regeneration based on diet type
-      const dietType = userProfile.dietaryRestrictions.dietType;
-      
-      // Simulate API call delay
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Create a mock regenerated meal based on diet type
-      let newMeal;
-      if (dietType === 'vegetarian') {
-        newMeal = {
-          ...currentDayMeal.meals[mealType],
-          name: `New Vegetarian ${mealType}`,
-          description: `A delicious vegetarian ${mealType} tailored to your preferences.`,
-          ingredients: [
-            { name: 'Quinoa', amount: 1, unit: 'cup' },
-            { name: 'Mixed Vegetables', amount: 2, unit: 'cups' },
-            { name: 'Olive Oil', amount: 2, unit: 'tbsp' },
-            { name: 'Tofu', amount: 200, unit: 'g' }
-          ]
-        };
-      } else if (dietType === 'vegan') {
-        newMeal = {
-          ...currentDayMeal.meals[mealType],
-          name: `New Vegan ${mealType}`,
-          description: `A delicious plant-based ${mealType} tailored to your preferences.`,
-          ingredients: [
-            { name: 'Chickpeas', amount: 1, unit: 'can' },
-            { name: 'Spinach', amount: 2, unit: 'cups' },
-            { name: 'Nutritional Yeast', amount: 2, unit: 'tbsp' },
-            { name: 'Avocado', amount: 1, unit: 'whole' }
-          ]
-        };
-      } else if (dietType === 'omnivore') {
-        newMeal = {
-          ...currentDayMeal.meals[mealType],
-          name: `New ${mealType}`,
-          description: `A delicious ${mealType} with balanced nutrition.`,
-          ingredients: [
-            { name: 'Chicken Breast', amount: 150, unit: 'g' },
-            { name: 'Brown Rice', amount: 1, unit: 'cup' },
-            { name: 'Broccoli', amount: 1, unit: 'cup' },
-            { name: 'Olive Oil', amount: 1, unit: 'tbsp' }
-          ]
-        };
-      } else {
-        // Default for other diet types
-        newMeal = {
-          ...currentDayMeal.meals[mealType],
-          name: `New ${mealType}`,
-          description: `A delicious ${mealType} tailored to your ${dietType} diet.`,
-          ingredients: [
-            { name: 'Protein Source', amount: 150, unit: 'g' },
-            { name: 'Complex Carbs', amount: 1, unit: 'cup' },
-            { name: 'Vegetables', amount: 2, unit: 'cups' },
-            { name: 'Healthy Fat', amount: 1, unit: 'tbsp' }
-          ]
-        };
-      }
-      
-      // Update the meal in the current day meal
-      const updatedDayMeal = { ...currentDayMeal };
-      updatedDayMeal.meals[mealType] = newMeal;
-      
-      // Recalculate nutrition
+      const newMeal = await AIService.regenerateMeal(userProfile, currentDayMeal, mealType, {
+        hints,
+        note,
+        avoidMealNames: AIService.getWeekMealNames(activePlan.meals, currentDayMeal.day),
+      });
+
+      // Update the meal in the current day meal and recalculate nutrition
+      const updatedDayMeal = MealLogService.setPlannedMeal(currentDayMeal, mealType as MealSlot, newMeal);
       const recalculatedDayMeal = NutritionTrackingService.recalculateDayMealTotals(updatedDayMeal);
       
       // Update the plan
-      const updatedMeals = activePlan.meals.map((meal: any) =>
+      const updatedMeals = activePlan.meals.map(meal =>
         meal.date === selectedDate ? recalculatedDayMeal : meal
       );
       
       const updatedPlan = { ...activePlan, meals: updatedMeals };
-      await DietPlanService.updateDietPlan(activePlan.id, updatedPlan);
+      const { error: saveError } = await DietPlanService.updateDietPlan(activePlan.id, updatedPlan);
+      if (saveError) return;
       setActivePlan(updatedPlan);
       setCurrentDayMeal(recalculatedDayMeal);
+      setRegeneratingMeal(null);
       
-      // Regenerate shopping list
-      generateShoppingList(recalculatedDayMeal);
-      
-      toast.success(`${mealType} regenerated successfully based on your ${dietType} diet!`);
+      toast.success(`Swapped in ${newMeal.name}`);
     } catch (error) {
       toast.error('Failed to regenerate meal');
     } finally {
-      setLoading(false);
+      setRegenerating(false);
+    }
+  };
+
+  const handleReduceDayCost = async () => {
+    if (!activePlan || !currentDayMeal || !userProfile) return;
+
+    setReducingCost(true);
+    try {
+      const updatedDayMeal = await AIService.reduceDayCost(
+        userProfile,
+        currentDayMeal,
+        AIService.getWeekMealNames(activePlan.meals, currentDayMeal.day)
+      );
+      if (updatedDayMeal === currentDayMeal) {
+        toast.error('No cheaper alternatives found for this day');
+        return;
+      }
+
+      const updatedMeals = activePlan.meals.map(meal =>
+        meal.date === selectedDate ? updatedDayMeal : meal
+      );
+      const updatedPlan = { ...activePlan, meals: updatedMeals };
+      const { error: saveError } = await DietPlanService.updateDietPlan(activePlan.id, updatedPlan);
+      if (saveError) return;
+      setActivePlan(updatedPlan);
+      setCurrentDayMeal(updatedDayMeal);
+
+      const saved = CostService.estimateDayCost(currentDayMeal).total - CostService.estimateDayCost(updatedDayMeal).total;
+      toast.success(`Swapped in cheaper meals, saving about ${CostService.formatCost(saved)}`);
+    } catch (error) {
+      toast.error('Failed to find cheaper meals');
+      console.error('Cost reduction error:', error);
+    } finally {
+      setReducingCost(false);
     }
   };
 
+  const handleToggleHint = (hint: MealHint) => {
+    if (!regeneratingMeal) return;
+    setRegeneratingMeal({
+      ...regeneratingMeal,
+      hints: regeneratingMeal.hints.includes(hint)
+        ? regeneratingMeal.hints.filter(h => h !== hint)
+        : [...regeneratingMeal.hints, hint],
+    });
+  };
+
   const handleAddCustomMeal = () => {
     setEditingMeal({
       type: 'custom',
@@ -250,10 +299,19 @@ export default function MealPlanner() {
     });
   };
 
-  const handleViewRecipe = (meal: any) => {
+  const handleViewRecipe = (meal: Meal) => {
     setViewingRecipe(meal);
+    setRecipeServings(meal.servings || 1);
   };
 
+  const handleChangeUnitSystem = (system: UnitSystem) => {
+    setUnitSystem(system);
+    UnitService.setUnitSystem(system);
+  };
+
+  const formatIngredient = (ingredient: { amount: number; unit: string; name: string }) =>
+    `${UnitService.formatAmount(ingredient.amount, ingredient.unit, unitSystem).text} ${ingredient.name}`;
+
   const handleToggleFavorite = (mealId: string) => {
     setFavoriteMeals(prev => 
       prev.includes(mealId) 
@@ -303,33 +361,66 @@ export default function MealPlanner() {
     }
   };
 
+  const isLogged = (slot: MealSlot) => dayLogs.some(log => log.slot === slot);
+
+  const describeLog = (slot: MealSlot): string | null => {
+    const log = dayLogs.find(existing => existing.slot === slot);
+    if (!log) return null;
+    if (MealLogService.isSubstitute(log)) return `Ate instead: ${log.eatenMealName} (${Math.round(log.eatenNutrition.calories)} cal)`;
+    return log.portion !== 1 ? `Eaten · ${log.portion}× portion` : 'Eaten';
+  };
+
+  const handleLogMeal = async (slot: MealSlot, entry: MealLogEntry) => {
+    if (!activePlan || !currentDayMeal) return;
+
+    const { data: log, error } = await MealLogService.logMeal({
+      date: selectedDate,
+      slot,
+      planId: activePlan.id,
+      plannedMeal: MealLogService.getPlannedMeal(currentDayMeal, slot),
+      eaten: entry.eaten,
+      portion: entry.portion,
+    });
+    if (error || !log) return;
+
+    setDayLogs(prev => [...prev.filter(existing => existing.slot !== slot), log]);
+    setLoggingSlot(null);
+    toast.success(`${MealLogService.getSlotLabel(slot)} logged!`);
+    await syncPlanProgress();
+  };
+
+  const handleUndoMeal = async (slot: MealSlot) => {
+    const { error } = await MealLogService.unlogMeal(selectedDate, slot);
+    if (error) return;
+
+    setDayLogs(prev => prev.filter(existing => existing.slot !== slot));
+    setLoggingSlot(null);
+    toast.success(`${MealLogService.getSlotLabel(slot)} marked as not eaten`);
+    await syncPlanProgress();
+  };
+
+  const syncPlanProgress = async () => {
+    if (!activePlan) return;
+    const { data: progress } = await MealLogService.syncPlanProgress(activePlan);
+    if (progress) setActivePlan(prev => prev && { ...prev, progress });
+  };
+
   const calculateDailyNutritionProgress = () => {
     if (!currentDayMeal || !activePlan) return null;
     
-    const completedNutrition = NutritionTrackingService.calculateCompletedNutrition(currentDayMeal);
+    const completedNutrition = NutritionTrackingService.calculateCompletedNutrition(dayLogs);
     const dayNutrition = NutritionTrackingService.calculateDayNutrition(currentDayMeal);
+    const progress = (current: number, target: number) => ({
+      current: Math.round(current),
+      target: Math.round(target),
+      percentage: target > 0 ? Math.round((current / target) * 100) : 0,
+    });
     
     return {
-      calories: {
-        current: completedNutrition.completedCalories,
-        target: activePlan.dailyCalories,
-        percentage: Math.round((completedNutrition.completedCalories / activePlan.dailyCalories) * 100)
-      },
-      protein: {
-        current: completedNutrition.completedProtein,
-        target: dayNutrition.totalProtein,
-        percentage: Math.round((completedNutrition.completedProtein / dayNutrition.totalProtein) * 100)
-      },
-      carbs: {
-        current: completedNutrition.completedCarbs,
-        target: dayNutrition.totalCarbs,
-        percentage: Math.round((completedNutrition.completedCarbs / dayNutrition.totalCarbs) * 100)
-      },
-      fat: {
-        current: completedNutrition.completedFat,
-        target: dayNutrition.totalFat,
-        percentage: Math.round((completedNutrition.completedFat / dayNutrition.totalFat) * 100)
-      }
+      calories: progress(completedNutrition.calories, activePlan.dailyCalories),
+      protein: progress(completedNutrition.protein, dayNutrition.protein),
+      carbs: progress(completedNutrition.carbs, dayNutrition.carbs),
+      fat: progress(completedNutrition.fat, dayNutrition.fat),
     };
   };
 
@@ -359,6 +450,16 @@ export default function MealPlanner() {
 
   const dietTypeInfo = getDietTypeInfo();
   const nutritionProgress = calculateDailyNutritionProgress();
+  const dayViolations = currentDayMeal && userProfile
+    ? ComplianceService.checkDay(currentDayMeal.meals, userProfile.dietaryRestrictions)
+    : {};
+  const editingViolations = editingMeal && userProfile
+    ? ComplianceService.checkMeal(editingMeal.data, userProfile.dietaryRestrictions).violations
+    : [];
+  const dayCost = currentDayMeal ? CostService.estimateDayCost(currentDayMeal) : null;
+  const dailyBudget = userProfile ? CostService.getDailyBudget(userProfile.preferences.budgetRange) : null;
+  const dayOverBudget = dayCost !== null && dailyBudget !== null && dayCost.total > dailyBudget;
+  const scaledRecipe = viewingRecipe ? UnitService.scaleMeal(viewingRecipe, recipeServings) : null;
 
   return (
     <motion.div
@@ -429,21 +530,101 @@ export default function MealPlanner() {
                 </CardTitle>
               </CardHeader>
               <CardContent>
-                {shoppingList.length > 0 ? (
-                  <div className="space-y-2">
-                    {shoppingList.map((item, idx) => (
-                      <div key={idx} className="flex items-center justify-between p-2 bg-gray-50 rounded">
-                        <div className="flex items-center space-x-2">
-                          <input type="checkbox" className="rounded" />
-                          <span>{item.amount} {item.unit} {item.name}</span>
+                <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4 mb-6">
+                  <div className="flex items-end gap-3">
+                    <Input
+                      label="From"
+                      type="date"
+                      value={shoppingRange.start}
+                      onChange={(e) => e.target.value && setShoppingRange(prev => ({ ...prev, start: e.target.value }))}
+                    />
+                    <Input
+                      label="To"
+                      type="date"
+                      value={shoppingRange.end}
+                      min={shoppingRange.start}
+                      onChange={(e) => e.target.value && setShoppingRange(prev => ({ ...prev, end: e.target.value }))}
+                    />
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button variant="outline" size="sm" onClick={() => handleExportShoppingList('pdf')} disabled={!shoppingList?.sections.length}>
+                      <Download className="w-4 h-4 mr-1" />
+                      PDF
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleExportShoppingList('csv')} disabled={!shoppingList?.sections.length}>
+                      <FileText className="w-4 h-4 mr-1" />
+                      CSV
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => handleExportShoppingList('text')} disabled={!shoppingList?.sections.length}>
+                      <Copy className="w-4 h-4 mr-1" />
+                      Share as text
+                    </Button>
+                  </div>
+                </div>
+
+                {shoppingList && shoppingList.sections.length > 0 ? (
+                  <div className="space-y-6">
+                    {shoppingList.sections.map(section => (
+                      <div key={section.aisle}>
+                        <h4 className="text-sm font-semibold text-gray-500 uppercase tracking-wide mb-2">{section.label}</h4>
+                        <div className="space-y-2">
+                          {section.items.map(item => {
+                            const covered = item.toBuy.length === 0;
+                            return (
+                              <div key={item.key} className="flex items-center justify-between p-2 bg-gray-50 rounded">
+                                <label className="flex items-center space-x-2 cursor-pointer">
+                                  <input
+                                    type="checkbox"
+                                    className="rounded"
+                                    checked={item.checked || covered}
+                                    disabled={covered}
+                                    onChange={() => handleToggleShoppingItem(item)}
+                                  />
+                                  <span className={item.checked || covered ? 'line-through text-gray-400' : ''}>
+                                    {ShoppingListService.formatQuantities(covered ? item.needed : item.toBuy, unitSystem)} {item.name}
+                                  </span>
+                                  {covered && <span className="text-xs text-emerald-600">in pantry</span>}
+                                </label>
+                                <div className="flex items-center space-x-2">
+                                  <span className="hidden md:inline text-xs text-gray-500">
+                                    for {item.meals.slice(0, 2).join(', ')}{item.meals.length > 2 ? ` +${item.meals.length - 2}` : ''}
+                                  </span>
+                                  {covered ? (
+                                    <Button variant="ghost" size="sm" onClick={() => handleRemoveFromPantry(item.key)}>
+                                      Need it
+                                    </Button>
+                                  ) : (
+                                    <Button variant="ghost" size="sm" onClick={() => handleMarkInPantry(item)} title="I already have this">
+                                      <Package className="w-4 h-4" />
+                                    </Button>
+                                  )}
+                                </div>
+                              </div>
+                            );
+                          })}
                         </div>
-                        <span className="text-xs text-gray-500">for {item.mealName}</span>
                       </div>
                     ))}
                   </div>
                 ) : (
                   <p className="text-gray-500 text-center py-4">No items in your shopping list</p>
                 )}
+
+                {pantry.length > 0 && (
+                  <div className="mt-6 pt-4 border-t border-gray-200">
+                    <h4 className="text-sm font-semibold text-gray-700 mb-2">In your pantry</h4>
+                    <div className="flex flex-wrap gap-2">
+                      {pantry.map(item => (
+                        <span key={item.key} className="inline-flex items-center px-2 py-1 rounded-full bg-emerald-50 text-emerald-700 text-xs">
+                          {item.amount !== undefined ? `${UnitService.formatAmount(item.amount, item.unit || '', unitSystem).text} ` : ''}{item.name}
+                          <button className="ml-1 hover:text-emerald-900" onClick={() => handleRemoveFromPantry(item.key)}>
+                            <X className="w-3 h-3" />
+                          </button>
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </CardContent>
             </Card>
           </motion.div>
@@ -465,8 +646,21 @@ export default function MealPlanner() {
                       })}
                     </h2>
                     <p className="text-gray-600">Total Calories: {currentDayMeal.totalCalories}</p>
+                    {dayCost && dailyBudget !== null && (
+                      <p className={`flex items-center text-sm ${dayOverBudget ? 'text-red-600' : 'text-gray-600'}`}>
+                        <DollarSign className="w-4 h-4 mr-1" />
+                        Est. cost {CostService.formatCost(dayCost.total)} of {CostService.formatCost(dailyBudget)} daily budget
+                        {dayOverBudget && <span className="ml-2 px-2 py-0.5 rounded-full bg-red-100 text-xs font-medium">Over budget</span>}
+                      </p>
+                    )}
                   </div>
                   <div className="flex items-center space-x-2">
+                    {dayOverBudget && (
+                      <Button variant="outline" size="sm" onClick={handleReduceDayCost} isLoading={reducingCost}>
+                        <DollarSign className="w-4 h-4 mr-2" />
+                        Find Cheaper Swaps
+                      </Button>
+                    )}
                     <Button variant="outline" size="sm">
                       <RefreshCw className="w-4 h-4 mr-2" />
                       Regenerate Day
@@ -541,9 +735,8 @@ export default function MealPlanner() {
             {/* Meals */}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
               {/* Main Meals */}
-              {['breakfast', 'lunch', 'dinner'].map((mealType) => {
+              {(['breakfast', 'lunch', 'dinner'] as const).map((mealType) => {
                 const meal = currentDayMeal.meals[mealType];
-                if (!meal) return null; // Skip if meal is not present
                 
                 const mealId = `${selectedDate}-${mealType}`;
                 const isFavorite = favoriteMeals.includes(mealId);
@@ -556,15 +749,23 @@ export default function MealPlanner() {
                     animate={{ opacity: 1, y: 0 }}
                     transition={{ delay: 0.1 }}
                   >
-                    <Card className={`h-full ${meal.completed ? 'border-green-300 bg-green-50' : ''}`}>
+                    <Card className={`h-full ${isLogged(mealType as MealSlot) ? 'border-green-300 bg-green-50' : ''}`}>
                       <CardHeader>
                         <CardTitle className="flex items-center justify-between">
                           <div className="flex items-center space-x-2">
                             <span className="text-2xl">{getMealIcon(mealType)}</span>
                             <span className="capitalize">{mealType}</span>
-                            {meal.completed && <CheckCircle className="w-5 h-5 text-green-600" />}
+                            {isLogged(mealType as MealSlot) && <CheckCircle className="w-5 h-5 text-green-600" />}
                           </div>
                           <div className="flex items-center space-x-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setLoggingSlot(mealType as MealSlot)}
+                              title="Log what you ate"
+                            >
+                              <Check className="w-4 h-4" />
+                            </Button>
                             <Button
                               variant="ghost"
                               size="sm"
@@ -590,7 +791,7 @@ export default function MealPlanner() {
                             <Button
                               variant="ghost"
                               size="sm"
-                              onClick={() => handleRegenerateMeal(mealType)}
+                              onClick={() => setRegeneratingMeal({ type: mealType, hints: [], note: '' })}
                             >
                               <RefreshCw className="w-4 h-4" />
                             </Button>
@@ -602,7 +803,17 @@ export default function MealPlanner() {
                           <div>
                             <h3 className="font-semibold text-lg text-gray-900">{meal.name}</h3>
                             <p className="text-gray-600">{meal.description}</p>
+                            {describeLog(mealType as MealSlot) && (
+                              <p className="text-sm text-green-700 mt-1">{describeLog(mealType as MealSlot)}</p>
+                            )}
                           </div>
+
+                          {dayViolations[mealType] && (
+                            <div className="flex items-start space-x-2 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+                              <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                              <span>Conflicts with your profile: {ComplianceService.describeViolations(dayViolations[mealType])}</span>
+                            </div>
+                          )}
                           
                           {/* Rating */}
                           <div className="flex items-center space-x-1">
@@ -636,14 +847,15 @@ export default function MealPlanner() {
                               <span>Protein: {meal.nutrition?.protein ?? 0}g</span>
                               <span>Carbs: {meal.nutrition?.carbs ?? 0}g</span>
                               <span>Fat: {meal.nutrition?.fat ?? 0}g</span>
+                              <span>Est. cost: {CostService.formatCost(dayCost?.meals[mealType] ?? 0)}</span>
                             </div>
                           </div>
                           <div>
                             <h4 className="font-medium text-gray-900 mb-2">Ingredients</h4>
                             <ul className="text-sm text-gray-600 space-y-1">
-                              {meal.ingredients?.slice(0, 3).map((ingredient: any, idx: number) => (
+                              {meal.ingredients?.slice(0, 3).map((ingredient, idx) => (
                                 <li key={ingredient.name ?? idx}>
-                                  {ingredient.amount} {ingredient.unit} {ingredient.name}
+                                  {formatIngredient(ingredient)}
                                 </li>
                               ))}
                               {meal.ingredients?.length > 3 && (
@@ -676,22 +888,31 @@ export default function MealPlanner() {
                   </CardHeader>
                   <CardContent>
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      {(currentDayMeal.meals.snacks ?? []).map((snack: any, idx: number) => {
+                      {(currentDayMeal.meals.snacks ?? []).map((snack, idx) => {
                         const snackId = `${selectedDate}-snack-${idx}`;
                         const isFavorite = favoriteMeals.includes(snackId);
                         const rating = ratedMeals[snackId] || 0;
                         
                         return (
-                          <div key={snack.id ?? idx} className={`bg-gray-50 rounded-lg p-4 ${snack.completed ? 'border-green-300 bg-green-50' : ''}`}>
+                          <div key={snack.id ?? idx} className={`bg-gray-50 rounded-lg p-4 ${isLogged(`snack_${idx}`) ? 'border-green-300 bg-green-50' : ''}`}>
                             <div className="flex items-start justify-between">
                               <div className="flex-1">
                                 <div className="flex items-center space-x-2">
                                   <h4 className="font-medium text-gray-900">{snack.name}</h4>
-                                  {snack.completed && <CheckCircle className="w-4 h-4 text-green-600" />}
+                                  {isLogged(`snack_${idx}`) && <CheckCircle className="w-4 h-4 text-green-600" />}
                                 </div>
                                 <p className="text-sm text-gray-600 mt-1">{snack.description}</p>
+                                {dayViolations[`snack_${idx}`] && (
+                                  <div className="flex items-start space-x-1 mt-2 text-xs text-red-700">
+                                    <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+                                    <span>Conflicts with your profile: {ComplianceService.describeViolations(dayViolations[`snack_${idx}`])}</span>
+                                  </div>
+                                )}
+                                {describeLog(`snack_${idx}`) && (
+                                  <p className="text-xs text-green-700 mt-1">{describeLog(`snack_${idx}`)}</p>
+                                )}
                                 <div className="mt-2 text-xs text-gray-500">
-                                  {snack.nutrition?.calories ?? 0} cal • {snack.nutrition?.protein ?? 0}g protein
+                                  {snack.nutrition?.calories ?? 0} cal • {snack.nutrition?.protein ?? 0}g protein • {CostService.formatCost(dayCost?.meals[`snack_${idx}`] ?? 0)}
                                 </div>
                                 
                                 {/* Rating */}
@@ -708,6 +929,14 @@ export default function MealPlanner() {
                                 </div>
                               </div>
                               <div className="flex items-center space-x-1 ml-4">
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => setLoggingSlot(`snack_${idx}`)}
+                                  title="Log what you ate"
+                                >
+                                  <Check className="w-3 h-3" />
+                                </Button>
                                 <Button
                                   variant="ghost"
                                   size="sm"
@@ -733,7 +962,7 @@ export default function MealPlanner() {
                                 <Button
                                   variant="ghost"
                                   size="sm"
-                                  onClick={() => handleRegenerateMeal(`snack_${idx}`)}
+                                  onClick={() => setRegeneratingMeal({ type: `snack_${idx}`, hints: [], note: '' })}
                                 >
                                   <RefreshCw className="w-3 h-3" />
                                 </Button>
@@ -871,11 +1100,19 @@ export default function MealPlanner() {
                     }
                   />
                 </div>
+                {editingViolations.length > 0 && (
+                  <div className="flex items-start space-x-2 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-700">
+                    <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    <span>
+                      This meal can't be saved because it conflicts with your profile: {ComplianceService.describeViolations(editingViolations)}
+                    </span>
+                  </div>
+                )}
                 <div className="flex justify-end space-x-4 pt-4">
                   <Button variant="outline" onClick={() => setEditingMeal(null)}>
                     Cancel
                   </Button>
-                  <Button onClick={() => handleSaveMeal(editingMeal.data)}>
+                  <Button onClick={() => handleSaveMeal(editingMeal.data)} disabled={editingViolations.length > 0}>
                     <Save className="w-4 h-4 mr-2" />
                     Save Changes
                   </Button>
@@ -885,8 +1122,85 @@ export default function MealPlanner() {
           </div>
         )}
 
+        {/* Regenerate Meal Modal */}
+        {regeneratingMeal && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <motion.div
+              initial={{ opacity: 0, scale: 0.9 }}
+              animate={{ opacity: 1, scale: 1 }}
+              className="bg-white rounded-lg p-6 max-w-md w-full mx-4"
+            >
+              <div className="flex items-center justify-between mb-6">
+                <h3 className="text-lg font-semibold">
+                  Regenerate {regeneratingMeal.type.startsWith('snack_') ? 'snack' : regeneratingMeal.type}
+                </h3>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setRegeneratingMeal(null)}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+              <div className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  The new meal keeps the same calories and macros and won't repeat anything planned this week.
+                </p>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Preferences
+                  </label>
+                  <div className="flex flex-wrap gap-2">
+                    {mealHintOptions.map(option => (
+                      <button
+                        key={option.value}
+                        type="button"
+                        onClick={() => handleToggleHint(option.value)}
+                        className={`px-3 py-1.5 rounded-full text-sm border transition-colors ${
+                          regeneratingMeal.hints.includes(option.value)
+                            ? 'bg-emerald-600 border-emerald-600 text-white'
+                            : 'border-gray-300 text-gray-700 hover:border-emerald-500'
+                        }`}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <Input
+                  label="Anything else? (optional)"
+                  placeholder="e.g. no oven, something warm"
+                  value={regeneratingMeal.note}
+                  onChange={(e) => setRegeneratingMeal({ ...regeneratingMeal, note: e.target.value })}
+                />
+                <div className="flex justify-end space-x-4 pt-4">
+                  <Button variant="outline" onClick={() => setRegeneratingMeal(null)}>
+                    Cancel
+                  </Button>
+                  <Button onClick={handleRegenerateMeal} isLoading={regenerating}>
+                    <RefreshCw className="w-4 h-4 mr-2" />
+                    Regenerate
+                  </Button>
+                </div>
+              </div>
+            </motion.div>
+          </div>
+        )}
+
+        {/* Meal Log Modal */}
+        {loggingSlot && currentDayMeal && MealLogService.getPlannedMeal(currentDayMeal, loggingSlot) && (
+          <MealLogModal
+            title={MealLogService.getSlotLabel(loggingSlot)}
+            plannedMeal={MealLogService.getPlannedMeal(currentDayMeal, loggingSlot)!}
+            existingLog={dayLogs.find(log => log.slot === loggingSlot)}
+            onSave={(entry) => handleLogMeal(loggingSlot, entry)}
+            onUndo={() => handleUndoMeal(loggingSlot)}
+            onClose={() => setLoggingSlot(null)}
+          />
+        )}
+
         {/* View Recipe Modal */}
-        {viewingRecipe && (
+        {viewingRecipe && scaledRecipe && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
             <motion.div
               initial={{ opacity: 0, scale: 0.9 }}
@@ -910,6 +1224,42 @@ export default function MealPlanner() {
                   <p className="text-gray-600">{viewingRecipe.description}</p>
                 </div>
                 
+                <div className="flex flex-wrap items-center justify-between gap-4">
+                  <div className="flex items-center space-x-3">
+                    <h4 className="font-medium text-gray-900">Servings</h4>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setRecipeServings(prev => Math.max(1, prev - 1))}
+                      disabled={recipeServings <= 1}
+                    >
+                      <Minus className="w-4 h-4" />
+                    </Button>
+                    <span className="w-6 text-center font-medium">{recipeServings}</span>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setRecipeServings(prev => Math.min(12, prev + 1))}
+                      disabled={recipeServings >= 12}
+                    >
+                      <Plus className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  <div className="flex rounded-lg border border-gray-200 overflow-hidden text-sm">
+                    {(['metric', 'imperial'] as UnitSystem[]).map(system => (
+                      <button
+                        key={system}
+                        onClick={() => handleChangeUnitSystem(system)}
+                        className={`px-3 py-1 capitalize ${
+                          unitSystem === system ? 'bg-emerald-600 text-white' : 'bg-white text-gray-600 hover:bg-gray-50'
+                        }`}
+                      >
+                        {system}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
                 <div className="grid grid-cols-2 gap-4">
                   <div>
                     <h4 className="font-medium text-gray-900 mb-2">Prep Time</h4>
@@ -922,22 +1272,24 @@ export default function MealPlanner() {
                 </div>
                 
                 <div>
-                  <h4 className="font-medium text-gray-900 mb-2">Nutrition Information</h4>
+                  <h4 className="font-medium text-gray-900 mb-2">
+                    Nutrition Information{recipeServings > 1 ? ` (${recipeServings} servings)` : ''}
+                  </h4>
                   <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                     <div className="bg-gray-50 rounded-lg p-3 text-center">
-                      <p className="text-lg font-bold text-emerald-600">{viewingRecipe.nutrition?.calories ?? 0}</p>
+                      <p className="text-lg font-bold text-emerald-600">{scaledRecipe.nutrition?.calories ?? 0}</p>
                       <p className="text-xs text-gray-600">Calories</p>
                     </div>
                     <div className="bg-gray-50 rounded-lg p-3 text-center">
-                      <p className="text-lg font-bold text-blue-600">{viewingRecipe.nutrition?.protein ?? 0}g</p>
+                      <p className="text-lg font-bold text-blue-600">{scaledRecipe.nutrition?.protein ?? 0}g</p>
                       <p className="text-xs text-gray-600">Protein</p>
                     </div>
                     <div className="bg-gray-50 rounded-lg p-3 text-center">
-                      <p className="text-lg font-bold text-orange-600">{viewingRecipe.nutrition?.carbs ?? 0}g</p>
+                      <p className="text-lg font-bold text-orange-600">{scaledRecipe.nutrition?.carbs ?? 0}g</p>
                       <p className="text-xs text-gray-600">Carbs</p>
                     </div>
                     <div className="bg-gray-50 rounded-lg p-3 text-center">
-                      <p className="text-lg font-bold text-purple-600">{viewingRecipe.nutrition?.fat ?? 0}g</p>
+                      <p className="text-lg font-bold text-purple-600">{scaledRecipe.nutrition?.fat ?? 0}g</p>
                       <p className="text-xs text-gray-600">Fat</p>
                     </div>
                   </div>
@@ -946,10 +1298,10 @@ export default function MealPlanner() {
                 <div>
                   <h4 className="font-medium text-gray-900 mb-2">Ingredients</h4>
                   <ul className="space-y-2">
-                    {viewingRecipe.ingredients?.map((ingredient: any, idx: number) => (
+                    {scaledRecipe.ingredients?.map((ingredient, idx) => (
                       <li key={idx} className="flex items-center space-x-2">
                         <span className="text-emerald-600">•</span>
-                        <span>{ingredient.amount} {ingredient.unit} {ingredient.name}</span>
+                        <span>{formatIngredient(ingredient)}</span>
                       </li>
                     ))}
                   </ul>
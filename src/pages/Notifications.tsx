@@ -12,38 +12,45 @@ import {
   Plus,
   Smartphone,
   Mail,
-  Calendar
+  Calendar,
+  Moon
 } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
+import { InboxNotification, InboxNotificationType, NotificationSettings } from '../types';
+import { InboxService } from '../services/inboxService';
+import { PreferencesService } from '../services/preferencesService';
 import { NotificationService } from '../services/notificationService';
+import { ReminderService } from '../services/reminderService';
+import { smsService, SmsDelivery, SmsStatus } from '../services/smsService';
 import { ProfileService } from '../services/profileService';
 import Button from '../components/ui/Button';
 import Input from '../components/ui/Input';
 import Card, { CardHeader, CardTitle, CardContent } from '../components/ui/Card';
 import toast from 'react-hot-toast';
 
-interface Notification {
-  id: string;
-  type: 'meal_reminder' | 'progress_update' | 'achievement' | 'system';
-  title: string;
-  message: string;
-  timestamp: string;
-  read: boolean;
-  actionRequired?: boolean;
-}
+const notificationFilters: { value: InboxNotificationType | 'all'; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'meal_reminder', label: 'Reminders' },
+  { value: 'progress_update', label: 'Progress' },
+  { value: 'achievement', label: 'Achievements' },
+  { value: 'system', label: 'System' },
+];
+
+const smsStatusStyles: Record<SmsStatus, string> = {
+  queued: 'bg-gray-100 text-gray-700',
+  sent: 'bg-blue-100 text-blue-700',
+  delivered: 'bg-emerald-100 text-emerald-700',
+  undelivered: 'bg-amber-100 text-amber-700',
+  failed: 'bg-red-100 text-red-700',
+  blocked: 'bg-amber-100 text-amber-700',
+  rate_limited: 'bg-amber-100 text-amber-700',
+};
 
 export default function Notifications() {
-  const [notifications, setNotifications] = useState<Notification[]>([]);
-  const [notificationSettings, setNotificationSettings] = useState({
-    mealReminders: true,
-    progressUpdates: true,
-    achievements: true,
-    systemNotifications: true,
-    smsEnabled: false,
-    emailEnabled: true,
-    reminderTime: 15, // minutes before meal
-    browserNotifications: true,
-  });
+  const [notifications, setNotifications] = useState<InboxNotification[]>([]);
+  const [typeFilter, setTypeFilter] = useState<InboxNotificationType | 'all'>('all');
+  const [notificationSettings, setNotificationSettings] = useState<NotificationSettings>(PreferencesService.getNotificationSettings());
+  const [smsDeliveries, setSmsDeliveries] = useState<SmsDelivery[]>([]);
   const [loading, setLoading] = useState(true);
   const [browserNotificationPermission, setBrowserNotificationPermission] = useState<NotificationPermission>('default');
   const navigate = useNavigate();
@@ -54,72 +61,67 @@ export default function Notifications() {
       navigate('/auth');
       return;
     }
-    loadNotifications();
     loadNotificationSettings();
+    loadSmsDeliveries();
     checkBrowserNotificationPermission();
     setupMealReminders();
   }, [user]);
 
-  const loadNotifications = () => {
-    // Mock notifications data
-    const mockNotifications: Notification[] = [
-      {
-        id: '1',
-        type: 'meal_reminder',
-        title: 'Lunch Reminder',
-        message: 'Time for your healthy lunch! Don\'t forget to log your meal.',
-        timestamp: new Date(Date.now() - 30 * 60 * 1000).toISOString(), // 30 minutes ago
-        read: false,
-        actionRequired: true,
-      },
-      {
-        id: '2',
-        type: 'achievement',
-        title: 'Achievement Unlocked!',
-        message: 'Congratulations! You\'ve completed 7 days in a row. Keep up the great work!',
-        timestamp: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(), // 2 hours ago
-        read: false,
-      },
-      {
-        id: '3',
-        type: 'progress_update',
-        title: 'Weekly Progress Summary',
-        message: 'You\'ve achieved 87% adherence this week. You\'re doing amazing!',
-        timestamp: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString(), // 1 day ago
-        read: true,
-      },
-      {
-        id: '4',
-        type: 'system',
-        title: 'New Feature Available',
-        message: 'Check out the new meal planner feature to customize your daily meals!',
-        timestamp: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(), // 3 days ago
-        read: true,
-      },
-    ];
-
-    setNotifications(mockNotifications);
-    setLoading(false);
-  };
+  useEffect(() => {
+    if (!user) return;
 
-  const loadNotificationSettings = () => {
-    const savedSettings = localStorage.getItem('nutriguide_notification_settings');
-    if (savedSettings) {
-      setNotificationSettings(JSON.parse(savedSettings));
+    const loadNotifications = async () => {
+      const { data, error } = await InboxService.getNotifications(typeFilter === 'all' ? undefined : typeFilter);
+      if (error) {
+        toast.error('Failed to load notifications');
+      }
+      setNotifications(data || []);
+      setLoading(false);
+    };
+    loadNotifications();
+
+    // Keep the list in step with the reminder scheduler and other open tabs
+    return InboxService.subscribe(user.id, change => {
+      setNotifications(prev => {
+        const rest = prev.filter(notif => notif.id !== change.id);
+        const { notification } = change;
+        if (!notification || (typeFilter !== 'all' && notification.type !== typeFilter)) return rest;
+        return change.event === 'INSERT'
+          ? [notification, ...rest]
+          : prev.map(notif => notif.id === change.id ? notification : notif);
+      });
+    });
+  }, [user, typeFilter]);
+
+  const loadNotificationSettings = async () => {
+    const { data } = await PreferencesService.loadPreferences();
+    if (data) {
+      setNotificationSettings(data.notifications);
     }
   };
 
+  const loadSmsDeliveries = async () => {
+    const { data } = await smsService.getDeliveryLog();
+    setSmsDeliveries(data || []);
+  };
+
   const saveNotificationSettings = async () => {
-    localStorage.setItem('nutriguide_notification_settings', JSON.stringify(notificationSettings));
-    NotificationService.saveNotificationSettings(notificationSettings);
+    const saved = PreferencesService.getNotificationSettings();
 
-    // If browser notifications are enabled, request permission and setup reminders
-    if (notificationSettings.browserNotifications && notificationSettings.mealReminders) {
-      await setupMealReminders();
-    } else {
-      NotificationService.clearAllReminders();
+    // Turning SMS on or off is the user's consent to receive texts
+    if (notificationSettings.smsEnabled !== saved.smsEnabled) {
+      await smsService.setOptIn(notificationSettings.smsEnabled);
     }
 
+    // Only the settings edited on this page
+    const changes = Object.fromEntries(
+      Object.entries(notificationSettings).filter(([key, value]) => JSON.stringify(value) !== JSON.stringify(saved[key as keyof NotificationSettings]))
+    );
+    const { error } = await PreferencesService.savePreferences({ notifications: changes });
+    if (error) return;
+
+    await setupMealReminders();
+
     toast.success('Notification settings saved!');
   };
 
@@ -145,7 +147,7 @@ export default function Notifications() {
       const { data: profileData } = await ProfileService.getProfile();
       if (profileData) {
         const profile = ProfileService.profileRowToUserProfile(profileData);
-        NotificationService.scheduleMealReminders(profile);
+        await ReminderService.setupReminders(profile);
         console.log('Meal reminders scheduled successfully');
       }
     } catch (error) {
@@ -160,31 +162,53 @@ export default function Notifications() {
     }
   };
 
-  const markAsRead = (id: string) => {
-    setNotifications(prev =>
-      prev.map(notif =>
-        notif.id === id ? { ...notif, read: true } : notif
-      )
-    );
+  const markAsRead = async (id: string) => {
+    const { error } = await InboxService.markAsRead([id]);
+    if (!error) {
+      setNotifications(prev =>
+        prev.map(notif =>
+          notif.id === id ? { ...notif, read: true } : notif
+        )
+      );
+    }
   };
 
-  const markAllAsRead = () => {
-    setNotifications(prev =>
-      prev.map(notif => ({ ...notif, read: true }))
-    );
-    toast.success('All notifications marked as read');
+  // Bulk actions apply to the notifications in view when a type filter is on
+  const visibleIds = () => typeFilter === 'all' ? undefined : notifications.map(notif => notif.id);
+
+  const markAllAsRead = async () => {
+    const { error } = await InboxService.markAsRead(visibleIds());
+    if (!error) {
+      setNotifications(prev =>
+        prev.map(notif => ({ ...notif, read: true }))
+      );
+      toast.success('All notifications marked as read');
+    }
   };
 
-  const deleteNotification = (id: string) => {
-    setNotifications(prev => prev.filter(notif => notif.id !== id));
-    toast.success('Notification deleted');
+  const deleteNotification = async (id: string) => {
+    const { error } = await InboxService.deleteNotifications([id]);
+    if (!error) {
+      setNotifications(prev => prev.filter(notif => notif.id !== id));
+      toast.success('Notification deleted');
+    }
   };
 
-  const clearAllNotifications = () => {
+  const clearAllNotifications = async () => {
     if (window.confirm('Are you sure you want to clear all notifications?')) {
-      setNotifications([]);
-      toast.success('All notifications cleared');
+      const { error } = await InboxService.deleteNotifications(visibleIds());
+      if (!error) {
+        setNotifications([]);
+        toast.success('All notifications cleared');
+      }
+    }
+  };
+
+  const takeAction = async (notification: InboxNotification) => {
+    if (!notification.read) {
+      await markAsRead(notification.id);
     }
+    navigate(notification.actionUrl || '/dashboard');
   };
 
   const getNotificationIcon = (type: string) => {
@@ -292,6 +316,20 @@ export default function Notifications() {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Notifications List */}
           <div className="lg:col-span-2 space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {notificationFilters.map(filter => (
+                <button
+                  key={filter.value}
+                  onClick={() => setTypeFilter(filter.value)}
+                  className={`px-3 py-1.5 rounded-full text-sm font-medium transition-colors ${typeFilter === filter.value
+                    ? 'bg-emerald-600 text-white'
+                    : 'bg-white text-gray-700 border border-gray-200 hover:bg-gray-100'
+                    }`}
+                >
+                  {filter.label}
+                </button>
+              ))}
+            </div>
             {notifications.length > 0 ? (
               notifications.map((notification, index) => (
                 <motion.div
@@ -327,7 +365,7 @@ export default function Notifications() {
                             </p>
                             {notification.actionRequired && (
                               <div className="mt-3">
-                                <Button size="sm">
+                                <Button size="sm" onClick={() => takeAction(notification)}>
                                   Take Action
                                 </Button>
                               </div>
@@ -399,6 +437,51 @@ export default function Notifications() {
                     />
                   </div>
 
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="font-medium">Hydration Reminders</p>
+                      <p className="text-sm text-gray-600">Nudges to drink water through the day</p>
+                    </div>
+                    <input
+                      type="checkbox"
+                      checked={notificationSettings.hydrationReminders}
+                      onChange={(e) => setNotificationSettings(prev => ({
+                        ...prev,
+                        hydrationReminders: e.target.checked
+                      }))}
+                      className="rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
+                    />
+                  </div>
+
+                  {notificationSettings.hydrationReminders && (
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Wake up</label>
+                        <input
+                          type="time"
+                          value={notificationSettings.wakeTime}
+                          onChange={(e) => setNotificationSettings(prev => ({
+                            ...prev,
+                            wakeTime: e.target.value
+                          }))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Bedtime</label>
+                        <input
+                          type="time"
+                          value={notificationSettings.sleepTime}
+                          onChange={(e) => setNotificationSettings(prev => ({
+                            ...prev,
+                            sleepTime: e.target.value
+                          }))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                        />
+                      </div>
+                    </div>
+                  )}
+
                   <div className="flex items-center justify-between">
                     <div>
                       <p className="font-medium">Progress Updates</p>
@@ -493,7 +576,7 @@ export default function Notifications() {
                       <Smartphone className="w-4 h-4 text-gray-400" />
                       <div>
                         <p className="font-medium">SMS Notifications</p>
-                        <p className="text-sm text-gray-600">Receive via text message</p>
+                        <p className="text-sm text-gray-600">Receive via text message. Reply STOP to opt out.</p>
                       </div>
                     </div>
                     <input
@@ -546,6 +629,54 @@ export default function Notifications() {
                     </select>
                   </div>
 
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2">
+                      <Moon className="w-4 h-4 text-gray-400" />
+                      <div>
+                        <p className="font-medium">Quiet Hours</p>
+                        <p className="text-sm text-gray-600">No reminders during this window</p>
+                      </div>
+                    </div>
+                    <input
+                      type="checkbox"
+                      checked={notificationSettings.quietHours.enabled}
+                      onChange={(e) => setNotificationSettings(prev => ({
+                        ...prev,
+                        quietHours: { ...prev.quietHours, enabled: e.target.checked }
+                      }))}
+                      className="rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
+                    />
+                  </div>
+
+                  {notificationSettings.quietHours.enabled && (
+                    <div className="grid grid-cols-2 gap-3">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                        <input
+                          type="time"
+                          value={notificationSettings.quietHours.start}
+                          onChange={(e) => setNotificationSettings(prev => ({
+                            ...prev,
+                            quietHours: { ...prev.quietHours, start: e.target.value }
+                          }))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">Until</label>
+                        <input
+                          type="time"
+                          value={notificationSettings.quietHours.end}
+                          onChange={(e) => setNotificationSettings(prev => ({
+                            ...prev,
+                            quietHours: { ...prev.quietHours, end: e.target.value }
+                          }))}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                        />
+                      </div>
+                    </div>
+                  )}
+
                   <div className="space-y-2">
                     <Button
                       onClick={saveNotificationSettings}
@@ -565,6 +696,34 @@ export default function Notifications() {
               </CardContent>
             </Card>
 
+            {/* SMS Delivery Log */}
+            {smsDeliveries.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <Smartphone className="w-5 h-5 text-emerald-600" />
+                    <span>Recent Texts</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-3">
+                    {smsDeliveries.map(delivery => (
+                      <div key={delivery.id} className="text-sm border-b border-gray-100 pb-2 last:border-0">
+                        <div className="flex justify-between items-center">
+                          <span className="text-gray-500">{formatTimestamp(delivery.createdAt)}</span>
+                          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${smsStatusStyles[delivery.status]}`}>
+                            {delivery.status.replace('_', ' ')}
+                          </span>
+                        </div>
+                        <p className="text-gray-700 mt-1 line-clamp-2">{delivery.body}</p>
+                        {delivery.error && <p className="text-xs text-red-600 mt-1">{delivery.error}</p>}
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Quick Stats */}
             <Card>
               <CardHeader>
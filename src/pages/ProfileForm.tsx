@@ -8,25 +8,29 @@ import { ArrowRight, ArrowLeft, User, Target, Utensils, Activity, Phone, Heart,
 import { UserProfile } from '../types';
 import { useAuth } from '../context/AuthContext';
 import { ProfileService } from '../services/profileService';
+import { BMR_FORMULA_LABELS } from '../services/nutritionTargetService';
 import Button from '../components/ui/Button';
 import Input from '../components/ui/Input';
 import Select from '../components/ui/Select';
 import Card, { CardHeader, CardTitle, CardContent } from '../components/ui/Card';
 import toast from 'react-hot-toast';
+import { normalizePhoneNumber } from '../services/smsService';
 
 const profileSchema = z.object({
   name: z.string().min(2, 'Name must be at least 2 characters'),
   email: z.string().email('Please enter a valid email address'),
-  phoneNumber: z.string().min(10, 'Please enter a valid phone number'),
+  phoneNumber: z.string().refine(value => normalizePhoneNumber(value) !== null, 'Enter your number with its country code, e.g. +1 555 123 4567'),
   age: z.number().min(13).max(120),
   gender: z.enum(['male', 'female', 'other']),
   weight: z.number().min(30).max(300),
   height: z.number().min(100).max(250),
+  bodyFatPercentage: z.number().min(3).max(70).optional(),
+  bmrFormula: z.enum(['auto', 'mifflin_st_jeor', 'katch_mcardle', 'harris_benedict']),
   activityLevel: z.enum(['sedentary', 'light', 'moderate', 'active', 'very_active']),
   primaryGoal: z.enum(['weight_loss', 'muscle_gain', 'maintenance', 'general_health']),
   targetWeight: z.number().optional(),
   planDuration: z.number().min(7, 'Plan duration must be at least 7 days').max(365, 'Plan duration cannot exceed 365 days'),
-  planDurationType: z.literal('days'),
+  planDurationType: z.enum(['days', 'weeks', 'months']),
   sportActivities: z.array(z.string()),
   allergies: z.array(z.string()),
   intolerances: z.array(z.string()),
@@ -36,6 +40,7 @@ const profileSchema = z.object({
   breakfastTime: z.string(),
   lunchTime: z.string(),
   dinnerTime: z.string(),
+  snackTimes: z.array(z.string()), // no field of its own; kept so saving doesn't reset them
   budgetRange: z.enum(['low', 'medium', 'high']),
   medicalConditions: z.array(z.string()).min(1, 'Please select at least one medical condition'),
   otherMedicalCondition: z.string().optional(),
@@ -64,6 +69,13 @@ const activityOptions = [
   { value: 'very_active', label: 'Extremely Active (very hard exercise, physical job)' },
 ];
 
+const bmrFormulaOptions = [
+  { value: 'auto', label: 'Automatic (best for your details)' },
+  { value: 'mifflin_st_jeor', label: BMR_FORMULA_LABELS.mifflin_st_jeor },
+  { value: 'katch_mcardle', label: `${BMR_FORMULA_LABELS.katch_mcardle} (needs body fat %)` },
+  { value: 'harris_benedict', label: BMR_FORMULA_LABELS.harris_benedict },
+];
+
 const goalOptions = [
   { value: 'weight_loss', label: 'Weight Loss' },
   { value: 'muscle_gain', label: 'Muscle Gain' },
@@ -119,6 +131,8 @@ export default function ProfileForm() {
       gender: 'male',
       weight: 70,
       height: 170,
+      bodyFatPercentage: undefined,
+      bmrFormula: 'auto',
       activityLevel: 'moderate',
       primaryGoal: 'maintenance',
       targetWeight: 70,
@@ -133,6 +147,7 @@ export default function ProfileForm() {
       breakfastTime: '08:00',
       lunchTime: '13:00',
       dinnerTime: '19:00',
+      snackTimes: ['10:00', '16:00'],
       budgetRange: 'medium',
       medicalConditions: ['None'],
       otherMedicalCondition: '',
@@ -174,6 +189,8 @@ export default function ProfileForm() {
     } else if (currentStep === 2) {
       form.resetField('weight');
       form.resetField('height');
+      form.resetField('bodyFatPercentage');
+      form.resetField('bmrFormula');
       form.resetField('activityLevel');
     } else if (currentStep === 3) {
       form.resetField('primaryGoal');
@@ -215,20 +232,23 @@ export default function ProfileForm() {
           gender: profile.personalDetails.gender,
           weight: profile.personalDetails.weight,
           height: profile.personalDetails.height,
+          bodyFatPercentage: profile.personalDetails.bodyFatPercentage,
+          bmrFormula: profile.preferences.bmrFormula || 'auto',
           activityLevel: profile.personalDetails.activityLevel,
           primaryGoal: profile.healthGoals.primary,
           targetWeight: profile.healthGoals.targetWeight,
           allergies: profile.dietaryRestrictions.allergies,
-          intolerances: [],
+          intolerances: profile.dietaryRestrictions.intolerances,
           dietType: profile.dietaryRestrictions.dietType,
-          sportActivities: [],
-          planDuration: profile.planDuration || 30,
-          planDurationType: 'days',
-          restrictions: [],
+          sportActivities: profile.sportActivities,
+          planDuration: profile.planDuration,
+          planDurationType: profile.planDurationType,
+          restrictions: profile.dietaryRestrictions.restrictions,
           cuisines: profile.preferences.cuisines,
           breakfastTime: profile.preferences.mealTimings.breakfast,
           lunchTime: profile.preferences.mealTimings.lunch,
           dinnerTime: profile.preferences.mealTimings.dinner,
+          snackTimes: profile.preferences.mealTimings.snacks,
           budgetRange: profile.preferences.budgetRange,
           medicalConditions: profile.medicalConditions,
         });
@@ -293,6 +313,7 @@ export default function ProfileForm() {
           gender: data.gender,
           weight: data.weight,
           height: data.height,
+          bodyFatPercentage: data.bodyFatPercentage,
           activityLevel: data.activityLevel,
         },
         healthGoals: {
@@ -311,9 +332,10 @@ export default function ProfileForm() {
             breakfast: data.breakfastTime,
             lunch: data.lunchTime,
             dinner: data.dinnerTime,
-            snacks: ['10:00', '16:00'],
+            snacks: data.snackTimes,
           },
           budgetRange: data.budgetRange,
+          bmrFormula: data.bmrFormula === 'auto' ? undefined : data.bmrFormula,
         },
         medicalConditions: data.medicalConditions,
         sportActivities: data.sportActivities,
@@ -374,6 +396,8 @@ export default function ProfileForm() {
                 <Input {...form.register('weight', { valueAsNumber: true })} type="number" label="Weight (kg)" placeholder="Enter weight in kg" error={form.formState.errors.weight?.message} />
                 <Input {...form.register('height', { valueAsNumber: true })} type="number" label="Height (cm)" placeholder="Enter height in cm" error={form.formState.errors.height?.message} />
                 <Select {...form.register('activityLevel')} label="Activity Level" options={activityOptions} error={form.formState.errors.activityLevel?.message} />
+                <Input {...form.register('bodyFatPercentage', { setValueAs: v => (v === '' || v === null || v === undefined ? undefined : Number(v)) })} type="number" label="Body Fat % - Optional" placeholder="e.g. 22" error={form.formState.errors.bodyFatPercentage?.message} />
+                <Select {...form.register('bmrFormula')} label="Metabolic Rate Formula" options={bmrFormulaOptions} error={form.formState.errors.bmrFormula?.message} />
               </div>
             </CardContent>
           </Card>
@@ -11,7 +11,9 @@ import {
   Share,
   BarChart3,
   PieChart,
-  Activity
+  Activity,
+  Scale,
+  Trash2
 } from 'lucide-react';
 import { 
   LineChart, 
@@ -25,21 +27,36 @@ import {
   Bar, 
   PieChart as RechartsPieChart, 
   Pie,
-  Cell 
+  Cell,
+  Legend
 } from 'recharts';
+import { DayMeal, DietPlan, MealLog, UserProfile, WeightEntry } from '../types';
 import { useAuth } from '../context/AuthContext';
+import { DataExportService } from '../services/dataExportService';
 import { DietPlanService } from '../services/dietPlanService';
+import { MealLogService } from '../services/mealLogService';
+import { AdherenceService } from '../services/adherenceService';
+import { InboxService } from '../services/inboxService';
+import { NotificationService } from '../services/notificationService';
+import { NutritionTrackingService } from '../services/nutritionTrackingService';
+import { ProfileService } from '../services/profileService';
+import { WeightService, WeightProjection } from '../services/weightService';
 import Button from '../components/ui/Button';
+import Input from '../components/ui/Input';
 import Card, { CardHeader, CardTitle, CardContent } from '../components/ui/Card';
 import toast from 'react-hot-toast';
 
 interface ProgressData {
-  activePlan: any;
+  activePlan: DietPlan | null;
   weeklyProgress: Array<{
     day: string;
     adherence: number;
     calories: number;
-    weight: number;
+  }>;
+  weightProgress: Array<{
+    day: string;
+    weight: number | null;
+    trend: number;
   }>;
   macroDistribution: Array<{
     name: string;
@@ -53,20 +70,31 @@ interface ProgressData {
     date?: string;
     progress?: number;
   }>;
+  projection: WeightProjection | null;
   stats: {
     totalDays: number;
     completedDays: number;
     adherenceRate: number;
     avgCalories: number;
-    weightChange: number;
+    weightChange: number | null;
+    trendWeight: number | null;
+    weeklyRate: number | null;
     streakDays: number;
   };
 }
 
+const todayString = () => new Date().toISOString().split('T')[0];
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
 export default function Progress() {
   const [loading, setLoading] = useState(true);
   const [timeRange, setTimeRange] = useState('7d');
   const [progressData, setProgressData] = useState<ProgressData | null>(null);
+  const [weightEntries, setWeightEntries] = useState<WeightEntry[]>([]);
+  const [weightForm, setWeightForm] = useState({ date: todayString(), weight: '', bodyFat: '' });
+  const [savingWeight, setSavingWeight] = useState(false);
   const navigate = useNavigate();
   const { user } = useAuth();
 
@@ -81,11 +109,18 @@ export default function Progress() {
   const loadProgressData = async () => {
     setLoading(true);
     try {
-      const { data: plansData } = await DietPlanService.getUserDietPlans();
-      if (plansData && plansData.length > 0) {
-        const plans = plansData.map(DietPlanService.dietPlanRowToDietPlan);
-        generateProgressData(plans);
-      }
+      const [{ data: plansData }, { data: entries }, { data: profileData }] = await Promise.all([
+        DietPlanService.getUserDietPlans(),
+        WeightService.getWeightEntries(),
+        ProfileService.getProfile(),
+      ]);
+      const plans = (plansData || []).map(DietPlanService.dietPlanRowToDietPlan);
+      const profile = profileData ? ProfileService.profileRowToUserProfile(profileData) : null;
+      const activePlan = plans.find(plan => plan.isActive) || plans[0] || null;
+      const { data: logs } = activePlan ? await MealLogService.getPlanMealLogs(activePlan) : { data: [] };
+
+      setWeightEntries(entries || []);
+      generateProgressData(activePlan, logs || [], entries || [], profile);
     } catch (error) {
       console.error('Error loading progress data:', error);
       toast.error('Failed to load progress data');
@@ -94,69 +129,174 @@ export default function Progress() {
     }
   };
 
-  const generateProgressData = (plans: any[]) => {
-    const activePlan = plans.find(plan => plan.isActive) || plans[0];
-    
-    // Generate progress data based on time range
+  // Each achievement goes to the inbox once per plan; only newly earned ones pop up
+  const announceAchievements = async (earned: ProgressData['achievements'], activePlan: DietPlan | null) => {
+    for (const achievement of earned) {
+      const slug = achievement.title.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+      const { data } = await InboxService.createNotification({
+        type: 'achievement',
+        title: `Achievement Unlocked: ${achievement.title}`,
+        message: achievement.description,
+        actionUrl: '/progress',
+        dedupeKey: `achievement:${activePlan?.id ?? 'none'}:${slug}`,
+      });
+      if (data) {
+        NotificationService.showAchievementNotification(data.title, data.message);
+      }
+    }
+  };
+
+  const generateProgressData = (activePlan: DietPlan | null, logs: MealLog[], entries: WeightEntry[], profile: UserProfile | null) => {
+    const eatenOn = (date: string) => NutritionTrackingService.calculateCompletedNutrition(MealLogService.getDayLogs(logs, date));
+    const isComplete = (day: DayMeal) => MealLogService.isDayComplete(day, logs);
+    const today = todayString();
+
+    // Scores for the plan days that have elapsed; upcoming days aren't scored
+    const adherence = activePlan ? AdherenceService.calculatePlanAdherence(activePlan, logs, today) : null;
+    const dayScores = new Map((adherence?.daily || []).map(day => [day.date, day.score]));
+
+    // Dates covered by the selected time range, oldest first
     const daysToShow = timeRange === '7d' ? 7 : timeRange === '30d' ? 30 : 90;
-    const weeklyProgress = Array.from({ length: daysToShow }, (_, index) => {
+    const rangeDates = Array.from({ length: daysToShow }, (_, index) => {
       const date = new Date();
       date.setDate(date.getDate() - (daysToShow - index - 1));
-      return {
-        day: date.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' }),
-        adherence: Math.floor(75 + Math.random() * 25), // Random between 75-100
-        calories: Math.floor(2000 + Math.random() * 300), // Random between 2000-2300
-        weight: 75.2 - (index * 0.1), // Simulate gradual weight loss
-      };
+      return date.toISOString().split('T')[0];
     });
 
+    const planDays = new Map((activePlan?.meals || []).map(day => [day.date, day]));
+    const trackedDays = rangeDates
+      .map(date => planDays.get(date))
+      .filter((day): day is DayMeal => !!day);
+
+    const weeklyProgress = rangeDates.map(date => ({
+      day: formatDay(date),
+      adherence: dayScores.get(date) ?? 0,
+      calories: Math.round(eatenOn(date).calories),
+    }));
+
+    // Macro split of what was actually eaten, falling back to the plan's targets
+    const eaten = trackedDays.reduce(
+      (acc, day) => {
+        const nutrition = eatenOn(day.date);
+        return { protein: acc.protein + nutrition.protein, carbs: acc.carbs + nutrition.carbs, fat: acc.fat + nutrition.fat };
+      },
+      { protein: 0, carbs: 0, fat: 0 }
+    );
+    const macroSource = eaten.protein + eaten.carbs + eaten.fat > 0 ? eaten : activePlan?.macros || { protein: 0, carbs: 0, fat: 0 };
+    const macroCalories = macroSource.protein * 4 + macroSource.carbs * 4 + macroSource.fat * 9;
+    const macroShare = (grams: number, kcalPerGram: number) =>
+      macroCalories > 0 ? Math.round((grams * kcalPerGram / macroCalories) * 100) : 0;
+
     const macroDistribution = [
-      { name: 'Protein', value: 25, color: '#10B981' },
-      { name: 'Carbs', value: 45, color: '#3B82F6' },
-      { name: 'Fat', value: 30, color: '#F97316' },
+      { name: 'Protein', value: macroShare(macroSource.protein, 4), color: '#10B981' },
+      { name: 'Carbs', value: macroShare(macroSource.carbs, 4), color: '#3B82F6' },
+      { name: 'Fat', value: macroShare(macroSource.fat, 9), color: '#F97316' },
     ];
 
+    // Weight trend over all entries so the smoothing is warmed up before the range starts
+    const trend = WeightService.calculateTrend(entries, today);
+    const rangeTrend = trend.filter(point => point.date >= rangeDates[0]);
+    const weightProgress = rangeTrend.map(point => ({ day: formatDay(point.date), weight: point.weight, trend: point.trend }));
+    const weightChange = rangeTrend.length > 0
+      ? Math.round((rangeTrend[rangeTrend.length - 1].trend - rangeTrend[0].trend) * 10) / 10
+      : null;
+    const targetWeight = profile?.healthGoals.targetWeight;
+    const projection = targetWeight ? WeightService.projectGoal(trend, targetWeight) : null;
+
+    // Elapsed days in the range and the run of fully completed days up to today
+    const rangeScores = trackedDays.filter(day => dayScores.has(day.date)).map(day => dayScores.get(day.date) || 0);
+    const loggedDays = trackedDays.filter(day => day.date <= today && MealLogService.getDayLogs(logs, day.date).length > 0);
+    const adherenceRate = rangeScores.length > 0
+      ? Math.round(rangeScores.reduce((sum, score) => sum + score, 0) / rangeScores.length)
+      : 0;
+    const avgCalories = loggedDays.length > 0
+      ? Math.round(loggedDays.reduce((sum, day) => sum + eatenOn(day.date).calories, 0) / loggedDays.length)
+      : 0;
+
+    const planDaysToDate = (activePlan?.meals || [])
+      .filter(day => day.date <= today)
+      .sort((a, b) => b.date.localeCompare(a.date));
+    // Today still counts towards the streak while it's in progress
+    const streakStart = planDaysToDate[0]?.date === today && !isComplete(planDaysToDate[0]) ? 1 : 0;
+    const streakEnd = planDaysToDate.slice(streakStart).findIndex(day => !isComplete(day));
+    const streakDays = streakEnd === -1 ? planDaysToDate.length - streakStart : streakEnd;
+    const completedDays = planDaysToDate.filter(isComplete).length;
+    const daysOnTarget = planDaysToDate.filter(day => {
+      const calories = eatenOn(day.date).calories;
+      return activePlan && Math.abs(calories - activePlan.dailyCalories) <= activePlan.dailyCalories * 0.1;
+    }).length;
+
+    const startWeight = entries[0]?.weight;
+    const goalProgress = startWeight && targetWeight && projection && startWeight !== targetWeight
+      ? Math.max(0, Math.min(100, Math.round(((startWeight - projection.currentTrend) / (startWeight - targetWeight)) * 100)))
+      : 0;
+
     const achievements = [
-      { title: '7-Day Streak', description: 'Completed 7 days in a row', earned: true, date: '2024-01-15' },
-      { title: 'Macro Master', description: 'Hit macro targets 5 days straight', earned: true, date: '2024-01-12' },
-      { title: 'Consistency King', description: 'Logged meals for 30 days', earned: false, progress: 23 },
-      { title: 'Goal Crusher', description: 'Reached weight loss goal', earned: false, progress: 65 },
+      { title: '7-Day Streak', description: 'Completed every meal 7 days in a row', earned: streakDays >= 7, progress: Math.round(Math.min(streakDays, 7) / 7 * 100) },
+      { title: 'Macro Master', description: 'Hit your calorie target on 5 days', earned: daysOnTarget >= 5, progress: Math.round(Math.min(daysOnTarget, 5) / 5 * 100) },
+      { title: 'Consistency King', description: 'Logged meals for 30 days', earned: loggedDays.length >= 30, progress: Math.round(Math.min(loggedDays.length, 30) / 30 * 100) },
+      { title: 'Goal Crusher', description: 'Reached your target weight', earned: goalProgress >= 100, progress: goalProgress },
     ];
 
+    announceAchievements(achievements.filter(achievement => achievement.earned), activePlan);
+
     setProgressData({
       activePlan,
       weeklyProgress,
+      weightProgress,
       macroDistribution,
       achievements,
+      projection,
       stats: {
-        totalDays: activePlan?.progress.totalDays || 30,
-        completedDays: activePlan?.progress.completedDays || 15,
-        adherenceRate: activePlan?.progress.adherenceRate || 87,
-        avgCalories: 2140,
-        weightChange: -0.8,
-        streakDays: 7,
+        totalDays: activePlan?.progress.totalDays || 0,
+        completedDays,
+        adherenceRate,
+        avgCalories,
+        weightChange,
+        trendWeight: trend.length > 0 ? trend[trend.length - 1].trend : null,
+        weeklyRate: trend.length > 1 ? WeightService.calculateWeeklyRate(trend) : null,
+        streakDays,
       }
     });
   };
 
-  const exportProgress = () => {
-    if (!progressData) return;
-    
-    const exportData = {
-      user: user?.email,
-      exportDate: new Date().toISOString(),
-      timeRange,
-      ...progressData,
-    };
-    
-    const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `nutriguide-progress-${new Date().toISOString().split('T')[0]}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
-    
+  const handleLogWeight = async () => {
+    const weight = Number(weightForm.weight);
+    const bodyFat = weightForm.bodyFat === '' ? undefined : Number(weightForm.bodyFat);
+
+    if (!weightForm.date || !(weight >= 30 && weight <= 300)) {
+      toast.error('Please enter a weight between 30 and 300 kg');
+      return;
+    }
+    if (bodyFat !== undefined && !(bodyFat >= 3 && bodyFat <= 70)) {
+      toast.error('Body fat should be between 3% and 70%');
+      return;
+    }
+
+    setSavingWeight(true);
+    const { error } = await WeightService.logWeight({ date: weightForm.date, weight, bodyFatPercentage: bodyFat });
+    setSavingWeight(false);
+
+    if (!error) {
+      setWeightForm({ date: todayString(), weight: '', bodyFat: '' });
+      loadProgressData();
+    }
+  };
+
+  const handleDeleteWeight = async (entryId: string) => {
+    const { error } = await WeightService.deleteWeightEntry(entryId);
+    if (!error) loadProgressData();
+  };
+
+  // The logged meals, weights and water behind these charts, one CSV per kind of record
+  const exportProgress = async () => {
+    const { data: bundle, error } = await DataExportService.buildExport();
+    if (error || !bundle) {
+      toast.error(error?.message || 'Failed to export progress data');
+      return;
+    }
+
+    DataExportService.downloadCsvZip(bundle);
     toast.success('Progress data exported successfully!');
   };
 
@@ -303,7 +443,11 @@ export default function Progress() {
                     <div className="flex items-center justify-between">
                       <div>
                         <p className="text-sm font-medium text-gray-600">Weight Change</p>
-                        <p className="text-2xl font-bold text-orange-600">{progressData.stats.weightChange} kg</p>
+                        <p className="text-2xl font-bold text-orange-600">
+                          {progressData.stats.weightChange !== null
+                            ? `${progressData.stats.weightChange > 0 ? '+' : ''}${progressData.stats.weightChange} kg`
+                            : '—'}
+                        </p>
                       </div>
                       <Target className="w-8 h-8 text-orange-600" />
                     </div>
@@ -417,22 +561,127 @@ export default function Progress() {
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <div className="h-64">
-                    <ResponsiveContainer width="100%" height="100%">
-                      <LineChart data={progressData.weeklyProgress}>
-                        <CartesianGrid strokeDasharray="3 3" />
-                        <XAxis dataKey="day" />
-                        <YAxis />
-                        <Tooltip />
-                        <Line 
-                          type="monotone" 
-                          dataKey="weight" 
-                          stroke="#10B981" 
-                          strokeWidth={3}
-                          dot={{ fill: '#10B981', strokeWidth: 2, r: 4 }}
-                        />
-                      </LineChart>
-                    </ResponsiveContainer>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                    <div className="bg-gray-50 rounded-lg p-3">
+                      <p className="text-sm text-gray-600">Trend Weight</p>
+                      <p className="text-xl font-bold text-gray-900">
+                        {progressData.stats.trendWeight !== null ? `${progressData.stats.trendWeight} kg` : '—'}
+                      </p>
+                    </div>
+                    <div className="bg-gray-50 rounded-lg p-3">
+                      <p className="text-sm text-gray-600">Weekly Rate</p>
+                      <p className="text-xl font-bold text-gray-900">
+                        {progressData.stats.weeklyRate !== null
+                          ? `${progressData.stats.weeklyRate > 0 ? '+' : ''}${progressData.stats.weeklyRate} kg/week`
+                          : '—'}
+                      </p>
+                    </div>
+                    <div className="bg-gray-50 rounded-lg p-3">
+                      <p className="text-sm text-gray-600">Projected Goal Date</p>
+                      <p className="text-xl font-bold text-gray-900">
+                        {progressData.projection?.goalDate
+                          ? new Date(`${progressData.projection.goalDate}T00:00:00`).toLocaleDateString()
+                          : '—'}
+                      </p>
+                      {progressData.projection && (
+                        <p className="text-xs text-gray-500">
+                          {progressData.projection.goalDate
+                            ? `Target ${progressData.projection.targetWeight} kg at the current rate`
+                            : `Trend isn't moving towards ${progressData.projection.targetWeight} kg yet`}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+
+                  {progressData.weightProgress.length > 0 ? (
+                    <div className="h-64">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={progressData.weightProgress}>
+                          <CartesianGrid strokeDasharray="3 3" />
+                          <XAxis dataKey="day" />
+                          <YAxis domain={['dataMin - 1', 'dataMax + 1']} />
+                          <Tooltip />
+                          <Legend />
+                          <Line
+                            type="monotone"
+                            dataKey="weight"
+                            name="Weigh-in"
+                            stroke="#9CA3AF"
+                            strokeWidth={0}
+                            dot={{ fill: '#9CA3AF', r: 4 }}
+                            isAnimationActive={false}
+                          />
+                          <Line
+                            type="monotone"
+                            dataKey="trend"
+                            name="Trend"
+                            stroke="#10B981"
+                            strokeWidth={3}
+                            dot={false}
+                          />
+                        </LineChart>
+                      </ResponsiveContainer>
+                    </div>
+                  ) : (
+                    <p className="text-center text-gray-500 py-8">
+                      No weigh-ins in this period. Log your weight below to start tracking your trend.
+                    </p>
+                  )}
+
+                  <div className="border-t border-gray-200 mt-6 pt-6">
+                    <h3 className="font-medium text-gray-900 mb-3 flex items-center space-x-2">
+                      <Scale className="w-4 h-4 text-emerald-600" />
+                      <span>Log Weight</span>
+                    </h3>
+                    <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+                      <Input
+                        type="date"
+                        label="Date"
+                        value={weightForm.date}
+                        max={todayString()}
+                        onChange={(e) => setWeightForm(prev => ({ ...prev, date: e.target.value }))}
+                      />
+                      <Input
+                        type="number"
+                        step="0.1"
+                        label="Weight (kg)"
+                        placeholder="e.g. 72.4"
+                        value={weightForm.weight}
+                        onChange={(e) => setWeightForm(prev => ({ ...prev, weight: e.target.value }))}
+                      />
+                      <Input
+                        type="number"
+                        step="0.1"
+                        label="Body Fat % - Optional"
+                        placeholder="e.g. 22"
+                        value={weightForm.bodyFat}
+                        onChange={(e) => setWeightForm(prev => ({ ...prev, bodyFat: e.target.value }))}
+                      />
+                      <Button onClick={handleLogWeight} isLoading={savingWeight}>
+                        Log Weight
+                      </Button>
+                    </div>
+
+                    {weightEntries.length > 0 && (
+                      <div className="mt-4 space-y-2">
+                        {weightEntries.slice(-5).reverse().map(entry => (
+                          <div key={entry.id} className="flex items-center justify-between text-sm bg-gray-50 rounded-lg px-3 py-2">
+                            <span className="text-gray-600">{new Date(`${entry.date}T00:00:00`).toLocaleDateString()}</span>
+                            <span className="font-medium text-gray-900">
+                              {entry.weight} kg
+                              {entry.bodyFatPercentage !== undefined && ` · ${entry.bodyFatPercentage}% body fat`}
+                            </span>
+                            <button
+                              onClick={() => handleDeleteWeight(entry.id)}
+                              className="text-gray-400 hover:text-red-600"
+                              title="Delete entry"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -4,13 +4,17 @@ import { motion } from 'framer-motion';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
 import { PieChart, Pie, Cell, ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip } from 'recharts';
-import { Calendar, Clock, Utensils, Activity, Target, Download, Save, Eye, Heart, AlertCircle, TrendingUp, Award, ArrowRight, CheckCircle } from 'lucide-react';
+import { Calendar, Clock, Utensils, Activity, Target, Download, Save, Eye, Heart, AlertCircle, TrendingUp, Award, ArrowRight, CheckCircle, DollarSign } from 'lucide-react';
 import { DietPlan, UserProfile } from '../types';
 import { useAuth } from '../context/AuthContext';
 import { ProfileService } from '../services/profileService';
 import { DietPlanService } from '../services/dietPlanService';
-import { AIService } from '../services/aiService';
+import { AIService, PlanGenerationError, PlanGenerationProgress } from '../services/aiService';
+import { CostService } from '../services/costService';
+import { NutritionTargetService, BMR_FORMULA_LABELS } from '../services/nutritionTargetService';
 import { NotificationService } from '../services/notificationService';
+import { ReminderService } from '../services/reminderService';
+import { InboxService } from '../services/inboxService';
 import { smsService } from '../services/smsService';
 import { emailService } from '../services/emailService';
 import Card, { CardHeader, CardTitle, CardContent } from '../components/ui/Card';
@@ -54,8 +58,11 @@ export default function Results() {
   const [showReview, setShowReview] = useState(true);
 
   const [downloading, setDownloading] = useState(false);
+  const [reducingCost, setReducingCost] = useState(false);
   const contentRef = useRef<HTMLDivElement>(null);
   const [generating, setGenerating] = useState(false);
+  const [generationProgress, setGenerationProgress] = useState<PlanGenerationProgress | null>(null);
+  const [resumableProgress, setResumableProgress] = useState<PlanGenerationProgress | null>(null);
   const navigate = useNavigate();
   const { user } = useAuth();
 
@@ -84,6 +91,7 @@ export default function Results() {
 
       const profile = ProfileService.profileRowToUserProfile(profileData);
       setUserProfile(profile);
+      setResumableProgress(AIService.getGenerationCheckpoint(profile));
 
       // Calculate plan dates based on duration - ensure fresh calculation each time
       const startDate = new Date();
@@ -112,19 +120,30 @@ export default function Results() {
     }
   };
 
-  const generatePlan = async () => {
+  const generatePlan = async (fillRemainingWithFallback: boolean = false) => {
     if (!userProfile) return;
 
     setGenerating(true);
+    setGenerationProgress(null);
     try {
-      // Generate diet plan using AI
-      const plan = await AIService.generateDietPlan(userProfile);
+      // Generate diet plan using AI, one week at a time
+      const plan = await AIService.generateDietPlan(userProfile, {
+        onProgress: setGenerationProgress,
+        fillRemainingWithFallback,
+      });
       setGeneratedPlan(plan);
+      setResumableProgress(null);
       setShowReview(false);
 
       // Send notifications
+      await InboxService.createNotification({
+        type: 'system',
+        title: 'Your diet plan is ready',
+        message: `${plan.name} has been generated. Review it and save it to start tracking.`,
+      });
+
       if (userProfile.phoneNumber) {
-        await smsService.sendPlanGenerated(userProfile.phoneNumber, plan.name);
+        await smsService.sendPlanGenerated(plan.name);
       }
 
       if (userProfile.email) {
@@ -133,6 +152,11 @@ export default function Results() {
 
       toast.success(`Your ${userProfile.planDuration}-day ${userProfile.dietaryRestrictions.dietType} diet plan has been generated successfully!`);
     } catch (error) {
+      if (error instanceof PlanGenerationError) {
+        setResumableProgress({ completedDays: error.completedDays, totalDays: error.totalDays });
+        toast.error(`Generation paused after ${error.completedDays} of ${error.totalDays} days. You can resume where it left off.`);
+        return;
+      }
       toast.error('Failed to generate diet plan. Please try again.');
       console.error('Plan generation error:', error);
     } finally {
@@ -153,10 +177,8 @@ export default function Results() {
 
       toast.success('Diet plan saved to your profile!');
 
-      // Setup browser notifications automatically
+      // Setup notifications automatically
       if (userProfile) {
-        const settings = NotificationService.getNotificationSettings();
-
         // Request permission if not already granted
         if (NotificationService.isSupported() && NotificationService.getPermissionStatus() === 'default') {
           const granted = await NotificationService.requestPermission();
@@ -165,15 +187,8 @@ export default function Results() {
           }
         }
 
-        // Schedule meal reminders if enabled
-        if (settings.browserNotifications && settings.mealReminders) {
-          NotificationService.scheduleMealReminders(userProfile);
-        }
-      }
-
-      // Schedule SMS reminders if enabled
-      if (userProfile?.phoneNumber) {
-        smsService.scheduleReminders(userProfile.phoneNumber, userProfile.preferences.mealTimings);
+        // Reminders are sent server-side, so they arrive with the app closed
+        await ReminderService.setupReminders(userProfile);
       }
 
       setTimeout(() => {
@@ -187,6 +202,31 @@ export default function Results() {
     }
   };
 
+  const handleStartOver = () => {
+    AIService.clearGenerationCheckpoint();
+    setResumableProgress(null);
+  };
+
+  const handleReducePlanCost = async () => {
+    if (!generatedPlan || !userProfile) return;
+
+    setReducingCost(true);
+    try {
+      const { plan, changedDays } = await AIService.reducePlanCost(userProfile, generatedPlan);
+      if (changedDays.length === 0) {
+        toast.error('No cheaper alternatives found');
+        return;
+      }
+      setGeneratedPlan(plan);
+      toast.success(`Swapped in cheaper meals on ${changedDays.length} day${changedDays.length === 1 ? '' : 's'}`);
+    } catch (error) {
+      toast.error('Failed to find cheaper meals');
+      console.error('Plan cost reduction error:', error);
+    } finally {
+      setReducingCost(false);
+    }
+  };
+
   const handleViewDashboard = () => {
     navigate('/dashboard');
   };
@@ -222,7 +262,15 @@ export default function Results() {
       pdf.setFontSize(10);
       pdf.setFont('helvetica', 'normal');
       pdf.text(`${userProfile.planDuration} Day Diet Plan | ${generatedPlan.dailyCalories} cal/day`, pageWidth / 2, yPos, { align: 'center' });
-      yPos += 10;
+      yPos += 5;
+      const targets = NutritionTargetService.calculateTargets(userProfile);
+      pdf.setFontSize(8);
+      pdf.text(
+        `Targets: ${generatedPlan.macros.protein}g protein, ${generatedPlan.macros.carbs}g carbs, ${generatedPlan.macros.fat}g fat, ${targets.fiber}g fiber | ` +
+        `BMR ${targets.bmr} kcal (${BMR_FORMULA_LABELS[targets.formula]}), TDEE ${targets.tdee} kcal`,
+        pageWidth / 2, yPos, { align: 'center' }
+      );
+      yPos += 7;
 
       // Table headers and data
       const tableHeaders = [
@@ -362,6 +410,42 @@ export default function Results() {
     );
   }
 
+  if (generating) {
+    const progressPercent = generationProgress
+      ? Math.round((generationProgress.completedDays / generationProgress.totalDays) * 100)
+      : 0;
+
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-16 h-16 border-4 border-emerald-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <h2 className="text-2xl font-semibold text-gray-900 mb-2">Generating Your Diet Plan</h2>
+          <p className="text-gray-600">Creating personalized nutrition recommendations...</p>
+          {generationProgress && (
+            <div className="mt-4 w-72 mx-auto">
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className="bg-emerald-600 h-2 rounded-full transition-all duration-500"
+                  style={{ width: `${progressPercent}%` }}
+                ></div>
+              </div>
+              <p className="text-sm text-gray-500 mt-2">
+                {generationProgress.completedDays} of {generationProgress.totalDays} days ready
+              </p>
+            </div>
+          )}
+          <div className="mt-4 space-y-2 text-sm text-gray-500">
+            <p>✓ Analyzing your profile</p>
+            <p>✓ Calculating nutritional needs</p>
+            <p>✓ Selecting optimal meals based on your diet preferences</p>
+            <p>✓ Customizing for your medical conditions</p>
+            <p>✓ Creating your {userProfile?.planDuration || 30}-day plan</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   // Show review step before generating the plan
   if (showReview) {
     const dietTypeInfo = getDietTypeInfo();
@@ -472,15 +556,36 @@ export default function Results() {
                   Your personalized {dietTypeInfo.label} diet plan will be created based on your profile information.
                   This may take a few moments as we analyze your preferences and generate optimal meal recommendations.
                 </p>
-                <div className="flex flex-col sm:flex-row gap-4 justify-center">
-                  <Button size="lg" onClick={generatePlan} isLoading={generating}>
-                    {generating ? 'Generating...' : 'Generate Diet Plan'}
-                    <ArrowRight className="w-5 h-5 ml-2" />
-                  </Button>
-                  <Button variant="outline" size="lg" onClick={() => navigate('/profile')}>
-                    Edit Profile
-                  </Button>
-                </div>
+                {resumableProgress ? (
+                  <>
+                    <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 mb-6 max-w-2xl mx-auto text-sm text-amber-800">
+                      <AlertCircle className="w-4 h-4 inline mr-2" />
+                      {resumableProgress.completedDays} of {resumableProgress.totalDays} days were generated before the last attempt stopped.
+                    </div>
+                    <div className="flex flex-col sm:flex-row gap-4 justify-center">
+                      <Button size="lg" onClick={() => generatePlan()} isLoading={generating}>
+                        Resume Generation
+                        <ArrowRight className="w-5 h-5 ml-2" />
+                      </Button>
+                      <Button variant="outline" size="lg" onClick={() => generatePlan(true)}>
+                        Finish with Standard Meals
+                      </Button>
+                      <Button variant="ghost" size="lg" onClick={handleStartOver}>
+                        Start Over
+                      </Button>
+                    </div>
+                  </>
+                ) : (
+                  <div className="flex flex-col sm:flex-row gap-4 justify-center">
+                    <Button size="lg" onClick={() => generatePlan()} isLoading={generating}>
+                      {generating ? 'Generating...' : 'Generate Diet Plan'}
+                      <ArrowRight className="w-5 h-5 ml-2" />
+                    </Button>
+                    <Button variant="outline" size="lg" onClick={() => navigate('/profile')}>
+                      Edit Profile
+                    </Button>
+                  </div>
+                )}
               </div>
             </div>
           </motion.div>
@@ -489,25 +594,6 @@ export default function Results() {
     );
   }
 
-  if (generating) {
-    return (
-      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
-        <div className="text-center">
-          <div className="w-16 h-16 border-4 border-emerald-600 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
-          <h2 className="text-2xl font-semibold text-gray-900 mb-2">Generating Your Diet Plan</h2>
-          <p className="text-gray-600">Creating personalized nutrition recommendations...</p>
-          <div className="mt-4 space-y-2 text-sm text-gray-500">
-            <p>✓ Analyzing your profile</p>
-            <p>✓ Calculating nutritional needs</p>
-            <p>✓ Selecting optimal meals based on your diet preferences</p>
-            <p>✓ Customizing for your medical conditions</p>
-            <p>✓ Creating your {userProfile?.planDuration || 30}-day plan</p>
-          </div>
-        </div>
-      </div>
-    );
-  }
-
   if (!generatedPlan) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -554,6 +640,10 @@ export default function Results() {
 
   const dietTypeInfo = getDietTypeInfo();
   const goalTypeInfo = getGoalTypeInfo();
+  const budgetSummary = userProfile
+    ? CostService.summarizePlan(generatedPlan.meals, userProfile.preferences.budgetRange)
+    : null;
+  const dayCosts = new Map(generatedPlan.meals.map(day => [day.day, CostService.estimateDayCost(day)]));
 
   return (
     <div className="min-h-screen bg-gray-50 py-8">
@@ -670,6 +760,23 @@ export default function Results() {
                 </div>
               </CardContent>
             </Card>
+
+            {budgetSummary && (
+              <Card>
+                <CardContent>
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="text-sm font-medium text-gray-600">Est. Daily Cost</p>
+                      <p className={`text-2xl font-bold ${budgetSummary.overBudgetDays.length > 0 ? 'text-red-600' : 'text-emerald-600'}`}>
+                        {CostService.formatCost(budgetSummary.averageDailyCost)}
+                      </p>
+                      <p className="text-xs text-gray-500">Budget {CostService.formatCost(budgetSummary.dailyBudget)}/day</p>
+                    </div>
+                    <DollarSign className="w-8 h-8 text-emerald-600" />
+                  </div>
+                </CardContent>
+              </Card>
+            )}
           </div>
 
           {/* User Profile Summary */}
@@ -766,6 +873,23 @@ export default function Results() {
             </Card>
           </div>
 
+          {budgetSummary && budgetSummary.overBudgetDays.length > 0 && (
+            <div className="mb-8 flex flex-col md:flex-row md:items-center justify-between gap-4 bg-red-50 border border-red-200 rounded-lg p-4">
+              <div className="flex items-start space-x-2 text-sm text-red-700">
+                <AlertCircle className="w-5 h-5 flex-shrink-0" />
+                <span>
+                  {budgetSummary.overBudgetDays.length} day{budgetSummary.overBudgetDays.length === 1 ? '' : 's'} go over your{' '}
+                  {userProfile?.preferences.budgetRange} budget of {CostService.formatCost(budgetSummary.dailyBudget)} per day
+                  (Day {budgetSummary.overBudgetDays.map(entry => entry.day).join(', ')}).
+                </span>
+              </div>
+              <Button variant="outline" size="sm" onClick={handleReducePlanCost} isLoading={reducingCost}>
+                <DollarSign className="w-4 h-4 mr-2" />
+                Swap In Cheaper Meals
+              </Button>
+            </div>
+          )}
+
           {/* Complete Food Plan - All Days */}
           <div className="space-y-6">
             <div className="flex items-center justify-between mb-6">
@@ -788,6 +912,12 @@ export default function Results() {
                       <Calendar className="w-5 h-5 text-emerald-600" />
                       <span>Day {day.day}</span>
                       <span className="text-sm text-gray-500">({day.totalCalories} calories)</span>
+                      {budgetSummary && dayCosts.has(day.day) && (
+                        <span className={`text-sm ${dayCosts.get(day.day)!.total > budgetSummary.dailyBudget ? 'text-red-600' : 'text-gray-500'}`}>
+                          • {CostService.formatCost(dayCosts.get(day.day)!.total)}
+                          {dayCosts.get(day.day)!.total > budgetSummary.dailyBudget && ' (over budget)'}
+                        </span>
+                      )}
                     </CardTitle>
                   </CardHeader>
                   <CardContent>
@@ -805,6 +935,8 @@ export default function Results() {
                             <span>{day.meals.breakfast.nutrition.calories} cal</span>
                             <span className="mx-2">•</span>
                             <span>{day.meals.breakfast.nutrition.protein}g protein</span>
+                            <span className="mx-2">•</span>
+                            <span>{CostService.formatCost(dayCosts.get(day.day)?.meals.breakfast ?? 0)}</span>
                           </div>
                           <div className="mt-2 text-xs text-gray-500">
                             <Clock className="w-3 h-3 inline mr-1" />
@@ -826,6 +958,8 @@ export default function Results() {
                             <span>{day.meals.lunch.nutrition.calories} cal</span>
                             <span className="mx-2">•</span>
                             <span>{day.meals.lunch.nutrition.protein}g protein</span>
+                            <span className="mx-2">•</span>
+                            <span>{CostService.formatCost(dayCosts.get(day.day)?.meals.lunch ?? 0)}</span>
                           </div>
                           <div className="mt-2 text-xs text-gray-500">
                             <Clock className="w-3 h-3 inline mr-1" />
@@ -847,6 +981,8 @@ export default function Results() {
                             <span>{day.meals.dinner.nutrition.calories} cal</span>
                             <span className="mx-2">•</span>
                             <span>{day.meals.dinner.nutrition.protein}g protein</span>
+                            <span className="mx-2">•</span>
+                            <span>{CostService.formatCost(dayCosts.get(day.day)?.meals.dinner ?? 0)}</span>
                           </div>
                           <div className="mt-2 text-xs text-gray-500">
                             <Clock className="w-3 h-3 inline mr-1" />
@@ -869,7 +1005,7 @@ export default function Results() {
                               <h6 className="font-medium text-gray-900">{snack.name}</h6>
                               <p className="text-sm text-gray-600">{snack.description}</p>
                               <div className="text-xs text-gray-500 mt-1">
-                                {snack.nutrition.calories} cal • {snack.nutrition.protein}g protein
+                                {snack.nutrition.calories} cal • {snack.nutrition.protein}g protein • {CostService.formatCost(dayCosts.get(day.day)?.meals[`snack_${snackIndex}`] ?? 0)}
                               </div>
                             </div>
                           ))}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, ChangeEvent } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { useForm } from 'react-hook-form';
@@ -21,6 +21,12 @@ import {
 } from 'lucide-react';
 import { useAuth } from '../context/AuthContext';
 import { ProfileService } from '../services/profileService';
+import { PreferencesService } from '../services/preferencesService';
+import { AccountService, AccountDeletion } from '../services/accountService';
+import { DataExportService } from '../services/dataExportService';
+import { ReminderService } from '../services/reminderService';
+import { normalizePhoneNumber, smsService } from '../services/smsService';
+import { UserPreferences } from '../types';
 import Button from '../components/ui/Button';
 import Input from '../components/ui/Input';
 import Card, { CardHeader, CardTitle, CardContent } from '../components/ui/Card';
@@ -29,20 +35,39 @@ import toast from 'react-hot-toast';
 const settingsSchema = z.object({
   name: z.string().min(2, 'Name must be at least 2 characters'),
   email: z.string().email('Please enter a valid email address'),
-  phoneNumber: z.string().optional(),
+  phoneNumber: z.string().optional().refine(value => !value || normalizePhoneNumber(value) !== null, 'Enter your number with its country code, e.g. +1 555 123 4567'),
   smsNotifications: z.boolean(),
   emailNotifications: z.boolean(),
   mealReminders: z.boolean(),
   progressUpdates: z.boolean(),
-  darkMode: z.boolean(),
+  theme: z.enum(['light', 'dark', 'system']),
   language: z.string(),
+  unitSystem: z.enum(['metric', 'imperial']),
 });
 
 type SettingsFormData = z.infer<typeof settingsSchema>;
 
+const preferencesToFormValues = (preferences: UserPreferences) => ({
+  smsNotifications: preferences.notifications.smsEnabled,
+  emailNotifications: preferences.notifications.emailEnabled,
+  mealReminders: preferences.notifications.mealReminders,
+  progressUpdates: preferences.notifications.progressUpdates,
+  theme: preferences.theme,
+  language: preferences.language,
+  unitSystem: preferences.unitSystem,
+});
+
 export default function Settings() {
   const [loading, setLoading] = useState(false);
   const [activeTab, setActiveTab] = useState('profile');
+  const [pendingDeletion, setPendingDeletion] = useState<AccountDeletion | null>(null);
+  const [confirmingDeletion, setConfirmingDeletion] = useState(false);
+  const [deletionPassword, setDeletionPassword] = useState('');
+  const [deletionError, setDeletionError] = useState('');
+  const [deleting, setDeleting] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const navigate = useNavigate();
   const { user, signOut } = useAuth();
 
@@ -52,34 +77,28 @@ export default function Settings() {
       name: '',
       email: '',
       phoneNumber: '',
-      smsNotifications: true,
-      emailNotifications: true,
-      mealReminders: true,
-      progressUpdates: true,
-      darkMode: false,
-      language: 'en',
+      ...preferencesToFormValues(PreferencesService.getPreferences()),
     },
   });
 
   useEffect(() => {
     loadUserSettings();
+    AccountService.getPendingDeletion().then(({ data }) => setPendingDeletion(data));
   }, []);
 
   const loadUserSettings = async () => {
     try {
-      const { data: profileData } = await ProfileService.getProfile();
+      const [{ data: profileData }, { data: preferences }] = await Promise.all([
+        ProfileService.getProfile(),
+        PreferencesService.loadPreferences(),
+      ]);
       if (profileData) {
         const profile = ProfileService.profileRowToUserProfile(profileData);
         form.reset({
           name: profile.name,
           email: profile.email,
           phoneNumber: profile.phoneNumber || '',
-          smsNotifications: true,
-          emailNotifications: true,
-          mealReminders: true,
-          progressUpdates: true,
-          darkMode: false,
-          language: 'en',
+          ...preferencesToFormValues(preferences || PreferencesService.getPreferences()),
         });
       }
     } catch (error) {
@@ -91,20 +110,35 @@ export default function Settings() {
     setLoading(true);
     try {
       // Update profile data
-      await ProfileService.updateProfile({
+      const { data: profileData } = await ProfileService.updateProfile({
         name: data.name,
         phoneNumber: data.phoneNumber,
       });
 
-      // Save notification preferences to localStorage
-      localStorage.setItem('nutriguide_settings', JSON.stringify({
-        smsNotifications: data.smsNotifications,
-        emailNotifications: data.emailNotifications,
-        mealReminders: data.mealReminders,
-        progressUpdates: data.progressUpdates,
-        darkMode: data.darkMode,
-        language: data.language,
-      }));
+      // Turning SMS on or off is the user's consent to receive texts
+      if (data.smsNotifications !== PreferencesService.getNotificationSettings().smsEnabled) {
+        await smsService.setOptIn(data.smsNotifications);
+      }
+
+      // Only the fields edited in the form
+      const { dirtyFields } = form.formState;
+      const { error } = await PreferencesService.savePreferences({
+        notifications: {
+          ...(dirtyFields.smsNotifications && { smsEnabled: data.smsNotifications }),
+          ...(dirtyFields.emailNotifications && { emailEnabled: data.emailNotifications }),
+          ...(dirtyFields.mealReminders && { mealReminders: data.mealReminders }),
+          ...(dirtyFields.progressUpdates && { progressUpdates: data.progressUpdates }),
+        },
+        ...(dirtyFields.theme && { theme: data.theme }),
+        ...(dirtyFields.language && { language: data.language }),
+        ...(dirtyFields.unitSystem && { unitSystem: data.unitSystem }),
+      });
+      if (error) return;
+      form.reset(data);
+
+      if (profileData) {
+        await ReminderService.setupReminders(ProfileService.profileRowToUserProfile(profileData));
+      }
 
       toast.success('Settings saved successfully!');
     } catch (error) {
@@ -116,35 +150,101 @@ export default function Settings() {
   };
 
   const handleDeleteAccount = async () => {
-    if (window.confirm('Are you sure you want to delete your account? This action cannot be undone.')) {
-      try {
-        // In a real app, you'd call an API to delete the account
-        await signOut();
-        toast.success('Account deleted successfully');
-        navigate('/');
-      } catch (error) {
-        toast.error('Failed to delete account');
+    setDeleting(true);
+    setDeletionError('');
+    try {
+      const { data, error } = await AccountService.requestDeletion(deletionPassword);
+      if (error || !data) {
+        setDeletionError(error?.message || 'Failed to delete account');
+        return;
       }
+
+      const deletionDate = new Date(data.scheduledFor).toLocaleDateString();
+      await signOut();
+      toast.success(`Your account will be deleted on ${deletionDate}. Sign in before then to keep it.`, { duration: 8000 });
+      navigate('/');
+    } finally {
+      setDeleting(false);
+      setDeletionPassword('');
     }
   };
 
-  const handleExportData = () => {
-    // Export user data as JSON
-    const userData = {
-      profile: form.getValues(),
-      settings: JSON.parse(localStorage.getItem('nutriguide_settings') || '{}'),
-      exportDate: new Date().toISOString(),
-    };
-    
-    const blob = new Blob([JSON.stringify(userData, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'nutriguide-data.json';
-    a.click();
-    URL.revokeObjectURL(url);
-    
-    toast.success('Data exported successfully!');
+  const handleCancelDeletion = async () => {
+    setDeleting(true);
+    try {
+      const { error } = await AccountService.cancelDeletion();
+      if (error) {
+        toast.error(error.message || 'Failed to cancel account deletion');
+        return;
+      }
+
+      setPendingDeletion(null);
+      toast.success('Account deletion cancelled');
+    } finally {
+      setDeleting(false);
+    }
+  };
+
+  const handleExportData = async (format: 'json' | 'csv') => {
+    setExporting(true);
+    try {
+      const { data: bundle, error } = await DataExportService.buildExport();
+      if (error || !bundle) {
+        toast.error(error?.message || 'Failed to export data');
+        return;
+      }
+
+      if (format === 'json') {
+        DataExportService.downloadJson(bundle);
+      } else {
+        DataExportService.downloadCsvZip(bundle);
+      }
+      toast.success('Data exported successfully!');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleImportData = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    let json: unknown;
+    try {
+      json = JSON.parse(await file.text());
+    } catch {
+      toast.error('This file is not a NutriGuide data export');
+      return;
+    }
+
+    const { data: bundle, error: parseError } = DataExportService.parseBundle(json);
+    if (parseError || !bundle) {
+      toast.error(parseError?.message || 'Invalid export file');
+      return;
+    }
+
+    if (!window.confirm(`Import data exported on ${new Date(bundle.exportedAt).toLocaleDateString()}? Your profile and preferences will be replaced; plans and logs will be added to your account.`)) {
+      return;
+    }
+
+    setImporting(true);
+    try {
+      const { data: summary, error } = await DataExportService.importBundle(bundle);
+      if (error || !summary) {
+        toast.error(error?.message || 'Failed to import data');
+        return;
+      }
+
+      form.reset({
+        ...form.getValues(),
+        ...(bundle.profile ? { name: bundle.profile.name, phoneNumber: bundle.profile.phoneNumber } : {}),
+        ...preferencesToFormValues(PreferencesService.getPreferences()),
+      });
+      toast.success(`Imported ${summary.dietPlans} plans, ${summary.mealLogs} meal logs and ${summary.weightEntries} weight entries`);
+    } finally {
+      setImporting(false);
+    }
   };
 
   const tabs = [
@@ -361,14 +461,39 @@ export default function Settings() {
                       </CardTitle>
                     </CardHeader>
                     <CardContent>
-                      <div className="space-y-4">
-                        <Button variant="outline" onClick={handleExportData}>
-                          <Download className="w-4 h-4 mr-2" />
-                          Export My Data
-                        </Button>
-                        <p className="text-sm text-gray-600">
-                          Download a copy of all your data stored in NutriGuide
-                        </p>
+                      <div className="space-y-6">
+                        <div className="space-y-3">
+                          <div className="flex flex-wrap gap-3">
+                            <Button type="button" variant="outline" onClick={() => handleExportData('json')} isLoading={exporting}>
+                              <Download className="w-4 h-4 mr-2" />
+                              Export My Data (JSON)
+                            </Button>
+                            <Button type="button" variant="outline" onClick={() => handleExportData('csv')} isLoading={exporting}>
+                              <Download className="w-4 h-4 mr-2" />
+                              Export as CSV (zip)
+                            </Button>
+                          </div>
+                          <p className="text-sm text-gray-600">
+                            Download a copy of all your data stored in NutriGuide: profile, diet plans, meal and
+                            weight logs, water intake, notifications and preferences
+                          </p>
+                        </div>
+                        <div className="space-y-3">
+                          <Button type="button" variant="outline" onClick={() => importInputRef.current?.click()} isLoading={importing}>
+                            <Upload className="w-4 h-4 mr-2" />
+                            Import Data
+                          </Button>
+                          <input
+                            ref={importInputRef}
+                            type="file"
+                            accept="application/json,.json"
+                            className="hidden"
+                            onChange={handleImportData}
+                          />
+                          <p className="text-sm text-gray-600">
+                            Restore a JSON export from this or another NutriGuide account
+                          </p>
+                        </div>
                       </div>
                     </CardContent>
                   </Card>
@@ -378,19 +503,80 @@ export default function Settings() {
                       <CardTitle className="text-red-600">Danger Zone</CardTitle>
                     </CardHeader>
                     <CardContent>
-                      <div className="space-y-4">
-                        <p className="text-sm text-gray-600">
-                          Once you delete your account, there is no going back. Please be certain.
-                        </p>
-                        <Button
-                          variant="outline"
-                          onClick={handleDeleteAccount}
-                          className="border-red-300 text-red-600 hover:bg-red-50"
-                        >
-                          <Trash2 className="w-4 h-4 mr-2" />
-                          Delete Account
-                        </Button>
-                      </div>
+                      {pendingDeletion ? (
+                        <div className="space-y-4">
+                          <p className="text-sm text-gray-600">
+                            Your account is scheduled for deletion on{' '}
+                            <span className="font-semibold text-red-600">
+                              {new Date(pendingDeletion.scheduledFor).toLocaleDateString()}
+                            </span>
+                            . Until then you can keep it and nothing will be lost.
+                          </p>
+                          <Button type="button" onClick={handleCancelDeletion} isLoading={deleting}>
+                            Keep My Account
+                          </Button>
+                        </div>
+                      ) : (
+                        <div className="space-y-4">
+                          <p className="text-sm text-gray-600">
+                            Deleting your account erases your profile, diet plans, meal and weight logs,
+                            notifications and preferences. You have 7 days to change your mind by signing
+                            back in; after that there is no going back.
+                          </p>
+                          {confirmingDeletion ? (
+                            <div className="space-y-3">
+                              <Input
+                                type="password"
+                                label="Confirm your password"
+                                value={deletionPassword}
+                                onChange={(e) => setDeletionPassword(e.target.value)}
+                                onKeyDown={(e) => {
+                                  // Enter would otherwise submit the settings form
+                                  if (e.key === 'Enter') {
+                                    e.preventDefault();
+                                    handleDeleteAccount();
+                                  }
+                                }}
+                                error={deletionError}
+                                autoComplete="current-password"
+                              />
+                              <div className="flex space-x-3">
+                                <Button
+                                  type="button"
+                                  onClick={handleDeleteAccount}
+                                  isLoading={deleting}
+                                  disabled={!deletionPassword}
+                                  className="bg-red-600 hover:bg-red-700 focus:ring-red-500"
+                                >
+                                  <Trash2 className="w-4 h-4 mr-2" />
+                                  Delete My Account
+                                </Button>
+                                <Button
+                                  type="button"
+                                  variant="ghost"
+                                  onClick={() => {
+                                    setConfirmingDeletion(false);
+                                    setDeletionPassword('');
+                                    setDeletionError('');
+                                  }}
+                                >
+                                  Cancel
+                                </Button>
+                              </div>
+                            </div>
+                          ) : (
+                            <Button
+                              type="button"
+                              variant="outline"
+                              onClick={() => setConfirmingDeletion(true)}
+                              className="border-red-300 text-red-600 hover:bg-red-50"
+                            >
+                              <Trash2 className="w-4 h-4 mr-2" />
+                              Delete Account
+                            </Button>
+                          )}
+                        </div>
+                      )}
                     </CardContent>
                   </Card>
                 </motion.div>
@@ -411,19 +597,19 @@ export default function Settings() {
                     </CardHeader>
                     <CardContent>
                       <div className="space-y-6">
-                        <div className="flex items-center justify-between">
-                          <div className="flex items-center space-x-3">
-                            <Moon className="w-5 h-5 text-gray-400" />
-                            <div>
-                              <p className="font-medium">Dark Mode</p>
-                              <p className="text-sm text-gray-600">Use dark theme</p>
-                            </div>
-                          </div>
-                          <input
-                            type="checkbox"
-                            {...form.register('darkMode')}
-                            className="rounded border-gray-300 text-emerald-600 focus:ring-emerald-500"
-                          />
+                        <div>
+                          <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-2">
+                            <Moon className="w-4 h-4 text-gray-400" />
+                            <span>Theme</span>
+                          </label>
+                          <select
+                            {...form.register('theme')}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                          >
+                            <option value="system">Match my device</option>
+                            <option value="light">Light</option>
+                            <option value="dark">Dark</option>
+                          </select>
                         </div>
 
                         <div>
@@ -440,6 +626,19 @@ export default function Settings() {
                             <option value="de">German</option>
                           </select>
                         </div>
+
+                        <div>
+                          <label className="block text-sm font-medium text-gray-700 mb-2">
+                            Measurement Units
+                          </label>
+                          <select
+                            {...form.register('unitSystem')}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                          >
+                            <option value="metric">Metric (g, ml)</option>
+                            <option value="imperial">Imperial (oz, cups)</option>
+                          </select>
+                        </div>
                       </div>
                     </CardContent>
                   </Card>
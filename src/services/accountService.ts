@@ -0,0 +1,99 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase, Database } from '../lib/supabase';
+
+type AccountDeletionRow = Database['public']['Tables']['account_deletions']['Row'];
+
+export interface AccountDeletion {
+  id: string;
+  requestedAt: string;
+  scheduledFor: string; // the account and all its data are erased after this
+}
+
+// The `delete-account` function answers errors as JSON; surface its message
+const functionErrorMessage = async (error: unknown): Promise<string> => {
+  if (error instanceof FunctionsHttpError) {
+    const body: unknown = await error.context.json().catch(() => null);
+    if (body && typeof body === 'object' && 'error' in body && typeof body.error === 'string') return body.error;
+  }
+  if (error instanceof Error && error.message) return error.message;
+  return 'Request failed';
+};
+
+// Deletion runs server-side in the `delete-account` edge function: requesting it
+// starts a grace period during which the user can sign back in and keep the account.
+export class AccountService {
+  /**
+   * Schedule the account for deletion. The password is checked again server-side.
+   */
+  static async requestDeletion(password: string): Promise<{ data: AccountDeletion | null; error: any }> {
+    try {
+      const { data, error } = await supabase.functions.invoke('delete-account', { body: { action: 'request', password } });
+
+      if (error) {
+        const message = await functionErrorMessage(error);
+        console.error('Account deletion request error:', message);
+        return { data: null, error: { message } };
+      }
+
+      return { data: this.accountDeletionRowToAccountDeletion(data.deletion), error: null };
+    } catch (error: any) {
+      console.error('Account service error:', error);
+      return { data: null, error: { message: error.message } };
+    }
+  }
+
+  /**
+   * Undo a pending deletion while the grace period lasts
+   */
+  static async cancelDeletion(): Promise<{ error: any }> {
+    try {
+      const { error } = await supabase.functions.invoke('delete-account', { body: { action: 'cancel' } });
+
+      if (error) {
+        const message = await functionErrorMessage(error);
+        console.error('Account deletion cancel error:', message);
+        return { error: { message } };
+      }
+
+      return { error: null };
+    } catch (error: any) {
+      console.error('Account service error:', error);
+      return { error: { message: error.message } };
+    }
+  }
+
+  static async getPendingDeletion(): Promise<{ data: AccountDeletion | null; error: any }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('No authenticated user found');
+      }
+
+      const { data, error } = await supabase
+        .from('account_deletions')
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('status', 'pending')
+        .maybeSingle();
+
+      if (error) {
+        console.error('Account deletion fetch error:', error);
+        return { data: null, error };
+      }
+
+      return { data: data ? this.accountDeletionRowToAccountDeletion(data) : null, error: null };
+    } catch (error: any) {
+      console.error('Account service error:', error);
+      return { data: null, error: { message: error.message } };
+    }
+  }
+
+  static accountDeletionRowToAccountDeletion(row: AccountDeletionRow): AccountDeletion {
+    return {
+      id: row.id,
+      requestedAt: row.requested_at,
+      scheduledFor: row.scheduled_for,
+    };
+  }
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { DayMeal, DietPlan, Meal, MealLog, MealSlot } from '../types';
+import { AdherenceService } from './adherenceService';
+
+const meal = (name: string, calories: number): Meal => ({
+  id: name,
+  name,
+  description: '',
+  ingredients: [],
+  instructions: [],
+  nutrition: { calories, protein: calories / 20, carbs: calories / 8, fat: calories / 30, fiber: 5 },
+  prepTime: 0,
+  cookTime: 0,
+  servings: 1,
+  completed: false,
+});
+
+// 300 + 500 + 200 planned calories, so lunch is half the day
+const day = (dayNumber: number, date: string): DayMeal => ({
+  day: dayNumber,
+  date,
+  meals: { breakfast: meal('Porridge', 300), lunch: meal('Salad', 500), dinner: meal('Soup', 200), snacks: [] },
+  totalCalories: 1000,
+  completed: false,
+});
+
+const log = (dayMeal: DayMeal, slot: MealSlot, overrides: Partial<MealLog> = {}): MealLog => {
+  const planned = dayMeal.meals[slot as 'breakfast' | 'lunch' | 'dinner'];
+  return {
+    id: `${dayMeal.date}-${slot}`,
+    date: dayMeal.date,
+    slot,
+    plannedMealName: planned.name,
+    plannedNutrition: planned.nutrition,
+    eatenMealName: planned.name,
+    eatenNutrition: planned.nutrition,
+    portion: 1,
+    loggedAt: `${dayMeal.date}T12:00:00Z`,
+    ...overrides,
+  };
+};
+
+const plan = (days: DayMeal[]): DietPlan => ({
+  id: 'plan',
+  userId: 'user',
+  name: 'Plan',
+  description: '',
+  duration: 30,
+  dailyCalories: 1000,
+  macros: { protein: 50, carbs: 125, fat: 33 },
+  meals: days,
+  createdAt: '2025-10-01T00:00:00Z',
+  updatedAt: '2025-10-01T00:00:00Z',
+  isActive: true,
+  progress: { completedDays: 0, totalDays: 30, adherenceRate: 0 },
+});
+
+describe('AdherenceService.calculateMealAdherence', () => {
+  const today = day(1, '2025-10-01');
+
+  it('penalizes eating more as much as eating less', () => {
+    expect(AdherenceService.calculateMealAdherence(500, log(today, 'lunch', { portion: 1.5 }))).toBe(0.5);
+    expect(AdherenceService.calculateMealAdherence(500, log(today, 'lunch', { portion: 0.5 }))).toBe(0.5);
+    expect(AdherenceService.calculateMealAdherence(500, undefined)).toBe(0);
+  });
+
+  it('caps the credit for an off-plan meal', () => {
+    const substitute = log(today, 'lunch', { eatenMealName: 'Burger', eatenNutrition: meal('Burger', 500).nutrition });
+
+    expect(AdherenceService.calculateMealAdherence(500, substitute)).toBe(0.75);
+  });
+});
+
+describe('AdherenceService.calculateDayAdherence', () => {
+  it('weighs meals by their share of the planned calories', () => {
+    const today = day(1, '2025-10-01');
+
+    const adherence = AdherenceService.calculateDayAdherence(today, [log(today, 'lunch')]);
+
+    expect(adherence).toMatchObject({ mealScore: 50, loggedMeals: 1, totalMeals: 3 });
+  });
+
+  it('scores a day followed to the letter at 100', () => {
+    const today = day(1, '2025-10-01');
+    const logs = (['breakfast', 'lunch', 'dinner'] as const).map(slot => log(today, slot));
+
+    expect(AdherenceService.calculateDayAdherence(today, logs)).toMatchObject({ score: 100, mealScore: 100, macroScore: 100 });
+  });
+});
+
+describe('AdherenceService.calculatePlanAdherence', () => {
+  const days = Array.from({ length: 30 }, (_, index) => day(index + 1, `2025-10-${String(index + 1).padStart(2, '0')}`));
+  const followed = (dayMeal: DayMeal) => (['breakfast', 'lunch', 'dinner'] as const).map(slot => log(dayMeal, slot));
+
+  it('only counts elapsed days', () => {
+    const logs = [...followed(days[0]), ...followed(days[1])];
+
+    const adherence = AdherenceService.calculatePlanAdherence(plan(days), logs, '2025-10-03');
+
+    expect(adherence).toMatchObject({ elapsedDays: 2, overall: 100, completedDays: 2, today: null });
+  });
+
+  it('counts today once something has been logged for it', () => {
+    const logs = [...followed(days[0]), log(days[1], 'lunch')];
+
+    const adherence = AdherenceService.calculatePlanAdherence(plan(days), logs, '2025-10-02');
+
+    expect(adherence.elapsedDays).toBe(2);
+    expect(adherence.today).toMatchObject({ day: 2, mealScore: 50 });
+  });
+
+  it('groups days into plan weeks', () => {
+    const logs = days.slice(0, 8).flatMap(followed);
+
+    const { weekly } = AdherenceService.calculatePlanAdherence(plan(days), logs, '2025-10-09');
+
+    expect(weekly).toEqual([
+      { week: 1, startDate: '2025-10-01', score: 100, days: 7 },
+      { week: 2, startDate: '2025-10-08', score: 100, days: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,150 @@
+import { DayMeal, DietPlan, MealLog } from '../types';
+import { MealLogService } from './mealLogService';
+import { NutritionData, NutritionTrackingService } from './nutritionTrackingService';
+
+export interface DayAdherence {
+  day: number;
+  date: string;
+  score: number; // 0-100
+  mealScore: number; // 0-100, planned meals eaten weighted by their calorie share
+  macroScore: number; // 0-100, how close the eaten nutrition is to the day's plan
+  loggedMeals: number;
+  totalMeals: number;
+}
+
+export interface WeekAdherence {
+  week: number; // plan week, starting at 1
+  startDate: string;
+  score: number;
+  days: number; // elapsed days counted in the week
+}
+
+export interface PlanAdherence {
+  daily: DayAdherence[]; // elapsed days only, in plan order
+  weekly: WeekAdherence[];
+  today: DayAdherence | null;
+  lastSevenDays: number;
+  overall: number;
+  elapsedDays: number;
+  completedDays: number;
+}
+
+// How the day score splits between following the planned meals and hitting the nutrition
+const MEAL_WEIGHT = 0.7;
+const MACRO_WEIGHT = 0.3;
+
+// An off-plan meal earns at most this much of the planned meal's credit
+const SUBSTITUTE_CREDIT = 0.75;
+
+const todayString = () => new Date().toISOString().split('T')[0];
+
+const average = (values: number[]) =>
+  values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : 0;
+
+export class AdherenceService {
+  /**
+   * How well a logged meal followed the plan, from 0 to 1. Eating more than planned
+   * costs as much as eating less; an off-plan meal is scored on how close its calories came.
+   */
+  static calculateMealAdherence(plannedCalories: number, log?: MealLog): number {
+    if (!log) return 0;
+
+    if (MealLogService.isSubstitute(log)) {
+      if (plannedCalories <= 0) return SUBSTITUTE_CREDIT;
+      const eaten = log.eatenNutrition.calories * log.portion;
+      return SUBSTITUTE_CREDIT * Math.max(0, 1 - Math.abs(eaten - plannedCalories) / plannedCalories);
+    }
+
+    return Math.max(0, 1 - Math.abs(log.portion - 1));
+  }
+
+  static calculateDayAdherence(dayMeal: DayMeal, logs: MealLog[]): DayAdherence {
+    const slots = MealLogService.getSlots(dayMeal);
+    const dayLogs = MealLogService.getDayLogs(logs, dayMeal.date);
+    const planned = slots.map(slot => ({
+      calories: MealLogService.getPlannedMeal(dayMeal, slot)?.nutrition.calories || 0,
+      log: MealLogService.getLog(dayLogs, dayMeal.date, slot),
+    }));
+
+    const plannedCalories = planned.reduce((sum, meal) => sum + meal.calories, 0);
+    const mealScore = planned.reduce((sum, meal) => {
+      // Equal weights when the plan has no calorie figures
+      const share = plannedCalories > 0 ? meal.calories / plannedCalories : 1 / planned.length;
+      return sum + share * this.calculateMealAdherence(meal.calories, meal.log);
+    }, 0);
+
+    const macroScore = dayLogs.length > 0
+      ? this.calculateMacroScore(
+          NutritionTrackingService.calculateCompletedNutrition(dayLogs),
+          NutritionTrackingService.calculateDayNutrition(dayMeal)
+        )
+      : 0;
+
+    return {
+      day: dayMeal.day,
+      date: dayMeal.date,
+      score: Math.round(mealScore * 100 * MEAL_WEIGHT + macroScore * MACRO_WEIGHT),
+      mealScore: Math.round(mealScore * 100),
+      macroScore,
+      loggedMeals: dayLogs.filter(log => slots.includes(log.slot)).length,
+      totalMeals: slots.length,
+    };
+  }
+
+  /**
+   * Daily, weekly and whole-plan adherence. Only elapsed days count: days before
+   * `today`, plus today once something has been logged for it.
+   */
+  static calculatePlanAdherence(plan: DietPlan, logs: MealLog[], today: string = todayString()): PlanAdherence {
+    const elapsed = [...plan.meals]
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .filter(day => day.date < today || (day.date === today && MealLogService.getDayLogs(logs, today).length > 0));
+
+    const daily = elapsed.map(day => this.calculateDayAdherence(day, logs));
+
+    const weeks = new Map<number, DayAdherence[]>();
+    daily.forEach(day => {
+      const week = Math.floor((day.day - 1) / 7) + 1;
+      weeks.set(week, [...(weeks.get(week) || []), day]);
+    });
+    const weekly = [...weeks.entries()].map(([week, days]) => ({
+      week,
+      startDate: days[0].date,
+      score: average(days.map(day => day.score)),
+      days: days.length,
+    }));
+
+    return {
+      daily,
+      weekly,
+      today: daily.find(day => day.date === today) || null,
+      lastSevenDays: average(daily.slice(-7).map(day => day.score)),
+      overall: average(daily.map(day => day.score)),
+      elapsedDays: daily.length,
+      completedDays: plan.meals.filter(day => MealLogService.isDayComplete(day, logs)).length,
+    };
+  }
+
+  /**
+   * Completed days and overall adherence, for the progress columns on `diet_plans`
+   */
+  static summarizePlanProgress(plan: DietPlan, logs: MealLog[]): { completedDays: number; adherenceRate: number } {
+    const { completedDays, overall } = this.calculatePlanAdherence(plan, logs);
+    return { completedDays, adherenceRate: overall };
+  }
+
+  // Nutrition score of what was eaten against the day's planned totals
+  private static calculateMacroScore(eaten: NutritionData, planned: NutritionData): number {
+    // Avoid dividing by zero for plans without fiber or fat figures
+    const target: NutritionData = {
+      ...planned,
+      calories: Math.max(planned.calories, 1),
+      protein: Math.max(planned.protein, 1),
+      carbs: Math.max(planned.carbs, 1),
+      fat: Math.max(planned.fat, 1),
+      fiber: Math.max(planned.fiber, 1),
+    };
+    const progress = NutritionTrackingService.calculateNutritionProgress(eaten, target);
+    return NutritionTrackingService.calculateNutritionScore(progress);
+  }
+}
@@ -1,171 +1,587 @@
-import { UserProfile, DietPlan, DayMeal, Meal } from '../types';
-
-const GEMINI_API_KEY = import.meta.env.VITE_GEMINI_API_KEY;
+import { z } from 'zod';
+import { UserProfile, DietPlan, DayMeal, Meal, MealNutrition, Ingredient, NutritionTargets, MealSlot as PlanSlot } from '../types';
+import { ComplianceService } from './complianceService';
+import { CostService } from './costService';
+import { FoodDatabaseService, RecipeIngredient } from './foodDatabaseService';
+import { getLLMProvider, LLMProvider, MealSlot } from './llmService';
+import { MealLogService } from './mealLogService';
+import { NutritionTargetService } from './nutritionTargetService';
+import { NutritionTrackingService } from './nutritionTrackingService';
+
+// Number of days requested from the model in a single call
+const AI_PLAN_DAYS = 7;
+
+// Extra attempts for a chunk before generation pauses
+const CHUNK_RETRIES = 1;
+
+const GENERATION_CHECKPOINT_KEY = 'nutriguide_plan_generation';
+
+// Share of the day's calories each slot gets when a meal has no nutrition of its own
+const SLOT_CALORIE_SHARE: Record<MealSlot, number> = {
+  breakfast: 0.25,
+  lunch: 0.35,
+  dinner: 0.30,
+  snack: 0.10,
+};
+
+const DIET_TYPE_INSTRUCTIONS: Record<UserProfile['dietaryRestrictions']['dietType'], string> = {
+  vegetarian: 'Include only vegetarian foods (no meat, fish, or poultry). Include dairy and eggs.',
+  vegan: 'Include only vegan foods (no animal products whatsoever).',
+  pescatarian: 'Include fish and seafood, but no meat or poultry. Include dairy and eggs.',
+  keto: 'Focus on high-fat, very low-carb foods. Limit carbs to under 20g per day.',
+  paleo: 'Include only whole foods that would be available to paleolithic humans.',
+  omnivore: 'Include a balanced mix of plant and animal foods.'
+};
+
+export type MealHint = 'quicker' | 'cheaper' | 'higher_protein';
+
+const MEAL_HINT_INSTRUCTIONS: Record<MealHint, string> = {
+  quicker: 'Make it quicker than the current meal (less total prep and cook time).',
+  cheaper: 'Make it cheaper than the current meal, using affordable staple ingredients.',
+  higher_protein: 'Make it higher in protein than the current meal while keeping the same calories.',
+};
+
+export interface MealRegenerationConstraints {
+  hints?: MealHint[];
+  note?: string;
+  // Meals already planned this week, which the replacement must not repeat
+  avoidMealNames?: string[];
+}
+
+// Offline meal template used when the model is unavailable; nutrition is
+// computed from the ingredients via the food database
+interface MealTemplate {
+  name: string;
+  description: string;
+  ingredients: RecipeIngredient[];
+  instructions: string[];
+  prepTime: number;
+  cookTime: number;
+}
+
+// A day whose total drifts further than this from the daily target is rejected
+const MAX_DAY_CALORIE_DEVIATION = 0.35;
+
+// Schemas for the JSON document the model is asked to return. They are lenient
+// about types (numbers as strings, missing optional fields) so small mistakes
+// get repaired, while anything structurally wrong fails and is replaced.
+const aiIngredientSchema = z.object({
+  name: z.string().trim().min(1),
+  amount: z.coerce.number().nonnegative().catch(0),
+  unit: z.string().trim().catch(''),
+  calories: z.coerce.number().nonnegative().catch(0),
+  optional: z.boolean().optional().catch(undefined),
+});
+
+const aiMealSchema = z.object({
+  name: z.string().trim().min(1),
+  description: z.string().trim().catch(''),
+  ingredients: z.array(z.unknown()).catch([]),
+  instructions: z.array(z.coerce.string()).catch([]),
+  nutrition: z.object({
+    calories: z.coerce.number().nonnegative().catch(0),
+    protein: z.coerce.number().nonnegative().catch(0),
+    carbs: z.coerce.number().nonnegative().catch(0),
+    fat: z.coerce.number().nonnegative().catch(0),
+    fiber: z.coerce.number().nonnegative().catch(0),
+  }).catch({ calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0 }),
+  prepTime: z.coerce.number().int().nonnegative().catch(0),
+  cookTime: z.coerce.number().int().nonnegative().catch(0),
+});
+
+const aiDaySchema = z.object({
+  breakfast: z.unknown(),
+  lunch: z.unknown(),
+  dinner: z.unknown(),
+  snacks: z.array(z.unknown()).catch([]),
+});
+
+type AIMeal = z.infer<typeof aiMealSchema>;
+
+export interface PlanGenerationProgress {
+  completedDays: number;
+  totalDays: number;
+}
+
+export interface PlanGenerationOptions {
+  onProgress?: (progress: PlanGenerationProgress) => void;
+  // Fill days that the provider fails to produce with template meals instead of pausing
+  fillRemainingWithFallback?: boolean;
+}
+
+// Thrown when a chunk keeps failing; the days generated so far are checkpointed
+// so the next generateDietPlan call for the same profile resumes from there.
+export class PlanGenerationError extends Error {
+  constructor(
+    message: string,
+    public completedDays: number,
+    public totalDays: number
+  ) {
+    super(message);
+    this.name = 'PlanGenerationError';
+  }
+}
+
+interface GenerationCheckpoint {
+  signature: string;
+  startDate: string;
+  meals: DayMeal[];
+}
+
+const MEAL_JSON_FORMAT = `{
+  "name": "string",
+  "description": "string",
+  "ingredients": [{ "name": "string", "amount": number, "unit": "string", "calories": number }],
+  "instructions": ["string"],
+  "nutrition": { "calories": number, "protein": number, "carbs": number, "fat": number, "fiber": number },
+  "prepTime": number,
+  "cookTime": number
+}`;
+
+const MEAL_PLAN_JSON_FORMAT = `{
+  "days": [
+    {
+      "day": 1,
+      "meals": {
+        "breakfast": {
+          "name": "string",
+          "description": "string",
+          "ingredients": [{ "name": "string", "amount": number, "unit": "string", "calories": number }],
+          "instructions": ["string"],
+          "nutrition": { "calories": number, "protein": number, "carbs": number, "fat": number, "fiber": number },
+          "prepTime": number,
+          "cookTime": number
+        },
+        "lunch": { ...same shape as breakfast },
+        "dinner": { ...same shape as breakfast },
+        "snacks": [{ ...same shape as breakfast }]
+      }
+    }
+  ]
+}`;
 
 export class AIService {
-  private static readonly API_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent';
+  static async generateDietPlan(userProfile: UserProfile, options: PlanGenerationOptions = {}): Promise<DietPlan> {
+    // Calculate nutritional requirements
+    const nutritionTargets = NutritionTargetService.calculateTargets(userProfile);
 
-  static async generateDietPlan(userProfile: UserProfile): Promise<DietPlan> {
     try {
-      // Calculate nutritional requirements
-      const nutritionTargets = this.calculateNutritionTargets(userProfile);
-
       // Generate meal plan using AI
-      const mealPlan = await this.generateMealPlanWithAI(userProfile, nutritionTargets);
-
-      return {
-        id: `plan_${Date.now()}`,
-        userId: userProfile.id,
-        name: this.generatePlanName(userProfile),
-        description: this.generatePlanDescription(userProfile, nutritionTargets.dailyCalories),
-        duration: userProfile.planDuration,
-        dailyCalories: nutritionTargets.dailyCalories,
-        macros: {
-          protein: nutritionTargets.protein,
-          carbs: nutritionTargets.carbs,
-          fat: nutritionTargets.fat,
-        },
-        meals: mealPlan,
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-        isActive: true,
-        progress: {
-          completedDays: 0,
-          totalDays: userProfile.planDuration,
-          adherenceRate: 0,
-        },
-      };
+      const mealPlan = await this.generateMealPlanWithAI(userProfile, nutritionTargets, options);
+      return this.buildDietPlan(userProfile, nutritionTargets, mealPlan);
     } catch (error) {
+      if (error instanceof PlanGenerationError) throw error;
+
       console.error('AI diet plan generation error:', error);
       // Fallback to mock data if AI fails
-      return this.generateFallbackDietPlan(userProfile);
+      return this.buildDietPlan(userProfile, nutritionTargets, this.generateFallbackMeals(userProfile, nutritionTargets));
     }
   }
 
-  private static calculateNutritionTargets(profile: UserProfile) {
-    // Calculate BMR using Mifflin-St Jeor equation
-    const { weight, height, age, gender } = profile.personalDetails;
+  /**
+   * Progress of an interrupted generation for this profile, if one can be resumed
+   */
+  static getGenerationCheckpoint(profile: UserProfile): PlanGenerationProgress | null {
+    const checkpoint = this.loadCheckpoint(this.checkpointSignature(profile));
+    if (!checkpoint || checkpoint.meals.length === 0) return null;
+
+    return { completedDays: checkpoint.meals.length, totalDays: profile.planDuration };
+  }
+
+  static clearGenerationCheckpoint(): void {
+    localStorage.removeItem(GENERATION_CHECKPOINT_KEY);
+  }
 
-    let bmr: number;
-    if (gender === 'male') {
-      bmr = 10 * weight + 6.25 * height - 5 * age + 5;
-    } else {
-      bmr = 10 * weight + 6.25 * height - 5 * age - 161;
+  private static async generateMealPlanWithAI(
+    profile: UserProfile,
+    targets: NutritionTargets,
+    options: PlanGenerationOptions
+  ): Promise<DayMeal[]> {
+    const provider = getLLMProvider();
+    if (!provider.isConfigured()) {
+      console.warn(`AI provider "${provider.name}" not configured, using fallback meal generation`);
+      return this.generateFallbackMeals(profile, targets);
     }
 
-    // Activity multipliers
-    const activityMultipliers = {
-      sedentary: 1.2,
-      light: 1.375,
-      moderate: 1.55,
-      active: 1.725,
-      very_active: 1.9,
-    };
+    const totalDays = profile.planDuration;
+    const signature = this.checkpointSignature(profile);
+    const checkpoint = this.loadCheckpoint(signature);
+    const startDate = checkpoint ? new Date(checkpoint.startDate) : new Date();
+    const meals: DayMeal[] = checkpoint ? [...checkpoint.meals] : [];
+    let useFallback = false;
 
-    const tdee = bmr * (activityMultipliers[profile.personalDetails.activityLevel] || 1.55);
-
-    // Adjust for goals
-    let dailyCalories = tdee;
-    switch (profile.healthGoals.primary) {
-      case 'weight_loss':
-        dailyCalories = tdee - 500; // 1 lb per week deficit
-        break;
-      case 'muscle_gain':
-        dailyCalories = tdee + 300; // Moderate surplus
-        break;
-      case 'maintenance':
-      case 'general_health':
-      default:
-        dailyCalories = tdee;
-        break;
+    if (checkpoint) {
+      console.info(`Resuming plan generation from day ${meals.length + 1} of ${totalDays}`);
     }
+    options.onProgress?.({ completedDays: meals.length, totalDays });
+
+    // Request the plan one week at a time, passing the previous week along so
+    // the model can avoid repeating meals
+    while (meals.length < totalDays) {
+      const startDay = meals.length + 1;
+      const days = Math.min(AI_PLAN_DAYS, totalDays - meals.length);
+      const fallbackDays = this.generateFallbackMeals(profile, targets, startDay, days, startDate);
+
+      let chunk = fallbackDays;
+      if (!useFallback) {
+        try {
+          chunk = await this.requestChunk(provider, profile, targets, fallbackDays, meals.slice(-AI_PLAN_DAYS));
+        } catch (error) {
+          console.error(`AI meal plan generation failed for days ${startDay}-${startDay + days - 1}:`, error);
+
+          if (!options.fillRemainingWithFallback) {
+            this.saveCheckpoint({ signature, startDate: startDate.toISOString(), meals });
+            throw new PlanGenerationError(
+              `Plan generation paused after ${meals.length} of ${totalDays} days`,
+              meals.length,
+              totalDays
+            );
+          }
+          useFallback = true;
+        }
+      }
 
-    // Calculate macros based on diet type
-    let proteinRatio = 0.25;
-    let fatRatio = 0.30;
-    let carbRatio = 0.45;
-
-    switch (profile.dietaryRestrictions.dietType) {
-      case 'keto':
-        proteinRatio = 0.25;
-        fatRatio = 0.70;
-        carbRatio = 0.05;
-        break;
-      case 'paleo':
-        proteinRatio = 0.30;
-        fatRatio = 0.35;
-        carbRatio = 0.35;
-        break;
-      case 'vegan':
-      case 'vegetarian':
-        proteinRatio = 0.20;
-        fatRatio = 0.25;
-        carbRatio = 0.55;
-        break;
+      meals.push(...chunk);
+      this.saveCheckpoint({ signature, startDate: startDate.toISOString(), meals });
+      options.onProgress?.({ completedDays: meals.length, totalDays });
     }
 
-    return {
-      dailyCalories: Math.round(dailyCalories),
-      protein: Math.round((dailyCalories * proteinRatio) / 4),
-      carbs: Math.round((dailyCalories * carbRatio) / 4),
-      fat: Math.round((dailyCalories * fatRatio) / 9),
-    };
+    this.clearGenerationCheckpoint();
+    return meals;
   }
 
-  private static async generateMealPlanWithAI(profile: UserProfile, targets: any): Promise<DayMeal[]> {
-    if (!GEMINI_API_KEY || GEMINI_API_KEY === 'your_gemini_api_key') {
-      console.warn('Gemini API key not configured, using fallback meal generation');
-      return this.generateFallbackMeals(profile, targets);
+  private static async requestChunk(
+    provider: LLMProvider,
+    profile: UserProfile,
+    targets: NutritionTargets,
+    fallbackDays: DayMeal[],
+    previousDays: DayMeal[]
+  ): Promise<DayMeal[]> {
+    const startDay = fallbackDays[0].day;
+    const previousMealNames = previousDays.flatMap(day => [
+      day.meals.breakfast.name,
+      day.meals.lunch.name,
+      day.meals.dinner.name,
+      ...day.meals.snacks.map(snack => snack.name),
+    ]);
+
+    let lastError: unknown;
+    for (let attempt = 0; attempt <= CHUNK_RETRIES; attempt++) {
+      try {
+        const aiResponse = await provider.generateMealPlan({
+          prompt: this.buildMealPlanPrompt(profile, targets, startDay, fallbackDays.length, previousMealNames),
+          profile,
+          targets,
+          startDay,
+          days: fallbackDays.length,
+        });
+
+        return this.parseAIMealPlan(aiResponse, fallbackDays, targets, profile.dietaryRestrictions);
+      } catch (error) {
+        lastError = error;
+      }
     }
 
+    throw lastError;
+  }
+
+  // A checkpoint is only valid for the profile version it was generated from
+  private static checkpointSignature(profile: UserProfile): string {
+    return `${profile.id}:${profile.updatedAt}:${profile.planDuration}`;
+  }
+
+  private static loadCheckpoint(signature: string): GenerationCheckpoint | null {
     try {
-      const prompt = this.buildMealPlanPrompt(profile, targets);
+      const saved = localStorage.getItem(GENERATION_CHECKPOINT_KEY);
+      if (!saved) return null;
 
-      const response = await fetch(`${this.API_URL}?key=${GEMINI_API_KEY}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contents: [{
-            parts: [{
-              text: prompt
-            }]
-          }],
-          generationConfig: {
-            temperature: 0.7,
-            topK: 40,
-            topP: 0.95,
-            maxOutputTokens: 4096,
+      const checkpoint: GenerationCheckpoint = JSON.parse(saved);
+      return checkpoint.signature === signature ? checkpoint : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private static saveCheckpoint(checkpoint: GenerationCheckpoint): void {
+    try {
+      localStorage.setItem(GENERATION_CHECKPOINT_KEY, JSON.stringify(checkpoint));
+    } catch (error) {
+      console.error('Failed to save plan generation checkpoint:', error);
+    }
+  }
+
+  /**
+   * Replace a single meal of a day with a new one covering the same calorie and
+   * macro slice. `mealType` is 'breakfast' | 'lunch' | 'dinner' | 'snack_<index>'.
+   */
+  static async regenerateMeal(
+    profile: UserProfile,
+    dayMeal: DayMeal,
+    mealType: string,
+    constraints: MealRegenerationConstraints = {}
+  ): Promise<Meal> {
+    const currentMeal = this.getMealBySlot(dayMeal, mealType);
+    if (!currentMeal) {
+      throw new Error(`Unknown meal slot "${mealType}"`);
+    }
+
+    const slot: MealSlot = mealType.startsWith('snack') ? 'snack' : mealType as MealSlot;
+    const target = currentMeal.nutrition.calories > 0
+      ? currentMeal.nutrition
+      : { ...currentMeal.nutrition, calories: Math.round(dayMeal.totalCalories * SLOT_CALORIE_SHARE[slot]) };
+    const avoidMealNames = [currentMeal.name, ...(constraints.avoidMealNames || [])];
+    const avoided = new Set(avoidMealNames.map(name => name.toLowerCase()));
+
+    const provider = getLLMProvider();
+    if (provider.isConfigured()) {
+      const prompt = this.buildMealPrompt(profile, slot, currentMeal, target, avoidMealNames, constraints);
+
+      for (let attempt = 0; attempt <= CHUNK_RETRIES; attempt++) {
+        try {
+          const aiResponse = await provider.regenerateMeal({
+            prompt,
+            profile,
+            mealType: slot,
+            targetCalories: target.calories,
+            excludeNames: avoidMealNames,
+          });
+
+          const document = this.parseJSONDocument(aiResponse);
+          const rawMeal = (document as { meal?: unknown } | null)?.meal ?? document;
+          const meal = this.parseAIMeal(rawMeal, slot, dayMeal.day);
+
+          if (meal && !avoided.has(meal.name.toLowerCase())) {
+            const { violations } = ComplianceService.checkMeal(meal, profile.dietaryRestrictions);
+            if (violations.length === 0) {
+              return this.scaleMealToCalories(meal, target.calories);
+            }
+            console.warn(`Rejected AI meal "${meal.name}": ${ComplianceService.describeViolations(violations)}`);
           }
-        })
-      });
+        } catch (error) {
+          console.error('AI meal regeneration failed:', error);
+        }
+      }
+    }
+
+    return this.generateReplacementMeal(profile, slot, dayMeal.day, target, avoided, constraints.hints || []);
+  }
+
+  /**
+   * Names of every meal planned in the same plan week as `day`
+   */
+  static getWeekMealNames(meals: DayMeal[], day: number): string[] {
+    const week = Math.floor((day - 1) / AI_PLAN_DAYS);
+
+    return meals
+      .filter(dayMeal => Math.floor((dayMeal.day - 1) / AI_PLAN_DAYS) === week)
+      .flatMap(dayMeal => [
+        dayMeal.meals.breakfast.name,
+        dayMeal.meals.lunch.name,
+        dayMeal.meals.dinner.name,
+        ...dayMeal.meals.snacks.map(snack => snack.name),
+      ]);
+  }
+
+  private static getMealBySlot(dayMeal: DayMeal, mealType: string): Meal | undefined {
+    if (mealType.startsWith('snack_')) {
+      return dayMeal.meals.snacks[parseInt(mealType.split('_')[1], 10)];
+    }
+    if (mealType === 'breakfast' || mealType === 'lunch' || mealType === 'dinner') {
+      return dayMeal.meals[mealType];
+    }
+    return undefined;
+  }
+
+  private static buildMealPrompt(
+    profile: UserProfile,
+    slot: MealSlot,
+    currentMeal: Meal,
+    target: MealNutrition,
+    avoidMealNames: string[],
+    constraints: MealRegenerationConstraints
+  ): string {
+    const requests = (constraints.hints || []).map(hint => `- ${MEAL_HINT_INSTRUCTIONS[hint]}`);
+    if (constraints.note?.trim()) {
+      requests.push(`- ${constraints.note.trim()}`);
+    }
+
+    return `Suggest one replacement ${slot} for the following user.
+
+CURRENT MEAL: ${currentMeal.name} (${currentMeal.prepTime + currentMeal.cookTime} min, ${currentMeal.nutrition.protein}g protein)
+
+TARGET NUTRITION FOR THE REPLACEMENT (stay within 10%):
+- Calories: ${target.calories}
+- Protein: ${target.protein}g
+- Carbohydrates: ${target.carbs}g
+- Fat: ${target.fat}g
+
+DIETARY REQUIREMENTS:
+${DIET_TYPE_INSTRUCTIONS[profile.dietaryRestrictions.dietType]}
+
+ALLERGIES TO AVOID: ${profile.dietaryRestrictions.allergies.join(', ') || 'None'}
+
+INTOLERANCES: ${profile.dietaryRestrictions.intolerances.join(', ') || 'None'}
+
+OTHER RESTRICTIONS: ${profile.dietaryRestrictions.restrictions.join(', ') || 'None'}
+
+PREFERRED CUISINES: ${profile.preferences.cuisines.join(', ') || 'Any'}
+
+BUDGET LEVEL: ${profile.preferences.budgetRange} (at most ${CostService.formatCost(CostService.getDailyBudget(profile.preferences.budgetRange))} of groceries per day)
+
+MEDICAL CONDITIONS: ${profile.medicalConditions.join(', ') || 'None'}
+
+DO NOT SUGGEST ANY OF THESE MEALS (already planned this week): ${avoidMealNames.join(', ')}
+
+ADDITIONAL REQUESTS:
+${requests.join('\n') || 'None'}
+
+Respond with JSON only (no markdown, no commentary) matching this structure exactly:
+${MEAL_JSON_FORMAT}`;
+  }
+
+  // Scale portions so the meal lands on the calorie slice it replaces
+  private static scaleMealToCalories(meal: Meal, targetCalories: number): Meal {
+    const factor = targetCalories / meal.nutrition.calories;
+    if (Math.abs(factor - 1) < 0.05) return meal;
+
+    return {
+      ...meal,
+      ingredients: meal.ingredients.map(ingredient => ({
+        ...ingredient,
+        amount: Math.round(ingredient.amount * factor * 100) / 100,
+        calories: Math.round(ingredient.calories * factor),
+      })),
+      nutrition: FoodDatabaseService.scaleNutrition(meal.nutrition, factor),
+    };
+  }
+
+  // Template-based replacement used when no provider is available
+  private static generateReplacementMeal(
+    profile: UserProfile,
+    slot: MealSlot,
+    day: number,
+    target: MealNutrition,
+    avoided: Set<string>,
+    hints: MealHint[]
+  ): Meal {
+    const templates = this.getCompliantTemplates(profile.dietaryRestrictions, slot);
+    const candidates = templates.filter(template => !avoided.has(template.name.toLowerCase()));
+    const pool = candidates.length > 0 ? candidates : templates;
+
+    if (hints.includes('quicker')) {
+      pool.sort((a, b) => (a.prepTime + a.cookTime) - (b.prepTime + b.cookTime));
+    } else if (hints.includes('cheaper')) {
+      pool.sort((a, b) => this.costPerCalorie(a) - this.costPerCalorie(b));
+    } else if (hints.includes('higher_protein')) {
+      pool.sort((a, b) => this.proteinShare(b) - this.proteinShare(a));
+    }
+
+    const template = hints.length > 0 ? pool[0] : pool[(day + 1) % pool.length];
+    return this.buildMealFromTemplate(template, slot, target.calories, day);
+  }
+
+  // Fraction of a template's calories that come from protein
+  private static proteinShare(template: MealTemplate): number {
+    const { nutrition } = FoodDatabaseService.calculateMealNutrition(template.ingredients);
+    return nutrition.calories > 0 ? (nutrition.protein * 4) / nutrition.calories : 0;
+  }
 
-      if (!response.ok) {
-        throw new Error(`API request failed: ${response.status}`);
+  // Grocery cost per calorie, so templates compare fairly before being scaled
+  private static costPerCalorie(template: MealTemplate): number {
+    const { ingredients, nutrition } = FoodDatabaseService.calculateMealNutrition(template.ingredients);
+    return nutrition.calories > 0 ? CostService.estimateMealCost({ ingredients }).total / nutrition.calories : Infinity;
+  }
+
+  /**
+   * Swap the most expensive meals of a day for cheaper ones until the day fits the
+   * user's budget band. A swap is only kept when the replacement actually costs less.
+   */
+  static async reduceDayCost(profile: UserProfile, dayMeal: DayMeal, avoidMealNames: string[] = []): Promise<DayMeal> {
+    const budget = CostService.getDailyBudget(profile.preferences.budgetRange);
+    const slotsByCost = Object.entries(CostService.estimateDayCost(dayMeal).meals)
+      .sort(([, a], [, b]) => b - a)
+      .map(([slot]) => slot);
+
+    let current = dayMeal;
+    const avoided = [...avoidMealNames];
+
+    for (const slot of slotsByCost) {
+      if (CostService.estimateDayCost(current).total <= budget) break;
+
+      const existing = this.getMealBySlot(current, slot);
+      if (!existing) continue;
+
+      const replacement = await this.regenerateMeal(profile, current, slot, { hints: ['cheaper'], avoidMealNames: avoided });
+      if (CostService.estimateMealCost(replacement).total < CostService.estimateMealCost(existing).total) {
+        current = NutritionTrackingService.recalculateDayMealTotals(MealLogService.setPlannedMeal(current, slot as PlanSlot, replacement));
+        avoided.push(replacement.name);
       }
+    }
 
-      const data = await response.json();
-      const aiResponse = data.candidates[0].content.parts[0].text;
+    return current;
+  }
+
+  /**
+   * Run reduceDayCost on every over-budget day of a plan; returns the updated plan
+   * and the day numbers that changed
+   */
+  static async reducePlanCost(profile: UserProfile, plan: DietPlan): Promise<{ plan: DietPlan; changedDays: number[] }> {
+    const { overBudgetDays } = CostService.summarizePlan(plan.meals, profile.preferences.budgetRange);
+    const overBudget = new Set(overBudgetDays.map(entry => entry.day));
+    const changedDays: number[] = [];
+    const meals: DayMeal[] = [];
 
-      return this.parseAIMealPlan(aiResponse, profile, targets);
+    for (const dayMeal of plan.meals) {
+      if (!overBudget.has(dayMeal.day)) {
+        meals.push(dayMeal);
+        continue;
+      }
+
+      const updated = await this.reduceDayCost(profile, dayMeal, this.getWeekMealNames(plan.meals, dayMeal.day));
+      if (updated !== dayMeal) changedDays.push(dayMeal.day);
+      meals.push(updated);
+    }
+
+    return { plan: { ...plan, meals, updatedAt: new Date().toISOString() }, changedDays };
+  }
+
+  /**
+   * Ask the active provider to explain, in plain language, why a plan suits the user
+   */
+  static async explainRecommendation(profile: UserProfile, plan: DietPlan): Promise<string> {
+    const fallback = this.generatePlanDescription(profile, plan.dailyCalories);
+    const provider = getLLMProvider();
+    if (!provider.isConfigured()) return fallback;
+
+    const prompt = `In 3-4 sentences, explain to the user why this nutrition plan fits them. Be specific and encouraging.
+
+PLAN: ${plan.name} - ${plan.dailyCalories} kcal/day, ${plan.macros.protein}g protein, ${plan.macros.carbs}g carbs, ${plan.macros.fat}g fat
+GOAL: ${profile.healthGoals.primary}
+ACTIVITY LEVEL: ${profile.personalDetails.activityLevel}
+SPORTS: ${profile.sportActivities.join(', ') || 'None'}
+DIET TYPE: ${profile.dietaryRestrictions.dietType}
+MEDICAL CONDITIONS: ${profile.medicalConditions.join(', ') || 'None'}`;
+
+    try {
+      const explanation = await provider.explainRecommendation({ prompt, profile });
+      return explanation.trim() || fallback;
     } catch (error) {
-      console.error('AI meal plan generation failed:', error);
-      return this.generateFallbackMeals(profile, targets);
+      console.error('AI explanation failed:', error);
+      return fallback;
     }
   }
 
-  private static buildMealPlanPrompt(profile: UserProfile, targets: any): string {
-    const dietTypeInstructions = {
-      vegetarian: 'Include only vegetarian foods (no meat, fish, or poultry). Include dairy and eggs.',
-      vegan: 'Include only vegan foods (no animal products whatsoever).',
-      pescatarian: 'Include fish and seafood, but no meat or poultry. Include dairy and eggs.',
-      keto: 'Focus on high-fat, very low-carb foods. Limit carbs to under 20g per day.',
-      paleo: 'Include only whole foods that would be available to paleolithic humans.',
-      omnivore: 'Include a balanced mix of plant and animal foods.'
-    };
+  private static buildMealPlanPrompt(
+    profile: UserProfile,
+    targets: NutritionTargets,
+    startDay: number,
+    days: number,
+    previousMealNames: string[]
+  ): string {
+    const endDay = startDay + days - 1;
 
-    return `Generate a comprehensive 7-day meal plan with the following specifications:
+    return `Generate a comprehensive ${days}-day meal plan with the following specifications.
+This request covers days ${startDay} to ${endDay} of a ${profile.planDuration}-day plan; number the days accordingly.
 
 USER PROFILE:
 - Age: ${profile.personalDetails.age}, Gender: ${profile.personalDetails.gender}
@@ -181,10 +597,14 @@ NUTRITIONAL TARGETS (per day):
 - Fat: ${targets.fat}g
 
 DIETARY REQUIREMENTS:
-${dietTypeInstructions[profile.dietaryRestrictions.dietType]}
+${DIET_TYPE_INSTRUCTIONS[profile.dietaryRestrictions.dietType]}
 
 ALLERGIES TO AVOID: ${profile.dietaryRestrictions.allergies.join(', ') || 'None'}
 
+INTOLERANCES: ${profile.dietaryRestrictions.intolerances.join(', ') || 'None'}
+
+OTHER RESTRICTIONS: ${profile.dietaryRestrictions.restrictions.join(', ') || 'None'}
+
 PREFERRED CUISINES: ${profile.preferences.cuisines.join(', ') || 'Any'}
 
 MEAL TIMINGS:
@@ -192,44 +612,217 @@ MEAL TIMINGS:
 - Lunch: ${profile.preferences.mealTimings.lunch}
 - Dinner: ${profile.preferences.mealTimings.dinner}
 
-BUDGET LEVEL: ${profile.preferences.budgetRange}
+BUDGET LEVEL: ${profile.preferences.budgetRange} (at most ${CostService.formatCost(CostService.getDailyBudget(profile.preferences.budgetRange))} of groceries per day)
 
 MEDICAL CONDITIONS: ${profile.medicalConditions.join(', ') || 'None'}
 
-Please generate exactly 7 days of meals. For each day, provide:
+MEALS FROM THE PREVIOUS WEEK (do not repeat these): ${previousMealNames.join(', ') || 'None'}
+
+Please generate exactly ${days} days of meals. For each day, provide:
 1. Breakfast, Lunch, Dinner, and 2 Snacks
 2. Each meal should include specific food items with quantities
-3. Nutritional breakdown for each meal (calories, protein, carbs, fat)
-4. Preparation and cooking time
+3. Nutritional breakdown for each meal (calories, protein, carbs, fat, fiber)
+4. Preparation and cooking time in minutes
 5. Simple cooking instructions
 
-Format the response as a structured meal plan that's easy to parse. Focus on variety, nutritional balance, and adherence to the dietary restrictions specified.`;
+Never use an ingredient that conflicts with the allergies, intolerances or diet type above.
+Focus on variety, nutritional balance, and adherence to the dietary restrictions specified.
+
+Respond with JSON only (no markdown, no commentary) matching this structure exactly:
+${MEAL_PLAN_JSON_FORMAT}`;
   }
 
-  private static parseAIMealPlan(aiResponse: string, profile: UserProfile, targets: any): DayMeal[] {
-    // This is a simplified parser - in production, you'd want more robust parsing
-    const meals: DayMeal[] = [];
+  private static parseAIMealPlan(
+    aiResponse: string,
+    fallbackMeals: DayMeal[],
+    targets: NutritionTargets,
+    restrictions: UserProfile['dietaryRestrictions']
+  ): DayMeal[] {
+    const aiDays = this.extractAIDays(aiResponse);
+
+    if (aiDays.length === 0) {
+      console.warn('AI response contained no usable days, using fallback meals');
+      return fallbackMeals;
+    }
+
+    let rejectedDays = 0;
+    const meals = fallbackMeals.map((fallbackDay, index) => {
+      if (index >= aiDays.length) return fallbackDay;
+
+      const parsedDay = this.parseAIDay(aiDays[index], fallbackDay, targets, restrictions);
+      if (!parsedDay) {
+        rejectedDays++;
+        return fallbackDay;
+      }
+      return parsedDay;
+    });
+
+    if (rejectedDays > 0) {
+      console.warn(`Replaced ${rejectedDays} malformed AI day(s) with fallback meals`);
+    }
+
+    return meals;
+  }
+
+  // Parse the JSON document out of raw model text, tolerating code fences and chatter
+  private static parseJSONDocument(aiResponse: string): unknown {
+    const cleaned = aiResponse.replace(/```(?:json)?/gi, '').trim();
+    const start = cleaned.search(/[[{]/);
+    if (start === -1) return null;
+
+    try {
+      return JSON.parse(cleaned.slice(start, Math.max(cleaned.lastIndexOf('}'), cleaned.lastIndexOf(']')) + 1));
+    } catch (error) {
+      console.error('AI response is not valid JSON:', error);
+      return null;
+    }
+  }
+
+  // Pull the list of day objects out of the raw model text
+  private static extractAIDays(aiResponse: string): unknown[] {
+    const document = this.parseJSONDocument(aiResponse);
 
-    // For now, generate fallback meals since AI parsing is complex
-    return this.generateFallbackMeals(profile, targets);
+    if (Array.isArray(document)) return document;
+    if (document && typeof document === 'object' && Array.isArray((document as { days?: unknown }).days)) {
+      return (document as { days: unknown[] }).days;
+    }
+    return [];
   }
 
-  private static generateFallbackMeals(profile: UserProfile, targets: any): DayMeal[] {
+  // Validate and repair a single AI day; returns null if it can't be salvaged
+  private static parseAIDay(
+    rawDay: unknown,
+    fallbackDay: DayMeal,
+    targets: NutritionTargets,
+    restrictions: UserProfile['dietaryRestrictions']
+  ): DayMeal | null {
+    if (!rawDay || typeof rawDay !== 'object') return null;
+
+    // Accept both { meals: { breakfast, ... } } and meals flattened onto the day
+    const rawMeals = (rawDay as { meals?: unknown }).meals ?? rawDay;
+    const dayResult = aiDaySchema.safeParse(rawMeals);
+    if (!dayResult.success) return null;
+
+    const { day } = fallbackDay;
+    const breakfast = this.parseAIMeal(dayResult.data.breakfast, 'breakfast', day);
+    const lunch = this.parseAIMeal(dayResult.data.lunch, 'lunch', day);
+    const dinner = this.parseAIMeal(dayResult.data.dinner, 'dinner', day);
+    if (!breakfast || !lunch || !dinner) return null;
+
+    // A main meal that breaks an allergy or diet rule rejects the whole day;
+    // offending snacks are simply dropped
+    const mainViolations = [breakfast, lunch, dinner]
+      .flatMap(meal => ComplianceService.checkMeal(meal, restrictions).violations);
+    if (mainViolations.length > 0) {
+      console.warn(`Rejected AI day ${day}: ${ComplianceService.describeViolations(mainViolations)}`);
+      return null;
+    }
+
+    const parsedSnacks = dayResult.data.snacks
+      .map((snack, index) => this.parseAIMeal(snack, `snack${index}`, day))
+      .filter((snack): snack is Meal => snack !== null)
+      .filter(snack => ComplianceService.checkMeal(snack, restrictions).compliant);
+    const snacks = parsedSnacks.length > 0 ? parsedSnacks : fallbackDay.meals.snacks;
+
+    const totalCalories = [breakfast, lunch, dinner, ...snacks]
+      .reduce((sum, meal) => sum + meal.nutrition.calories, 0);
+
+    if (Math.abs(totalCalories - targets.dailyCalories) > targets.dailyCalories * MAX_DAY_CALORIE_DEVIATION) {
+      return null;
+    }
+
+    return {
+      ...fallbackDay,
+      meals: { breakfast, lunch, dinner, snacks },
+      totalCalories: Math.round(totalCalories),
+    };
+  }
+
+  private static parseAIMeal(rawMeal: unknown, mealType: string, day: number): Meal | null {
+    const result = aiMealSchema.safeParse(rawMeal);
+    if (!result.success) return null;
+
+    const meal: AIMeal = result.data;
+    const ingredients: Ingredient[] = meal.ingredients
+      .map(ingredient => aiIngredientSchema.safeParse(ingredient))
+      .filter(parsed => parsed.success)
+      .map((parsed, index) => ({
+        id: `${index + 1}`,
+        ...parsed.data,
+        amount: Math.round(parsed.data.amount * 100) / 100,
+        calories: Math.round(parsed.data.calories),
+      }));
+
+    if (ingredients.length === 0) return null;
+
+    // When every ingredient is in the food database, its figures replace the model's estimates
+    const computed = FoodDatabaseService.calculateMealNutrition(ingredients);
+    if (computed.unmatched.length === 0 && computed.nutrition.calories > 0) {
+      return {
+        ...this.buildAIMealBase(meal, mealType, day),
+        ingredients: computed.ingredients,
+        nutrition: computed.nutrition,
+      };
+    }
+
+    // Repair missing calories from the macros or, failing that, the ingredients
+    let { calories } = meal.nutrition;
+    if (calories === 0) {
+      calories = meal.nutrition.protein * 4 + meal.nutrition.carbs * 4 + meal.nutrition.fat * 9;
+    }
+    if (calories === 0) {
+      calories = ingredients.reduce((sum, ingredient) => sum + ingredient.calories, 0);
+    }
+    if (calories === 0) return null;
+
+    return {
+      ...this.buildAIMealBase(meal, mealType, day),
+      ingredients,
+      nutrition: {
+        calories: Math.round(calories),
+        protein: Math.round(meal.nutrition.protein),
+        carbs: Math.round(meal.nutrition.carbs),
+        fat: Math.round(meal.nutrition.fat),
+        fiber: Math.round(meal.nutrition.fiber),
+      },
+    };
+  }
+
+  private static buildAIMealBase(meal: AIMeal, mealType: string, day: number): Omit<Meal, 'ingredients' | 'nutrition'> {
+    return {
+      id: `meal_${mealType}_${day}_${Date.now()}`,
+      name: meal.name,
+      description: meal.description,
+      instructions: meal.instructions.filter(step => step.trim().length > 0),
+      prepTime: meal.prepTime,
+      cookTime: meal.cookTime,
+      servings: 1,
+      completed: false,
+    };
+  }
+
+  private static generateFallbackMeals(
+    profile: UserProfile,
+    targets: NutritionTargets,
+    startDay: number = 1,
+    days: number = profile.planDuration,
+    startDate: Date = new Date()
+  ): DayMeal[] {
     const meals: DayMeal[] = [];
-    const isVegetarian = profile.dietaryRestrictions.dietType === 'vegetarian' || profile.dietaryRestrictions.dietType === 'vegan';
+    const restrictions = profile.dietaryRestrictions;
 
-    for (let day = 1; day <= profile.planDuration; day++) {
-      const date = new Date();
+    for (let day = startDay; day < startDay + days; day++) {
+      const date = new Date(startDate);
       date.setDate(date.getDate() + day - 1);
 
       const dayMeal: DayMeal = {
         day,
         date: date.toISOString().split('T')[0],
         meals: {
-          breakfast: this.generateMeal('breakfast', targets.dailyCalories * 0.25, isVegetarian, day),
-          lunch: this.generateMeal('lunch', targets.dailyCalories * 0.35, isVegetarian, day),
-          dinner: this.generateMeal('dinner', targets.dailyCalories * 0.30, isVegetarian, day),
-          snacks: [this.generateMeal('snack', targets.dailyCalories * 0.10, isVegetarian, day)],
+          breakfast: this.generateMeal('breakfast', targets.dailyCalories * 0.25, restrictions, day),
+          lunch: this.generateMeal('lunch', targets.dailyCalories * 0.35, restrictions, day),
+          dinner: this.generateMeal('dinner', targets.dailyCalories * 0.30, restrictions, day),
+          snacks: [this.generateMeal('snack', targets.dailyCalories * 0.10, restrictions, day)],
         },
         totalCalories: targets.dailyCalories,
         completed: false,
@@ -241,100 +834,124 @@ Format the response as a structured meal plan that's easy to parse. Focus on var
     return meals;
   }
 
-  private static generateMeal(mealType: string, targetCalories: number, isVegetarian: boolean, day: number): Meal {
-    const mealTemplates = this.getMealTemplates(isVegetarian);
-    const templates = mealTemplates[mealType] || mealTemplates.breakfast;
+  private static generateMeal(
+    mealType: MealSlot,
+    targetCalories: number,
+    restrictions: UserProfile['dietaryRestrictions'],
+    day: number
+  ): Meal {
+    const templates = this.getCompliantTemplates(restrictions, mealType);
     const template = templates[day % templates.length];
 
-    return {
+    return this.buildMealFromTemplate(template, mealType, targetCalories, day);
+  }
+
+  // Nutrition comes from the template's ingredients, with portions scaled to the calorie slice
+  private static buildMealFromTemplate(
+    template: MealTemplate,
+    mealType: MealSlot,
+    targetCalories: number,
+    day: number
+  ): Meal {
+    const { ingredients, nutrition } = FoodDatabaseService.calculateMealNutrition(template.ingredients);
+
+    const meal: Meal = {
       id: `meal_${mealType}_${day}_${Date.now()}`,
       name: template.name,
       description: template.description,
-      ingredients: template.ingredients,
+      ingredients,
       instructions: template.instructions,
-      nutrition: {
-        calories: Math.round(targetCalories),
-        protein: Math.round(targetCalories * 0.15 / 4),
-        carbs: Math.round(targetCalories * 0.50 / 4),
-        fat: Math.round(targetCalories * 0.35 / 9),
-        fiber: Math.round(targetCalories * 0.02),
-      },
+      nutrition,
       prepTime: template.prepTime,
       cookTime: template.cookTime,
       servings: 1,
       completed: false,
     };
+
+    return nutrition.calories > 0 ? this.scaleMealToCalories(meal, targetCalories) : meal;
   }
 
-  private static getMealTemplates(isVegetarian: boolean) {
-    const vegetarianTemplates = {
+  // Templates for a slot that pass the compliance check. If none do, the full list is
+  // returned so a plan can still be built; the UI flags those meals.
+  private static getCompliantTemplates(restrictions: UserProfile['dietaryRestrictions'], slot: MealSlot) {
+    const isVegetarian = restrictions.dietType === 'vegetarian' || restrictions.dietType === 'vegan';
+    const templates = this.getMealTemplates(isVegetarian)[slot];
+    const compliant = templates.filter(template => ComplianceService.checkMeal(template, restrictions).compliant);
+
+    return compliant.length > 0 ? compliant : templates;
+  }
+
+  private static getMealTemplates(isVegetarian: boolean): Record<MealSlot, MealTemplate[]> {
+    const vegetarianTemplates: Record<MealSlot, MealTemplate[]> = {
       breakfast: [
-        { name: 'Overnight Oats with Berries', description: 'Creamy oats with berries', ingredients: [{ id: '1', name: 'Oats', amount: 50, unit: 'g', calories: 190 }], instructions: ['Mix and refrigerate'], prepTime: 5, cookTime: 0 },
-        { name: 'Avocado Toast', description: 'Whole grain toast with avocado', ingredients: [{ id: '1', name: 'Bread', amount: 2, unit: 'slices', calories: 160 }], instructions: ['Toast and spread'], prepTime: 5, cookTime: 3 },
-        { name: 'Greek Yogurt Parfait', description: 'Layered yogurt with granola', ingredients: [{ id: '1', name: 'Yogurt', amount: 200, unit: 'g', calories: 150 }], instructions: ['Layer ingredients'], prepTime: 5, cookTime: 0 },
-        { name: 'Banana Pancakes', description: 'Fluffy pancakes with banana', ingredients: [{ id: '1', name: 'Flour', amount: 60, unit: 'g', calories: 220 }], instructions: ['Mix and cook'], prepTime: 10, cookTime: 10 },
-        { name: 'Smoothie Bowl', description: 'Thick smoothie with toppings', ingredients: [{ id: '1', name: 'Banana', amount: 1, unit: 'medium', calories: 105 }], instructions: ['Blend and top'], prepTime: 7, cookTime: 0 },
-        { name: 'Chia Pudding', description: 'Chia seeds in almond milk', ingredients: [{ id: '1', name: 'Chia seeds', amount: 30, unit: 'g', calories: 145 }], instructions: ['Mix and refrigerate'], prepTime: 5, cookTime: 0 },
-        { name: 'Veggie Omelet', description: 'Eggs with mixed vegetables', ingredients: [{ id: '1', name: 'Eggs', amount: 2, unit: 'large', calories: 140 }], instructions: ['Whisk and cook'], prepTime: 5, cookTime: 8 },
-        { name: 'Peanut Butter Toast', description: 'Whole wheat with PB and banana', ingredients: [{ id: '1', name: 'Bread', amount: 2, unit: 'slices', calories: 160 }], instructions: ['Toast and spread'], prepTime: 3, cookTime: 2 },
-        { name: 'Breakfast Burrito', description: 'Scrambled eggs in tortilla', ingredients: [{ id: '1', name: 'Tortilla', amount: 1, unit: 'large', calories: 120 }], instructions: ['Cook and wrap'], prepTime: 10, cookTime: 8 },
-        { name: 'Fruit Salad Bowl', description: 'Mixed fresh fruits with nuts', ingredients: [{ id: '1', name: 'Mixed fruits', amount: 200, unit: 'g', calories: 120 }], instructions: ['Chop and mix'], prepTime: 8, cookTime: 0 },
+        { name: 'Overnight Oats with Berries', description: 'Creamy oats with berries', ingredients: [{ name: 'Rolled oats', amount: 50, unit: 'g' }, { name: 'Milk', amount: 200, unit: 'ml' }, { name: 'Mixed berries', amount: 80, unit: 'g' }, { name: 'Chia seeds', amount: 10, unit: 'g' }], instructions: ['Mix oats, milk and chia seeds', 'Refrigerate overnight', 'Top with berries'], prepTime: 5, cookTime: 0 },
+        { name: 'Avocado Toast', description: 'Whole grain toast with avocado', ingredients: [{ name: 'Whole wheat bread', amount: 2, unit: 'slices' }, { name: 'Avocado', amount: 0.5, unit: 'medium' }, { name: 'Cherry tomatoes', amount: 60, unit: 'g' }, { name: 'Olive oil', amount: 5, unit: 'ml' }], instructions: ['Toast the bread', 'Mash avocado and spread', 'Top with sliced tomatoes and a drizzle of oil'], prepTime: 5, cookTime: 3 },
+        { name: 'Greek Yogurt Parfait', description: 'Layered yogurt with granola', ingredients: [{ name: 'Greek yogurt', amount: 200, unit: 'g' }, { name: 'Granola', amount: 40, unit: 'g' }, { name: 'Mixed berries', amount: 80, unit: 'g' }, { name: 'Honey', amount: 10, unit: 'g' }], instructions: ['Layer yogurt, granola and berries', 'Drizzle with honey'], prepTime: 5, cookTime: 0 },
+        { name: 'Banana Pancakes', description: 'Fluffy pancakes with banana', ingredients: [{ name: 'Flour', amount: 60, unit: 'g' }, { name: 'Banana', amount: 1, unit: 'medium' }, { name: 'Eggs', amount: 1, unit: 'large' }, { name: 'Milk', amount: 100, unit: 'ml' }], instructions: ['Mash banana and whisk with egg and milk', 'Fold in flour', 'Cook small pancakes in a hot pan'], prepTime: 10, cookTime: 10 },
+        { name: 'Smoothie Bowl', description: 'Thick smoothie with toppings', ingredients: [{ name: 'Banana', amount: 1, unit: 'medium' }, { name: 'Mixed berries', amount: 100, unit: 'g' }, { name: 'Almond milk', amount: 150, unit: 'ml' }, { name: 'Granola', amount: 30, unit: 'g' }, { name: 'Chia seeds', amount: 10, unit: 'g' }], instructions: ['Blend banana, berries and almond milk until thick', 'Top with granola and chia seeds'], prepTime: 7, cookTime: 0 },
+        { name: 'Chia Pudding', description: 'Chia seeds in almond milk', ingredients: [{ name: 'Chia seeds', amount: 30, unit: 'g' }, { name: 'Almond milk', amount: 200, unit: 'ml' }, { name: 'Mixed berries', amount: 80, unit: 'g' }], instructions: ['Stir chia seeds into almond milk', 'Refrigerate for at least 4 hours', 'Top with berries'], prepTime: 5, cookTime: 0 },
+        { name: 'Veggie Omelet', description: 'Eggs with mixed vegetables', ingredients: [{ name: 'Eggs', amount: 3, unit: 'large' }, { name: 'Spinach', amount: 30, unit: 'g' }, { name: 'Bell pepper', amount: 60, unit: 'g' }, { name: 'Mushrooms', amount: 50, unit: 'g' }, { name: 'Olive oil', amount: 5, unit: 'ml' }], instructions: ['Sauté vegetables in oil', 'Add beaten eggs and cook until set', 'Fold and serve'], prepTime: 5, cookTime: 8 },
+        { name: 'Peanut Butter Toast', description: 'Whole wheat with PB and banana', ingredients: [{ name: 'Whole wheat bread', amount: 2, unit: 'slices' }, { name: 'Peanut butter', amount: 2, unit: 'tbsp' }, { name: 'Banana', amount: 1, unit: 'small' }], instructions: ['Toast the bread', 'Spread peanut butter and top with sliced banana'], prepTime: 3, cookTime: 2 },
+        { name: 'Breakfast Burrito', description: 'Scrambled eggs in tortilla', ingredients: [{ name: 'Tortilla', amount: 1, unit: 'large' }, { name: 'Eggs', amount: 2, unit: 'large' }, { name: 'Black beans', amount: 60, unit: 'g' }, { name: 'Cheddar cheese', amount: 20, unit: 'g' }, { name: 'Tomato', amount: 50, unit: 'g' }], instructions: ['Scramble the eggs', 'Warm beans and tortilla', 'Fill, sprinkle with cheese and wrap'], prepTime: 10, cookTime: 8 },
+        { name: 'Fruit Salad Bowl', description: 'Mixed fresh fruits with nuts', ingredients: [{ name: 'Mixed fruit', amount: 250, unit: 'g' }, { name: 'Mixed nuts', amount: 20, unit: 'g' }], instructions: ['Chop fruit', 'Toss and top with nuts'], prepTime: 8, cookTime: 0 },
       ],
       lunch: [
-        { name: 'Quinoa Buddha Bowl', description: 'Quinoa with roasted vegetables', ingredients: [{ id: '1', name: 'Quinoa', amount: 80, unit: 'g', calories: 290 }], instructions: ['Cook and assemble'], prepTime: 10, cookTime: 25 },
-        { name: 'Lentil Curry', description: 'Spiced lentils with rice', ingredients: [{ id: '1', name: 'Lentils', amount: 100, unit: 'g', calories: 350 }], instructions: ['Cook with spices'], prepTime: 15, cookTime: 30 },
-        { name: 'Caprese Sandwich', description: 'Mozzarella, tomato, basil', ingredients: [{ id: '1', name: 'Bread', amount: 2, unit: 'slices', calories: 160 }], instructions: ['Layer and serve'], prepTime: 5, cookTime: 0 },
-        { name: 'Chickpea Salad', description: 'Mediterranean chickpea bowl', ingredients: [{ id: '1', name: 'Chickpeas', amount: 150, unit: 'g', calories: 180 }], instructions: ['Mix ingredients'], prepTime: 10, cookTime: 0 },
-        { name: 'Veggie Wrap', description: 'Hummus and vegetable wrap', ingredients: [{ id: '1', name: 'Tortilla', amount: 1, unit: 'large', calories: 120 }], instructions: ['Fill and wrap'], prepTime: 8, cookTime: 0 },
-        { name: 'Pasta Primavera', description: 'Whole wheat pasta with veggies', ingredients: [{ id: '1', name: 'Pasta', amount: 80, unit: 'g', calories: 280 }], instructions: ['Cook and toss'], prepTime: 10, cookTime: 15 },
-        { name: 'Black Bean Bowl', description: 'Black beans with rice and salsa', ingredients: [{ id: '1', name: 'Black beans', amount: 150, unit: 'g', calories: 200 }], instructions: ['Heat and combine'], prepTime: 8, cookTime: 10 },
-        { name: 'Falafel Plate', description: 'Baked falafel with tahini', ingredients: [{ id: '1', name: 'Chickpeas', amount: 120, unit: 'g', calories: 150 }], instructions: ['Form and bake'], prepTime: 15, cookTime: 20 },
-        { name: 'Vegetable Soup', description: 'Hearty mixed vegetable soup', ingredients: [{ id: '1', name: 'Mixed veggies', amount: 250, unit: 'g', calories: 100 }], instructions: ['Simmer together'], prepTime: 10, cookTime: 25 },
-        { name: 'Paneer Tikka Bowl', description: 'Grilled paneer with rice', ingredients: [{ id: '1', name: 'Paneer', amount: 100, unit: 'g', calories: 265 }], instructions: ['Marinate and grill'], prepTime: 20, cookTime: 15 },
+        { name: 'Quinoa Buddha Bowl', description: 'Quinoa with roasted vegetables', ingredients: [{ name: 'Quinoa', amount: 70, unit: 'g' }, { name: 'Chickpeas', amount: 100, unit: 'g' }, { name: 'Sweet potato', amount: 100, unit: 'g' }, { name: 'Spinach', amount: 30, unit: 'g' }, { name: 'Tahini', amount: 15, unit: 'g' }], instructions: ['Cook quinoa', 'Roast sweet potato and chickpeas', 'Assemble over spinach and drizzle with tahini'], prepTime: 10, cookTime: 25 },
+        { name: 'Lentil Curry', description: 'Spiced lentils with rice', ingredients: [{ name: 'Red lentils', amount: 70, unit: 'g' }, { name: 'Basmati rice', amount: 60, unit: 'g' }, { name: 'Chopped tomatoes', amount: 150, unit: 'g' }, { name: 'Onion', amount: 50, unit: 'g' }, { name: 'Coconut milk', amount: 50, unit: 'ml' }], instructions: ['Soften onion with spices', 'Add lentils, tomatoes and coconut milk and simmer', 'Serve over rice'], prepTime: 15, cookTime: 30 },
+        { name: 'Caprese Sandwich', description: 'Mozzarella, tomato, basil', ingredients: [{ name: 'Whole wheat bread', amount: 2, unit: 'slices' }, { name: 'Mozzarella', amount: 60, unit: 'g' }, { name: 'Tomato', amount: 1, unit: 'medium' }, { name: 'Olive oil', amount: 5, unit: 'ml' }], instructions: ['Layer mozzarella, tomato and basil on bread', 'Drizzle with olive oil and serve'], prepTime: 5, cookTime: 0 },
+        { name: 'Chickpea Salad', description: 'Mediterranean chickpea bowl', ingredients: [{ name: 'Chickpeas', amount: 150, unit: 'g' }, { name: 'Cucumber', amount: 100, unit: 'g' }, { name: 'Tomato', amount: 100, unit: 'g' }, { name: 'Feta cheese', amount: 30, unit: 'g' }, { name: 'Olive oil', amount: 10, unit: 'ml' }], instructions: ['Chop vegetables', 'Toss with chickpeas, feta and olive oil'], prepTime: 10, cookTime: 0 },
+        { name: 'Veggie Wrap', description: 'Hummus and vegetable wrap', ingredients: [{ name: 'Tortilla', amount: 1, unit: 'large' }, { name: 'Hummus', amount: 50, unit: 'g' }, { name: 'Carrot', amount: 50, unit: 'g' }, { name: 'Mixed greens', amount: 30, unit: 'g' }, { name: 'Bell pepper', amount: 50, unit: 'g' }], instructions: ['Spread hummus on tortilla', 'Fill with vegetables and wrap'], prepTime: 8, cookTime: 0 },
+        { name: 'Pasta Primavera', description: 'Whole wheat pasta with veggies', ingredients: [{ name: 'Whole wheat pasta', amount: 80, unit: 'g' }, { name: 'Zucchini', amount: 100, unit: 'g' }, { name: 'Bell pepper', amount: 80, unit: 'g' }, { name: 'Green peas', amount: 50, unit: 'g' }, { name: 'Olive oil', amount: 10, unit: 'ml' }, { name: 'Parmesan', amount: 10, unit: 'g' }], instructions: ['Cook pasta', 'Sauté vegetables in oil', 'Toss together and top with parmesan'], prepTime: 10, cookTime: 15 },
+        { name: 'Black Bean Bowl', description: 'Black beans with rice and salsa', ingredients: [{ name: 'Black beans', amount: 150, unit: 'g' }, { name: 'Brown rice', amount: 60, unit: 'g' }, { name: 'Sweetcorn', amount: 50, unit: 'g' }, { name: 'Tomato', amount: 80, unit: 'g' }, { name: 'Avocado', amount: 50, unit: 'g' }], instructions: ['Cook rice', 'Heat beans and corn', 'Top with chopped tomato salsa and avocado'], prepTime: 8, cookTime: 10 },
+        { name: 'Falafel Plate', description: 'Baked falafel with tahini', ingredients: [{ name: 'Chickpeas', amount: 150, unit: 'g' }, { name: 'Flour', amount: 15, unit: 'g' }, { name: 'Tahini', amount: 15, unit: 'g' }, { name: 'Mixed greens', amount: 50, unit: 'g' }, { name: 'Cucumber', amount: 80, unit: 'g' }, { name: 'Olive oil', amount: 10, unit: 'ml' }], instructions: ['Blend chickpeas with flour and spices', 'Form patties and bake', 'Serve on greens with tahini'], prepTime: 15, cookTime: 20 },
+        { name: 'Vegetable Soup', description: 'Hearty mixed vegetable soup', ingredients: [{ name: 'Mixed vegetables', amount: 250, unit: 'g' }, { name: 'Chopped tomatoes', amount: 150, unit: 'g' }, { name: 'White beans', amount: 100, unit: 'g' }, { name: 'Whole wheat bread', amount: 1, unit: 'slices' }, { name: 'Olive oil', amount: 5, unit: 'ml' }], instructions: ['Sauté vegetables in oil', 'Add tomatoes, beans and water and simmer', 'Serve with bread'], prepTime: 10, cookTime: 25 },
+        { name: 'Paneer Tikka Bowl', description: 'Grilled paneer with rice', ingredients: [{ name: 'Paneer', amount: 100, unit: 'g' }, { name: 'Basmati rice', amount: 60, unit: 'g' }, { name: 'Bell pepper', amount: 80, unit: 'g' }, { name: 'Onion', amount: 50, unit: 'g' }, { name: 'Greek yogurt', amount: 30, unit: 'g' }], instructions: ['Marinate paneer in spiced yogurt', 'Grill with peppers and onion', 'Serve over rice'], prepTime: 20, cookTime: 15 },
       ],
       dinner: [
-        { name: 'Stuffed Bell Peppers', description: 'Quinoa-stuffed peppers', ingredients: [{ id: '1', name: 'Bell peppers', amount: 2, unit: 'large', calories: 60 }], instructions: ['Stuff and bake'], prepTime: 20, cookTime: 35 },
-        { name: 'Tofu Stir-fry', description: 'Crispy tofu with vegetables', ingredients: [{ id: '1', name: 'Tofu', amount: 120, unit: 'g', calories: 180 }], instructions: ['Stir-fry together'], prepTime: 15, cookTime: 15 },
-        { name: 'Eggplant Parmesan', description: 'Baked eggplant with cheese', ingredients: [{ id: '1', name: 'Eggplant', amount: 200, unit: 'g', calories: 50 }], instructions: ['Layer and bake'], prepTime: 20, cookTime: 30 },
-        { name: 'Mushroom Risotto', description: 'Creamy arborio rice', ingredients: [{ id: '1', name: 'Arborio rice', amount: 80, unit: 'g', calories: 280 }], instructions: ['Stir continuously'], prepTime: 10, cookTime: 30 },
-        { name: 'Veggie Burger', description: 'Homemade bean burger', ingredients: [{ id: '1', name: 'Black beans', amount: 150, unit: 'g', calories: 200 }], instructions: ['Form and grill'], prepTime: 15, cookTime: 12 },
-        { name: 'Spinach Lasagna', description: 'Layered pasta with spinach', ingredients: [{ id: '1', name: 'Lasagna sheets', amount: 100, unit: 'g', calories: 350 }], instructions: ['Layer and bake'], prepTime: 25, cookTime: 40 },
-        { name: 'Cauliflower Tacos', description: 'Roasted cauliflower in tortillas', ingredients: [{ id: '1', name: 'Cauliflower', amount: 200, unit: 'g', calories: 50 }], instructions: ['Roast and assemble'], prepTime: 10, cookTime: 25 },
-        { name: 'Vegetable Biryani', description: 'Fragrant rice with vegetables', ingredients: [{ id: '1', name: 'Basmati rice', amount: 80, unit: 'g', calories: 280 }], instructions: ['Layer and steam'], prepTime: 20, cookTime: 30 },
-        { name: 'Zucchini Noodles', description: 'Spiralized zucchini with marinara', ingredients: [{ id: '1', name: 'Zucchini', amount: 250, unit: 'g', calories: 40 }], instructions: ['Spiralize and sauté'], prepTime: 10, cookTime: 8 },
-        { name: 'Dal Tadka', description: 'Yellow lentils with spices', ingredients: [{ id: '1', name: 'Yellow dal', amount: 100, unit: 'g', calories: 340 }], instructions: ['Cook and temper'], prepTime: 10, cookTime: 25 },
+        { name: 'Stuffed Bell Peppers', description: 'Quinoa-stuffed peppers', ingredients: [{ name: 'Bell peppers', amount: 2, unit: 'large' }, { name: 'Quinoa', amount: 50, unit: 'g' }, { name: 'Black beans', amount: 80, unit: 'g' }, { name: 'Chopped tomatoes', amount: 100, unit: 'g' }, { name: 'Cheddar cheese', amount: 20, unit: 'g' }], instructions: ['Cook quinoa and mix with beans and tomatoes', 'Stuff peppers and top with cheese', 'Bake until tender'], prepTime: 20, cookTime: 35 },
+        { name: 'Tofu Stir-fry', description: 'Crispy tofu with vegetables', ingredients: [{ name: 'Firm tofu', amount: 150, unit: 'g' }, { name: 'Mixed vegetables', amount: 150, unit: 'g' }, { name: 'Brown rice', amount: 60, unit: 'g' }, { name: 'Soy sauce', amount: 15, unit: 'ml' }, { name: 'Olive oil', amount: 10, unit: 'ml' }], instructions: ['Cook rice', 'Fry tofu until crispy', 'Stir-fry vegetables, add tofu and soy sauce'], prepTime: 15, cookTime: 15 },
+        { name: 'Eggplant Parmesan', description: 'Baked eggplant with cheese', ingredients: [{ name: 'Eggplant', amount: 250, unit: 'g' }, { name: 'Chopped tomatoes', amount: 150, unit: 'g' }, { name: 'Mozzarella', amount: 50, unit: 'g' }, { name: 'Parmesan', amount: 15, unit: 'g' }, { name: 'Flour', amount: 20, unit: 'g' }], instructions: ['Slice, flour and bake eggplant', 'Layer with tomato sauce and cheese', 'Bake until bubbling'], prepTime: 20, cookTime: 30 },
+        { name: 'Mushroom Risotto', description: 'Creamy arborio rice', ingredients: [{ name: 'Arborio rice', amount: 80, unit: 'g' }, { name: 'Mushrooms', amount: 150, unit: 'g' }, { name: 'Onion', amount: 50, unit: 'g' }, { name: 'Parmesan', amount: 15, unit: 'g' }, { name: 'Butter', amount: 10, unit: 'g' }], instructions: ['Soften onion and mushrooms in butter', 'Add rice and stock a ladle at a time, stirring', 'Finish with parmesan'], prepTime: 10, cookTime: 30 },
+        { name: 'Veggie Burger', description: 'Homemade bean burger', ingredients: [{ name: 'Black beans', amount: 150, unit: 'g' }, { name: 'Rolled oats', amount: 30, unit: 'g' }, { name: 'Whole wheat bread', amount: 2, unit: 'slices' }, { name: 'Mixed greens', amount: 20, unit: 'g' }, { name: 'Tomato', amount: 50, unit: 'g' }], instructions: ['Mash beans with oats and spices', 'Form a patty and grill', 'Serve on bread with greens and tomato'], prepTime: 15, cookTime: 12 },
+        { name: 'Spinach Lasagna', description: 'Layered pasta with spinach', ingredients: [{ name: 'Lasagna sheets', amount: 80, unit: 'g' }, { name: 'Spinach', amount: 100, unit: 'g' }, { name: 'Mozzarella', amount: 50, unit: 'g' }, { name: 'Chopped tomatoes', amount: 150, unit: 'g' }], instructions: ['Wilt spinach', 'Layer sheets, tomato, spinach and cheese', 'Bake until golden'], prepTime: 25, cookTime: 40 },
+        { name: 'Cauliflower Tacos', description: 'Roasted cauliflower in tortillas', ingredients: [{ name: 'Cauliflower', amount: 200, unit: 'g' }, { name: 'Corn tortilla', amount: 3, unit: 'medium' }, { name: 'Black beans', amount: 80, unit: 'g' }, { name: 'Avocado', amount: 50, unit: 'g' }, { name: 'Olive oil', amount: 10, unit: 'ml' }], instructions: ['Roast spiced cauliflower', 'Warm tortillas and beans', 'Assemble with avocado'], prepTime: 10, cookTime: 25 },
+        { name: 'Vegetable Biryani', description: 'Fragrant rice with vegetables', ingredients: [{ name: 'Basmati rice', amount: 80, unit: 'g' }, { name: 'Mixed vegetables', amount: 150, unit: 'g' }, { name: 'Green peas', amount: 50, unit: 'g' }, { name: 'Onion', amount: 50, unit: 'g' }, { name: 'Olive oil', amount: 10, unit: 'ml' }], instructions: ['Fry onion with whole spices', 'Add vegetables and rice', 'Steam until rice is tender'], prepTime: 20, cookTime: 30 },
+        { name: 'Zucchini Noodles', description: 'Spiralized zucchini with marinara', ingredients: [{ name: 'Zucchini', amount: 300, unit: 'g' }, { name: 'Marinara sauce', amount: 150, unit: 'g' }, { name: 'White beans', amount: 100, unit: 'g' }, { name: 'Parmesan', amount: 10, unit: 'g' }, { name: 'Olive oil', amount: 10, unit: 'ml' }], instructions: ['Spiralize zucchini', 'Sauté briefly in oil', 'Toss with warm marinara and beans, top with parmesan'], prepTime: 10, cookTime: 8 },
+        { name: 'Dal Tadka', description: 'Yellow lentils with spices', ingredients: [{ name: 'Yellow dal', amount: 80, unit: 'g' }, { name: 'Basmati rice', amount: 60, unit: 'g' }, { name: 'Onion', amount: 50, unit: 'g' }, { name: 'Tomato', amount: 80, unit: 'g' }, { name: 'Garlic', amount: 2, unit: 'cloves' }, { name: 'Olive oil', amount: 10, unit: 'ml' }], instructions: ['Boil dal until soft', 'Temper garlic, onion, tomato and spices in oil', 'Pour over dal and serve with rice'], prepTime: 10, cookTime: 25 },
+        { name: 'Cauliflower Cheese Bake', description: 'Cauliflower and broccoli in a cheddar sauce', ingredients: [{ name: 'Cauliflower', amount: 250, unit: 'g' }, { name: 'Broccoli', amount: 100, unit: 'g' }, { name: 'Cheddar cheese', amount: 50, unit: 'g' }, { name: 'Eggs', amount: 1, unit: 'large' }, { name: 'Butter', amount: 10, unit: 'g' }], instructions: ['Steam cauliflower and broccoli', 'Melt butter and cheese, whisk in the egg', 'Pour over vegetables and bake until golden'], prepTime: 10, cookTime: 25 },
       ],
       snack: [
-        { name: 'Greek Yogurt with Nuts', description: 'Protein-rich snack', ingredients: [{ id: '1', name: 'Yogurt', amount: 150, unit: 'g', calories: 100 }], instructions: ['Mix together'], prepTime: 2, cookTime: 0 },
-        { name: 'Apple with Almond Butter', description: 'Sliced apple with nut butter', ingredients: [{ id: '1', name: 'Apple', amount: 1, unit: 'medium', calories: 95 }], instructions: ['Slice and dip'], prepTime: 3, cookTime: 0 },
-        { name: 'Trail Mix', description: 'Nuts, seeds, and dried fruit', ingredients: [{ id: '1', name: 'Mixed nuts', amount: 30, unit: 'g', calories: 180 }], instructions: ['Mix ingredients'], prepTime: 2, cookTime: 0 },
-        { name: 'Hummus with Veggies', description: 'Chickpea dip with carrots', ingredients: [{ id: '1', name: 'Hummus', amount: 50, unit: 'g', calories: 100 }], instructions: ['Serve together'], prepTime: 3, cookTime: 0 },
-        { name: 'Protein Smoothie', description: 'Banana and protein powder', ingredients: [{ id: '1', name: 'Banana', amount: 1, unit: 'medium', calories: 105 }], instructions: ['Blend all'], prepTime: 5, cookTime: 0 },
+        { name: 'Greek Yogurt with Nuts', description: 'Protein-rich snack', ingredients: [{ name: 'Greek yogurt', amount: 150, unit: 'g' }, { name: 'Walnuts', amount: 15, unit: 'g' }, { name: 'Honey', amount: 5, unit: 'g' }], instructions: ['Top yogurt with walnuts and honey'], prepTime: 2, cookTime: 0 },
+        { name: 'Apple with Almond Butter', description: 'Sliced apple with nut butter', ingredients: [{ name: 'Apple', amount: 1, unit: 'medium' }, { name: 'Almond butter', amount: 1, unit: 'tbsp' }], instructions: ['Slice apple and dip'], prepTime: 3, cookTime: 0 },
+        { name: 'Trail Mix', description: 'Nuts, seeds, and dried fruit', ingredients: [{ name: 'Mixed nuts', amount: 40, unit: 'g' }], instructions: ['Portion into a small bag'], prepTime: 2, cookTime: 0 },
+        { name: 'Hummus with Veggies', description: 'Chickpea dip with carrots', ingredients: [{ name: 'Hummus', amount: 60, unit: 'g' }, { name: 'Carrot', amount: 80, unit: 'g' }, { name: 'Cucumber', amount: 80, unit: 'g' }], instructions: ['Cut vegetables into sticks', 'Serve with hummus'], prepTime: 3, cookTime: 0 },
+        { name: 'Protein Smoothie', description: 'Banana and protein powder', ingredients: [{ name: 'Banana', amount: 1, unit: 'medium' }, { name: 'Whey protein', amount: 1, unit: 'scoop' }, { name: 'Milk', amount: 200, unit: 'ml' }], instructions: ['Blend all'], prepTime: 5, cookTime: 0 },
       ],
     };
 
-    const omnivoreTemplates = {
+    const omnivoreTemplates: Record<MealSlot, MealTemplate[]> = {
       breakfast: [...vegetarianTemplates.breakfast,
-      { name: 'Scrambled Eggs with Bacon', description: 'Classic breakfast combo', ingredients: [{ id: '1', name: 'Eggs', amount: 2, unit: 'large', calories: 140 }], instructions: ['Cook together'], prepTime: 5, cookTime: 8 },
-      { name: 'Breakfast Sausage Bowl', description: 'Sausage with hash browns', ingredients: [{ id: '1', name: 'Sausage', amount: 80, unit: 'g', calories: 250 }], instructions: ['Cook and serve'], prepTime: 5, cookTime: 12 },
+      { name: 'Scrambled Eggs with Bacon', description: 'Classic breakfast combo', ingredients: [{ name: 'Eggs', amount: 2, unit: 'large' }, { name: 'Bacon', amount: 3, unit: 'slices' }, { name: 'Whole wheat bread', amount: 1, unit: 'slices' }, { name: 'Butter', amount: 5, unit: 'g' }], instructions: ['Cook bacon until crisp', 'Scramble eggs in butter', 'Serve with toast'], prepTime: 5, cookTime: 8 },
+      { name: 'Breakfast Sausage Bowl', description: 'Sausage with hash browns', ingredients: [{ name: 'Sausage', amount: 80, unit: 'g' }, { name: 'Hash browns', amount: 150, unit: 'g' }, { name: 'Eggs', amount: 1, unit: 'large' }, { name: 'Bell pepper', amount: 50, unit: 'g' }], instructions: ['Brown sausage and hash browns', 'Add peppers', 'Top with a fried egg'], prepTime: 5, cookTime: 12 },
       ],
       lunch: [...vegetarianTemplates.lunch,
-      { name: 'Grilled Chicken Salad', description: 'Fresh greens with chicken', ingredients: [{ id: '1', name: 'Chicken breast', amount: 120, unit: 'g', calories: 200 }], instructions: ['Grill and toss'], prepTime: 10, cookTime: 15 },
-      { name: 'Turkey Sandwich', description: 'Whole grain with turkey', ingredients: [{ id: '1', name: 'Turkey', amount: 100, unit: 'g', calories: 120 }], instructions: ['Layer and serve'], prepTime: 5, cookTime: 0 },
-      { name: 'Beef Burrito Bowl', description: 'Ground beef with rice', ingredients: [{ id: '1', name: 'Ground beef', amount: 100, unit: 'g', calories: 250 }], instructions: ['Cook and assemble'], prepTime: 10, cookTime: 15 },
-      { name: 'Tuna Salad', description: 'Tuna with mixed greens', ingredients: [{ id: '1', name: 'Tuna', amount: 100, unit: 'g', calories: 130 }], instructions: ['Mix and serve'], prepTime: 8, cookTime: 0 },
+      { name: 'Grilled Chicken Salad', description: 'Fresh greens with chicken', ingredients: [{ name: 'Chicken breast', amount: 120, unit: 'g' }, { name: 'Mixed greens', amount: 80, unit: 'g' }, { name: 'Cherry tomatoes', amount: 80, unit: 'g' }, { name: 'Cucumber', amount: 80, unit: 'g' }, { name: 'Olive oil', amount: 10, unit: 'ml' }], instructions: ['Grill chicken', 'Slice and toss with greens, tomato, cucumber and oil'], prepTime: 10, cookTime: 15 },
+      { name: 'Turkey Sandwich', description: 'Whole grain with turkey', ingredients: [{ name: 'Whole wheat bread', amount: 2, unit: 'slices' }, { name: 'Turkey', amount: 100, unit: 'g' }, { name: 'Mixed greens', amount: 20, unit: 'g' }, { name: 'Tomato', amount: 50, unit: 'g' }, { name: 'Cheddar cheese', amount: 20, unit: 'g' }], instructions: ['Layer turkey, cheese, greens and tomato on bread'], prepTime: 5, cookTime: 0 },
+      { name: 'Beef Burrito Bowl', description: 'Ground beef with rice', ingredients: [{ name: 'Ground beef', amount: 100, unit: 'g' }, { name: 'Brown rice', amount: 60, unit: 'g' }, { name: 'Black beans', amount: 80, unit: 'g' }, { name: 'Sweetcorn', amount: 50, unit: 'g' }, { name: 'Tomato', amount: 60, unit: 'g' }], instructions: ['Cook rice', 'Brown beef with spices', 'Assemble with beans, corn and tomato'], prepTime: 10, cookTime: 15 },
+      { name: 'Tuna Salad', description: 'Tuna with mixed greens', ingredients: [{ name: 'Tuna', amount: 1, unit: 'can' }, { name: 'Mixed greens', amount: 80, unit: 'g' }, { name: 'Cucumber', amount: 80, unit: 'g' }, { name: 'White beans', amount: 100, unit: 'g' }, { name: 'Olive oil', amount: 10, unit: 'ml' }], instructions: ['Drain tuna', 'Toss with greens, cucumber, beans and oil'], prepTime: 8, cookTime: 0 },
       ],
       dinner: [...vegetarianTemplates.dinner,
-      { name: 'Baked Salmon', description: 'Herb-crusted salmon fillet', ingredients: [{ id: '1', name: 'Salmon', amount: 150, unit: 'g', calories: 280 }], instructions: ['Season and bake'], prepTime: 10, cookTime: 25 },
-      { name: 'Grilled Chicken Breast', description: 'Marinated chicken with veggies', ingredients: [{ id: '1', name: 'Chicken', amount: 150, unit: 'g', calories: 250 }], instructions: ['Marinate and grill'], prepTime: 15, cookTime: 20 },
-      { name: 'Beef Stir-fry', description: 'Lean beef with vegetables', ingredients: [{ id: '1', name: 'Beef', amount: 120, unit: 'g', calories: 220 }], instructions: ['Stir-fry quickly'], prepTime: 10, cookTime: 12 },
-      { name: 'Fish Tacos', description: 'Grilled fish in corn tortillas', ingredients: [{ id: '1', name: 'White fish', amount: 120, unit: 'g', calories: 140 }], instructions: ['Grill and assemble'], prepTime: 10, cookTime: 10 },
-      { name: 'Pork Tenderloin', description: 'Roasted pork with sweet potato', ingredients: [{ id: '1', name: 'Pork', amount: 120, unit: 'g', calories: 180 }], instructions: ['Season and roast'], prepTime: 10, cookTime: 30 },
-      { name: 'Shrimp Pasta', description: 'Garlic shrimp with linguine', ingredients: [{ id: '1', name: 'Shrimp', amount: 150, unit: 'g', calories: 120 }], instructions: ['Sauté and toss'], prepTime: 10, cookTime: 15 },
+      { name: 'Baked Salmon', description: 'Herb-crusted salmon fillet', ingredients: [{ name: 'Salmon', amount: 150, unit: 'g' }, { name: 'Sweet potato', amount: 150, unit: 'g' }, { name: 'Broccoli', amount: 150, unit: 'g' }, { name: 'Olive oil', amount: 5, unit: 'ml' }, { name: 'Lemon juice', amount: 1, unit: 'tbsp' }], instructions: ['Season salmon with herbs and lemon', 'Bake with sweet potato wedges', 'Steam broccoli and serve'], prepTime: 10, cookTime: 25 },
+      { name: 'Grilled Chicken Breast', description: 'Marinated chicken with veggies', ingredients: [{ name: 'Chicken breast', amount: 150, unit: 'g' }, { name: 'Mixed vegetables', amount: 200, unit: 'g' }, { name: 'Brown rice', amount: 50, unit: 'g' }, { name: 'Olive oil', amount: 10, unit: 'ml' }], instructions: ['Marinate chicken', 'Grill chicken and vegetables', 'Serve with rice'], prepTime: 15, cookTime: 20 },
+      { name: 'Beef Stir-fry', description: 'Lean beef with vegetables', ingredients: [{ name: 'Lean beef', amount: 120, unit: 'g' }, { name: 'Mixed vegetables', amount: 150, unit: 'g' }, { name: 'Basmati rice', amount: 60, unit: 'g' }, { name: 'Soy sauce', amount: 15, unit: 'ml' }, { name: 'Olive oil', amount: 10, unit: 'ml' }], instructions: ['Cook rice', 'Stir-fry beef strips quickly', 'Add vegetables and soy sauce'], prepTime: 10, cookTime: 12 },
+      { name: 'Fish Tacos', description: 'Grilled fish in corn tortillas', ingredients: [{ name: 'White fish', amount: 120, unit: 'g' }, { name: 'Corn tortilla', amount: 3, unit: 'medium' }, { name: 'Mixed greens', amount: 30, unit: 'g' }, { name: 'Avocado', amount: 50, unit: 'g' }, { name: 'Lime juice', amount: 1, unit: 'tbsp' }], instructions: ['Season and grill fish', 'Warm tortillas', 'Assemble with greens, avocado and lime'], prepTime: 10, cookTime: 10 },
+      { name: 'Pork Tenderloin', description: 'Roasted pork with sweet potato', ingredients: [{ name: 'Pork tenderloin', amount: 150, unit: 'g' }, { name: 'Sweet potato', amount: 200, unit: 'g' }, { name: 'Broccoli', amount: 100, unit: 'g' }, { name: 'Olive oil', amount: 10, unit: 'ml' }], instructions: ['Season pork', 'Roast with sweet potato', 'Serve with steamed broccoli'], prepTime: 10, cookTime: 30 },
+      { name: 'Shrimp Pasta', description: 'Garlic shrimp with linguine', ingredients: [{ name: 'Shrimp', amount: 150, unit: 'g' }, { name: 'Linguine', amount: 80, unit: 'g' }, { name: 'Garlic', amount: 2, unit: 'cloves' }, { name: 'Spinach', amount: 50, unit: 'g' }, { name: 'Olive oil', amount: 10, unit: 'ml' }], instructions: ['Cook linguine', 'Sauté garlic and shrimp in oil', 'Toss with pasta and spinach'], prepTime: 10, cookTime: 15 },
+      { name: 'Garlic Butter Salmon', description: 'Pan-seared salmon with buttery greens', ingredients: [{ name: 'Salmon', amount: 150, unit: 'g' }, { name: 'Spinach', amount: 100, unit: 'g' }, { name: 'Broccoli', amount: 100, unit: 'g' }, { name: 'Butter', amount: 10, unit: 'g' }, { name: 'Garlic', amount: 2, unit: 'cloves' }], instructions: ['Sear salmon skin-side down', 'Sauté garlic, spinach and broccoli in butter', 'Serve together'], prepTime: 5, cookTime: 15 },
       ],
       snack: [...vegetarianTemplates.snack,
-      { name: 'Beef Jerky', description: 'High-protein dried beef', ingredients: [{ id: '1', name: 'Beef jerky', amount: 30, unit: 'g', calories: 80 }], instructions: ['Serve'], prepTime: 1, cookTime: 0 },
-      { name: 'Hard Boiled Eggs', description: 'Protein-packed snack', ingredients: [{ id: '1', name: 'Eggs', amount: 2, unit: 'large', calories: 140 }], instructions: ['Boil and peel'], prepTime: 2, cookTime: 10 },
+      { name: 'Beef Jerky', description: 'High-protein dried beef', ingredients: [{ name: 'Beef jerky', amount: 40, unit: 'g' }], instructions: ['Serve'], prepTime: 1, cookTime: 0 },
+      { name: 'Hard Boiled Eggs', description: 'Protein-packed snack', ingredients: [{ name: 'Eggs', amount: 2, unit: 'large' }], instructions: ['Boil and peel'], prepTime: 2, cookTime: 10 },
       ],
     };
 
@@ -379,10 +996,7 @@ Format the response as a structured meal plan that's easy to parse. Focus on var
     return description;
   }
 
-  private static generateFallbackDietPlan(profile: UserProfile): DietPlan {
-    const targets = this.calculateNutritionTargets(profile);
-    const meals = this.generateFallbackMeals(profile, targets);
-
+  private static buildDietPlan(profile: UserProfile, targets: NutritionTargets, meals: DayMeal[]): DietPlan {
     return {
       id: `plan_${Date.now()}`,
       userId: profile.id,
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { UserProfile } from '../types';
+import { CheckableMeal, ComplianceService } from './complianceService';
+
+const restrictions = (overrides: Partial<UserProfile['dietaryRestrictions']> = {}): UserProfile['dietaryRestrictions'] => ({
+  allergies: [],
+  intolerances: [],
+  dietType: 'omnivore',
+  restrictions: [],
+  ...overrides,
+});
+
+const meal = (name: string, ingredients: string[], description = ''): CheckableMeal => ({
+  name,
+  description,
+  ingredients: ingredients.map(ingredient => ({ name: ingredient })),
+});
+
+describe('ComplianceService.checkMeal', () => {
+  it('flags meat for a pescatarian and names the ingredient', () => {
+    const { compliant, violations } = ComplianceService.checkMeal(
+      meal('Beef Stir-fry', ['Beef strips', 'Broccoli', 'Soy sauce']),
+      restrictions({ dietType: 'pescatarian' })
+    );
+
+    expect(compliant).toBe(false);
+    expect(violations).toEqual([
+      { mealName: 'Beef Stir-fry', ingredient: 'Beef strips', reason: 'diet_type', rule: 'pescatarian', category: 'red_meat' },
+    ]);
+  });
+
+  it('catches dishes from the name when the ingredient list is incomplete', () => {
+    const { violations } = ComplianceService.checkMeal(meal('Shrimp Pad Thai', ['Rice noodles']), restrictions({ allergies: ['Shellfish'] }));
+
+    expect(violations).toMatchObject([{ ingredient: 'Shrimp Pad Thai', reason: 'allergy', category: 'shellfish' }]);
+  });
+
+  it('ignores look-alike ingredients', () => {
+    const vegan = restrictions({ dietType: 'vegan', allergies: ['Eggs'], intolerances: ['Lactose'] });
+
+    expect(ComplianceService.checkMeal(meal('Toast', ['Eggplant', 'Peanut butter', 'Oat milk']), vegan).compliant).toBe(true);
+  });
+
+  it('matches unknown labels literally, with simple plurals', () => {
+    const { violations } = ComplianceService.checkMeal(meal('Salad', ['Cherry tomatoes', 'Lettuce']), restrictions({ restrictions: ['No tomato'] }));
+
+    expect(violations).toMatchObject([{ ingredient: 'Cherry tomatoes', reason: 'restriction', rule: 'No tomato' }]);
+    expect(violations[0]).not.toHaveProperty('category');
+  });
+
+  it('reports each broken rule once per meal', () => {
+    const { violations } = ComplianceService.checkMeal(
+      meal('Cheese omelette', ['Eggs', 'Cheddar cheese', 'Butter']),
+      restrictions({ dietType: 'vegan' })
+    );
+
+    expect(violations).toHaveLength(1);
+    expect(ComplianceService.describeViolations(violations)).toBe('Eggs (vegan diet)');
+  });
+});
@@ -0,0 +1,168 @@
+import { UserProfile, Meal, Ingredient } from '../types';
+import {
+  IngredientCategory,
+  INGREDIENT_CATEGORIES,
+  DIET_TYPE_EXCLUSIONS,
+  RULE_EXCLUSIONS,
+} from '../data/ingredientTaxonomy';
+
+type DietaryRestrictions = UserProfile['dietaryRestrictions'];
+
+// Enough of a Meal to check it; also fits the fallback meal templates
+export type CheckableMeal = Pick<Meal, 'name' | 'description'> & {
+  ingredients: Pick<Ingredient, 'name'>[];
+};
+
+export type ComplianceReason = 'allergy' | 'intolerance' | 'diet_type' | 'restriction';
+
+export interface ComplianceViolation {
+  mealName: string;
+  ingredient: string; // the ingredient (or meal name) that broke the rule
+  reason: ComplianceReason;
+  rule: string; // the allergy, intolerance, restriction or diet type that was broken
+  category?: IngredientCategory;
+}
+
+export interface ComplianceResult {
+  compliant: boolean;
+  violations: ComplianceViolation[];
+}
+
+interface ComplianceRule {
+  reason: ComplianceReason;
+  rule: string;
+  categories: IngredientCategory[];
+  literal?: string; // set for labels the taxonomy doesn't know
+}
+
+const REASON_LABELS: Record<ComplianceReason, string> = {
+  allergy: 'allergy',
+  intolerance: 'intolerance',
+  diet_type: 'diet',
+  restriction: 'restriction',
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word match that also accepts simple plurals ("egg" matches "eggs", not "eggplant")
+const containsTerm = (text: string, term: string) =>
+  new RegExp(`\\b${escapeRegExp(term)}(?:e?s)?\\b`).test(text);
+
+export class ComplianceService {
+  /**
+   * Check a meal against the user's allergies, intolerances, diet type and restrictions
+   */
+  static checkMeal(meal: CheckableMeal, restrictions: DietaryRestrictions): ComplianceResult {
+    const rules = this.buildRules(restrictions);
+    const violations: ComplianceViolation[] = [];
+
+    // Ingredients are checked individually so the offending one can be named;
+    // the meal name and description catch dishes whose ingredient list is incomplete
+    const sources = [
+      ...meal.ingredients.map(ingredient => ingredient.name),
+      meal.name,
+      meal.description,
+    ].filter(Boolean);
+
+    for (const rule of rules) {
+      for (const source of sources) {
+        const category = this.findViolatedCategory(source, rule);
+        if (category !== null) {
+          violations.push({
+            mealName: meal.name,
+            ingredient: source,
+            reason: rule.reason,
+            rule: rule.rule,
+            ...(category ? { category } : {}),
+          });
+          break;
+        }
+      }
+    }
+
+    return { compliant: violations.length === 0, violations };
+  }
+
+  /**
+   * Check every meal of a day; returns only the meals that break a rule, keyed by slot
+   */
+  static checkDay(
+    meals: { breakfast: Meal; lunch: Meal; dinner: Meal; snacks: Meal[] },
+    restrictions: DietaryRestrictions
+  ): Record<string, ComplianceViolation[]> {
+    const slots: [string, Meal][] = [
+      ['breakfast', meals.breakfast],
+      ['lunch', meals.lunch],
+      ['dinner', meals.dinner],
+      ...meals.snacks.map((snack, index): [string, Meal] => [`snack_${index}`, snack]),
+    ];
+
+    const result: Record<string, ComplianceViolation[]> = {};
+    slots.forEach(([slot, meal]) => {
+      const { violations } = this.checkMeal(meal, restrictions);
+      if (violations.length > 0) {
+        result[slot] = violations;
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Human-readable summary, e.g. "Beef (vegetarian diet), Almond butter (Nuts allergy)"
+   */
+  static describeViolations(violations: ComplianceViolation[]): string {
+    return violations
+      .map(violation => `${violation.ingredient} (${violation.rule} ${REASON_LABELS[violation.reason]})`)
+      .join(', ');
+  }
+
+  private static buildRules(restrictions: DietaryRestrictions): ComplianceRule[] {
+    const rules: ComplianceRule[] = [];
+
+    const dietCategories = DIET_TYPE_EXCLUSIONS[restrictions.dietType] || [];
+    if (dietCategories.length > 0) {
+      rules.push({ reason: 'diet_type', rule: restrictions.dietType, categories: dietCategories });
+    }
+
+    const labelled: [ComplianceReason, string[]][] = [
+      ['allergy', restrictions.allergies || []],
+      ['intolerance', restrictions.intolerances || []],
+      ['restriction', restrictions.restrictions || []],
+    ];
+
+    labelled.forEach(([reason, labels]) => {
+      labels
+        .filter(label => label.trim().length > 0)
+        .forEach(label => {
+          const key = label.trim().toLowerCase();
+          const categories = RULE_EXCLUSIONS[key];
+          rules.push(categories
+            ? { reason, rule: label, categories }
+            : { reason, rule: label, categories: [], literal: key.replace(/^no\s+/, '') });
+        });
+    });
+
+    return rules;
+  }
+
+  // Returns the violated category, undefined for a literal match, or null if the text is fine
+  private static findViolatedCategory(text: string, rule: ComplianceRule): IngredientCategory | undefined | null {
+    const normalized = text.toLowerCase();
+
+    if (rule.literal) {
+      return containsTerm(normalized, rule.literal) ? undefined : null;
+    }
+
+    for (const category of rule.categories) {
+      const definition = INGREDIENT_CATEGORIES[category];
+      const remaining = (definition.exceptions || [])
+        .reduce((current, exception) => current.split(exception).join(' '), normalized);
+
+      if (definition.keywords.some(keyword => containsTerm(remaining, keyword))) {
+        return category;
+      }
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,107 @@
+import { DayMeal, Ingredient, Meal, UserProfile } from '../types';
+import { FOOD_PRICES, DEFAULT_PRICE_PER_100_KCAL } from '../data/foodPrices';
+import { FoodDatabaseService } from './foodDatabaseService';
+import { UnitService } from './unitService';
+
+type BudgetRange = UserProfile['preferences']['budgetRange'];
+
+export interface MealCost {
+  total: number; // USD
+  unpriced: string[]; // ingredients estimated from their calories instead of the price table
+}
+
+export interface DayCost {
+  total: number;
+  meals: Record<string, number>; // keyed by slot: 'breakfast', 'lunch', 'dinner', 'snack_<index>'
+}
+
+export interface PlanBudgetSummary {
+  dailyBudget: number;
+  averageDailyCost: number;
+  totalCost: number;
+  overBudgetDays: { day: number; date: string; cost: number }[];
+}
+
+// Upper bound of each budget band, per person per day
+const DAILY_BUDGET: Record<BudgetRange, number> = {
+  low: 10,
+  medium: 18,
+  high: 30,
+};
+
+const currencyFormatter = new Intl.NumberFormat('en-US', { style: 'currency', currency: 'USD' });
+
+const roundCents = (value: number) => Math.round(value * 100) / 100;
+
+export class CostService {
+  /**
+   * Estimated cost of one ingredient, or null if it can't be priced from the table
+   */
+  static estimateIngredientCost(ingredient: Pick<Ingredient, 'name' | 'amount' | 'unit' | 'foodId'>): number | null {
+    const food = (ingredient.foodId && FoodDatabaseService.getFood(ingredient.foodId)) || FoodDatabaseService.findFood(ingredient.name);
+    const price = food && FOOD_PRICES[food.id];
+    if (!food || price === undefined) return null;
+
+    const grams = UnitService.toGrams(ingredient.amount, ingredient.unit, food);
+    return grams === null ? null : (grams / 100) * price;
+  }
+
+  static estimateMealCost(meal: { ingredients: Pick<Ingredient, 'name' | 'amount' | 'unit' | 'foodId' | 'calories'>[] }): MealCost {
+    const unpriced: string[] = [];
+
+    const total = (meal.ingredients || []).reduce((sum, ingredient) => {
+      const cost = this.estimateIngredientCost(ingredient);
+      if (cost !== null) return sum + cost;
+
+      unpriced.push(ingredient.name);
+      return sum + ((ingredient.calories || 0) / 100) * DEFAULT_PRICE_PER_100_KCAL;
+    }, 0);
+
+    return { total: roundCents(total), unpriced };
+  }
+
+  static estimateDayCost(dayMeal: DayMeal): DayCost {
+    const slots: [string, Meal][] = [
+      ['breakfast', dayMeal.meals.breakfast],
+      ['lunch', dayMeal.meals.lunch],
+      ['dinner', dayMeal.meals.dinner],
+      ...dayMeal.meals.snacks.map((snack, index): [string, Meal] => [`snack_${index}`, snack]),
+    ];
+
+    const meals: Record<string, number> = {};
+    slots.forEach(([slot, meal]) => {
+      if (meal) meals[slot] = this.estimateMealCost(meal).total;
+    });
+
+    const total = Object.values(meals).reduce((sum, cost) => sum + cost, 0);
+    return { total: roundCents(total), meals };
+  }
+
+  static getDailyBudget(budgetRange: BudgetRange): number {
+    return DAILY_BUDGET[budgetRange] ?? DAILY_BUDGET.medium;
+  }
+
+  static isOverBudget(dayCost: number, budgetRange: BudgetRange): boolean {
+    return dayCost > this.getDailyBudget(budgetRange);
+  }
+
+  /**
+   * Average and total cost of a plan, plus the days that go over the budget band
+   */
+  static summarizePlan(days: DayMeal[], budgetRange: BudgetRange): PlanBudgetSummary {
+    const dailyBudget = this.getDailyBudget(budgetRange);
+    const costs = days.map(day => ({ day: day.day, date: day.date, cost: this.estimateDayCost(day).total }));
+    const totalCost = costs.reduce((sum, entry) => sum + entry.cost, 0);
+
+    return {
+      dailyBudget,
+      averageDailyCost: costs.length > 0 ? roundCents(totalCost / costs.length) : 0,
+      totalCost: roundCents(totalCost),
+      overBudgetDays: costs.filter(entry => entry.cost > dailyBudget),
+    };
+  }
+
+  static formatCost(amount: number): string {
+    return currencyFormatter.format(amount);
+  }
+}
@@ -0,0 +1,535 @@
+import { z } from 'zod';
+import { strToU8, zipSync } from 'fflate';
+import { supabase, Database } from '../lib/supabase';
+import { DietPlanService, storedDaySchema } from './dietPlanService';
+import { InboxService } from './inboxService';
+import { MealLogService } from './mealLogService';
+import { PreferencesService } from './preferencesService';
+import { ProfileService } from './profileService';
+import { WaterService } from './waterService';
+import { WeightService } from './weightService';
+
+type DietPlanInsert = Database['public']['Tables']['diet_plans']['Insert'];
+type MealLogInsert = Database['public']['Tables']['meal_logs']['Insert'];
+type WeightEntryInsert = Database['public']['Tables']['weight_entries']['Insert'];
+type WaterIntakeInsert = Database['public']['Tables']['water_intake_entries']['Insert'];
+type NotificationInsert = Database['public']['Tables']['notifications']['Insert'];
+
+export const EXPORT_FORMAT = 'nutriguide-export';
+
+// Bump when the bundle's shape changes, and teach `parseBundle` to read the older version
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export interface ImportSummary {
+  profile: boolean;
+  preferences: boolean;
+  dietPlans: number;
+  mealLogs: number;
+  weightEntries: number;
+  waterEntries: number;
+  notifications: number;
+}
+
+const bundleHeaderSchema = z.object({
+  format: z.literal(EXPORT_FORMAT),
+  schemaVersion: z.number().int().positive(),
+});
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+const nutritionSchema = z.object({
+  calories: z.number().nonnegative(),
+  protein: z.number().nonnegative(),
+  carbs: z.number().nonnegative(),
+  fat: z.number().nonnegative(),
+  fiber: z.number().nonnegative().default(0),
+  sugar: z.number().optional(),
+  sodium: z.number().optional(),
+  cholesterol: z.number().optional(),
+});
+
+const profileSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  email: z.string(),
+  phoneNumber: z.string().default(''),
+  personalDetails: z.object({
+    age: z.number(),
+    gender: z.enum(['male', 'female', 'other']),
+    weight: z.number(),
+    height: z.number(),
+    activityLevel: z.enum(['sedentary', 'light', 'moderate', 'active', 'very_active']),
+    bodyFatPercentage: z.number().optional(),
+  }),
+  healthGoals: z.object({
+    primary: z.enum(['weight_loss', 'muscle_gain', 'maintenance', 'general_health']),
+    targetWeight: z.number().optional(),
+    timeframe: z.string().optional(),
+  }),
+  dietaryRestrictions: z.object({
+    allergies: z.array(z.string()),
+    intolerances: z.array(z.string()).default([]),
+    dietType: z.enum(['omnivore', 'vegetarian', 'vegan', 'pescatarian', 'keto', 'paleo']),
+    restrictions: z.array(z.string()).default([]),
+  }),
+  preferences: z.object({
+    cuisines: z.array(z.string()),
+    mealTimings: z.object({
+      breakfast: z.string(),
+      lunch: z.string(),
+      dinner: z.string(),
+      snacks: z.array(z.string()).default(['10:00', '16:00']),
+    }),
+    budgetRange: z.enum(['low', 'medium', 'high']),
+    bmrFormula: z.enum(['mifflin_st_jeor', 'katch_mcardle', 'harris_benedict']).optional(),
+  }),
+  medicalConditions: z.array(z.string()).default([]),
+  sportActivities: z.array(z.string()).default([]),
+  planDuration: z.number().int().min(7).max(365).default(30),
+  planDurationType: z.enum(['days', 'weeks', 'months']).default('days'),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+// Days are checked with the same schema as stored plans, so an import can't save a
+// plan that DietPlanService would refuse to read
+const dietPlanSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  description: z.string().default(''),
+  duration: z.number().int().positive(),
+  dailyCalories: z.number().int().positive(),
+  macros: z.object({ protein: z.number().nonnegative(), carbs: z.number().nonnegative(), fat: z.number().nonnegative() }),
+  meals: z.array(storedDaySchema),
+  isActive: z.boolean(),
+  progress: z.object({ completedDays: z.number().int().nonnegative(), adherenceRate: z.number().min(0).max(100) }),
+  createdAt: z.string(),
+});
+
+const mealLogSchema = z.object({
+  date: dateSchema,
+  slot: z.string().regex(/^(breakfast|lunch|dinner|snack_\d+)$/),
+  planId: z.string().optional(),
+  plannedMealId: z.string().optional(),
+  plannedMealName: z.string().optional(),
+  plannedNutrition: nutritionSchema.optional(),
+  eatenMealName: z.string().min(1),
+  eatenNutrition: nutritionSchema,
+  portion: z.number().positive(),
+  notes: z.string().optional(),
+  loggedAt: z.string(),
+});
+
+const weightEntrySchema = z.object({
+  date: dateSchema,
+  weight: z.number().positive(),
+  bodyFatPercentage: z.number().optional(),
+  note: z.string().optional(),
+});
+
+const waterEntrySchema = z.object({
+  date: dateSchema,
+  amount: z.number().int().positive(),
+  time: z.string(),
+  type: z.enum(['water', 'tea', 'coffee', 'juice', 'other']),
+});
+
+const preferencesSchema = z.object({
+  notifications: z.object({
+    mealReminders: z.boolean(),
+    hydrationReminders: z.boolean(),
+    progressUpdates: z.boolean(),
+    achievements: z.boolean(),
+    systemNotifications: z.boolean(),
+    browserNotifications: z.boolean(),
+    smsEnabled: z.boolean(),
+    emailEnabled: z.boolean(),
+    reminderTime: z.number().int().min(0).max(120),
+    wakeTime: z.string(),
+    sleepTime: z.string(),
+    quietHours: z.object({ enabled: z.boolean(), start: z.string(), end: z.string() }),
+  }).partial(),
+  unitSystem: z.enum(['metric', 'imperial']),
+  language: z.string(),
+  theme: z.enum(['light', 'dark', 'system']),
+});
+
+const notificationSchema = z.object({
+  type: z.enum(['meal_reminder', 'progress_update', 'achievement', 'system']),
+  title: z.string(),
+  message: z.string(),
+  timestamp: z.string(),
+  read: z.boolean(),
+  actionRequired: z.boolean().optional(),
+  actionUrl: z.string().optional(),
+});
+
+const exportBundleSchema = bundleHeaderSchema.extend({
+  format: z.literal(EXPORT_FORMAT),
+  exportedAt: z.string(),
+  profile: profileSchema.nullable(),
+  dietPlans: z.array(dietPlanSchema),
+  mealLogs: z.array(mealLogSchema),
+  weightEntries: z.array(weightEntrySchema),
+  waterEntries: z.array(waterEntrySchema).default([]),
+  preferences: preferencesSchema.nullable(),
+  notifications: z.array(notificationSchema).default([]),
+});
+
+export type ExportBundle = z.infer<typeof exportBundleSchema>;
+
+// PostgREST returns at most 1000 rows per request
+const PAGE_SIZE = 1000;
+
+const selectAll = async <T>(table: string, userId: string, orderBy: string): Promise<T[]> => {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from(table)
+      .select('*')
+      .eq('user_id', userId)
+      .order(orderBy, { ascending: true })
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw new Error(`${table}: ${error.message}`);
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
+
+const csvField = (value: unknown): string => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: string[], rows: unknown[][]): string =>
+  [header, ...rows].map(row => row.map(csvField).join(',')).join('\n');
+
+// Nested objects as "field,value" rows with dotted paths, e.g. "personalDetails.weight"
+const flatten = (value: unknown, prefix = ''): [string, unknown][] => {
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    return Object.entries(value).flatMap(([key, child]) => flatten(child, prefix ? `${prefix}.${key}` : key));
+  }
+  return [[prefix, Array.isArray(value) ? value.join('; ') : value]];
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+export class DataExportService {
+  /**
+   * Everything stored for the signed-in user, as a versioned bundle
+   */
+  static async buildExport(): Promise<{ data: ExportBundle | null; error: any }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('No authenticated user found');
+      }
+
+      const [{ data: profileRow }, { data: planRows }, mealLogRows, weightRows, waterRows, notificationRows, { data: preferences }] =
+        await Promise.all([
+          ProfileService.getProfile(undefined, false),
+          DietPlanService.getUserDietPlans(),
+          selectAll<Database['public']['Tables']['meal_logs']['Row']>('meal_logs', user.id, 'log_date'),
+          selectAll<Database['public']['Tables']['weight_entries']['Row']>('weight_entries', user.id, 'entry_date'),
+          selectAll<Database['public']['Tables']['water_intake_entries']['Row']>('water_intake_entries', user.id, 'logged_at'),
+          selectAll<Database['public']['Tables']['notifications']['Row']>('notifications', user.id, 'created_at'),
+          PreferencesService.loadPreferences(),
+        ]);
+
+      return {
+        data: {
+          format: EXPORT_FORMAT,
+          schemaVersion: EXPORT_SCHEMA_VERSION,
+          exportedAt: new Date().toISOString(),
+          profile: profileRow ? ProfileService.profileRowToUserProfile(profileRow) : null,
+          dietPlans: (planRows || []).map(DietPlanService.dietPlanRowToDietPlan),
+          mealLogs: mealLogRows.map(row => MealLogService.mealLogRowToMealLog(row)),
+          weightEntries: weightRows.map(row => WeightService.weightEntryRowToWeightEntry(row)),
+          waterEntries: waterRows.map(row => WaterService.waterIntakeRowToWaterEntry(row)),
+          preferences: preferences || PreferencesService.getPreferences(),
+          notifications: notificationRows.map(row => InboxService.notificationRowToInboxNotification(row)),
+        },
+        error: null,
+      };
+    } catch (error: any) {
+      console.error('Data export error:', error);
+      return { data: null, error: { message: error.message } };
+    }
+  }
+
+  static downloadJson(bundle: ExportBundle): void {
+    const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `${this.getFileName(bundle)}.json`);
+  }
+
+  /**
+   * One CSV per kind of record, for spreadsheets. Only the JSON bundle can be imported.
+   */
+  static toCsvFiles(bundle: ExportBundle): Record<string, string> {
+    const plannedMeals = bundle.dietPlans.flatMap(plan =>
+      plan.meals.flatMap(day =>
+        MealLogService.getSlots(day).map(slot => {
+          const meal = MealLogService.getPlannedMeal(day, slot);
+          return [plan.id, day.day, day.date, slot, meal?.name, meal?.nutrition.calories, meal?.nutrition.protein, meal?.nutrition.carbs, meal?.nutrition.fat, meal?.nutrition.fiber];
+        })
+      )
+    );
+
+    return {
+      'profile.csv': toCsv(['field', 'value'], flatten(bundle.profile || {})),
+      'preferences.csv': toCsv(['field', 'value'], flatten(bundle.preferences || {})),
+      'diet_plans.csv': toCsv(
+        ['id', 'name', 'description', 'duration_days', 'daily_calories', 'protein_g', 'carbs_g', 'fat_g', 'active', 'completed_days', 'adherence_rate', 'created_at'],
+        bundle.dietPlans.map(plan => [
+          plan.id, plan.name, plan.description, plan.duration, plan.dailyCalories, plan.macros.protein, plan.macros.carbs, plan.macros.fat,
+          plan.isActive, plan.progress.completedDays, plan.progress.adherenceRate, plan.createdAt,
+        ])
+      ),
+      'planned_meals.csv': toCsv(
+        ['plan_id', 'day', 'date', 'slot', 'meal', 'calories', 'protein_g', 'carbs_g', 'fat_g', 'fiber_g'],
+        plannedMeals
+      ),
+      'meal_logs.csv': toCsv(
+        ['date', 'slot', 'plan_id', 'planned_meal', 'eaten_meal', 'portion', 'calories', 'protein_g', 'carbs_g', 'fat_g', 'notes', 'logged_at'],
+        bundle.mealLogs.map(log => [
+          log.date, log.slot, log.planId, log.plannedMealName, log.eatenMealName, log.portion,
+          Math.round(log.eatenNutrition.calories * log.portion), round(log.eatenNutrition.protein * log.portion),
+          round(log.eatenNutrition.carbs * log.portion), round(log.eatenNutrition.fat * log.portion), log.notes, log.loggedAt,
+        ])
+      ),
+      'weight_entries.csv': toCsv(
+        ['date', 'weight_kg', 'body_fat_pct', 'note'],
+        bundle.weightEntries.map(entry => [entry.date, entry.weight, entry.bodyFatPercentage, entry.note])
+      ),
+      'water_intake.csv': toCsv(
+        ['date', 'logged_at', 'type', 'amount_ml'],
+        bundle.waterEntries.map(entry => [entry.date, entry.time, entry.type, entry.amount])
+      ),
+      'notifications.csv': toCsv(
+        ['created_at', 'type', 'title', 'message', 'read'],
+        bundle.notifications.map(notification => [notification.timestamp, notification.type, notification.title, notification.message, notification.read])
+      ),
+    };
+  }
+
+  static downloadCsvZip(bundle: ExportBundle): void {
+    const files = this.toCsvFiles(bundle);
+    const manifest = {
+      format: bundle.format,
+      schemaVersion: bundle.schemaVersion,
+      exportedAt: bundle.exportedAt,
+      files: Object.keys(files),
+    };
+
+    const zipped = zipSync({
+      'manifest.json': strToU8(JSON.stringify(manifest, null, 2)),
+      ...Object.fromEntries(Object.entries(files).map(([name, csv]) => [name, strToU8(csv)])),
+    });
+    downloadBlob(new Blob([zipped], { type: 'application/zip' }), `${this.getFileName(bundle)}.zip`);
+  }
+
+  /**
+   * Validate an export file's contents. Rejects other formats and schema versions
+   * this version of the app can't read.
+   */
+  static parseBundle(json: unknown): { data: ExportBundle | null; error: any } {
+    const header = bundleHeaderSchema.safeParse(json);
+    if (!header.success) {
+      return { data: null, error: { message: 'This file is not a NutriGuide data export' } };
+    }
+    if (header.data.schemaVersion > EXPORT_SCHEMA_VERSION) {
+      return { data: null, error: { message: 'This export was made by a newer version of NutriGuide. Update the app and try again.' } };
+    }
+
+    const result = exportBundleSchema.safeParse(json);
+    if (!result.success) {
+      const issue = result.error.issues[0];
+      return { data: null, error: { message: `Invalid export file at ${issue.path.join('.') || 'root'}: ${issue.message}` } };
+    }
+
+    return { data: result.data, error: null };
+  }
+
+  /**
+   * Merge a bundle into the signed-in account. The profile and preferences are replaced
+   * by the imported ones (keeping the account's email). Plans, logs and entries are
+   * added alongside what's there; where both have a record for the same day and slot,
+   * the account's own record is kept. Importing the same file twice adds nothing new.
+   *
+   * Everything is validated before the first write, and the profile and preferences are
+   * written last: if a write fails midway the account keeps its own settings, and
+   * importing the file again picks up where it stopped.
+   */
+  static async importBundle(bundle: ExportBundle): Promise<{ data: ImportSummary | null; error: any }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('No authenticated user found');
+      }
+
+      const summary: ImportSummary = {
+        profile: false, preferences: false, dietPlans: 0, mealLogs: 0, weightEntries: 0, waterEntries: 0, notifications: 0,
+      };
+
+      const profile = bundle.profile && { ...bundle.profile, email: user.email || bundle.profile.email };
+      const profileError = profile && ProfileService.validateProfileData(profile);
+      if (profileError) throw new Error(`Profile: ${profileError.message}`);
+
+      // Plans already in the account (from an earlier import of the same file) are matched
+      // by name and creation time; meal logs follow their plan to its id in this account
+      const { data: existingPlans } = await DietPlanService.getUserDietPlans();
+      const planIds = new Map<string, string>();
+      const newPlans = bundle.dietPlans.filter(plan => {
+        const existing = (existingPlans || []).find(row => row.name === plan.name && new Date(row.created_at).getTime() === new Date(plan.createdAt).getTime());
+        if (existing) planIds.set(plan.id, existing.id);
+        return !existing;
+      });
+
+      const planInserts: DietPlanInsert[] = newPlans.map(plan => {
+        const { data: mealsData, error } = DietPlanService.toMealsData(plan.meals);
+        if (!mealsData) throw new Error(`Diet plan "${plan.name}": ${error.message}`);
+        return {
+          user_id: user.id,
+          name: plan.name,
+          description: plan.description,
+          duration: plan.duration,
+          daily_calories: plan.dailyCalories,
+          protein_g: plan.macros.protein,
+          carbs_g: plan.macros.carbs,
+          fat_g: plan.macros.fat,
+          meals_data: mealsData,
+          is_active: false,
+          completed_days: plan.progress.completedDays,
+          adherence_rate: plan.progress.adherenceRate,
+          created_at: plan.createdAt,
+        };
+      });
+
+      if (planInserts.length > 0) {
+        const { data: inserted, error } = await supabase.from('diet_plans').insert(planInserts).select('id');
+        if (error) throw new Error(`Diet plans: ${error.message}`);
+        (inserted || []).forEach((row, index) => planIds.set(newPlans[index].id, row.id));
+        summary.dietPlans = (inserted || []).length;
+
+        // An imported active plan becomes active only if the account has none of its own
+        const importedActive = newPlans.find(plan => plan.isActive);
+        if (importedActive && !(existingPlans || []).some(row => row.is_active)) {
+          await DietPlanService.setActiveDietPlan(planIds.get(importedActive.id)!);
+        }
+      }
+
+      if (bundle.mealLogs.length > 0) {
+        const logInserts: MealLogInsert[] = bundle.mealLogs.map(log => ({
+          user_id: user.id,
+          diet_plan_id: (log.planId && planIds.get(log.planId)) || null,
+          log_date: log.date,
+          slot: log.slot,
+          planned_meal_id: log.plannedMealId || null,
+          planned_meal_name: log.plannedMealName || null,
+          planned_nutrition: log.plannedNutrition || null,
+          eaten_meal_name: log.eatenMealName,
+          eaten_nutrition: log.eatenNutrition,
+          portion: log.portion,
+          notes: log.notes || null,
+          logged_at: log.loggedAt,
+        }));
+
+        const { data, error } = await supabase
+          .from('meal_logs')
+          .upsert(logInserts, { onConflict: 'user_id,log_date,slot', ignoreDuplicates: true })
+          .select('id');
+        if (error) throw new Error(`Meal logs: ${error.message}`);
+        summary.mealLogs = (data || []).length;
+      }
+
+      if (bundle.weightEntries.length > 0) {
+        const weightInserts: WeightEntryInsert[] = bundle.weightEntries.map(entry => ({
+          user_id: user.id,
+          entry_date: entry.date,
+          weight: entry.weight,
+          body_fat_percentage: entry.bodyFatPercentage ?? null,
+          note: entry.note || null,
+        }));
+
+        const { data, error } = await supabase
+          .from('weight_entries')
+          .upsert(weightInserts, { onConflict: 'user_id,entry_date', ignoreDuplicates: true })
+          .select('id');
+        if (error) throw new Error(`Weight entries: ${error.message}`);
+        summary.weightEntries = (data || []).length;
+      }
+
+      // Drinks and notifications have no natural key; skip ones logged at the same moment
+      if (bundle.waterEntries.length > 0) {
+        const existing = await selectAll<Database['public']['Tables']['water_intake_entries']['Row']>('water_intake_entries', user.id, 'logged_at');
+        const seen = new Set(existing.map(row => new Date(row.logged_at).getTime()));
+        const waterInserts: WaterIntakeInsert[] = bundle.waterEntries
+          .filter(entry => !seen.has(new Date(entry.time).getTime()))
+          .map(entry => ({ user_id: user.id, entry_date: entry.date, amount_ml: entry.amount, drink_type: entry.type, logged_at: entry.time }));
+
+        if (waterInserts.length > 0) {
+          const { error } = await supabase.from('water_intake_entries').insert(waterInserts);
+          if (error) throw new Error(`Water intake: ${error.message}`);
+        }
+        summary.waterEntries = waterInserts.length;
+      }
+
+      if (bundle.notifications.length > 0) {
+        const existing = await selectAll<Database['public']['Tables']['notifications']['Row']>('notifications', user.id, 'created_at');
+        const seen = new Set(existing.map(row => `${new Date(row.created_at).getTime()}|${row.title}`));
+        const notificationInserts: NotificationInsert[] = bundle.notifications
+          .filter(notification => !seen.has(`${new Date(notification.timestamp).getTime()}|${notification.title}`))
+          .map(notification => ({
+            user_id: user.id,
+            type: notification.type,
+            title: notification.title,
+            message: notification.message,
+            action_required: notification.actionRequired ?? false,
+            action_url: notification.actionUrl ?? null,
+            read_at: notification.read ? notification.timestamp : null,
+            created_at: notification.timestamp,
+          }));
+
+        if (notificationInserts.length > 0) {
+          const { error } = await supabase.from('notifications').insert(notificationInserts);
+          if (error) throw new Error(`Notifications: ${error.message}`);
+        }
+        summary.notifications = notificationInserts.length;
+      }
+
+      if (bundle.preferences) {
+        const { error } = await PreferencesService.savePreferences(bundle.preferences);
+        if (error) throw new Error(`Preferences: ${error.message}`);
+        summary.preferences = true;
+      }
+
+      if (profile) {
+        const { error } = await ProfileService.createProfile(profile);
+        if (error) throw new Error(`Profile: ${error.message}`);
+        summary.profile = true;
+      }
+
+      ProfileService.clearCache(user.id);
+      return { data: summary, error: null };
+    } catch (error: any) {
+      console.error('Data import error:', error);
+      return { data: null, error: { message: error.message } };
+    }
+  }
+
+  private static getFileName(bundle: ExportBundle): string {
+    return `nutriguide-data-${bundle.exportedAt.split('T')[0]}`;
+  }
+}
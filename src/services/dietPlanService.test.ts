@@ -0,0 +1,124 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DayMeal } from '../types';
+import { DietPlanService, MEALS_DATA_SCHEMA_VERSION } from './dietPlanService';
+
+const meal = (name: string, calories: number) => ({
+  id: name.toLowerCase(),
+  name,
+  description: '',
+  ingredients: [{ id: '1', name: 'Oats', amount: 50, unit: 'g', calories: 190 }],
+  instructions: ['Cook'],
+  nutrition: { calories, protein: 10, carbs: 40, fat: 5, fiber: 4 },
+  prepTime: 5,
+  cookTime: 10,
+  servings: 1,
+  completed: false,
+});
+
+const day = (dayNumber: number, date: string): DayMeal => ({
+  day: dayNumber,
+  date,
+  meals: {
+    breakfast: meal('Porridge', 400),
+    lunch: meal('Salad', 500),
+    dinner: meal('Curry', 700),
+    snacks: [meal('Apple', 100)],
+  },
+  totalCalories: 1700,
+  completed: false,
+});
+
+const PLAN_CREATED_AT = '2025-10-01T08:00:00Z';
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('DietPlanService.parseMealsData', () => {
+  it('reads a current document as is', () => {
+    const document = { schemaVersion: MEALS_DATA_SCHEMA_VERSION, days: [day(1, '2025-10-01'), day(2, '2025-10-02')] };
+
+    const parsed = DietPlanService.parseMealsData(document, PLAN_CREATED_AT);
+
+    expect(parsed).toMatchObject({ readable: true, upgraded: false, unreadableDays: [] });
+    expect(parsed.days).toEqual(document.days);
+  });
+
+  it('upgrades a legacy array with flattened meals and no dates', () => {
+    const { meals, ...rest } = day(2, '');
+    const legacyDay = { ...rest, date: undefined, ...meals };
+
+    const parsed = DietPlanService.parseMealsData([legacyDay], PLAN_CREATED_AT);
+
+    expect(parsed).toMatchObject({ readable: true, upgraded: true, unreadableDays: [] });
+    expect(parsed.days[0].date).toBe('2025-10-02');
+    expect(parsed.days[0].meals.snacks).toHaveLength(1);
+  });
+
+  it('repairs small problems in stored days', () => {
+    const original = day(1, '2025-10-01');
+    const stored = {
+      ...original,
+      date: '2025-10-01T00:00:00Z',
+      meals: {
+        breakfast: original.meals.breakfast,
+        lunch: { ...original.meals.lunch, id: undefined, nutrition: { ...original.meals.lunch.nutrition, calories: '550' } },
+        dinner: original.meals.dinner,
+      },
+    };
+
+    const [parsed] = DietPlanService.parseMealsData({ schemaVersion: 2, days: [stored] }, PLAN_CREATED_AT).days;
+
+    expect(parsed.date).toBe('2025-10-01');
+    expect(parsed.meals.lunch.id).toBe('1-lunch');
+    expect(parsed.meals.snacks).toEqual([]);
+    expect(parsed.totalCalories).toBe(400 + 550 + 700);
+  });
+
+  it('keeps malformed days aside instead of dropping them', () => {
+    const broken = { day: 2, date: '2025-10-02', meals: { breakfast: { name: '' } } };
+    const document = { schemaVersion: 2, days: [day(1, '2025-10-01'), broken, day(3, '2025-10-03')] };
+
+    const parsed = DietPlanService.parseMealsData(document, PLAN_CREATED_AT);
+
+    expect(parsed.days.map(d => d.day)).toEqual([1, 3]);
+    expect(parsed.unreadableDays).toEqual([broken]);
+  });
+
+  it('marks a document it cannot read as unreadable', () => {
+    expect(DietPlanService.parseMealsData({ days: 'nope' }, PLAN_CREATED_AT)).toMatchObject({ days: [], readable: false });
+    expect(DietPlanService.parseMealsData({ schemaVersion: 0, days: [] }, PLAN_CREATED_AT)).toMatchObject({ readable: false });
+  });
+});
+
+describe('DietPlanService.toMealsData', () => {
+  it('builds a current document that reads back the same', () => {
+    const days = [day(1, '2025-10-01')];
+
+    const { data, error } = DietPlanService.toMealsData(days);
+
+    expect(error).toBeNull();
+    expect(data).toEqual({ schemaVersion: MEALS_DATA_SCHEMA_VERSION, days });
+    expect(DietPlanService.parseMealsData(data, PLAN_CREATED_AT).days).toEqual(days);
+  });
+
+  it('carries unreadable days through a save', () => {
+    const broken = { day: 2, meals: null };
+
+    const { data } = DietPlanService.toMealsData([day(1, '2025-10-01')], [broken]);
+    const parsed = DietPlanService.parseMealsData(data, PLAN_CREATED_AT);
+
+    expect(parsed.days).toHaveLength(1);
+    expect(parsed.unreadableDays).toEqual([broken]);
+  });
+
+  it('fails instead of saving a plan with an invalid day', () => {
+    const invalid = { ...day(2, '2025-10-02'), date: 'tomorrow' };
+
+    const { data, error } = DietPlanService.toMealsData([day(1, '2025-10-01'), invalid]);
+
+    expect(data).toBeNull();
+    expect(error.message).toMatch(/^Day 2 of the plan is invalid \(date: /);
+  });
+});
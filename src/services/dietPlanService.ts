@@ -1,10 +1,124 @@
+import { z } from 'zod';
 import { supabase, Database } from '../lib/supabase';
-import { DietPlan } from '../types';
+import { DayMeal, DietPlan, Meal, MealsDataDocument } from '../types';
 import toast from 'react-hot-toast';
 
 type DietPlanRow = Database['public']['Tables']['diet_plans']['Row'];
-type DietPlanInsert = Database['public']['Tables']['diet_plans']['Insert'];
 type DietPlanUpdate = Database['public']['Tables']['diet_plans']['Update'];
+type CreateActiveDietPlanArgs = Database['public']['Functions']['create_active_diet_plan']['Args'];
+
+// Version of the `meals_data` document. Bump it when the stored shape changes and
+// add a step to `mealsDataUpgrades` that turns the previous version into the new one.
+export const MEALS_DATA_SCHEMA_VERSION = 2;
+
+// Schemas for the stored plan document. Like the AI response schemas they repair
+// small problems (missing optional fields, numbers as strings) in place; anything
+// structurally wrong fails validation instead of being guessed at.
+const optionalNumber = z.coerce.number().nonnegative().optional().catch(undefined);
+
+const storedIngredientSchema = z.object({
+  id: z.union([z.string(), z.number()]).transform(String).catch(''),
+  name: z.string().trim().min(1),
+  amount: z.coerce.number().nonnegative().catch(0),
+  unit: z.string().catch(''),
+  calories: z.coerce.number().nonnegative().catch(0),
+  foodId: z.string().optional().catch(undefined),
+  optional: z.boolean().optional().catch(undefined),
+});
+
+const storedNutritionSchema = z.object({
+  calories: z.coerce.number().nonnegative().catch(0),
+  protein: z.coerce.number().nonnegative().catch(0),
+  carbs: z.coerce.number().nonnegative().catch(0),
+  fat: z.coerce.number().nonnegative().catch(0),
+  fiber: z.coerce.number().nonnegative().catch(0),
+  sugar: optionalNumber,
+  sodium: optionalNumber,
+  cholesterol: optionalNumber,
+  vitamins: z.record(z.string(), z.number()).optional().catch(undefined),
+  minerals: z.record(z.string(), z.number()).optional().catch(undefined),
+});
+
+const storedMealSchema = z.object({
+  id: z.union([z.string().min(1), z.number()]).transform(String).optional().catch(undefined),
+  name: z.string().trim().min(1),
+  description: z.string().catch(''),
+  ingredients: z.array(storedIngredientSchema).default([])
+    .transform(ingredients => ingredients.map((ingredient, index) => ({ ...ingredient, id: ingredient.id || `${index + 1}` }))),
+  instructions: z.array(z.coerce.string()).catch([]),
+  nutrition: storedNutritionSchema.catch({ calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0 }),
+  prepTime: z.coerce.number().int().nonnegative().catch(0),
+  cookTime: z.coerce.number().int().nonnegative().catch(0),
+  servings: z.coerce.number().positive().catch(1),
+  completed: z.boolean().catch(false),
+  rating: z.number().min(1).max(5).optional().catch(undefined),
+  notes: z.string().optional().catch(undefined),
+  modifications: z.array(z.string()).optional().catch(undefined),
+});
+
+/**
+ * One day of a stored plan. Meals without an id get one from their day and slot,
+ * and the day's calorie total is recomputed from its meals.
+ */
+export const storedDaySchema = z.object({
+  day: z.coerce.number().int().positive(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}/).transform(date => date.slice(0, 10)),
+  meals: z.object({
+    breakfast: storedMealSchema,
+    lunch: storedMealSchema,
+    dinner: storedMealSchema,
+    snacks: z.array(storedMealSchema).default([]),
+  }),
+  completed: z.boolean().catch(false),
+  notes: z.string().optional().catch(undefined),
+}).transform((day): DayMeal => {
+  const withId = (meal: z.infer<typeof storedMealSchema>, slot: string): Meal => ({ ...meal, id: meal.id ?? `${day.day}-${slot}` });
+  const breakfast = withId(day.meals.breakfast, 'breakfast');
+  const lunch = withId(day.meals.lunch, 'lunch');
+  const dinner = withId(day.meals.dinner, 'dinner');
+  const snacks = day.meals.snacks.map((snack, index) => withId(snack, `snack${index}`));
+
+  return {
+    day: day.day,
+    date: day.date,
+    meals: { breakfast, lunch, dinner, snacks },
+    totalCalories: Math.round([breakfast, lunch, dinner, ...snacks].reduce((sum, meal) => sum + meal.nutrition.calories, 0)),
+    completed: day.completed,
+    notes: day.notes,
+  };
+});
+
+const mealsDataDocumentSchema = z.object({
+  schemaVersion: z.number().int().positive(),
+  days: z.array(z.unknown()),
+  unreadableDays: z.array(z.unknown()).default([]),
+});
+
+type StoredMealsData = z.infer<typeof mealsDataDocumentSchema>;
+
+// Each step upgrades a document of that version to the next one
+const mealsDataUpgrades: Record<number, (document: StoredMealsData) => StoredMealsData> = {
+  // v1 stored the bare array of days; early plans had the meals flattened onto the day
+  1: document => ({
+    ...document,
+    schemaVersion: 2,
+    days: document.days.map(day => {
+      if (!day || typeof day !== 'object' || 'meals' in day) return day;
+      const { breakfast, lunch, dinner, snacks, ...rest } = day as Record<string, unknown>;
+      return { ...rest, meals: { breakfast, lunch, dinner, snacks } };
+    }),
+  }),
+};
+
+export interface ParsedMealsData {
+  days: DayMeal[];
+  // Stored days that failed validation, kept verbatim so saving the plan doesn't erase them
+  unreadableDays: unknown[];
+  // False when the document as a whole couldn't be read; it must not be overwritten
+  readable: boolean;
+  // Upgraded from an older version, so worth writing back
+  upgraded: boolean;
+}
 
 export class DietPlanService {
   static async createDietPlan(dietPlan: DietPlan): Promise<{ data: DietPlanRow | null; error: any }> {
@@ -15,34 +129,29 @@ export class DietPlanService {
         throw new Error('No authenticated user found');
       }
 
-      // First, set all existing plans to inactive
-      await supabase
-        .from('diet_plans')
-        .update({ is_active: false })
-        .eq('user_id', user.id);
-
-      const dietPlanInsert: DietPlanInsert = {
-        user_id: user.id,
-        name: dietPlan.name,
-        description: dietPlan.description,
-        duration: dietPlan.duration,
-        daily_calories: dietPlan.dailyCalories,
-        protein_g: dietPlan.macros.protein,
-        carbs_g: dietPlan.macros.carbs,
-        fat_g: dietPlan.macros.fat,
-        meals_data: dietPlan.meals,
-        is_active: true,
-        completed_days: dietPlan.progress.completedDays,
-        adherence_rate: dietPlan.progress.adherenceRate,
-        created_at: new Date().toISOString(),
-        updated_at: new Date().toISOString(),
+      const { data: mealsData, error: mealsError } = this.toMealsData(dietPlan.meals);
+      if (!mealsData) {
+        toast.error(mealsError.message);
+        return { data: null, error: mealsError };
+      }
+
+      // Deactivates the current plan and saves this one as active in one transaction
+      const args: CreateActiveDietPlanArgs = {
+        plan_name: dietPlan.name,
+        plan_description: dietPlan.description,
+        plan_duration: dietPlan.duration,
+        plan_daily_calories: dietPlan.dailyCalories,
+        plan_protein_g: dietPlan.macros.protein,
+        plan_carbs_g: dietPlan.macros.carbs,
+        plan_fat_g: dietPlan.macros.fat,
+        plan_meals_data: mealsData,
+        plan_completed_days: dietPlan.progress.completedDays,
+        plan_adherence_rate: dietPlan.progress.adherenceRate,
       };
 
       const { data, error } = await supabase
-        .from('diet_plans')
-        .insert(dietPlanInsert)
-        .select()
-        .single();
+        .rpc('create_active_diet_plan', args)
+        .single<DietPlanRow>();
 
       if (error) {
         console.error('Diet plan creation error:', error);
@@ -78,6 +187,7 @@ export class DietPlanService {
         return { data: null, error };
       }
 
+      (data || []).forEach(row => this.repairMealsData(row));
       return { data: data || [], error: null };
     } catch (error: any) {
       console.error('Diet plan service error:', error);
@@ -105,6 +215,7 @@ export class DietPlanService {
         return { data: null, error };
       }
 
+      if (data) this.repairMealsData(data);
       return { data: data || null, error: null };
     } catch (error: any) {
       console.error('Diet plan service error:', error);
@@ -129,7 +240,37 @@ export class DietPlanService {
       if (updates.isActive !== undefined) dietPlanUpdate.is_active = updates.isActive;
       if (updates.progress?.completedDays !== undefined) dietPlanUpdate.completed_days = updates.progress.completedDays;
       if (updates.progress?.adherenceRate !== undefined) dietPlanUpdate.adherence_rate = updates.progress.adherenceRate;
-      if (updates.meals) dietPlanUpdate.meals_data = updates.meals;
+
+      if (updates.meals) {
+        // Days that couldn't be read when the plan was loaded aren't in `updates.meals`;
+        // carry them over from what's stored so saving doesn't erase them
+        const { data: stored, error: storedError } = await supabase
+          .from('diet_plans')
+          .select('meals_data, created_at')
+          .eq('id', planId)
+          .eq('user_id', user.id)
+          .single();
+
+        if (storedError) {
+          console.error('Diet plan fetch error:', storedError);
+          toast.error('Failed to update diet plan');
+          return { data: null, error: storedError };
+        }
+
+        const { readable, unreadableDays } = this.parseMealsData(stored.meals_data, stored.created_at);
+        if (!readable) {
+          const error = { message: "This plan's saved meals can't be read, so it can't be edited" };
+          toast.error(error.message);
+          return { data: null, error };
+        }
+
+        const { data: mealsData, error: mealsError } = this.toMealsData(updates.meals, unreadableDays);
+        if (!mealsData) {
+          toast.error(mealsError.message);
+          return { data: null, error: mealsError };
+        }
+        dietPlanUpdate.meals_data = mealsData;
+      }
 
       const { data, error } = await supabase
         .from('diet_plans')
@@ -161,20 +302,11 @@ export class DietPlanService {
         throw new Error('No authenticated user found');
       }
 
-      // First, set all plans to inactive
-      await supabase
-        .from('diet_plans')
-        .update({ is_active: false })
-        .eq('user_id', user.id);
-
-      // Then set the selected plan to active
+      // Switches the active plan in one transaction; the partial unique index on
+      // diet_plans rejects a concurrent activation instead of leaving two active plans
       const { data, error } = await supabase
-        .from('diet_plans')
-        .update({ is_active: true, updated_at: new Date().toISOString() })
-        .eq('id', planId)
-        .eq('user_id', user.id)
-        .select()
-        .single();
+        .rpc('activate_diet_plan', { plan_id: planId })
+        .single<DietPlanRow>();
 
       if (error) {
         console.error('Set active diet plan error:', error);
@@ -233,7 +365,7 @@ export class DietPlanService {
         carbs: dietPlanRow.carbs_g,
         fat: dietPlanRow.fat_g,
       },
-      meals: dietPlanRow.meals_data,
+      meals: DietPlanService.parseMealsData(dietPlanRow.meals_data, dietPlanRow.created_at).days,
       createdAt: dietPlanRow.created_at,
       updatedAt: dietPlanRow.updated_at,
       isActive: dietPlanRow.is_active,
@@ -244,4 +376,108 @@ export class DietPlanService {
       },
     };
   }
+
+  /**
+   * Validate a stored `meals_data` document, upgrading older versions and repairing
+   * what can be repaired. Days that can't be read are set aside in `unreadableDays`
+   * rather than breaking every page that renders the plan.
+   */
+  static parseMealsData(raw: unknown, planCreatedAt: string): ParsedMealsData {
+    // v1 documents are the bare array of days
+    const header = mealsDataDocumentSchema.safeParse(Array.isArray(raw) ? { schemaVersion: 1, days: raw } : raw);
+    if (!header.success) {
+      console.error('Unreadable meals_data document; treating the plan as empty');
+      return { days: [], unreadableDays: [], readable: false, upgraded: false };
+    }
+
+    let document = header.data;
+    let upgraded = false;
+    while (document.schemaVersion < MEALS_DATA_SCHEMA_VERSION) {
+      const upgrade = mealsDataUpgrades[document.schemaVersion];
+      if (!upgrade) {
+        console.error(`No upgrade from meals_data version ${document.schemaVersion}`);
+        return { days: [], unreadableDays: [], readable: false, upgraded: false };
+      }
+      document = upgrade(document);
+      upgraded = true;
+    }
+
+    const startDate = planCreatedAt.split('T')[0];
+    const days: DayMeal[] = [];
+    const unreadableDays = [...document.unreadableDays];
+
+    document.days.forEach((rawDay, index) => {
+      const result = storedDaySchema.safeParse(this.withFallbackDate(rawDay, index, startDate));
+      if (result.success) {
+        days.push(result.data);
+        return;
+      }
+
+      const issue = result.error.issues[0];
+      console.warn(`Day ${index + 1} of the stored meal plan is unreadable (${issue.path.join('.')}: ${issue.message}); keeping it as is`);
+      unreadableDays.push(rawDay);
+    });
+
+    return { days, unreadableDays, readable: true, upgraded };
+  }
+
+  /**
+   * The document to store in `meals_data` for a plan's days. Fails rather than
+   * saving a plan with days missing; `unreadableDays` from `parseMealsData` are
+   * stored alongside so they survive the save.
+   */
+  static toMealsData(days: DayMeal[], unreadableDays: unknown[] = []): { data: MealsDataDocument | null; error: any } {
+    const validDays: DayMeal[] = [];
+
+    for (const [index, day] of days.entries()) {
+      const result = storedDaySchema.safeParse(day);
+      if (!result.success) {
+        const issue = result.error.issues[0];
+        const message = `Day ${day?.day ?? index + 1} of the plan is invalid (${issue.path.join('.')}: ${issue.message})`;
+        console.error('Meal plan validation error:', message);
+        return { data: null, error: { message } };
+      }
+      validDays.push(result.data);
+    }
+
+    return {
+      data: {
+        schemaVersion: MEALS_DATA_SCHEMA_VERSION,
+        days: validDays,
+        ...(unreadableDays.length > 0 ? { unreadableDays } : {}),
+      },
+      error: null,
+    };
+  }
+
+  // Early plans didn't store dates; their days run on from the plan's creation date
+  private static withFallbackDate(rawDay: unknown, index: number, startDate: string): unknown {
+    if (!rawDay || typeof rawDay !== 'object' || typeof (rawDay as { date?: unknown }).date === 'string') return rawDay;
+    const dayNumber = Number((rawDay as { day?: unknown }).day) || index + 1;
+    return { ...rawDay, date: this.addDays(startDate, dayNumber - 1) };
+  }
+
+  // Write an upgraded document back so the upgrade runs once per plan, not on every read
+  private static repairMealsData(row: DietPlanRow): void {
+    const { days, unreadableDays, upgraded } = this.parseMealsData(row.meals_data, row.created_at);
+    if (!upgraded) return;
+
+    const { data: mealsData } = this.toMealsData(days, unreadableDays);
+    if (!mealsData) return;
+    row.meals_data = mealsData;
+
+    supabase
+      .from('diet_plans')
+      .update({ meals_data: mealsData })
+      .eq('id', row.id)
+      .then(({ error }) => {
+        if (error) console.error('Meal plan repair error:', error);
+      });
+  }
+
+  private static addDays(date: string, days: number): string {
+    const result = new Date(date);
+    result.setUTCDate(result.getUTCDate() + days);
+    return result.toISOString().split('T')[0];
+  }
 }
\ No newline at end of file
@@ -0,0 +1,192 @@
+import { Ingredient, MealNutrition, Vitamins, Minerals } from '../types';
+import { FOOD_DATABASE, FoodItem } from '../data/foodDatabase';
+import { UnitService } from './unitService';
+
+// An ingredient as written in a recipe; id and calories are filled in when missing
+export type RecipeIngredient = Pick<Ingredient, 'name' | 'amount' | 'unit'> & Partial<Ingredient>;
+
+export interface IngredientNutritionResult {
+  ingredients: Ingredient[]; // with foodId and calories filled in from the database
+  nutrition: MealNutrition;
+  unmatched: string[]; // ingredient names that couldn't be resolved to a food and amount
+}
+
+const normalizeName = (name: string) =>
+  name.toLowerCase().replace(/\(.*?\)/g, '').replace(/[^a-z\s-]/g, '').replace(/\s+/g, ' ').trim();
+
+const round = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+export class FoodDatabaseService {
+  private static index: Map<string, FoodItem> | null = null;
+
+  /**
+   * Find a food by name or alias, e.g. "Basmati rice" or "Grilled chicken breast"
+   */
+  static findFood(name: string): FoodItem | undefined {
+    const index = this.getIndex();
+    const normalized = normalizeName(name);
+
+    const exact = index.get(normalized) || index.get(normalized.replace(/e?s$/, ''));
+    if (exact) return exact;
+
+    // Fall back to the longest known name contained in the ingredient,
+    // so "grilled chicken breast" resolves to "chicken breast" rather than "chicken"
+    let best: { key: string; food: FoodItem } | undefined;
+    index.forEach((food, key) => {
+      if (new RegExp(`\\b${key}\\b`).test(normalized) && (!best || key.length > best.key.length)) {
+        best = { key, food };
+      }
+    });
+    return best?.food;
+  }
+
+  /**
+   * Foods whose name or alias matches a search, names starting with the query first
+   */
+  static searchFoods(query: string, limit: number = 8): FoodItem[] {
+    const normalized = normalizeName(query);
+    if (!normalized) return [];
+
+    const rank = (food: FoodItem) => {
+      const names = [food.name, ...food.aliases].map(normalizeName);
+      if (names.some(name => name.startsWith(normalized))) return 0;
+      if (names.some(name => name.includes(normalized))) return 1;
+      return -1;
+    };
+
+    return FOOD_DATABASE
+      .map(food => ({ food, rank: rank(food) }))
+      .filter(match => match.rank >= 0)
+      .sort((a, b) => a.rank - b.rank || a.food.name.localeCompare(b.food.name))
+      .slice(0, limit)
+      .map(match => match.food);
+  }
+
+  static getFood(id: string): FoodItem | undefined {
+    return FOOD_DATABASE.find(food => food.id === id);
+  }
+
+  /**
+   * Nutrition for a single ingredient, or null if it isn't in the database
+   */
+  static calculateIngredientNutrition(ingredient: RecipeIngredient): MealNutrition | null {
+    const food = (ingredient.foodId && this.getFood(ingredient.foodId)) || this.findFood(ingredient.name);
+    if (!food) return null;
+
+    const grams = UnitService.toGrams(ingredient.amount, ingredient.unit, food);
+    if (grams === null) return null;
+
+    return this.scaleNutrition(food.per100g, grams / 100, false);
+  }
+
+  /**
+   * Total nutrition of a recipe from its ingredients. Unresolved ingredients
+   * contribute only the calories they were listed with.
+   */
+  static calculateMealNutrition(ingredients: RecipeIngredient[]): IngredientNutritionResult {
+    let nutrition = this.emptyNutrition();
+    const unmatched: string[] = [];
+
+    const resolved = ingredients.map((ingredient, index): Ingredient => {
+      const food = (ingredient.foodId && this.getFood(ingredient.foodId)) || this.findFood(ingredient.name);
+      const ingredientNutrition = food ? this.calculateIngredientNutrition({ ...ingredient, foodId: food.id }) : null;
+      const base = { ...ingredient, id: ingredient.id || `${index + 1}` };
+
+      if (!food || !ingredientNutrition) {
+        unmatched.push(ingredient.name);
+        nutrition = this.addNutrition(nutrition, { ...this.emptyNutrition(), calories: ingredient.calories || 0 });
+        return { ...base, calories: Math.round(ingredient.calories || 0) };
+      }
+
+      nutrition = this.addNutrition(nutrition, ingredientNutrition);
+      return { ...base, foodId: food.id, calories: Math.round(ingredientNutrition.calories) };
+    });
+
+    return { ingredients: resolved, nutrition: this.roundNutrition(nutrition), unmatched };
+  }
+
+  /**
+   * Multiply every nutrient by `factor`, e.g. after scaling a portion
+   */
+  static scaleNutrition(nutrition: MealNutrition, factor: number, rounded: boolean = true): MealNutrition {
+    const scale = (value: number | undefined) => (value === undefined ? undefined : value * factor);
+    const scaleGroup = <T extends object>(group: T | undefined): T | undefined =>
+      group && (Object.fromEntries(Object.entries(group).map(([key, value]) => [key, scale(value as number)])) as T);
+
+    const scaled: MealNutrition = {
+      calories: nutrition.calories * factor,
+      protein: nutrition.protein * factor,
+      carbs: nutrition.carbs * factor,
+      fat: nutrition.fat * factor,
+      fiber: nutrition.fiber * factor,
+      sugar: scale(nutrition.sugar),
+      sodium: scale(nutrition.sodium),
+      cholesterol: scale(nutrition.cholesterol),
+      vitamins: scaleGroup<Vitamins>(nutrition.vitamins),
+      minerals: scaleGroup<Minerals>(nutrition.minerals),
+    };
+
+    return rounded ? this.roundNutrition(scaled) : scaled;
+  }
+
+  private static addNutrition(a: MealNutrition, b: MealNutrition): MealNutrition {
+    const addGroup = <T extends object>(x: T | undefined, y: T | undefined): T => {
+      const result: Record<string, number> = { ...(x as Record<string, number>) };
+      Object.entries(y || {}).forEach(([key, value]) => {
+        result[key] = (result[key] || 0) + (value as number || 0);
+      });
+      return result as T;
+    };
+
+    return {
+      calories: a.calories + b.calories,
+      protein: a.protein + b.protein,
+      carbs: a.carbs + b.carbs,
+      fat: a.fat + b.fat,
+      fiber: a.fiber + b.fiber,
+      sugar: (a.sugar || 0) + (b.sugar || 0),
+      sodium: (a.sodium || 0) + (b.sodium || 0),
+      cholesterol: (a.cholesterol || 0) + (b.cholesterol || 0),
+      vitamins: addGroup<Vitamins>(a.vitamins, b.vitamins),
+      minerals: addGroup<Minerals>(a.minerals, b.minerals),
+    };
+  }
+
+  // Whole numbers for energy and macros, finer precision for micronutrients
+  private static roundNutrition(nutrition: MealNutrition): MealNutrition {
+    const roundGroup = <T extends object>(group: T | undefined): T | undefined =>
+      group && (Object.fromEntries(
+        Object.entries(group).map(([key, value]) => [key, value === undefined ? undefined : round(value as number, 2)])
+      ) as T);
+
+    return {
+      calories: Math.round(nutrition.calories),
+      protein: Math.round(nutrition.protein),
+      carbs: Math.round(nutrition.carbs),
+      fat: Math.round(nutrition.fat),
+      fiber: Math.round(nutrition.fiber),
+      sugar: nutrition.sugar === undefined ? undefined : round(nutrition.sugar, 1),
+      sodium: nutrition.sodium === undefined ? undefined : Math.round(nutrition.sodium),
+      cholesterol: nutrition.cholesterol === undefined ? undefined : Math.round(nutrition.cholesterol),
+      vitamins: roundGroup<Vitamins>(nutrition.vitamins),
+      minerals: roundGroup<Minerals>(nutrition.minerals),
+    };
+  }
+
+  private static emptyNutrition(): MealNutrition {
+    return { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0, sugar: 0, sodium: 0, cholesterol: 0, vitamins: {}, minerals: {} };
+  }
+
+  private static getIndex(): Map<string, FoodItem> {
+    if (!this.index) {
+      this.index = new Map();
+      FOOD_DATABASE.forEach(food => {
+        [food.name, ...food.aliases].forEach(name => this.index!.set(normalizeName(name), food));
+      });
+    }
+    return this.index;
+  }
+}
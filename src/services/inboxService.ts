@@ -0,0 +1,250 @@
+import { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { supabase, Database } from '../lib/supabase';
+import { InboxNotification, InboxNotificationType } from '../types';
+import toast from 'react-hot-toast';
+
+type NotificationRow = Database['public']['Tables']['notifications']['Row'];
+type NotificationInsert = Database['public']['Tables']['notifications']['Insert'];
+
+export interface NewInboxNotification {
+  type: InboxNotificationType;
+  title: string;
+  message: string;
+  actionRequired?: boolean;
+  actionUrl?: string;
+  dedupeKey?: string; // at most one notification per key, e.g. `achievement:7-day-streak`
+}
+
+export interface InboxChange {
+  event: 'INSERT' | 'UPDATE' | 'DELETE';
+  id: string;
+  notification?: InboxNotification; // absent for deletes
+}
+
+const INBOX_LIMIT = 100;
+
+// Each subscriber gets its own channel so the Header and Notifications page can listen at once
+let channelCount = 0;
+
+export class InboxService {
+  /**
+   * Newest notifications first, optionally only one type
+   */
+  static async getNotifications(type?: InboxNotificationType): Promise<{ data: InboxNotification[] | null; error: any }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('No authenticated user found');
+      }
+
+      let query = supabase
+        .from('notifications')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(INBOX_LIMIT);
+
+      if (type) {
+        query = query.eq('type', type);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Notifications fetch error:', error);
+        return { data: null, error };
+      }
+
+      return { data: (data || []).map(row => this.notificationRowToInboxNotification(row)), error: null };
+    } catch (error: any) {
+      console.error('Inbox service error:', error);
+      return { data: null, error: { message: error.message } };
+    }
+  }
+
+  static async getUnreadCount(): Promise<{ data: number; error: any }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('No authenticated user found');
+      }
+
+      const { count, error } = await supabase
+        .from('notifications')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', user.id)
+        .is('read_at', null);
+
+      if (error) {
+        console.error('Unread count error:', error);
+        return { data: 0, error };
+      }
+
+      return { data: count || 0, error: null };
+    } catch (error: any) {
+      console.error('Inbox service error:', error);
+      return { data: 0, error: { message: error.message } };
+    }
+  }
+
+  /**
+   * Add a notification to the user's inbox. Returns null data when a notification
+   * with the same dedupe key already exists.
+   */
+  static async createNotification(notification: NewInboxNotification): Promise<{ data: InboxNotification | null; error: any }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('No authenticated user found');
+      }
+
+      const notificationInsert: NotificationInsert = {
+        user_id: user.id,
+        type: notification.type,
+        title: notification.title,
+        message: notification.message,
+        action_required: notification.actionRequired ?? false,
+        action_url: notification.actionUrl ?? null,
+        dedupe_key: notification.dedupeKey ?? null,
+      };
+
+      const { data, error } = notification.dedupeKey
+        ? await supabase
+          .from('notifications')
+          .upsert(notificationInsert, { onConflict: 'user_id,dedupe_key', ignoreDuplicates: true })
+          .select()
+          .maybeSingle()
+        : await supabase
+          .from('notifications')
+          .insert(notificationInsert)
+          .select()
+          .single();
+
+      if (error) {
+        console.error('Notification save error:', error);
+        return { data: null, error };
+      }
+
+      return { data: data ? this.notificationRowToInboxNotification(data) : null, error: null };
+    } catch (error: any) {
+      console.error('Inbox service error:', error);
+      return { data: null, error: { message: error.message } };
+    }
+  }
+
+  /**
+   * Mark the given notifications as read, or every unread one when no ids are given
+   */
+  static async markAsRead(ids?: string[]): Promise<{ error: any }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('No authenticated user found');
+      }
+
+      let query = supabase
+        .from('notifications')
+        .update({ read_at: new Date().toISOString() })
+        .eq('user_id', user.id)
+        .is('read_at', null);
+
+      if (ids) {
+        query = query.in('id', ids);
+      }
+
+      const { error } = await query;
+
+      if (error) {
+        console.error('Mark notifications read error:', error);
+        toast.error('Failed to update notifications');
+        return { error };
+      }
+
+      return { error: null };
+    } catch (error: any) {
+      console.error('Inbox service error:', error);
+      toast.error('An unexpected error occurred');
+      return { error: { message: error.message } };
+    }
+  }
+
+  /**
+   * Delete the given notifications, or the whole inbox when no ids are given
+   */
+  static async deleteNotifications(ids?: string[]): Promise<{ error: any }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('No authenticated user found');
+      }
+
+      let query = supabase
+        .from('notifications')
+        .delete()
+        .eq('user_id', user.id);
+
+      if (ids) {
+        query = query.in('id', ids);
+      }
+
+      const { error } = await query;
+
+      if (error) {
+        console.error('Delete notifications error:', error);
+        toast.error('Failed to delete notifications');
+        return { error };
+      }
+
+      return { error: null };
+    } catch (error: any) {
+      console.error('Inbox service error:', error);
+      toast.error('An unexpected error occurred');
+      return { error: { message: error.message } };
+    }
+  }
+
+  /**
+   * Listen for inbox changes made anywhere (the reminder scheduler, other tabs).
+   * Returns a function that stops listening.
+   */
+  static subscribe(userId: string, onChange: (change: InboxChange) => void): () => void {
+    const channel = supabase
+      .channel(`notifications:${userId}:${++channelCount}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        (payload: RealtimePostgresChangesPayload<NotificationRow>) => {
+          if (payload.eventType === 'DELETE') {
+            // Deletes only carry the primary key under RLS
+            if (payload.old.id) onChange({ event: 'DELETE', id: payload.old.id });
+          } else {
+            const notification = this.notificationRowToInboxNotification(payload.new);
+            onChange({ event: payload.eventType, id: notification.id, notification });
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+
+  static notificationRowToInboxNotification(row: NotificationRow): InboxNotification {
+    return {
+      id: row.id,
+      type: row.type,
+      title: row.title,
+      message: row.message,
+      timestamp: row.created_at,
+      read: row.read_at !== null,
+      actionRequired: row.action_required,
+      actionUrl: row.action_url ?? undefined,
+    };
+  }
+}
@@ -0,0 +1,280 @@
+import { UserProfile, NutritionTargets } from '../types';
+import { FIXTURE_MEALS, FIXTURE_EXPLANATION, FixtureMeal } from '../data/llmFixtures';
+
+export type LLMProviderName = 'gemini' | 'openai' | 'fixture';
+
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner' | 'snack';
+
+export interface MealPlanRequest {
+  prompt: string;
+  profile: UserProfile;
+  targets: NutritionTargets;
+  startDay: number; // 1-based plan day of the first requested day
+  days: number;
+}
+
+export interface MealRequest {
+  prompt: string;
+  profile: UserProfile;
+  mealType: MealSlot;
+  targetCalories: number;
+  excludeNames: string[];
+}
+
+export interface ExplanationRequest {
+  prompt: string;
+  profile: UserProfile;
+}
+
+// Every provider returns the raw model text; AIService owns parsing and
+// validation so that all providers go through the same checks.
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  isConfigured(): boolean;
+  generateMealPlan(request: MealPlanRequest): Promise<string>;
+  regenerateMeal(request: MealRequest): Promise<string>;
+  explainRecommendation(request: ExplanationRequest): Promise<string>;
+}
+
+interface CompletionOptions {
+  json: boolean;
+  temperature: number;
+  maxOutputTokens: number;
+}
+
+const PLAN_OPTIONS: CompletionOptions = { json: true, temperature: 0.7, maxOutputTokens: 8192 };
+const MEAL_OPTIONS: CompletionOptions = { json: true, temperature: 0.9, maxOutputTokens: 2048 };
+const EXPLANATION_OPTIONS: CompletionOptions = { json: false, temperature: 0.4, maxOutputTokens: 1024 };
+
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public provider: LLMProviderName,
+    public statusCode?: number
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+}
+
+abstract class RemoteLLMProvider implements LLMProvider {
+  abstract readonly name: LLMProviderName;
+  abstract isConfigured(): boolean;
+  protected abstract complete(prompt: string, options: CompletionOptions): Promise<string>;
+
+  generateMealPlan(request: MealPlanRequest): Promise<string> {
+    return this.complete(request.prompt, PLAN_OPTIONS);
+  }
+
+  regenerateMeal(request: MealRequest): Promise<string> {
+    return this.complete(request.prompt, MEAL_OPTIONS);
+  }
+
+  explainRecommendation(request: ExplanationRequest): Promise<string> {
+    return this.complete(request.prompt, EXPLANATION_OPTIONS);
+  }
+}
+
+export class GeminiProvider extends RemoteLLMProvider {
+  readonly name = 'gemini' as const;
+  private static readonly API_URL = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent';
+
+  constructor(private apiKey: string | undefined = import.meta.env.VITE_GEMINI_API_KEY) {
+    super();
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey && this.apiKey !== 'your_gemini_api_key';
+  }
+
+  protected async complete(prompt: string, options: CompletionOptions): Promise<string> {
+    const response = await fetch(`${GeminiProvider.API_URL}?key=${this.apiKey}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        contents: [{
+          parts: [{
+            text: prompt
+          }]
+        }],
+        generationConfig: {
+          temperature: options.temperature,
+          topK: 40,
+          topP: 0.95,
+          maxOutputTokens: options.maxOutputTokens,
+          ...(options.json ? { responseMimeType: 'application/json' } : {}),
+        }
+      })
+    });
+
+    if (!response.ok) {
+      throw new LLMProviderError(`API request failed: ${response.status}`, this.name, response.status);
+    }
+
+    const data = await response.json();
+    const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (typeof text !== 'string') {
+      throw new LLMProviderError('API response contained no text', this.name);
+    }
+    return text;
+  }
+}
+
+// Works with a local server exposing the OpenAI /chat/completions API (Ollama,
+// LM Studio, llama.cpp, vLLM), so a local model can stand in for Gemini. It sends
+// no API key: VITE_ variables end up in the browser bundle, so hosted APIs that
+// need one aren't supported.
+export class OpenAICompatibleProvider extends RemoteLLMProvider {
+  readonly name = 'openai' as const;
+
+  constructor(
+    private baseUrl: string = import.meta.env.VITE_OPENAI_BASE_URL || 'http://localhost:11434/v1',
+    private model: string | undefined = import.meta.env.VITE_OPENAI_MODEL
+  ) {
+    super();
+  }
+
+  isConfigured(): boolean {
+    return !!this.baseUrl && !!this.model;
+  }
+
+  protected async complete(prompt: string, options: CompletionOptions): Promise<string> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: options.temperature,
+        max_tokens: options.maxOutputTokens,
+        ...(options.json ? { response_format: { type: 'json_object' } } : {}),
+      })
+    });
+
+    if (!response.ok) {
+      throw new LLMProviderError(`API request failed: ${response.status}`, this.name, response.status);
+    }
+
+    const data = await response.json();
+    const text = data.choices?.[0]?.message?.content;
+    if (typeof text !== 'string') {
+      throw new LLMProviderError('API response contained no text', this.name);
+    }
+    return text;
+  }
+}
+
+// Deterministic offline provider: answers from bundled fixtures in the same JSON
+// shape the remote models are asked for, so the full parsing path still runs.
+export class FixtureProvider implements LLMProvider {
+  readonly name = 'fixture' as const;
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  async generateMealPlan(request: MealPlanRequest): Promise<string> {
+    const { profile, targets, startDay, days } = request;
+    const planDays = Array.from({ length: days }, (_, index) => {
+      const day = startDay + index;
+      return {
+        day,
+        meals: {
+          breakfast: this.pickMeal('breakfast', profile, day, targets.dailyCalories * 0.25),
+          lunch: this.pickMeal('lunch', profile, day, targets.dailyCalories * 0.35),
+          dinner: this.pickMeal('dinner', profile, day, targets.dailyCalories * 0.30),
+          snacks: [this.pickMeal('snack', profile, day, targets.dailyCalories * 0.10)],
+        },
+      };
+    });
+
+    return JSON.stringify({ days: planDays });
+  }
+
+  async regenerateMeal(request: MealRequest): Promise<string> {
+    const candidates = this.candidatesFor(request.mealType, request.profile)
+      .filter(meal => !request.excludeNames.includes(meal.name));
+    const pool = candidates.length > 0 ? candidates : this.candidatesFor(request.mealType, request.profile);
+
+    return JSON.stringify(this.scaleMeal(pool[0], request.targetCalories));
+  }
+
+  async explainRecommendation(): Promise<string> {
+    return FIXTURE_EXPLANATION;
+  }
+
+  private candidatesFor(mealType: MealSlot, profile: UserProfile): FixtureMeal[] {
+    const meals = FIXTURE_MEALS[mealType];
+    const compatible = meals.filter(meal => meal.diets.includes(profile.dietaryRestrictions.dietType));
+    return compatible.length > 0 ? compatible : meals;
+  }
+
+  private pickMeal(mealType: MealSlot, profile: UserProfile, day: number, targetCalories: number) {
+    const candidates = this.candidatesFor(mealType, profile);
+    return this.scaleMeal(candidates[(day - 1) % candidates.length], targetCalories);
+  }
+
+  private scaleMeal(meal: FixtureMeal, targetCalories: number) {
+    const factor = targetCalories / meal.nutrition.calories;
+    const scale = (value: number) => Math.round(value * factor * 10) / 10;
+
+    return {
+      name: meal.name,
+      description: meal.description,
+      ingredients: meal.ingredients.map(ingredient => ({
+        ...ingredient,
+        amount: scale(ingredient.amount),
+        calories: Math.round(ingredient.calories * factor),
+      })),
+      instructions: meal.instructions,
+      nutrition: {
+        calories: Math.round(targetCalories),
+        protein: scale(meal.nutrition.protein),
+        carbs: scale(meal.nutrition.carbs),
+        fat: scale(meal.nutrition.fat),
+        fiber: scale(meal.nutrition.fiber),
+      },
+      prepTime: meal.prepTime,
+      cookTime: meal.cookTime,
+    };
+  }
+}
+
+let activeProvider: LLMProvider | null = null;
+
+/**
+ * Get the provider selected by VITE_AI_PROVIDER (defaults to Gemini)
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!activeProvider) {
+    activeProvider = createLLMProvider(import.meta.env.VITE_AI_PROVIDER);
+  }
+  return activeProvider;
+}
+
+/**
+ * Override the active provider, e.g. to force the fixture provider in tests
+ */
+export function setLLMProvider(provider: LLMProvider | null): void {
+  activeProvider = provider;
+}
+
+export function createLLMProvider(name: string | undefined): LLMProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAICompatibleProvider();
+    case 'fixture':
+      return new FixtureProvider();
+    case 'gemini':
+    case undefined:
+    case '':
+      return new GeminiProvider();
+    default:
+      console.warn(`Unknown AI provider "${name}", using Gemini`);
+      return new GeminiProvider();
+  }
+}
@@ -0,0 +1,233 @@
+import { supabase, Database } from '../lib/supabase';
+import { DayMeal, DietPlan, Meal, MealLog, MealNutrition, MealSlot } from '../types';
+import { AdherenceService } from './adherenceService';
+import { DietPlanService } from './dietPlanService';
+import toast from 'react-hot-toast';
+
+type MealLogRow = Database['public']['Tables']['meal_logs']['Row'];
+type MealLogInsert = Database['public']['Tables']['meal_logs']['Insert'];
+
+export interface LogMealInput {
+  date: string;
+  slot: MealSlot;
+  planId?: string;
+  plannedMeal?: Meal;
+  eaten?: { name: string; nutrition: MealNutrition }; // defaults to the planned meal
+  portion?: number;
+  notes?: string;
+}
+
+export class MealLogService {
+  /**
+   * Record what was eaten for a slot on a date. Logging the same slot again replaces the earlier log.
+   */
+  static async logMeal(input: LogMealInput): Promise<{ data: MealLog | null; error: any }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('No authenticated user found');
+      }
+
+      const eaten = input.eaten || (input.plannedMeal && { name: input.plannedMeal.name, nutrition: input.plannedMeal.nutrition });
+      if (!eaten) {
+        throw new Error('Nothing to log for this meal');
+      }
+
+      const mealLogInsert: MealLogInsert = {
+        user_id: user.id,
+        diet_plan_id: input.planId || null,
+        log_date: input.date,
+        slot: input.slot,
+        planned_meal_id: input.plannedMeal?.id || null,
+        planned_meal_name: input.plannedMeal?.name || null,
+        planned_nutrition: input.plannedMeal?.nutrition || null,
+        eaten_meal_name: eaten.name,
+        eaten_nutrition: eaten.nutrition,
+        portion: input.portion ?? 1,
+        notes: input.notes || null,
+        logged_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      };
+
+      const { data, error } = await supabase
+        .from('meal_logs')
+        .upsert(mealLogInsert, { onConflict: 'user_id,log_date,slot' })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Meal log save error:', error);
+        toast.error('Failed to log meal');
+        return { data: null, error };
+      }
+
+      return { data: this.mealLogRowToMealLog(data), error: null };
+    } catch (error: any) {
+      console.error('Meal log service error:', error);
+      toast.error('An unexpected error occurred');
+      return { data: null, error: { message: error.message } };
+    }
+  }
+
+  static async unlogMeal(date: string, slot: MealSlot): Promise<{ error: any }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('No authenticated user found');
+      }
+
+      const { error } = await supabase
+        .from('meal_logs')
+        .delete()
+        .eq('user_id', user.id)
+        .eq('log_date', date)
+        .eq('slot', slot);
+
+      if (error) {
+        console.error('Delete meal log error:', error);
+        toast.error('Failed to undo meal log');
+        return { error };
+      }
+
+      return { error: null };
+    } catch (error: any) {
+      console.error('Meal log service error:', error);
+      toast.error('An unexpected error occurred');
+      return { error: { message: error.message } };
+    }
+  }
+
+  /**
+   * Logs between two dates, inclusive, in date order
+   */
+  static async getMealLogs(startDate: string, endDate: string): Promise<{ data: MealLog[] | null; error: any }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('No authenticated user found');
+      }
+
+      const { data, error } = await supabase
+        .from('meal_logs')
+        .select('*')
+        .eq('user_id', user.id)
+        .gte('log_date', startDate)
+        .lte('log_date', endDate)
+        .order('log_date', { ascending: true });
+
+      if (error) {
+        console.error('Meal logs fetch error:', error);
+        return { data: null, error };
+      }
+
+      return { data: (data || []).map(row => this.mealLogRowToMealLog(row)), error: null };
+    } catch (error: any) {
+      console.error('Meal log service error:', error);
+      return { data: null, error: { message: error.message } };
+    }
+  }
+
+  /**
+   * Logs covering every day of a plan
+   */
+  static async getPlanMealLogs(plan: DietPlan): Promise<{ data: MealLog[] | null; error: any }> {
+    const dates = plan.meals.map(day => day.date).sort();
+    if (dates.length === 0) return { data: [], error: null };
+    return this.getMealLogs(dates[0], dates[dates.length - 1]);
+  }
+
+  /**
+   * The planned slots of a day, in eating order
+   */
+  static getSlots(dayMeal: DayMeal): MealSlot[] {
+    return [
+      'breakfast',
+      'lunch',
+      'dinner',
+      ...dayMeal.meals.snacks.map((_, index): MealSlot => `snack_${index}`),
+    ];
+  }
+
+  /**
+   * Display name of a slot: "Breakfast", "Snack 2"
+   */
+  static getSlotLabel(slot: MealSlot): string {
+    if (slot.startsWith('snack_')) return `Snack ${Number(slot.slice('snack_'.length)) + 1}`;
+    return slot.charAt(0).toUpperCase() + slot.slice(1);
+  }
+
+  static getPlannedMeal(dayMeal: DayMeal, slot: MealSlot): Meal | undefined {
+    if (slot.startsWith('snack_')) {
+      return dayMeal.meals.snacks[Number(slot.slice('snack_'.length))];
+    }
+    return dayMeal.meals[slot as 'breakfast' | 'lunch' | 'dinner'];
+  }
+
+  /**
+   * Copy of the day with the meal in one slot replaced
+   */
+  static setPlannedMeal(dayMeal: DayMeal, slot: MealSlot, meal: Meal): DayMeal {
+    if (slot.startsWith('snack_')) {
+      const snackIndex = Number(slot.slice('snack_'.length));
+      return {
+        ...dayMeal,
+        meals: { ...dayMeal.meals, snacks: dayMeal.meals.snacks.map((snack, index) => (index === snackIndex ? meal : snack)) },
+      };
+    }
+    return { ...dayMeal, meals: { ...dayMeal.meals, [slot]: meal } };
+  }
+
+  static getLog(logs: MealLog[], date: string, slot: MealSlot): MealLog | undefined {
+    return logs.find(log => log.date === date && log.slot === slot);
+  }
+
+  static getDayLogs(logs: MealLog[], date: string): MealLog[] {
+    return logs.filter(log => log.date === date);
+  }
+
+  /**
+   * Whether something other than the planned meal was eaten
+   */
+  static isSubstitute(log: MealLog): boolean {
+    return !!log.plannedMealName && log.eatenMealName !== log.plannedMealName;
+  }
+
+  /**
+   * Whether every planned slot of a day has been logged
+   */
+  static isDayComplete(dayMeal: DayMeal, logs: MealLog[]): boolean {
+    return this.getSlots(dayMeal).every(slot => this.getLog(logs, dayMeal.date, slot));
+  }
+
+  /**
+   * Recompute a plan's progress from all of its logs and save it on the plan
+   */
+  static async syncPlanProgress(plan: DietPlan): Promise<{ data: DietPlan['progress'] | null; error: any }> {
+    const { data: logs, error } = await this.getPlanMealLogs(plan);
+    if (error || !logs) return { data: null, error };
+
+    const progress = { ...plan.progress, ...AdherenceService.summarizePlanProgress(plan, logs) };
+    const { error: updateError } = await DietPlanService.updateDietPlan(plan.id, { progress });
+    return updateError ? { data: null, error: updateError } : { data: progress, error: null };
+  }
+
+  static mealLogRowToMealLog(row: MealLogRow): MealLog {
+    return {
+      id: row.id,
+      date: row.log_date,
+      slot: row.slot as MealSlot,
+      planId: row.diet_plan_id || undefined,
+      plannedMealId: row.planned_meal_id || undefined,
+      plannedMealName: row.planned_meal_name || undefined,
+      plannedNutrition: row.planned_nutrition || undefined,
+      eatenMealName: row.eaten_meal_name,
+      eatenNutrition: row.eaten_nutrition,
+      portion: Number(row.portion),
+      notes: row.notes || undefined,
+      loggedAt: row.logged_at,
+    };
+  }
+}
@@ -0,0 +1,141 @@
+import { UserProfile, NutritionTargets, BmrFormula } from '../types';
+
+type PersonalDetails = UserProfile['personalDetails'];
+type PrimaryGoal = UserProfile['healthGoals']['primary'];
+type DietType = UserProfile['dietaryRestrictions']['dietType'];
+
+export interface NutritionTargetBreakdown extends NutritionTargets {
+  fiber: number; // grams
+  bmr: number;
+  tdee: number;
+  formula: BmrFormula;
+  goalAdjustment: number; // kcal added to (or taken from) TDEE for the goal
+}
+
+export interface GoalStrategy {
+  label: string;
+  calorieAdjustment: (tdee: number) => number;
+  proteinPerKg: number; // grams per kg of body weight
+}
+
+export const BMR_FORMULA_LABELS: Record<BmrFormula, string> = {
+  mifflin_st_jeor: 'Mifflin-St Jeor',
+  katch_mcardle: 'Katch-McArdle',
+  harris_benedict: 'Harris-Benedict (revised)',
+};
+
+const ACTIVITY_MULTIPLIERS: Record<PersonalDetails['activityLevel'], number> = {
+  sedentary: 1.2,
+  light: 1.375,
+  moderate: 1.55,
+  active: 1.725,
+  very_active: 1.9,
+};
+
+export const GOAL_STRATEGIES: Record<PrimaryGoal, GoalStrategy> = {
+  // About 0.5 kg a week, but never more than 20% below maintenance
+  weight_loss: { label: 'Moderate deficit', calorieAdjustment: tdee => -Math.min(500, tdee * 0.2), proteinPerKg: 2.0 },
+  // Lean bulk to limit fat gain
+  muscle_gain: { label: 'Lean surplus', calorieAdjustment: () => 300, proteinPerKg: 1.8 },
+  maintenance: { label: 'Maintenance', calorieAdjustment: () => 0, proteinPerKg: 1.6 },
+  general_health: { label: 'Maintenance', calorieAdjustment: () => 0, proteinPerKg: 1.4 },
+};
+
+// Share of calories from fat for each diet type; keto also pins carbs
+const DIET_MACRO_RULES: Record<DietType, { fatShare: number; carbShare?: number }> = {
+  omnivore: { fatShare: 0.30 },
+  vegetarian: { fatShare: 0.28 },
+  vegan: { fatShare: 0.25 },
+  pescatarian: { fatShare: 0.30 },
+  paleo: { fatShare: 0.35 },
+  keto: { fatShare: 0.70, carbShare: 0.05 },
+};
+
+// Calorie floors below which a plan isn't offered without medical supervision
+const MIN_DAILY_CALORIES: Record<PersonalDetails['gender'], number> = {
+  male: 1500,
+  female: 1200,
+  other: 1200,
+};
+
+// Protein never takes more than this share of calories, even for heavy users
+const MAX_PROTEIN_SHARE = 0.35;
+
+// Adequate intake: 14 g of fiber per 1000 kcal
+const FIBER_PER_1000_KCAL = 14;
+
+export class NutritionTargetService {
+  /**
+   * The daily calorie and macro targets for a profile. This is the single source of
+   * targets for plan generation, tracking, reports and exports.
+   */
+  static calculateTargets(profile: UserProfile): NutritionTargetBreakdown {
+    const details = profile.personalDetails;
+    const formula = this.resolveFormula(profile);
+    const bmr = this.calculateBmr(details, formula);
+    const tdee = bmr * (ACTIVITY_MULTIPLIERS[details.activityLevel] || ACTIVITY_MULTIPLIERS.moderate);
+
+    const strategy = GOAL_STRATEGIES[profile.healthGoals.primary] || GOAL_STRATEGIES.maintenance;
+    const dailyCalories = Math.round(Math.max(MIN_DAILY_CALORIES[details.gender] ?? 1200, tdee + strategy.calorieAdjustment(tdee)));
+
+    const protein = Math.min(strategy.proteinPerKg * details.weight, (dailyCalories * MAX_PROTEIN_SHARE) / 4);
+    const rule = DIET_MACRO_RULES[profile.dietaryRestrictions.dietType] || DIET_MACRO_RULES.omnivore;
+
+    let carbs: number;
+    let fat: number;
+    if (rule.carbShare !== undefined) {
+      carbs = (dailyCalories * rule.carbShare) / 4;
+      fat = Math.max(0, dailyCalories - protein * 4 - carbs * 4) / 9;
+    } else {
+      fat = (dailyCalories * rule.fatShare) / 9;
+      carbs = Math.max(0, dailyCalories - protein * 4 - fat * 9) / 4;
+    }
+
+    return {
+      dailyCalories,
+      protein: Math.round(protein),
+      carbs: Math.round(carbs),
+      fat: Math.round(fat),
+      fiber: Math.round((dailyCalories / 1000) * FIBER_PER_1000_KCAL),
+      bmr: Math.round(bmr),
+      tdee: Math.round(tdee),
+      formula,
+      goalAdjustment: Math.round(dailyCalories - tdee),
+    };
+  }
+
+  /**
+   * Basal metabolic rate in kcal/day
+   */
+  static calculateBmr(details: PersonalDetails, formula: BmrFormula): number {
+    const { weight, height, age, gender } = details;
+
+    switch (formula) {
+      case 'katch_mcardle': {
+        const leanMass = weight * (1 - (details.bodyFatPercentage ?? 0) / 100);
+        return 370 + 21.6 * leanMass;
+      }
+      case 'harris_benedict': {
+        // Roza and Shizgal (1984) revision; 'other' uses the average of both equations
+        const male = 88.362 + 13.397 * weight + 4.799 * height - 5.677 * age;
+        const female = 447.593 + 9.247 * weight + 3.098 * height - 4.330 * age;
+        return gender === 'male' ? male : gender === 'female' ? female : (male + female) / 2;
+      }
+      case 'mifflin_st_jeor':
+      default: {
+        const genderOffset = gender === 'male' ? 5 : gender === 'female' ? -161 : -78;
+        return 10 * weight + 6.25 * height - 5 * age + genderOffset;
+      }
+    }
+  }
+
+  // Katch-McArdle needs body fat; without it the profile falls back to Mifflin-St Jeor
+  private static resolveFormula(profile: UserProfile): BmrFormula {
+    const hasBodyFat = profile.personalDetails.bodyFatPercentage !== undefined && profile.personalDetails.bodyFatPercentage > 0;
+    const requested = profile.preferences.bmrFormula;
+
+    if (requested === 'katch_mcardle' && !hasBodyFat) return 'mifflin_st_jeor';
+    if (requested) return requested;
+    return hasBodyFat ? 'katch_mcardle' : 'mifflin_st_jeor';
+  }
+}
@@ -1,4 +1,6 @@
-import { DayMeal, Meal, UserProfile, NutritionGoal } from '../types';
+import { DayMeal, Meal, MealLog, MealNutrition, UserProfile, NutritionGoal, Vitamins, Minerals } from '../types';
+import { FoodDatabaseService } from './foodDatabaseService';
+import { NutritionTargetService } from './nutritionTargetService';
 
 export interface NutritionData {
   calories: number;
@@ -9,30 +11,8 @@ export interface NutritionData {
   sugar?: number;
   sodium?: number;
   cholesterol?: number;
-  vitamins?: {
-    vitaminA?: number;
-    vitaminC?: number;
-    vitaminD?: number;
-    vitaminE?: number;
-    vitaminK?: number;
-    thiamin?: number;
-    riboflavin?: number;
-    niacin?: number;
-    vitaminB6?: number;
-    folate?: number;
-    vitaminB12?: number;
-  };
-  minerals?: {
-    calcium?: number;
-    iron?: number;
-    magnesium?: number;
-    phosphorus?: number;
-    potassium?: number;
-    zinc?: number;
-    copper?: number;
-    manganese?: number;
-    selenium?: number;
-  };
+  vitamins?: Vitamins;
+  minerals?: Minerals;
 }
 
 export interface NutritionProgress {
@@ -66,38 +46,52 @@ export interface WaterIntake {
 export class NutritionTrackingService {
   // Calculate nutrition for a single meal
   static calculateMealNutrition(meal: Meal): NutritionData {
+    // Meals saved before ingredient-level nutrition only carry macros;
+    // derive the remaining nutrients from their ingredients
+    const derived = !meal.nutrition.vitamins && meal.ingredients?.length
+      ? FoodDatabaseService.calculateMealNutrition(meal.ingredients).nutrition
+      : undefined;
+    const nutrition = derived
+      ? { ...derived, ...meal.nutrition, sugar: derived.sugar, sodium: derived.sodium, cholesterol: derived.cholesterol }
+      : meal.nutrition;
+
+    return this.toNutritionData(nutrition);
+  }
+
+  // Fill in every nutrient so totals can be added up
+  private static toNutritionData(nutrition: MealNutrition): NutritionData {
     return {
-      calories: meal.nutrition.calories || 0,
-      protein: meal.nutrition.protein || 0,
-      carbs: meal.nutrition.carbs || 0,
-      fat: meal.nutrition.fat || 0,
-      fiber: meal.nutrition.fiber || 0,
-      sugar: meal.nutrition.sugar || 0,
-      sodium: meal.nutrition.sodium || 0,
-      cholesterol: meal.nutrition.cholesterol || 0,
+      calories: nutrition.calories || 0,
+      protein: nutrition.protein || 0,
+      carbs: nutrition.carbs || 0,
+      fat: nutrition.fat || 0,
+      fiber: nutrition.fiber || 0,
+      sugar: nutrition.sugar || 0,
+      sodium: nutrition.sodium || 0,
+      cholesterol: nutrition.cholesterol || 0,
       vitamins: {
-        vitaminA: meal.nutrition.vitamins?.vitaminA || 0,
-        vitaminC: meal.nutrition.vitamins?.vitaminC || 0,
-        vitaminD: meal.nutrition.vitamins?.vitaminD || 0,
-        vitaminE: meal.nutrition.vitamins?.vitaminE || 0,
-        vitaminK: meal.nutrition.vitamins?.vitaminK || 0,
-        thiamin: meal.nutrition.vitamins?.thiamin || 0,
-        riboflavin: meal.nutrition.vitamins?.riboflavin || 0,
-        niacin: meal.nutrition.vitamins?.niacin || 0,
-        vitaminB6: meal.nutrition.vitamins?.vitaminB6 || 0,
-        folate: meal.nutrition.vitamins?.folate || 0,
-        vitaminB12: meal.nutrition.vitamins?.vitaminB12 || 0,
+        vitaminA: nutrition.vitamins?.vitaminA || 0,
+        vitaminC: nutrition.vitamins?.vitaminC || 0,
+        vitaminD: nutrition.vitamins?.vitaminD || 0,
+        vitaminE: nutrition.vitamins?.vitaminE || 0,
+        vitaminK: nutrition.vitamins?.vitaminK || 0,
+        thiamin: nutrition.vitamins?.thiamin || 0,
+        riboflavin: nutrition.vitamins?.riboflavin || 0,
+        niacin: nutrition.vitamins?.niacin || 0,
+        vitaminB6: nutrition.vitamins?.vitaminB6 || 0,
+        folate: nutrition.vitamins?.folate || 0,
+        vitaminB12: nutrition.vitamins?.vitaminB12 || 0,
       },
       minerals: {
-        calcium: meal.nutrition.minerals?.calcium || 0,
-        iron: meal.nutrition.minerals?.iron || 0,
-        magnesium: meal.nutrition.minerals?.magnesium || 0,
-        phosphorus: meal.nutrition.minerals?.phosphorus || 0,
-        potassium: meal.nutrition.minerals?.potassium || 0,
-        zinc: meal.nutrition.minerals?.zinc || 0,
-        copper: meal.nutrition.minerals?.copper || 0,
-        manganese: meal.nutrition.minerals?.manganese || 0,
-        selenium: meal.nutrition.minerals?.selenium || 0,
+        calcium: nutrition.minerals?.calcium || 0,
+        iron: nutrition.minerals?.iron || 0,
+        magnesium: nutrition.minerals?.magnesium || 0,
+        phosphorus: nutrition.minerals?.phosphorus || 0,
+        potassium: nutrition.minerals?.potassium || 0,
+        zinc: nutrition.minerals?.zinc || 0,
+        copper: nutrition.minerals?.copper || 0,
+        manganese: nutrition.minerals?.manganese || 0,
+        selenium: nutrition.minerals?.selenium || 0,
       },
     };
   }
@@ -124,41 +118,15 @@ export class NutritionTrackingService {
     return this.addNutritionData(mainMealsNutrition, snacksNutrition);
   }
 
-  // Calculate nutrition for completed meals only
-  static calculateCompletedNutrition(dayMeal: DayMeal): NutritionData {
-    let completedNutrition = this.createEmptyNutritionData();
-
-    if (dayMeal.meals.breakfast.completed) {
-      completedNutrition = this.addNutritionData(
-        completedNutrition,
-        this.calculateMealNutrition(dayMeal.meals.breakfast)
-      );
-    }
-
-    if (dayMeal.meals.lunch.completed) {
-      completedNutrition = this.addNutritionData(
-        completedNutrition,
-        this.calculateMealNutrition(dayMeal.meals.lunch)
-      );
-    }
-
-    if (dayMeal.meals.dinner.completed) {
-      completedNutrition = this.addNutritionData(
-        completedNutrition,
-        this.calculateMealNutrition(dayMeal.meals.dinner)
-      );
-    }
-
-    dayMeal.meals.snacks.forEach(snack => {
-      if (snack.completed) {
-        completedNutrition = this.addNutritionData(
-          completedNutrition,
-          this.calculateMealNutrition(snack)
-        );
-      }
-    });
-
-    return completedNutrition;
+  // Calculate nutrition actually eaten from meal logs, scaled by the logged portion
+  static calculateCompletedNutrition(logs: MealLog[]): NutritionData {
+    return logs.reduce(
+      (acc, log) => this.addNutritionData(
+        acc,
+        this.toNutritionData(FoodDatabaseService.scaleNutrition(log.eatenNutrition, log.portion, false))
+      ),
+      this.createEmptyNutritionData()
+    );
   }
 
   // Recalculate day meal totals
@@ -170,65 +138,19 @@ export class NutritionTrackingService {
     };
   }
 
-  // Calculate daily nutrition goals based on user profile
+  // Daily nutrition goals: energy and macros come from the shared target engine,
+  // micronutrients from general adult recommendations
   static calculateDailyNutritionGoals(userProfile: UserProfile): NutritionData {
-    const { weight, height, age, gender, activityLevel } = userProfile.personalDetails;
-    const { primaryGoal } = userProfile.healthGoals;
-    
-    // Calculate BMR using Mifflin-St Jeor Equation
-    let bmr: number;
-    if (gender === 'male') {
-      bmr = 10 * weight + 6.25 * height - 5 * age + 5;
-    } else {
-      bmr = 10 * weight + 6.25 * height - 5 * age - 161;
-    }
-
-    // Apply activity factor
-    let activityFactor = 1.2; // sedentary
-    if (activityLevel === 'light') activityFactor = 1.375;
-    else if (activityLevel === 'moderate') activityFactor = 1.55;
-    else if (activityLevel === 'active') activityFactor = 1.725;
-    else if (activityLevel === 'very_active') activityFactor = 1.9;
-
-    // Calculate TDEE (Total Daily Energy Expenditure)
-    let tdee = bmr * activityFactor;
-
-    // Adjust for goals
-    if (primaryGoal === 'weight_loss') tdee *= 0.85; // 15% deficit
-    else if (primaryGoal === 'muscle_gain') tdee *= 1.15; // 15% surplus
-
-    // Calculate macronutrient goals based on diet type
-    let proteinRatio = 0.3; // default 30%
-    let fatRatio = 0.3; // default 30%
-    let carbsRatio = 0.4; // default 40%
-
-    // Adjust ratios based on diet type
-    if (userProfile.dietaryRestrictions.dietType === 'keto') {
-      proteinRatio = 0.25;
-      fatRatio = 0.7;
-      carbsRatio = 0.05;
-    } else if (userProfile.dietaryRestrictions.dietType === 'vegan') {
-      proteinRatio = 0.2;
-      fatRatio = 0.3;
-      carbsRatio = 0.5;
-    } else if (userProfile.dietaryRestrictions.dietType === 'paleo') {
-      proteinRatio = 0.35;
-      fatRatio = 0.35;
-      carbsRatio = 0.3;
-    }
-
-    // Calculate grams from calories
-    const proteinCalories = tdee * proteinRatio;
-    const fatCalories = tdee * fatRatio;
-    const carbsCalories = tdee * carbsRatio;
+    const { gender } = userProfile.personalDetails;
+    const targets = NutritionTargetService.calculateTargets(userProfile);
 
     return {
-      calories: Math.round(tdee),
-      protein: Math.round(proteinCalories / 4), // 4 calories per gram
-      carbs: Math.round(carbsCalories / 4), // 4 calories per gram
-      fat: Math.round(fatCalories / 9), // 9 calories per gram
-      fiber: Math.round(age * 0.5 + 10), // General fiber recommendation
-      sugar: Math.round(tdee * 0.1 / 4), // Limit sugar to 10% of calories
+      calories: targets.dailyCalories,
+      protein: targets.protein,
+      carbs: targets.carbs,
+      fat: targets.fat,
+      fiber: targets.fiber,
+      sugar: Math.round(targets.dailyCalories * 0.1 / 4), // Limit sugar to 10% of calories
       sodium: 2300, // General recommendation
       cholesterol: gender === 'male' ? 300 : 200, // General recommendation
       vitamins: {
@@ -349,9 +271,9 @@ export class NutritionTrackingService {
     }
 
     // Goal-specific recommendations
-    if (userProfile.healthGoals.primaryGoal === 'weight_loss' && status === 'excess') {
+    if (userProfile.healthGoals.primary === 'weight_loss' && status === 'excess') {
       recommendations.push("For weight loss, focus on creating a moderate calorie deficit while maintaining adequate protein.");
-    } else if (userProfile.healthGoals.primaryGoal === 'muscle_gain' && status === 'deficit') {
+    } else if (userProfile.healthGoals.primary === 'muscle_gain' && status === 'deficit') {
       recommendations.push("For muscle gain, ensure you're in a slight calorie surplus with adequate protein intake.");
     }
 
@@ -408,10 +330,11 @@ export class NutritionTrackingService {
 
   // Generate daily nutrition report
   static generateDailyReport(
-    dayMeal: DayMeal,
+    date: string,
+    logs: MealLog[],
     userProfile: UserProfile
   ): NutritionReport {
-    const currentNutrition = this.calculateCompletedNutrition(dayMeal);
+    const currentNutrition = this.calculateCompletedNutrition(logs.filter(log => log.date === date));
     const targetNutrition = this.calculateDailyNutritionGoals(userProfile);
     const progress = this.calculateNutritionProgress(currentNutrition, targetNutrition);
     const score = this.calculateNutritionScore(progress);
@@ -430,7 +353,7 @@ export class NutritionTrackingService {
     }
     
     return {
-      date: dayMeal.date,
+      date,
       nutrition: currentNutrition,
       goals: progress,
       score,
@@ -495,10 +418,10 @@ export class NutritionTrackingService {
   }
 
   // Track water intake
-  static trackWaterIntake(
-    currentIntake: WaterIntake[],
-    newIntake: WaterIntake
-  ): WaterIntake[] {
+  static trackWaterIntake<T extends WaterIntake>(
+    currentIntake: T[],
+    newIntake: T
+  ): T[] {
     return [...currentIntake, newIntake];
   }
 
@@ -531,18 +454,15 @@ export class NutritionTrackingService {
       deficiencies.push("Low fiber intake. Add more fruits, vegetables, and whole grains.");
     }
     
-    if (nutrition.vitamins?.vitaminC && goals.vitamins?.vitaminC && 
-        nutrition.vitamins.vitaminC < goals.vitamins.vitaminC * 0.8) {
+    if (goals.vitamins?.vitaminC && (nutrition.vitamins?.vitaminC || 0) < goals.vitamins.vitaminC * 0.8) {
       deficiencies.push("Vitamin C deficiency. Include more citrus fruits, berries, or vegetables.");
     }
     
-    if (nutrition.minerals?.iron && goals.minerals?.iron && 
-        nutrition.minerals.iron < goals.minerals.iron * 0.8) {
+    if (goals.minerals?.iron && (nutrition.minerals?.iron || 0) < goals.minerals.iron * 0.8) {
       deficiencies.push("Iron deficiency. Include more lean meats, beans, or leafy greens.");
     }
     
-    if (nutrition.minerals?.calcium && goals.minerals?.calcium && 
-        nutrition.minerals.calcium < goals.minerals.calcium * 0.8) {
+    if (goals.minerals?.calcium && (nutrition.minerals?.calcium || 0) < goals.minerals.calcium * 0.8) {
       deficiencies.push("Calcium deficiency. Include more dairy products, leafy greens, or fortified foods.");
     }
     
@@ -0,0 +1,345 @@
+import { z } from 'zod';
+import { supabase, Database } from '../lib/supabase';
+import { NotificationSettings, UserPreferences } from '../types';
+import toast from 'react-hot-toast';
+
+type UserPreferencesRow = Database['public']['Tables']['user_preferences']['Row'];
+type UserPreferencesInsert = Database['public']['Tables']['user_preferences']['Insert'];
+type UserPreferencesUpdate = Database['public']['Tables']['user_preferences']['Update'];
+
+export interface PreferencesUpdate {
+  notifications?: Partial<NotificationSettings>;
+  unitSystem?: UserPreferences['unitSystem'];
+  language?: string;
+  theme?: UserPreferences['theme'];
+}
+
+// Local copy of the synced preferences, so the app can read them synchronously
+const PREFERENCES_CACHE_KEY = 'nutriguide_preferences';
+
+// Stores the preferences used to live in before they were synced
+const LEGACY_NOTIFICATION_SETTINGS_KEY = 'nutriguide_notification_settings';
+const LEGACY_SETTINGS_KEY = 'nutriguide_settings';
+const LEGACY_UNIT_SYSTEM_KEY = 'nutriguide_unit_system';
+
+export const DEFAULT_PREFERENCES: UserPreferences = {
+  notifications: {
+    mealReminders: true,
+    hydrationReminders: true,
+    progressUpdates: true,
+    achievements: true,
+    systemNotifications: true,
+    browserNotifications: true,
+    smsEnabled: false,
+    emailEnabled: true,
+    reminderTime: 15,
+    wakeTime: '07:00',
+    sleepTime: '22:00',
+    quietHours: { enabled: false, start: '22:00', end: '07:00' },
+  },
+  unitSystem: 'metric',
+  language: 'en',
+  theme: 'system',
+};
+
+const timeSchema = z.string().regex(/^\d{2}:\d{2}/).transform(time => time.slice(0, 5));
+
+// Written by the Notifications page
+const legacyNotificationSettingsSchema = z.object({
+  mealReminders: z.boolean(),
+  hydrationReminders: z.boolean(),
+  progressUpdates: z.boolean(),
+  achievements: z.boolean(),
+  systemNotifications: z.boolean(),
+  browserNotifications: z.boolean(),
+  smsEnabled: z.boolean(),
+  emailEnabled: z.boolean(),
+  reminderTime: z.coerce.number().int().min(0).max(120),
+  wakeTime: timeSchema,
+  sleepTime: timeSchema,
+}).partial();
+
+// Written by the Settings page
+const legacySettingsSchema = z.object({
+  smsNotifications: z.boolean(),
+  emailNotifications: z.boolean(),
+  mealReminders: z.boolean(),
+  progressUpdates: z.boolean(),
+  darkMode: z.boolean(),
+  language: z.string().min(1),
+}).partial();
+
+const readJson = (key: string): unknown => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Fills in fields added since the preferences were cached
+const withDefaults = (preferences: Partial<UserPreferences>): UserPreferences => ({
+  ...DEFAULT_PREFERENCES,
+  ...preferences,
+  notifications: {
+    ...DEFAULT_PREFERENCES.notifications,
+    ...preferences.notifications,
+    quietHours: { ...DEFAULT_PREFERENCES.notifications.quietHours, ...preferences.notifications?.quietHours },
+  },
+});
+
+export class PreferencesService {
+  /**
+   * The signed-in user's preferences as last loaded or saved on this device.
+   * Call `loadPreferences` to pick up changes made on other devices.
+   */
+  static getPreferences(): UserPreferences {
+    const cached = readJson(PREFERENCES_CACHE_KEY);
+    return cached && typeof cached === 'object' ? withDefaults(cached as Partial<UserPreferences>) : DEFAULT_PREFERENCES;
+  }
+
+  static getNotificationSettings(): NotificationSettings {
+    return this.getPreferences().notifications;
+  }
+
+  /**
+   * Fetch the user's preferences. The first time a user loads them, the settings
+   * this device kept in localStorage are moved into the table.
+   */
+  static async loadPreferences(): Promise<{ data: UserPreferences | null; error: any }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('No authenticated user found');
+      }
+
+      const { data, error } = await supabase
+        .from('user_preferences')
+        .select('*')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Preferences fetch error:', error);
+        return { data: null, error };
+      }
+
+      if (data) {
+        const preferences = this.preferencesRowToUserPreferences(data);
+        this.cachePreferences(preferences);
+        return { data: preferences, error: null };
+      }
+
+      const migrated = this.readLegacyPreferences();
+      const { data: created, error: createError } = await supabase
+        .from('user_preferences')
+        .upsert(this.userPreferencesToRow(user.id, migrated), { onConflict: 'user_id', ignoreDuplicates: true })
+        .select()
+        .maybeSingle();
+
+      if (createError) {
+        console.error('Preferences migration error:', createError);
+        return { data: null, error: createError };
+      }
+
+      // Another tab may have created the row first; theirs wins
+      let stored = created;
+      if (!stored) {
+        const { data: existing, error: refetchError } = await supabase
+          .from('user_preferences')
+          .select('*')
+          .eq('user_id', user.id)
+          .single();
+
+        if (refetchError) {
+          console.error('Preferences fetch error:', refetchError);
+          return { data: null, error: refetchError };
+        }
+        stored = existing;
+      }
+
+      const preferences = this.preferencesRowToUserPreferences(stored);
+      this.cachePreferences(preferences);
+      this.clearLegacyPreferences();
+      return { data: preferences, error: null };
+    } catch (error: any) {
+      console.error('Preferences service error:', error);
+      return { data: null, error: { message: error.message } };
+    }
+  }
+
+  /**
+   * Save changes to the user's preferences. The local copy is updated straight away
+   * so synchronous readers see the change while it's being saved. Only the changed
+   * columns are written, so a device with an out-of-date copy doesn't undo changes
+   * made elsewhere; the saved row then replaces the local copy.
+   */
+  static async savePreferences(update: PreferencesUpdate): Promise<{ data: UserPreferences | null; error: any }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('No authenticated user found');
+      }
+
+      const current = this.getPreferences();
+      const preferences = withDefaults({
+        ...current,
+        ...update,
+        notifications: { ...current.notifications, ...update.notifications },
+      });
+      this.cachePreferences(preferences);
+
+      let { data, error } = await supabase
+        .from('user_preferences')
+        .update(this.preferencesUpdateToRow(update))
+        .eq('user_id', user.id)
+        .select()
+        .maybeSingle();
+
+      // No row yet if the preferences were never loaded on any device
+      if (!error && !data) {
+        ({ data, error } = await supabase
+          .from('user_preferences')
+          .upsert(this.userPreferencesToRow(user.id, preferences), { onConflict: 'user_id' })
+          .select()
+          .single());
+      }
+
+      if (error) {
+        console.error('Preferences save error:', error);
+        toast.error('Failed to save preferences');
+        return { data: null, error };
+      }
+
+      const saved = this.preferencesRowToUserPreferences(data);
+      this.cachePreferences(saved);
+      return { data: saved, error: null };
+    } catch (error: any) {
+      console.error('Preferences service error:', error);
+      toast.error('An unexpected error occurred');
+      return { data: null, error: { message: error.message } };
+    }
+  }
+
+  /**
+   * Forget the cached preferences, e.g. on sign out so the next user starts clean
+   */
+  static clearCache(): void {
+    localStorage.removeItem(PREFERENCES_CACHE_KEY);
+  }
+
+  /**
+   * Preferences from the localStorage keys used before they were synced. Where the
+   * Notifications and Settings pages disagree, the Notifications page wins since the
+   * reminder scheduler read its settings.
+   */
+  static readLegacyPreferences(): UserPreferences {
+    const notificationSettings = legacyNotificationSettingsSchema.safeParse(readJson(LEGACY_NOTIFICATION_SETTINGS_KEY));
+    const settings = legacySettingsSchema.safeParse(readJson(LEGACY_SETTINGS_KEY));
+    const unitSystem = localStorage.getItem(LEGACY_UNIT_SYSTEM_KEY);
+
+    const fromSettings = settings.success ? settings.data : {};
+    const fromNotifications = notificationSettings.success ? notificationSettings.data : {};
+
+    return withDefaults({
+      notifications: {
+        ...DEFAULT_PREFERENCES.notifications,
+        ...(fromSettings.mealReminders !== undefined && { mealReminders: fromSettings.mealReminders }),
+        ...(fromSettings.progressUpdates !== undefined && { progressUpdates: fromSettings.progressUpdates }),
+        ...(fromSettings.smsNotifications !== undefined && { smsEnabled: fromSettings.smsNotifications }),
+        ...(fromSettings.emailNotifications !== undefined && { emailEnabled: fromSettings.emailNotifications }),
+        ...fromNotifications,
+      },
+      unitSystem: unitSystem === 'imperial' ? 'imperial' : 'metric',
+      language: fromSettings.language ?? DEFAULT_PREFERENCES.language,
+      theme: fromSettings.darkMode === undefined ? DEFAULT_PREFERENCES.theme : fromSettings.darkMode ? 'dark' : 'light',
+    });
+  }
+
+  private static clearLegacyPreferences(): void {
+    [LEGACY_NOTIFICATION_SETTINGS_KEY, LEGACY_SETTINGS_KEY, LEGACY_UNIT_SYSTEM_KEY].forEach(key => localStorage.removeItem(key));
+  }
+
+  private static cachePreferences(preferences: UserPreferences): void {
+    localStorage.setItem(PREFERENCES_CACHE_KEY, JSON.stringify(preferences));
+  }
+
+  static preferencesRowToUserPreferences(row: UserPreferencesRow): UserPreferences {
+    return {
+      notifications: {
+        mealReminders: row.meal_reminders,
+        hydrationReminders: row.hydration_reminders,
+        progressUpdates: row.progress_updates,
+        achievements: row.achievements,
+        systemNotifications: row.system_notifications,
+        browserNotifications: row.push_enabled,
+        smsEnabled: row.sms_enabled,
+        emailEnabled: row.email_enabled,
+        reminderTime: row.reminder_lead_minutes,
+        // Postgres returns times as HH:MM:SS
+        wakeTime: row.wake_time.slice(0, 5),
+        sleepTime: row.sleep_time.slice(0, 5),
+        quietHours: {
+          enabled: row.quiet_hours_enabled,
+          start: row.quiet_hours_start.slice(0, 5),
+          end: row.quiet_hours_end.slice(0, 5),
+        },
+      },
+      unitSystem: row.unit_system,
+      language: row.language,
+      theme: row.theme,
+    };
+  }
+
+  static userPreferencesToRow(userId: string, preferences: UserPreferences): UserPreferencesInsert {
+    const { notifications } = preferences;
+    return {
+      user_id: userId,
+      meal_reminders: notifications.mealReminders,
+      hydration_reminders: notifications.hydrationReminders,
+      progress_updates: notifications.progressUpdates,
+      achievements: notifications.achievements,
+      system_notifications: notifications.systemNotifications,
+      push_enabled: notifications.browserNotifications,
+      sms_enabled: notifications.smsEnabled,
+      email_enabled: notifications.emailEnabled,
+      reminder_lead_minutes: notifications.reminderTime,
+      wake_time: notifications.wakeTime,
+      sleep_time: notifications.sleepTime,
+      quiet_hours_enabled: notifications.quietHours.enabled,
+      quiet_hours_start: notifications.quietHours.start,
+      quiet_hours_end: notifications.quietHours.end,
+      unit_system: preferences.unitSystem,
+      language: preferences.language,
+      theme: preferences.theme,
+    };
+  }
+
+  // Only the columns of fields present in the update
+  static preferencesUpdateToRow(update: PreferencesUpdate): UserPreferencesUpdate {
+    const { notifications = {} } = update;
+    const row: UserPreferencesUpdate = {
+      meal_reminders: notifications.mealReminders,
+      hydration_reminders: notifications.hydrationReminders,
+      progress_updates: notifications.progressUpdates,
+      achievements: notifications.achievements,
+      system_notifications: notifications.systemNotifications,
+      push_enabled: notifications.browserNotifications,
+      sms_enabled: notifications.smsEnabled,
+      email_enabled: notifications.emailEnabled,
+      reminder_lead_minutes: notifications.reminderTime,
+      wake_time: notifications.wakeTime,
+      sleep_time: notifications.sleepTime,
+      quiet_hours_enabled: notifications.quietHours?.enabled,
+      quiet_hours_start: notifications.quietHours?.start,
+      quiet_hours_end: notifications.quietHours?.end,
+      unit_system: update.unitSystem,
+      language: update.language,
+      theme: update.theme,
+    };
+    return Object.fromEntries(Object.entries(row).filter(([, value]) => value !== undefined));
+  }
+}
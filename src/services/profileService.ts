@@ -1,5 +1,6 @@
 import { supabase, Database } from '../lib/supabase';
 import { UserProfile } from '../types';
+import { normalizePhoneNumber } from './smsService';
 import toast from 'react-hot-toast';
 
 type ProfileRow = Database['public']['Tables']['profiles']['Row'];
@@ -42,22 +43,27 @@ export class ProfileService {
         user_id: user.id,
         name: profileData.name,
         email: profileData.email,
-        phone_number: profileData.phoneNumber || null,
+        phone_number: profileData.phoneNumber ? normalizePhoneNumber(profileData.phoneNumber) ?? profileData.phoneNumber : null,
         age: profileData.personalDetails.age,
         gender: profileData.personalDetails.gender,
         weight: profileData.personalDetails.weight,
         height: profileData.personalDetails.height,
+        body_fat_percentage: profileData.personalDetails.bodyFatPercentage ?? null,
         activity_level: profileData.personalDetails.activityLevel,
         primary_goal: profileData.healthGoals.primary,
         target_weight: profileData.healthGoals.targetWeight || null,
         timeframe: profileData.healthGoals.timeframe || null,
         allergies: profileData.dietaryRestrictions.allergies,
+        intolerances: profileData.dietaryRestrictions.intolerances,
         diet_type: profileData.dietaryRestrictions.dietType,
+        restrictions: profileData.dietaryRestrictions.restrictions,
         cuisines: profileData.preferences.cuisines,
         breakfast_time: profileData.preferences.mealTimings.breakfast,
         lunch_time: profileData.preferences.mealTimings.lunch,
         dinner_time: profileData.preferences.mealTimings.dinner,
+        snack_times: profileData.preferences.mealTimings.snacks,
         budget_range: profileData.preferences.budgetRange,
+        bmr_formula: profileData.preferences.bmrFormula || null,
         medical_conditions: profileData.medicalConditions,
         sport_activities: profileData.sportActivities || [],
         plan_duration_days: profileData.planDuration || 30,
@@ -182,22 +188,27 @@ export class ProfileService {
 
       // Map UserProfile fields to database fields
       if (updates.name) profileUpdate.name = updates.name;
-      if (updates.phoneNumber !== undefined) profileUpdate.phone_number = updates.phoneNumber;
+      if (updates.phoneNumber !== undefined) profileUpdate.phone_number = updates.phoneNumber ? normalizePhoneNumber(updates.phoneNumber) ?? updates.phoneNumber : null;
       if (updates.personalDetails?.age) profileUpdate.age = updates.personalDetails.age;
       if (updates.personalDetails?.gender) profileUpdate.gender = updates.personalDetails.gender;
       if (updates.personalDetails?.weight) profileUpdate.weight = updates.personalDetails.weight;
       if (updates.personalDetails?.height) profileUpdate.height = updates.personalDetails.height;
+      if (updates.personalDetails && 'bodyFatPercentage' in updates.personalDetails) profileUpdate.body_fat_percentage = updates.personalDetails.bodyFatPercentage ?? null;
       if (updates.personalDetails?.activityLevel) profileUpdate.activity_level = updates.personalDetails.activityLevel;
       if (updates.healthGoals?.primary) profileUpdate.primary_goal = updates.healthGoals.primary;
       if (updates.healthGoals?.targetWeight !== undefined) profileUpdate.target_weight = updates.healthGoals.targetWeight;
       if (updates.healthGoals?.timeframe !== undefined) profileUpdate.timeframe = updates.healthGoals.timeframe;
       if (updates.dietaryRestrictions?.allergies) profileUpdate.allergies = updates.dietaryRestrictions.allergies;
+      if (updates.dietaryRestrictions?.intolerances) profileUpdate.intolerances = updates.dietaryRestrictions.intolerances;
       if (updates.dietaryRestrictions?.dietType) profileUpdate.diet_type = updates.dietaryRestrictions.dietType;
+      if (updates.dietaryRestrictions?.restrictions) profileUpdate.restrictions = updates.dietaryRestrictions.restrictions;
       if (updates.preferences?.cuisines) profileUpdate.cuisines = updates.preferences.cuisines;
       if (updates.preferences?.mealTimings?.breakfast) profileUpdate.breakfast_time = updates.preferences.mealTimings.breakfast;
       if (updates.preferences?.mealTimings?.lunch) profileUpdate.lunch_time = updates.preferences.mealTimings.lunch;
       if (updates.preferences?.mealTimings?.dinner) profileUpdate.dinner_time = updates.preferences.mealTimings.dinner;
+      if (updates.preferences?.mealTimings?.snacks) profileUpdate.snack_times = updates.preferences.mealTimings.snacks;
       if (updates.preferences?.budgetRange) profileUpdate.budget_range = updates.preferences.budgetRange;
+      if (updates.preferences && 'bmrFormula' in updates.preferences) profileUpdate.bmr_formula = updates.preferences.bmrFormula || null;
       if (updates.medicalConditions) profileUpdate.medical_conditions = updates.medicalConditions;
       if (updates.sportActivities) profileUpdate.sport_activities = updates.sportActivities;
       if (updates.planDuration) profileUpdate.plan_duration_days = updates.planDuration;
@@ -473,21 +484,22 @@ export class ProfileService {
       phoneNumber: profileRow.phone_number || '',
       personalDetails: {
         age: profileRow.age,
-        gender: profileRow.gender as 'male' | 'female' | 'other',
+        gender: profileRow.gender,
         weight: profileRow.weight,
         height: profileRow.height,
-        activityLevel: profileRow.activity_level as any,
+        bodyFatPercentage: profileRow.body_fat_percentage ?? undefined,
+        activityLevel: profileRow.activity_level,
       },
       healthGoals: {
-        primary: profileRow.primary_goal as any,
+        primary: profileRow.primary_goal,
         targetWeight: profileRow.target_weight || undefined,
         timeframe: profileRow.timeframe || undefined,
       },
       dietaryRestrictions: {
         allergies: profileRow.allergies,
-        intolerances: [],
-        dietType: profileRow.diet_type as any,
-        restrictions: [],
+        intolerances: profileRow.intolerances,
+        dietType: profileRow.diet_type,
+        restrictions: profileRow.restrictions,
       },
       preferences: {
         cuisines: profileRow.cuisines,
@@ -495,21 +507,22 @@ export class ProfileService {
           breakfast: profileRow.breakfast_time,
           lunch: profileRow.lunch_time,
           dinner: profileRow.dinner_time,
-          snacks: ['10:00', '16:00'],
+          snacks: profileRow.snack_times,
         },
-        budgetRange: profileRow.budget_range as any,
+        budgetRange: profileRow.budget_range,
+        bmrFormula: profileRow.bmr_formula || undefined,
       },
       medicalConditions: profileRow.medical_conditions,
-      sportActivities: profileRow.sport_activities || [],
-      planDuration: profileRow.plan_duration_days || 30,
-      planDurationType: (profileRow.plan_duration_type as 'days' | 'weeks' | 'months') || 'days',
+      sportActivities: profileRow.sport_activities,
+      planDuration: profileRow.plan_duration_days,
+      planDurationType: profileRow.plan_duration_type,
       createdAt: profileRow.created_at,
       updatedAt: profileRow.updated_at,
     };
   }
 
   // Validate profile data
-  private static validateProfileData(data: Partial<UserProfile>): ProfileError | null {
+  static validateProfileData(data: Partial<UserProfile>): ProfileError | null {
     // Validate name
     if (data.name && data.name.trim().length < 2) {
       return new ProfileError(
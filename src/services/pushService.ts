@@ -0,0 +1,111 @@
+import { supabase, Database } from '../lib/supabase';
+
+type PushSubscriptionInsert = Database['public']['Tables']['push_subscriptions']['Insert'];
+
+const vapidPublicKey = import.meta.env.VITE_VAPID_PUBLIC_KEY;
+
+// PushManager wants the VAPID key as raw bytes rather than base64url
+const urlBase64ToUint8Array = (base64: string): Uint8Array => {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(padded), char => char.charCodeAt(0));
+};
+
+export class PushService {
+  static isSupported(): boolean {
+    return 'serviceWorker' in navigator && 'PushManager' in window && !!vapidPublicKey;
+  }
+
+  static async registerServiceWorker(): Promise<ServiceWorkerRegistration | undefined> {
+    if (!('serviceWorker' in navigator)) return undefined;
+
+    try {
+      return (await navigator.serviceWorker.getRegistration()) || (await navigator.serviceWorker.register('/sw.js'));
+    } catch (error) {
+      console.error('Service worker registration failed:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Subscribe this device to push and store the subscription so the reminder
+   * scheduler can reach it. Needs notification permission to have been granted.
+   */
+  static async subscribe(): Promise<{ error: any }> {
+    try {
+      if (!this.isSupported()) {
+        throw new Error('Push notifications are not supported in this browser');
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('No authenticated user found');
+      }
+
+      const registration = await this.registerServiceWorker();
+      if (!registration) {
+        throw new Error('Service worker is not available');
+      }
+
+      const subscription = (await registration.pushManager.getSubscription()) ||
+        (await registration.pushManager.subscribe({
+          userVisibleOnly: true,
+          applicationServerKey: urlBase64ToUint8Array(vapidPublicKey),
+        }));
+
+      const { endpoint, keys } = subscription.toJSON();
+      if (!endpoint || !keys?.p256dh || !keys?.auth) {
+        throw new Error('Push subscription is missing its keys');
+      }
+
+      const subscriptionInsert: PushSubscriptionInsert = {
+        user_id: user.id,
+        endpoint,
+        p256dh: keys.p256dh,
+        auth: keys.auth,
+        user_agent: navigator.userAgent,
+      };
+
+      const { error } = await supabase
+        .from('push_subscriptions')
+        .upsert(subscriptionInsert, { onConflict: 'endpoint' });
+
+      if (error) {
+        console.error('Push subscription save error:', error);
+        return { error };
+      }
+
+      return { error: null };
+    } catch (error: any) {
+      console.error('Push service error:', error);
+      return { error: { message: error.message } };
+    }
+  }
+
+  /**
+   * Stop push on this device; other devices keep their subscriptions
+   */
+  static async unsubscribe(): Promise<{ error: any }> {
+    try {
+      const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+      const subscription = await registration?.pushManager.getSubscription();
+      if (!subscription) return { error: null };
+
+      const { error } = await supabase
+        .from('push_subscriptions')
+        .delete()
+        .eq('endpoint', subscription.endpoint);
+
+      if (error) {
+        console.error('Push subscription delete error:', error);
+        return { error };
+      }
+
+      await subscription.unsubscribe();
+      return { error: null };
+    } catch (error: any) {
+      console.error('Push service error:', error);
+      return { error: { message: error.message } };
+    }
+  }
+}
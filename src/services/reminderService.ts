@@ -0,0 +1,197 @@
+import { supabase, Database } from '../lib/supabase';
+import { NotificationSettings, UserProfile } from '../types';
+import { NotificationService } from './notificationService';
+import { PreferencesService } from './preferencesService';
+import { PushService } from './pushService';
+
+type ScheduledNotificationInsert = Database['public']['Tables']['scheduled_notifications']['Insert'];
+type ReminderChannel = NonNullable<ScheduledNotificationInsert['channels']>[number];
+
+export type ScheduledReminder = Omit<ScheduledNotificationInsert, 'user_id' | 'id' | 'created_at' | 'updated_at'>;
+
+// Weekly progress summary: Sunday evening in the user's time zone
+const PROGRESS_SUMMARY_DAY = 0;
+const PROGRESS_SUMMARY_TIME = '19:00';
+
+// Hydration reminders spread evenly between waking up and going to bed
+const HYDRATION_REMINDERS_PER_DAY = 8;
+
+const HYDRATION_MESSAGES = [
+  'Time for a glass of water. Log it on your dashboard!',
+  'Stay hydrated! Have a drink and keep your streak going.',
+  'A quick water break helps you hit today\'s hydration goal.',
+];
+
+const MEAL_REMINDERS = [
+  { meal: 'breakfast', title: '🌅 Breakfast Time!', body: 'Time for your healthy breakfast. Check your meal plan!' },
+  { meal: 'lunch', title: '☀️ Lunch Time!', body: 'Time for your nutritious lunch. Don\'t forget to log it!' },
+  { meal: 'dinner', title: '🌙 Dinner Time!', body: 'Time for your evening meal. Stay on track!' },
+] as const;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+// "HH:MM" shifted by a number of minutes, wrapping around midnight
+const shiftTime = (time: string, minutes: number): string => {
+  const [hours, mins] = time.split(':').map(Number);
+  const total = (((hours * 60 + mins + minutes) % 1440) + 1440) % 1440;
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+};
+
+export class ReminderService {
+  static getTimeZone(): string {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  }
+
+  /**
+   * The reminders a profile should receive with the current notification settings.
+   * Disabled reminders are kept (with `enabled: false`) so toggling doesn't lose them.
+   */
+  static buildSchedule(profile: UserProfile, timeZone: string = this.getTimeZone()): ScheduledReminder[] {
+    const settings = PreferencesService.getNotificationSettings();
+
+    const channels: ReminderChannel[] = [];
+    if (settings.browserNotifications) channels.push('push');
+    if (settings.smsEnabled && profile.phoneNumber) channels.push('sms');
+    if (settings.emailEnabled && profile.email) channels.push('email');
+
+    const canSend = (time: string) => channels.length > 0 && !this.isQuietTime(time, settings.quietHours);
+
+    const meals: ScheduledReminder[] = MEAL_REMINDERS.map(({ meal, title, body }) => {
+      const time = shiftTime(profile.preferences.mealTimings[meal], -settings.reminderTime);
+      return {
+        reminder_key: `meal-${meal}`,
+        kind: 'meal',
+        title,
+        body,
+        local_time: time,
+        time_zone: timeZone,
+        channels,
+        enabled: settings.mealReminders && canSend(time),
+      };
+    });
+
+    const snacks: ScheduledReminder[] = (profile.preferences.mealTimings.snacks || []).map((snackTime, index) => {
+      const time = shiftTime(snackTime, -settings.reminderTime);
+      return {
+        reminder_key: `meal-snack_${index}`,
+        kind: 'meal',
+        title: '🍎 Snack Time!',
+        body: 'Time for your planned snack. Don\'t forget to log it!',
+        local_time: time,
+        time_zone: timeZone,
+        channels,
+        enabled: settings.mealReminders && canSend(time),
+      };
+    });
+
+    const hydration: ScheduledReminder[] = this
+      .getHydrationReminderTimes(settings.wakeTime, settings.sleepTime)
+      .map((time, index) => ({
+        reminder_key: `hydration-${index}`,
+        kind: 'hydration',
+        title: '💧 Hydration Reminder',
+        body: HYDRATION_MESSAGES[index % HYDRATION_MESSAGES.length],
+        local_time: time,
+        time_zone: timeZone,
+        channels,
+        enabled: settings.hydrationReminders && canSend(time),
+      }));
+
+    const progress: ScheduledReminder = {
+      reminder_key: 'progress-weekly',
+      kind: 'progress',
+      title: '📊 Weekly Progress',
+      body: 'Your weekly nutrition summary is ready. See how your plan is going!',
+      local_time: PROGRESS_SUMMARY_TIME,
+      time_zone: timeZone,
+      days_of_week: [PROGRESS_SUMMARY_DAY],
+      channels,
+      enabled: settings.progressUpdates && canSend(PROGRESS_SUMMARY_TIME),
+    };
+
+    return [...meals, ...snacks, ...hydration, progress];
+  }
+
+  /**
+   * Whether a time ("HH:MM") falls in the quiet hours. The window may cross midnight.
+   */
+  static isQuietTime(time: string, quietHours: NotificationSettings['quietHours']): boolean {
+    if (!quietHours.enabled) return false;
+
+    const minutes = toMinutes(time);
+    const start = toMinutes(quietHours.start);
+    const end = toMinutes(quietHours.end);
+    return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+  }
+
+  /**
+   * Reminder times ("HH:MM") spaced evenly through the waking window, with half a
+   * gap after waking and before bed. Windows that cross midnight are supported.
+   */
+  static getHydrationReminderTimes(wakeTime: string, sleepTime: string): string[] {
+    const wake = toMinutes(wakeTime);
+    let sleep = toMinutes(sleepTime);
+    if (sleep <= wake) sleep += 24 * 60;
+
+    const gap = (sleep - wake) / HYDRATION_REMINDERS_PER_DAY;
+    return Array.from({ length: HYDRATION_REMINDERS_PER_DAY }, (_, index) =>
+      shiftTime(wakeTime, Math.round(gap * (index + 0.5)))
+    );
+  }
+
+  /**
+   * Subscribe (or unsubscribe) this device to push to match the settings, then sync the schedule
+   */
+  static async setupReminders(profile: UserProfile): Promise<{ error: any }> {
+    const settings = PreferencesService.getNotificationSettings();
+    if (settings.browserNotifications && NotificationService.isSupported() && NotificationService.getPermissionStatus() === 'granted') {
+      await PushService.subscribe();
+    } else if (!settings.browserNotifications) {
+      await PushService.unsubscribe();
+    }
+
+    return this.syncSchedule(profile);
+  }
+
+  /**
+   * Store the profile's reminders server-side so they're sent even when the app is closed
+   */
+  static async syncSchedule(profile: UserProfile): Promise<{ error: any }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('No authenticated user found');
+      }
+
+      const schedule = this.buildSchedule(profile);
+      const rows: ScheduledNotificationInsert[] = schedule.map(reminder => ({ ...reminder, user_id: user.id }));
+
+      const { error } = await supabase
+        .from('scheduled_notifications')
+        .upsert(rows, { onConflict: 'user_id,reminder_key' });
+
+      if (error) {
+        console.error('Reminder schedule sync error:', error);
+        return { error };
+      }
+
+      // Drop reminders that are no longer part of the schedule, leaving pending snoozes alone
+      const keys = schedule.map(reminder => `"${reminder.reminder_key}"`).join(',');
+      await supabase
+        .from('scheduled_notifications')
+        .delete()
+        .eq('user_id', user.id)
+        .eq('run_once', false)
+        .not('reminder_key', 'in', `(${keys})`);
+
+      return { error: null };
+    } catch (error: any) {
+      console.error('Reminder service error:', error);
+      return { error: { message: error.message } };
+    }
+  }
+}
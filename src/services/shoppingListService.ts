@@ -0,0 +1,365 @@
+import jsPDF from 'jspdf';
+import autoTable, { RowInput } from 'jspdf-autotable';
+import { DayMeal, DietPlan, Ingredient } from '../types';
+import { FoodItem } from '../data/foodDatabase';
+import { GROCERY_AISLES, GroceryAisle } from '../data/groceryAisles';
+import { FoodDatabaseService } from './foodDatabaseService';
+import { UnitService, UnitSystem } from './unitService';
+
+// Amounts are kept in grams ("g"), millilitres ("ml") or a piece unit ("slice", "large", "")
+export interface ShoppingQuantity {
+  amount: number;
+  unit: string;
+}
+
+export interface ShoppingListItem {
+  key: string; // food id, or the normalized name for foods not in the database
+  name: string;
+  aisle: GroceryAisle;
+  needed: ShoppingQuantity[]; // total for the date range, usually a single quantity
+  toBuy: ShoppingQuantity[]; // what's left after the pantry; empty when fully covered
+  meals: string[];
+  checked: boolean;
+}
+
+export interface ShoppingListSection {
+  aisle: GroceryAisle;
+  label: string;
+  items: ShoppingListItem[];
+}
+
+export interface ShoppingList {
+  planId: string;
+  startDate: string;
+  endDate: string;
+  sections: ShoppingListSection[];
+}
+
+// Something the user already has; without an amount the whole item counts as covered
+export interface PantryItem {
+  key: string;
+  name: string;
+  amount?: number;
+  unit?: string;
+}
+
+const PANTRY_KEY = 'nutriguide_pantry';
+const CHECKED_KEY = 'nutriguide_shopping_checked';
+
+const normalizeKey = (name: string) => name.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+const csvField = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export class ShoppingListService {
+  /**
+   * Build a merged shopping list for every planned day between startDate and endDate
+   * (inclusive, YYYY-MM-DD). Identical ingredients are combined across meals, grouped
+   * by store aisle and reduced by what's in the pantry.
+   */
+  static buildShoppingList(plan: DietPlan, startDate: string, endDate: string): ShoppingList {
+    const days = plan.meals.filter(day => day.date >= startDate && day.date <= endDate);
+    const pantry = new Map(this.getPantry().map(item => [item.key, item]));
+    const checked = new Set(this.getCheckedKeys(plan.id));
+
+    const accumulated = new Map<string, { name: string; food?: FoodItem; quantities: ShoppingQuantity[]; meals: Set<string>; names: Set<string> }>();
+
+    days.forEach(day => {
+      this.getDayMeals(day).forEach(meal => {
+        meal.ingredients.forEach(ingredient => {
+          const food = this.resolveFood(ingredient);
+          const key = food ? food.id : normalizeKey(ingredient.name);
+          const entry = accumulated.get(key) || {
+            name: food ? food.name : ingredient.name.trim(),
+            food,
+            quantities: [],
+            meals: new Set<string>(),
+            names: new Set<string>(),
+          };
+
+          entry.quantities.push(this.toBaseQuantity(ingredient.amount, ingredient.unit));
+          entry.meals.add(meal.name);
+          entry.names.add(ingredient.name);
+          accumulated.set(key, entry);
+        });
+      });
+    });
+
+    const items: ShoppingListItem[] = [];
+    accumulated.forEach((entry, key) => {
+      const needed = this.mergeQuantities(entry.quantities, entry.food);
+      const pantryItem = pantry.get(key);
+
+      items.push({
+        key,
+        name: entry.name,
+        aisle: this.getAisle([entry.name, ...entry.names]),
+        needed,
+        toBuy: this.roundUpPieces(pantryItem ? this.deductPantry(needed, pantryItem, entry.food) : needed),
+        meals: Array.from(entry.meals),
+        checked: checked.has(key),
+      });
+    });
+
+    const sections = (Object.keys(GROCERY_AISLES) as GroceryAisle[])
+      .map(aisle => ({
+        aisle,
+        label: GROCERY_AISLES[aisle].label,
+        items: items.filter(item => item.aisle === aisle).sort((a, b) => a.name.localeCompare(b.name)),
+      }))
+      .filter(section => section.items.length > 0);
+
+    return { planId: plan.id, startDate, endDate, sections };
+  }
+
+  /**
+   * Display text for an item's quantities, e.g. "350 g" or "2 slices + 100 g"
+   */
+  static formatQuantities(quantities: ShoppingQuantity[], system: UnitSystem = UnitService.getUnitSystem()): string {
+    return quantities.map(quantity => UnitService.formatAmount(quantity.amount, quantity.unit, system).text).join(' + ');
+  }
+
+  static getPantry(): PantryItem[] {
+    try {
+      const saved = localStorage.getItem(PANTRY_KEY);
+      return saved ? JSON.parse(saved) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Record that an item is on hand. Leave out the amount when there's enough for any plan.
+   */
+  static addToPantry(item: PantryItem): void {
+    const pantry = this.getPantry().filter(existing => existing.key !== item.key);
+    localStorage.setItem(PANTRY_KEY, JSON.stringify([...pantry, item]));
+  }
+
+  static removeFromPantry(key: string): void {
+    const pantry = this.getPantry().filter(item => item.key !== key);
+    localStorage.setItem(PANTRY_KEY, JSON.stringify(pantry));
+  }
+
+  static getCheckedKeys(planId: string): string[] {
+    try {
+      const saved = localStorage.getItem(CHECKED_KEY);
+      return saved ? JSON.parse(saved)[planId] || [] : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Check or uncheck an item for a plan; returns the new checked state
+   */
+  static toggleChecked(planId: string, key: string): boolean {
+    let all: Record<string, string[]> = {};
+    try {
+      all = JSON.parse(localStorage.getItem(CHECKED_KEY) || '{}');
+    } catch {
+      // Start over if the saved state is unreadable
+    }
+
+    const keys = new Set(all[planId] || []);
+    const checked = !keys.has(key);
+    if (checked) {
+      keys.add(key);
+    } else {
+      keys.delete(key);
+    }
+
+    localStorage.setItem(CHECKED_KEY, JSON.stringify({ ...all, [planId]: Array.from(keys) }));
+    return checked;
+  }
+
+  /**
+   * Plain-text list for pasting into a message. Pantry items are left out.
+   */
+  static toText(list: ShoppingList, system: UnitSystem = UnitService.getUnitSystem()): string {
+    const lines = [`Shopping list (${formatDate(list.startDate)} - ${formatDate(list.endDate)})`];
+
+    list.sections.forEach(section => {
+      const items = section.items.filter(item => item.toBuy.length > 0);
+      if (items.length === 0) return;
+
+      lines.push('', section.label.toUpperCase());
+      items.forEach(item => {
+        lines.push(`${item.checked ? '[x]' : '[ ]'} ${item.name} - ${this.formatQuantities(item.toBuy, system)}`);
+      });
+    });
+
+    return lines.join('\n');
+  }
+
+  static toCSV(list: ShoppingList, system: UnitSystem = UnitService.getUnitSystem()): string {
+    const rows = [['Aisle', 'Item', 'Quantity', 'Needed', 'In Pantry', 'Checked', 'Meals']];
+
+    list.sections.forEach(section => {
+      section.items.forEach(item => {
+        rows.push([
+          section.label,
+          item.name,
+          this.formatQuantities(item.toBuy, system),
+          this.formatQuantities(item.needed, system),
+          item.toBuy.length === 0 ? 'yes' : 'no',
+          item.checked ? 'yes' : 'no',
+          item.meals.join('; '),
+        ]);
+      });
+    });
+
+    return rows.map(row => row.map(csvField).join(',')).join('\n');
+  }
+
+  static downloadCSV(list: ShoppingList, system: UnitSystem = UnitService.getUnitSystem()): void {
+    const blob = new Blob([this.toCSV(list, system)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${this.getFileName(list)}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * Printable PDF with a tick box per item, grouped by aisle
+   */
+  static downloadPDF(list: ShoppingList, system: UnitSystem = UnitService.getUnitSystem()): void {
+    const pdf = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+    const pageWidth = pdf.internal.pageSize.getWidth();
+    const margin = 12;
+
+    pdf.setFontSize(16);
+    pdf.setFont('helvetica', 'bold');
+    pdf.text('Shopping List', pageWidth / 2, margin + 4, { align: 'center' });
+    pdf.setFontSize(10);
+    pdf.setFont('helvetica', 'normal');
+    pdf.text(`${formatDate(list.startDate)} - ${formatDate(list.endDate)}`, pageWidth / 2, margin + 10, { align: 'center' });
+
+    const body: RowInput[] = [];
+    list.sections.forEach(section => {
+      const items = section.items.filter(item => item.toBuy.length > 0);
+      if (items.length === 0) return;
+
+      body.push([{ content: section.label, colSpan: 4, styles: { fontStyle: 'bold', fillColor: [236, 253, 245] } }]);
+      items.forEach(item => {
+        body.push([item.checked ? 'X' : '', item.name, this.formatQuantities(item.toBuy, system), item.meals.join(', ')]);
+      });
+    });
+
+    autoTable(pdf, {
+      head: [['', 'Item', 'Quantity', 'Used in']],
+      body,
+      startY: margin + 16,
+      theme: 'grid',
+      styles: { fontSize: 9, cellPadding: 2, overflow: 'linebreak', valign: 'top' },
+      headStyles: { fillColor: [16, 185, 129], textColor: [255, 255, 255], fontStyle: 'bold' },
+      columnStyles: {
+        0: { cellWidth: 8, halign: 'center' },
+        1: { cellWidth: 55 },
+        2: { cellWidth: 35 },
+      },
+      margin: { left: margin, right: margin },
+    });
+
+    pdf.save(`${this.getFileName(list)}.pdf`);
+  }
+
+  private static getDayMeals(day: DayMeal) {
+    return [day.meals.breakfast, day.meals.lunch, day.meals.dinner, ...(day.meals.snacks || [])].filter(meal => meal?.ingredients);
+  }
+
+  private static resolveFood(ingredient: Ingredient): FoodItem | undefined {
+    return (ingredient.foodId && FoodDatabaseService.getFood(ingredient.foodId)) || FoodDatabaseService.findFood(ingredient.name);
+  }
+
+  // Mass to grams and volume to millilitres so "1 kg" and "250 g" add up; piece units stay as they are
+  private static toBaseQuantity(amount: number, unit: string): ShoppingQuantity {
+    const kind = UnitService.getUnitKind(unit);
+    if (kind === 'mass') return { amount: UnitService.toGrams(amount, unit) ?? amount, unit: 'g' };
+    if (kind === 'volume') return { amount: UnitService.toMilliliters(amount, unit) ?? amount, unit: 'ml' };
+    return { amount, unit: UnitService.normalizeUnit(unit) };
+  }
+
+  // Sum quantities per unit. When a known food is listed in several units
+  // (e.g. "1 cup" and "100 g" of oats), everything convertible is folded into grams.
+  private static mergeQuantities(quantities: ShoppingQuantity[], food?: FoodItem): ShoppingQuantity[] {
+    const byUnit = new Map<string, number>();
+    quantities.forEach(quantity => byUnit.set(quantity.unit, (byUnit.get(quantity.unit) || 0) + quantity.amount));
+
+    if (byUnit.size > 1 && food) {
+      let grams = 0;
+      Array.from(byUnit.entries()).forEach(([unit, amount]) => {
+        const converted = UnitService.toGrams(amount, unit, food);
+        if (converted !== null) {
+          grams += converted;
+          byUnit.delete(unit);
+        }
+      });
+      if (grams > 0) byUnit.set('g', (byUnit.get('g') || 0) + grams);
+    }
+
+    return Array.from(byUnit.entries()).map(([unit, amount]) => ({ amount, unit }));
+  }
+
+  private static deductPantry(needed: ShoppingQuantity[], pantryItem: PantryItem, food?: FoodItem): ShoppingQuantity[] {
+    if (pantryItem.amount === undefined) return [];
+
+    const onHand = this.toBaseQuantity(pantryItem.amount, pantryItem.unit || '');
+    let remaining = onHand.amount;
+
+    return needed
+      .map(quantity => {
+        if (remaining <= 0) return quantity;
+
+        if (quantity.unit === onHand.unit) {
+          const used = Math.min(quantity.amount, remaining);
+          remaining -= used;
+          return { ...quantity, amount: quantity.amount - used };
+        }
+
+        // Different units: compare by weight when the food's portions allow it
+        const neededGrams = food && UnitService.toGrams(quantity.amount, quantity.unit, food);
+        const onHandGrams = food && UnitService.toGrams(remaining, onHand.unit, food);
+        if (!neededGrams || !onHandGrams) return quantity;
+
+        const usedGrams = Math.min(neededGrams, onHandGrams);
+        remaining -= remaining * (usedGrams / onHandGrams);
+        return { ...quantity, amount: quantity.amount * (1 - usedGrams / neededGrams) };
+      })
+      .filter(quantity => quantity.amount > 0.01);
+  }
+
+  // You can't buy 2⅓ tortillas
+  private static roundUpPieces(quantities: ShoppingQuantity[]): ShoppingQuantity[] {
+    return quantities.map(quantity =>
+      UnitService.getUnitKind(quantity.unit) ? quantity : { ...quantity, amount: Math.ceil(quantity.amount - 0.01) }
+    );
+  }
+
+  // Longest keyword match across the item's names, so "peanut butter" beats "butter"
+  private static getAisle(names: string[]): GroceryAisle {
+    let best: { aisle: GroceryAisle; length: number } = { aisle: 'other', length: 0 };
+
+    names.map(name => name.toLowerCase()).forEach(name => {
+      (Object.keys(GROCERY_AISLES) as GroceryAisle[]).forEach(aisle => {
+        GROCERY_AISLES[aisle].keywords.forEach(keyword => {
+          if (keyword.length > best.length && new RegExp(`\\b${escapeRegExp(keyword)}(?:e?s)?\\b`).test(name)) {
+            best = { aisle, length: keyword.length };
+          }
+        });
+      });
+    });
+
+    return best.aisle;
+  }
+
+  private static getFileName(list: ShoppingList): string {
+    return `nutriguide-shopping-list-${list.startDate}-to-${list.endDate}`;
+  }
+}
@@ -1,90 +1,130 @@
-// SMS Service using Twilio (you'll need to set up Twilio account and get credentials)
-class SMSService {
-  private accountSid = import.meta.env.VITE_TWILIO_ACCOUNT_SID;
-  private authToken = import.meta.env.VITE_TWILIO_AUTH_TOKEN;
-  private fromNumber = import.meta.env.VITE_TWILIO_PHONE_NUMBER;
+import { supabase, Database } from '../lib/supabase';
+
+type SmsMessageRow = Database['public']['Tables']['sms_messages']['Row'];
+
+export type SmsStatus = SmsMessageRow['status'];
+
+export interface SmsDelivery {
+  id: string;
+  body: string;
+  kind: string;
+  status: SmsStatus;
+  error?: string;
+  createdAt: string;
+}
+
+type SmsTemplate = 'progress_update' | 'plan_generated' | 'daily_motivation';
+
+const E164 = /^\+[1-9]\d{7,14}$/;
 
-  async sendSMS(to: string, message: string): Promise<boolean> {
+/**
+ * A phone number in E.164 form ("+15551234567"), or null if it can't be one.
+ * Spaces, dashes, dots and brackets are dropped; a leading "00" becomes "+".
+ */
+export function normalizePhoneNumber(value: string): string | null {
+  const compact = value.trim().replace(/[\s\-().]/g, '').replace(/^00/, '+');
+  return E164.test(compact) ? compact : null;
+}
+
+// SMS is sent by the `send-sms` edge function so Twilio credentials stay server-side.
+// Texts go to the number on the user's profile, only after they've opted in.
+class SMSService {
+  private async sendTemplate(template: SmsTemplate, params: Record<string, string | number | undefined>): Promise<boolean> {
     try {
-      // For demo purposes, we'll simulate SMS sending
-      // In production, you would use Twilio's REST API
-      console.log(`SMS would be sent to ${to}: ${message}`);
-      
-      // Simulate API call delay
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // For now, always return success
-      return true;
-      
-      /* Production Twilio implementation:
-      const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Basic ${btoa(`${this.accountSid}:${this.authToken}`)}`,
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        body: new URLSearchParams({
-          From: this.fromNumber,
-          To: to,
-          Body: message,
-        }),
-      });
-      
-      return response.ok;
-      */
+      const { data, error } = await supabase.functions.invoke('send-sms', { body: { template, params } });
+
+      if (error) {
+        console.error('SMS sending failed:', error);
+        return false;
+      }
+
+      return data?.status === 'queued' || data?.status === 'sent' || data?.status === 'delivered';
     } catch (error) {
       console.error('SMS sending failed:', error);
       return false;
     }
   }
 
-  async sendMealReminder(phoneNumber: string, mealName: string, time: string): Promise<boolean> {
-    const message = `🍽️ NutriGuide Reminder: Time for your ${mealName}! Scheduled for ${time}. Don't forget to log your meal after eating. Stay healthy! 💪`;
-    return this.sendSMS(phoneNumber, message);
+  async sendProgressUpdate(completedDays: number, totalDays: number, adherenceRate: number, weeklyAdherence?: number): Promise<boolean> {
+    return this.sendTemplate('progress_update', { completedDays, totalDays, adherenceRate, weeklyAdherence });
   }
 
-  async sendProgressUpdate(phoneNumber: string, completedDays: number, totalDays: number, adherenceRate: number): Promise<boolean> {
-    const message = `📊 NutriGuide Progress: You've completed ${completedDays}/${totalDays} days with ${adherenceRate}% adherence rate. Keep up the great work! 🎉`;
-    return this.sendSMS(phoneNumber, message);
+  async sendPlanGenerated(planName: string): Promise<boolean> {
+    return this.sendTemplate('plan_generated', { planName });
   }
 
-  async sendPlanGenerated(phoneNumber: string, planName: string): Promise<boolean> {
-    const message = `🎯 NutriGuide: Your new diet plan "${planName}" has been generated! Check your dashboard to start your healthy journey. Good luck! 🌟`;
-    return this.sendSMS(phoneNumber, message);
+  // The name is read from the profile server-side
+  async sendDailyMotivation(): Promise<boolean> {
+    return this.sendTemplate('daily_motivation', {});
   }
 
-  async sendDailyMotivation(phoneNumber: string, userName: string): Promise<boolean> {
-    const motivationalMessages = [
-      `Good morning ${userName}! 🌅 Today is a new opportunity to nourish your body. You've got this!`,
-      `Hey ${userName}! 💪 Remember, every healthy choice you make today brings you closer to your goals.`,
-      `${userName}, you're doing amazing! 🌟 Stay consistent with your nutrition plan today.`,
-      `Rise and shine ${userName}! ☀️ Your body deserves the best fuel today. Make it count!`,
-    ];
-    
-    const randomMessage = motivationalMessages[Math.floor(Math.random() * motivationalMessages.length)];
-    return this.sendSMS(phoneNumber, randomMessage);
-  }
+  /**
+   * Record SMS consent. Replying STOP to any message clears it server-side.
+   */
+  async setOptIn(optIn: boolean): Promise<{ error: any }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
 
-  scheduleReminders(phoneNumber: string, mealTimings: any): void {
-    // In a real application, you would use a job scheduler like node-cron
-    // For demo purposes, we'll simulate scheduling
-    console.log(`Scheduling SMS reminders for ${phoneNumber}:`, mealTimings);
-    
-    // Example: Schedule breakfast reminder
-    if (mealTimings.breakfast) {
-      console.log(`Breakfast reminder scheduled for ${mealTimings.breakfast}`);
-    }
-    
-    // Example: Schedule lunch reminder
-    if (mealTimings.lunch) {
-      console.log(`Lunch reminder scheduled for ${mealTimings.lunch}`);
+      if (!user) {
+        throw new Error('No authenticated user found');
+      }
+
+      const { error } = await supabase
+        .from('profiles')
+        .update({ sms_opt_in: optIn, sms_opt_in_changed_at: new Date().toISOString() })
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('SMS consent update error:', error);
+        return { error };
+      }
+
+      return { error: null };
+    } catch (error: any) {
+      console.error('SMS service error:', error);
+      return { error: { message: error.message } };
     }
-    
-    // Example: Schedule dinner reminder
-    if (mealTimings.dinner) {
-      console.log(`Dinner reminder scheduled for ${mealTimings.dinner}`);
+  }
+
+  /**
+   * Most recent texts sent (or refused) for the user, newest first
+   */
+  async getDeliveryLog(limit = 20): Promise<{ data: SmsDelivery[] | null; error: any }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('No authenticated user found');
+      }
+
+      const { data, error } = await supabase
+        .from('sms_messages')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        console.error('SMS delivery log fetch error:', error);
+        return { data: null, error };
+      }
+
+      return {
+        data: (data || []).map((row: SmsMessageRow) => ({
+          id: row.id,
+          body: row.body,
+          kind: row.kind,
+          status: row.status,
+          error: row.error || undefined,
+          createdAt: row.created_at,
+        })),
+        error: null,
+      };
+    } catch (error: any) {
+      console.error('SMS service error:', error);
+      return { data: null, error: { message: error.message } };
     }
   }
 }
 
-export const smsService = new SMSService();
\ No newline at end of file
+export const smsService = new SMSService();
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { Meal } from '../types';
+import { FoodDatabaseService } from './foodDatabaseService';
+import { UnitService } from './unitService';
+
+describe('UnitService.normalizeUnit', () => {
+  it('maps names, plurals and abbreviations to one form', () => {
+    expect(UnitService.normalizeUnit('Tablespoons')).toBe('tbsp');
+    expect(UnitService.normalizeUnit('slices')).toBe('slice');
+    expect(UnitService.normalizeUnit('fl oz')).toBe('fl_oz');
+    expect(UnitService.normalizeUnit('lbs.')).toBe('lb');
+  });
+});
+
+describe('UnitService.toGrams', () => {
+  const oats = FoodDatabaseService.getFood('rolled_oats');
+  const bread = FoodDatabaseService.getFood('whole_wheat_bread');
+  const cornTortilla = FoodDatabaseService.getFood('corn_tortilla');
+
+  it('uses the piece and cup weights of the food first', () => {
+    expect(UnitService.toGrams(2, 'slices', bread)).toBe(64);
+    expect(UnitService.toGrams(1, 'cup', oats)).toBe(81);
+    expect(UnitService.toGrams(1, '', cornTortilla)).toBe(26);
+  });
+
+  it('converts other volumes with the density of the food', () => {
+    expect(UnitService.toGrams(2, 'tbsp', oats)).toBeCloseTo(2 * 14.787 * 0.34);
+    expect(UnitService.toGrams(100, 'ml')).toBe(100);
+  });
+
+  it('converts mass units regardless of the food', () => {
+    expect(UnitService.toGrams(1, 'lb')).toBeCloseTo(453.592);
+  });
+
+  it('returns null for a piece unit the food has no weight for', () => {
+    expect(UnitService.toGrams(1, 'slice', oats)).toBeNull();
+    expect(UnitService.toGrams(1, 'large')).toBeNull();
+  });
+});
+
+describe('UnitService.formatAmount', () => {
+  it('keeps metric amounts in grams and millilitres', () => {
+    expect(UnitService.formatAmount(150, 'g', 'metric').text).toBe('150 g');
+    expect(UnitService.formatAmount(1500, 'g', 'metric').text).toBe('1.5 kg');
+    expect(UnitService.formatAmount(1, 'cup', 'metric').text).toBe('237 ml');
+  });
+
+  it('shows imperial amounts in ounces, pounds and kitchen fractions', () => {
+    expect(UnitService.formatAmount(100, 'g', 'imperial').text).toBe('3.5 oz');
+    expect(UnitService.formatAmount(454, 'g', 'imperial').text).toBe('1 lb');
+    expect(UnitService.formatAmount(360, 'ml', 'imperial').text).toBe('1½ cups');
+  });
+
+  it('leaves spoons and piece units alone', () => {
+    expect(UnitService.formatAmount(1.5, 'tbsp', 'metric').text).toBe('1½ tbsp');
+    expect(UnitService.formatAmount(2, 'slices', 'imperial').text).toBe('2 slices');
+  });
+});
+
+describe('UnitService.scaleMeal', () => {
+  const meal: Meal = {
+    id: '1',
+    name: 'Porridge',
+    description: '',
+    ingredients: [{ id: '1', name: 'Rolled oats', amount: 40, unit: 'g', calories: 150 }],
+    instructions: [],
+    nutrition: { calories: 300, protein: 10, carbs: 50, fat: 6, fiber: 5 },
+    prepTime: 0,
+    cookTime: 5,
+    servings: 2,
+    completed: false,
+  };
+
+  it('scales ingredients and nutrition by the same factor', () => {
+    const scaled = UnitService.scaleMeal(meal, 3);
+
+    expect(scaled.servings).toBe(3);
+    expect(scaled.ingredients[0]).toMatchObject({ amount: 60, calories: 225 });
+    expect(scaled.nutrition).toMatchObject({ calories: 450, protein: 15, carbs: 75, fat: 9 });
+  });
+
+  it('returns the meal unchanged at its own servings', () => {
+    expect(UnitService.scaleMeal(meal, 2)).toBe(meal);
+  });
+});
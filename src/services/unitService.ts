@@ -0,0 +1,210 @@
+import { Meal } from '../types';
+import { FoodItem } from '../data/foodDatabase';
+import { FoodDatabaseService } from './foodDatabaseService';
+import { PreferencesService } from './preferencesService';
+
+export type UnitSystem = 'metric' | 'imperial';
+
+export type UnitKind = 'mass' | 'volume';
+
+interface UnitDefinition {
+  kind: UnitKind;
+  factor: number; // grams for mass units, millilitres for volume units
+  label: string;
+}
+
+export interface DisplayAmount {
+  amount: number;
+  unit: string;
+  text: string; // e.g. "1½ cups", "150 g"
+}
+
+const UNITS: Record<string, UnitDefinition> = {
+  mg: { kind: 'mass', factor: 0.001, label: 'mg' },
+  g: { kind: 'mass', factor: 1, label: 'g' },
+  kg: { kind: 'mass', factor: 1000, label: 'kg' },
+  oz: { kind: 'mass', factor: 28.3495, label: 'oz' },
+  lb: { kind: 'mass', factor: 453.592, label: 'lb' },
+  ml: { kind: 'volume', factor: 1, label: 'ml' },
+  l: { kind: 'volume', factor: 1000, label: 'l' },
+  tsp: { kind: 'volume', factor: 4.929, label: 'tsp' },
+  tbsp: { kind: 'volume', factor: 14.787, label: 'tbsp' },
+  fl_oz: { kind: 'volume', factor: 29.574, label: 'fl oz' },
+  cup: { kind: 'volume', factor: 236.588, label: 'cup' },
+  pint: { kind: 'volume', factor: 473.176, label: 'pint' },
+};
+
+const UNIT_ALIASES: Record<string, string> = {
+  gram: 'g', gr: 'g', kilogram: 'kg', kilo: 'kg', milligram: 'mg',
+  ounce: 'oz', pound: 'lb', lbs: 'lb',
+  milliliter: 'ml', millilitre: 'ml', liter: 'l', litre: 'l',
+  teaspoon: 'tsp', tablespoon: 'tbsp', tbs: 'tbsp', tbl: 'tbsp',
+  'fl oz': 'fl_oz', 'fluid ounce': 'fl_oz', floz: 'fl_oz',
+};
+
+// Units that mean "one of the thing" when a food has no matching piece weight
+const COUNT_UNITS = ['', 'piece', 'whole', 'item', 'unit', 'serving'];
+
+// Units that take a plural "s" in display
+const PLURAL_UNITS = ['cup', 'pint', 'slice', 'clove', 'can', 'scoop', 'piece', 'link', 'fillet'];
+
+// Units shown with kitchen fractions rather than decimals
+const FRACTIONS: [number, string][] = [[0.25, '¼'], [1 / 3, '⅓'], [0.5, '½'], [2 / 3, '⅔'], [0.75, '¾']];
+
+export class UnitService {
+  /**
+   * Canonical form of a free-text unit: "Tablespoons" -> "tbsp", "slices" -> "slice"
+   */
+  static normalizeUnit(unit: string): string {
+    const cleaned = unit.toLowerCase().trim().replace(/\.$/, '');
+    if (UNITS[cleaned]) return cleaned;
+    if (UNIT_ALIASES[cleaned]) return UNIT_ALIASES[cleaned];
+
+    // Plurals: "cups", "cloves", "tablespoons"
+    const singular = cleaned.length > 2 && cleaned.endsWith('s') ? cleaned.slice(0, -1) : cleaned;
+    return UNIT_ALIASES[singular] || singular;
+  }
+
+  /**
+   * Convert an amount to grams. Piece units ("large", "slice", "can") and per-food
+   * cup/spoon weights come from the food; other volumes use the food's density.
+   * Returns null when the unit can't be converted for this food.
+   */
+  static toGrams(amount: number, unit: string, food?: FoodItem): number | null {
+    const normalized = this.normalizeUnit(unit);
+    const portions = food?.portions || {};
+    const definition = UNITS[normalized];
+
+    if (portions[normalized] !== undefined) {
+      return amount * portions[normalized];
+    }
+    if (definition?.kind === 'mass') {
+      return amount * definition.factor;
+    }
+    if (definition?.kind === 'volume') {
+      return amount * definition.factor * (food?.density ?? 1);
+    }
+    if (COUNT_UNITS.includes(normalized) && portions.medium !== undefined) {
+      return amount * portions.medium;
+    }
+
+    return null;
+  }
+
+  /**
+   * Whether a unit measures mass or volume; null for piece units like "slice" or "large"
+   */
+  static getUnitKind(unit: string): UnitKind | null {
+    return UNITS[this.normalizeUnit(unit)]?.kind ?? null;
+  }
+
+  /**
+   * Convert an amount to millilitres, or null if the unit isn't a volume
+   */
+  static toMilliliters(amount: number, unit: string): number | null {
+    const definition = UNITS[this.normalizeUnit(unit)];
+    return definition?.kind === 'volume' ? amount * definition.factor : null;
+  }
+
+  /**
+   * Express an amount in the chosen unit system for display. Piece units are
+   * left alone; mass and volume are converted and rounded to kitchen-friendly values.
+   */
+  static formatAmount(amount: number, unit: string, system: UnitSystem = this.getUnitSystem()): DisplayAmount {
+    const normalized = this.normalizeUnit(unit);
+    const definition = UNITS[normalized];
+
+    if (!definition) {
+      return this.buildDisplay(amount, PLURAL_UNITS.includes(normalized) ? normalized : unit.trim(), true);
+    }
+
+    const base = amount * definition.factor;
+
+    if (definition.kind === 'mass') {
+      if (system === 'imperial') {
+        const ounces = base / UNITS.oz.factor;
+        return ounces >= 16
+          ? this.buildDisplay(ounces / 16, 'lb', false)
+          : this.buildDisplay(ounces, 'oz', false);
+      }
+      return base >= 1000
+        ? this.buildDisplay(base / 1000, 'kg', false)
+        : this.buildDisplay(base, 'g', false);
+    }
+
+    // Spoons read the same in both systems
+    if (normalized === 'tsp' || normalized === 'tbsp') {
+      return this.buildDisplay(amount, definition.label, true);
+    }
+
+    if (system === 'imperial') {
+      if (base < UNITS.tbsp.factor) return this.buildDisplay(base / UNITS.tsp.factor, 'tsp', true);
+      if (base < UNITS.cup.factor / 4) return this.buildDisplay(base / UNITS.tbsp.factor, 'tbsp', true);
+      return this.buildDisplay(base / UNITS.cup.factor, 'cup', true);
+    }
+    return base >= 1000
+      ? this.buildDisplay(base / 1000, 'l', false)
+      : this.buildDisplay(base, 'ml', false);
+  }
+
+  /**
+   * Scale a recipe to a number of servings. Ingredient amounts, ingredient calories
+   * and every nutrient are multiplied by the same factor so they stay consistent.
+   */
+  static scaleMeal(meal: Meal, servings: number): Meal {
+    const currentServings = meal.servings || 1;
+    const factor = servings / currentServings;
+    if (factor === 1) return meal;
+
+    return {
+      ...meal,
+      servings,
+      ingredients: meal.ingredients.map(ingredient => ({
+        ...ingredient,
+        amount: Math.round(ingredient.amount * factor * 100) / 100,
+        calories: Math.round(ingredient.calories * factor),
+      })),
+      nutrition: FoodDatabaseService.scaleNutrition(meal.nutrition, factor),
+    };
+  }
+
+  static getUnitSystem(): UnitSystem {
+    return PreferencesService.getPreferences().unitSystem;
+  }
+
+  // Takes effect locally at once; the synced copy is saved in the background
+  static setUnitSystem(system: UnitSystem): void {
+    PreferencesService.savePreferences({ unitSystem: system });
+  }
+
+  private static buildDisplay(amount: number, unit: string, useFractions: boolean): DisplayAmount {
+    const rounded = useFractions ? this.roundToFraction(amount) : this.roundMeasure(amount);
+    const number = useFractions ? this.formatFraction(rounded) : `${rounded}`;
+    const plural = rounded > 1 && PLURAL_UNITS.includes(unit) ? `${unit}s` : unit;
+
+    return { amount: rounded, unit: plural, text: plural ? `${number} ${plural}` : number };
+  }
+
+  // Whole grams/ml for larger amounts, one decimal for small ones
+  private static roundMeasure(value: number): number {
+    return value >= 10 ? Math.round(value) : Math.round(value * 10) / 10;
+  }
+
+  private static roundToFraction(value: number): number {
+    if (value <= 0) return 0;
+    const whole = Math.floor(value);
+    const candidates = [0, ...FRACTIONS.map(([fraction]) => fraction), 1];
+    const nearest = candidates.reduce((best, fraction) =>
+      Math.abs(value - whole - fraction) < Math.abs(value - whole - best) ? fraction : best
+    );
+    // Never round a small non-zero amount down to nothing
+    return whole + nearest > 0 ? whole + nearest : FRACTIONS[0][0];
+  }
+
+  private static formatFraction(value: number): string {
+    const whole = Math.floor(value);
+    const fraction = FRACTIONS.find(([candidate]) => Math.abs(value - whole - candidate) < 0.001);
+    if (!fraction) return `${whole}`;
+    return whole > 0 ? `${whole}${fraction[1]}` : fraction[1];
+  }
+}
@@ -0,0 +1,140 @@
+import { supabase, Database } from '../lib/supabase';
+import { UserProfile } from '../types';
+import { NutritionTrackingService, WaterIntake } from './nutritionTrackingService';
+import toast from 'react-hot-toast';
+
+type WaterIntakeRow = Database['public']['Tables']['water_intake_entries']['Row'];
+type WaterIntakeInsert = Database['public']['Tables']['water_intake_entries']['Insert'];
+
+export type DrinkType = WaterIntake['type'];
+
+export interface WaterEntry extends WaterIntake {
+  id: string;
+  date: string;
+}
+
+// Quick-add buttons on the Dashboard: a typical serving of each drink
+export const DRINK_SERVINGS: Record<DrinkType, { label: string; amount: number }> = {
+  water: { label: 'Water', amount: 250 },
+  tea: { label: 'Tea', amount: 200 },
+  coffee: { label: 'Coffee', amount: 150 },
+  juice: { label: 'Juice', amount: 200 },
+  other: { label: 'Other', amount: 250 },
+};
+
+export class WaterService {
+  static async logWater(date: string, amount: number, type: DrinkType): Promise<{ data: WaterEntry | null; error: any }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('No authenticated user found');
+      }
+
+      const waterInsert: WaterIntakeInsert = {
+        user_id: user.id,
+        entry_date: date,
+        amount_ml: Math.round(amount),
+        drink_type: type,
+        logged_at: new Date().toISOString(),
+      };
+
+      const { data, error } = await supabase
+        .from('water_intake_entries')
+        .insert(waterInsert)
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Water intake save error:', error);
+        toast.error('Failed to log drink');
+        return { data: null, error };
+      }
+
+      return { data: this.waterIntakeRowToWaterEntry(data), error: null };
+    } catch (error: any) {
+      console.error('Water service error:', error);
+      toast.error('An unexpected error occurred');
+      return { data: null, error: { message: error.message } };
+    }
+  }
+
+  /**
+   * Drinks logged on a day, oldest first
+   */
+  static async getWaterEntries(date: string): Promise<{ data: WaterEntry[] | null; error: any }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('No authenticated user found');
+      }
+
+      const { data, error } = await supabase
+        .from('water_intake_entries')
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('entry_date', date)
+        .order('logged_at', { ascending: true });
+
+      if (error) {
+        console.error('Water intake fetch error:', error);
+        return { data: null, error };
+      }
+
+      return { data: (data || []).map(row => this.waterIntakeRowToWaterEntry(row)), error: null };
+    } catch (error: any) {
+      console.error('Water service error:', error);
+      return { data: null, error: { message: error.message } };
+    }
+  }
+
+  static async deleteWaterEntry(entryId: string): Promise<{ error: any }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('No authenticated user found');
+      }
+
+      const { error } = await supabase
+        .from('water_intake_entries')
+        .delete()
+        .eq('id', entryId)
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Delete water intake error:', error);
+        toast.error('Failed to remove drink');
+        return { error };
+      }
+
+      return { error: null };
+    } catch (error: any) {
+      console.error('Water service error:', error);
+      toast.error('An unexpected error occurred');
+      return { error: { message: error.message } };
+    }
+  }
+
+  static getTotal(entries: WaterIntake[]): number {
+    return entries.reduce((sum, entry) => sum + entry.amount, 0);
+  }
+
+  /**
+   * Daily goal in ml from body weight and activity level
+   */
+  static getDailyGoal(profile: UserProfile): number {
+    return NutritionTrackingService.calculateWaterGoal(profile.personalDetails.weight, profile.personalDetails.activityLevel);
+  }
+
+  static waterIntakeRowToWaterEntry(row: WaterIntakeRow): WaterEntry {
+    return {
+      id: row.id,
+      date: row.entry_date,
+      amount: row.amount_ml,
+      time: row.logged_at,
+      type: row.drink_type,
+    };
+  }
+}
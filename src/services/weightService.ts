@@ -0,0 +1,212 @@
+import { supabase, Database } from '../lib/supabase';
+import { WeightEntry } from '../types';
+import toast from 'react-hot-toast';
+
+type WeightEntryRow = Database['public']['Tables']['weight_entries']['Row'];
+type WeightEntryInsert = Database['public']['Tables']['weight_entries']['Insert'];
+
+export interface WeightTrendPoint {
+  date: string;
+  weight: number | null; // the logged weight, null on days without an entry
+  trend: number;
+}
+
+export interface WeightProjection {
+  currentTrend: number;
+  targetWeight: number;
+  weeklyRate: number; // kg per week, negative when losing
+  goalDate: string | null; // null when the trend isn't heading towards the target
+}
+
+// Share of each new weigh-in that moves the trend; 0.1 smooths out water and food swings
+const TREND_SMOOTHING = 0.1;
+
+// How far back the weekly rate of change looks
+const RATE_WINDOW_DAYS = 28;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDayNumber = (date: string) => Math.floor(Date.parse(`${date}T00:00:00Z`) / DAY_MS);
+const fromDayNumber = (day: number) => new Date(day * DAY_MS).toISOString().split('T')[0];
+
+export class WeightService {
+  /**
+   * Log a weigh-in. A second entry on the same date replaces the first.
+   */
+  static async logWeight(entry: Omit<WeightEntry, 'id' | 'createdAt'>): Promise<{ data: WeightEntry | null; error: any }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('No authenticated user found');
+      }
+
+      const weightInsert: WeightEntryInsert = {
+        user_id: user.id,
+        entry_date: entry.date,
+        weight: entry.weight,
+        body_fat_percentage: entry.bodyFatPercentage ?? null,
+        note: entry.note || null,
+        updated_at: new Date().toISOString(),
+      };
+
+      const { data, error } = await supabase
+        .from('weight_entries')
+        .upsert(weightInsert, { onConflict: 'user_id,entry_date' })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Weight entry save error:', error);
+        toast.error('Failed to save weight');
+        return { data: null, error };
+      }
+
+      toast.success('Weight logged');
+      return { data: this.weightEntryRowToWeightEntry(data), error: null };
+    } catch (error: any) {
+      console.error('Weight service error:', error);
+      toast.error('An unexpected error occurred');
+      return { data: null, error: { message: error.message } };
+    }
+  }
+
+  /**
+   * Weigh-ins in date order, optionally only those on or after `fromDate`
+   */
+  static async getWeightEntries(fromDate?: string): Promise<{ data: WeightEntry[] | null; error: any }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('No authenticated user found');
+      }
+
+      let query = supabase
+        .from('weight_entries')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('entry_date', { ascending: true });
+
+      if (fromDate) query = query.gte('entry_date', fromDate);
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Weight entries fetch error:', error);
+        return { data: null, error };
+      }
+
+      return { data: (data || []).map(row => this.weightEntryRowToWeightEntry(row)), error: null };
+    } catch (error: any) {
+      console.error('Weight service error:', error);
+      return { data: null, error: { message: error.message } };
+    }
+  }
+
+  static async deleteWeightEntry(entryId: string): Promise<{ error: any }> {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      if (!user) {
+        throw new Error('No authenticated user found');
+      }
+
+      const { error } = await supabase
+        .from('weight_entries')
+        .delete()
+        .eq('id', entryId)
+        .eq('user_id', user.id);
+
+      if (error) {
+        console.error('Delete weight entry error:', error);
+        toast.error('Failed to delete weight entry');
+        return { error };
+      }
+
+      return { error: null };
+    } catch (error: any) {
+      console.error('Weight service error:', error);
+      toast.error('An unexpected error occurred');
+      return { error: { message: error.message } };
+    }
+  }
+
+  /**
+   * One point per calendar day from the first entry to `endDate`, with an
+   * exponential moving average carried across days without a weigh-in.
+   */
+  static calculateTrend(entries: WeightEntry[], endDate: string = new Date().toISOString().split('T')[0]): WeightTrendPoint[] {
+    if (entries.length === 0) return [];
+
+    const byDay = new Map(entries.map(entry => [toDayNumber(entry.date), entry.weight]));
+    const firstDay = Math.min(...byDay.keys());
+    const lastDay = Math.max(toDayNumber(endDate), ...byDay.keys());
+
+    const points: WeightTrendPoint[] = [];
+    let trend = byDay.get(firstDay)!;
+
+    for (let day = firstDay; day <= lastDay; day++) {
+      const weight = byDay.get(day);
+      if (weight !== undefined) trend += TREND_SMOOTHING * (weight - trend);
+      points.push({ date: fromDayNumber(day), weight: weight ?? null, trend: Math.round(trend * 100) / 100 });
+    }
+
+    return points;
+  }
+
+  /**
+   * Weekly rate of change of the trend, from a least-squares fit over the recent window
+   */
+  static calculateWeeklyRate(trend: WeightTrendPoint[]): number {
+    // Days after the last weigh-in only repeat the trend, so they'd drag the rate towards zero
+    let lastWeighIn = trend.length - 1;
+    while (lastWeighIn >= 0 && trend[lastWeighIn].weight === null) lastWeighIn--;
+    const recent = trend.slice(0, lastWeighIn + 1).slice(-RATE_WINDOW_DAYS);
+    if (recent.length < 2) return 0;
+
+    const n = recent.length;
+    const meanX = (n - 1) / 2;
+    const meanY = recent.reduce((sum, point) => sum + point.trend, 0) / n;
+    const { covariance, variance } = recent.reduce(
+      (acc, point, x) => ({
+        covariance: acc.covariance + (x - meanX) * (point.trend - meanY),
+        variance: acc.variance + (x - meanX) ** 2,
+      }),
+      { covariance: 0, variance: 0 }
+    );
+
+    return Math.round((covariance / variance) * 7 * 100) / 100;
+  }
+
+  /**
+   * When the current trend will reach the target weight at the current weekly rate
+   */
+  static projectGoal(trend: WeightTrendPoint[], targetWeight: number): WeightProjection | null {
+    if (trend.length === 0 || !targetWeight) return null;
+
+    const last = trend[trend.length - 1];
+    const weeklyRate = this.calculateWeeklyRate(trend);
+    const remaining = targetWeight - last.trend;
+
+    let goalDate: string | null = null;
+    if (Math.abs(remaining) < 0.1) {
+      goalDate = last.date;
+    } else if (weeklyRate !== 0 && Math.sign(weeklyRate) === Math.sign(remaining)) {
+      goalDate = fromDayNumber(toDayNumber(last.date) + Math.ceil((remaining / weeklyRate) * 7));
+    }
+
+    return { currentTrend: last.trend, targetWeight, weeklyRate, goalDate };
+  }
+
+  static weightEntryRowToWeightEntry(row: WeightEntryRow): WeightEntry {
+    return {
+      id: row.id,
+      date: row.entry_date,
+      weight: Number(row.weight),
+      bodyFatPercentage: row.body_fat_percentage !== null ? Number(row.body_fat_percentage) : undefined,
+      note: row.note || undefined,
+      createdAt: row.created_at,
+    };
+  }
+}
@@ -1,3 +1,5 @@
+export type BmrFormula = 'mifflin_st_jeor' | 'katch_mcardle' | 'harris_benedict';
+
 export interface UserProfile {
   id: string;
   name: string;
@@ -9,6 +11,7 @@ export interface UserProfile {
     weight: number; // kg
     height: number; // cm
     activityLevel: 'sedentary' | 'light' | 'moderate' | 'active' | 'very_active';
+    bodyFatPercentage?: number; // enables the Katch-McArdle formula
   };
   healthGoals: {
     primary: 'weight_loss' | 'muscle_gain' | 'maintenance' | 'general_health';
@@ -30,6 +33,7 @@ export interface UserProfile {
       snacks: string[];
     };
     budgetRange: 'low' | 'medium' | 'high';
+    bmrFormula?: BmrFormula; // defaults to Katch-McArdle with body fat, Mifflin-St Jeor without
   };
   medicalConditions: string[];
   sportActivities: string[];
@@ -62,6 +66,13 @@ export interface DietPlan {
   };
 }
 
+export interface NutritionTargets {
+  dailyCalories: number;
+  protein: number; // grams
+  carbs: number; // grams
+  fat: number; // grams
+}
+
 export interface DayMeal {
   day: number;
   date: string;
@@ -76,43 +87,144 @@ export interface DayMeal {
   notes?: string;
 }
 
+// What `diet_plans.meals_data` stores; see DietPlanService.parseMealsData
+export interface MealsDataDocument {
+  schemaVersion: number;
+  days: DayMeal[];
+  unreadableDays?: unknown[]; // stored days that failed validation, kept for recovery
+}
+
 export interface Meal {
   id: string;
   name: string;
   description: string;
   ingredients: Ingredient[];
   instructions: string[];
-  nutrition: {
-    calories: number;
-    protein: number;
-    carbs: number;
-    fat: number;
-    fiber: number;
-  };
+  nutrition: MealNutrition;
   prepTime: number; // minutes
   cookTime: number; // minutes
   servings: number;
-  completed: boolean;
+  completed: boolean; // legacy flag from before meal_logs; what was eaten is recorded there
   rating?: number;
   notes?: string;
   modifications?: string[];
 }
 
+export interface MealNutrition {
+  calories: number;
+  protein: number; // g
+  carbs: number; // g
+  fat: number; // g
+  fiber: number; // g
+  sugar?: number; // g
+  sodium?: number; // mg
+  cholesterol?: number; // mg
+  vitamins?: Vitamins;
+  minerals?: Minerals;
+}
+
+export interface Vitamins {
+  vitaminA?: number; // µg RAE
+  vitaminC?: number; // mg
+  vitaminD?: number; // µg
+  vitaminE?: number; // mg
+  vitaminK?: number; // µg
+  thiamin?: number; // mg
+  riboflavin?: number; // mg
+  niacin?: number; // mg
+  vitaminB6?: number; // mg
+  folate?: number; // µg
+  vitaminB12?: number; // µg
+}
+
+export interface Minerals {
+  calcium?: number; // mg
+  iron?: number; // mg
+  magnesium?: number; // mg
+  phosphorus?: number; // mg
+  potassium?: number; // mg
+  zinc?: number; // mg
+  copper?: number; // mg
+  manganese?: number; // mg
+  selenium?: number; // µg
+}
+
 export interface Ingredient {
   id: string;
   name: string;
   amount: number;
   unit: string;
   calories: number;
+  foodId?: string; // entry in the bundled food database, when matched
   optional?: boolean;
 }
 
+// 'breakfast', 'lunch', 'dinner' or 'snack_<index>'
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner' | `snack_${number}`;
+
+export interface MealLog {
+  id: string;
+  date: string; // YYYY-MM-DD
+  slot: MealSlot;
+  planId?: string;
+  plannedMealId?: string;
+  plannedMealName?: string;
+  plannedNutrition?: MealNutrition;
+  eatenMealName: string;
+  eatenNutrition: MealNutrition; // for a full portion of the eaten item
+  portion: number; // 1 = the whole portion, 0.5 = half
+  notes?: string;
+  loggedAt: string;
+}
+
+export interface WeightEntry {
+  id: string;
+  date: string; // YYYY-MM-DD
+  weight: number; // kg
+  bodyFatPercentage?: number;
+  note?: string;
+  createdAt: string;
+}
+
 export interface NotificationSettings {
-  smsEnabled: boolean;
-  emailEnabled: boolean;
   mealReminders: boolean;
+  hydrationReminders: boolean;
   progressUpdates: boolean;
-  phoneNumber: string;
+  achievements: boolean;
+  systemNotifications: boolean;
+  browserNotifications: boolean; // Web Push on this user's devices
+  smsEnabled: boolean;
+  emailEnabled: boolean;
+  reminderTime: number; // minutes before a meal
+  wakeTime: string; // HH:MM
+  sleepTime: string; // HH:MM
+  quietHours: {
+    enabled: boolean;
+    start: string; // HH:MM
+    end: string; // HH:MM, may be earlier than start to cross midnight
+  };
+}
+
+export type ThemePreference = 'light' | 'dark' | 'system';
+
+export interface UserPreferences {
+  notifications: NotificationSettings;
+  unitSystem: 'metric' | 'imperial';
+  language: string;
+  theme: ThemePreference;
+}
+
+export type InboxNotificationType = 'meal_reminder' | 'progress_update' | 'achievement' | 'system';
+
+export interface InboxNotification {
+  id: string;
+  type: InboxNotificationType;
+  title: string;
+  message: string;
+  timestamp: string;
+  read: boolean;
+  actionRequired?: boolean;
+  actionUrl?: string;
 }
 
 export interface ContactForm {
@@ -0,0 +1,50 @@
+// Signed tokens that let notification actions ("Mark eaten", "Snooze") act for a user
+// without a session: the service worker posts the token back to `notification-action`.
+
+export interface ActionClaims {
+  userId: string;
+  reminderKey: string;
+  date: string; // the user's local date when the reminder was sent
+  expiresAt: number; // epoch ms
+}
+
+// Actions stay valid for a day, long enough to answer a reminder the next morning
+export const ACTION_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+const encoder = new TextEncoder();
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const fromBase64Url = (value: string) =>
+  Uint8Array.from(atob(value.replace(/-/g, '+').replace(/_/g, '/')), char => char.charCodeAt(0));
+
+const getKey = () => {
+  const secret = Deno.env.get('NOTIFICATION_ACTION_SECRET');
+  if (!secret) throw new Error('NOTIFICATION_ACTION_SECRET is not set');
+  return crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign', 'verify']);
+};
+
+export async function signActionToken(claims: ActionClaims): Promise<string> {
+  const payload = toBase64Url(encoder.encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign('HMAC', await getKey(), encoder.encode(payload));
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * The token's claims, or null if it's malformed, tampered with or expired
+ */
+export async function verifyActionToken(token: string): Promise<ActionClaims | null> {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  try {
+    const valid = await crypto.subtle.verify('HMAC', await getKey(), fromBase64Url(signature), encoder.encode(payload));
+    if (!valid) return null;
+
+    const claims = JSON.parse(new TextDecoder().decode(fromBase64Url(payload))) as ActionClaims;
+    return claims.expiresAt > Date.now() ? claims : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,116 @@
+// Delivery channels for server-side notifications. Each sender throws on failure;
+// without credentials it logs the message instead so the scheduler can run locally.
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+import webpush from 'npm:web-push@3.6.7';
+import { sendSms } from './sms.ts';
+
+export type Channel = 'push' | 'sms' | 'email';
+
+export interface Recipient {
+  userId: string;
+  name: string;
+  email: string | null;
+  phoneNumber: string | null;
+  pushSubscriptions: { endpoint: string; p256dh: string; auth: string }[];
+}
+
+export interface OutgoingMessage {
+  kind: string;
+  key: string; // reminder key, also used as the notification tag
+  title: string;
+  body: string;
+  data?: Record<string, string>; // passed through to the service worker, e.g. action tokens
+}
+
+export interface SendContext {
+  supabase: SupabaseClient;
+}
+
+export type ChannelSender = (recipient: Recipient, message: OutgoingMessage, context: SendContext) => Promise<void>;
+
+const dryRun = (channel: Channel, to: string, message: OutgoingMessage) => {
+  console.log(`[${channel}] (not configured) to ${to}: ${message.title} - ${message.body}`);
+};
+
+// Consent, E.164 validation, rate limits and the delivery log live in the shared SMS module
+const sendSmsReminder: ChannelSender = async (recipient, message, { supabase }) => {
+  const result = await sendSms(supabase, {
+    userId: recipient.userId,
+    body: `${message.title}: ${message.body}`,
+    kind: 'reminder',
+  });
+  if (result.error) throw new Error(result.error);
+};
+
+// Uses the EmailJS REST API so the same templates serve the app and the scheduler
+const sendEmail: ChannelSender = async (recipient, message) => {
+  if (!recipient.email) throw new Error('No email on profile');
+
+  const serviceId = Deno.env.get('EMAILJS_SERVICE_ID');
+  const templateId = Deno.env.get('EMAILJS_REMINDER_TEMPLATE_ID');
+  const publicKey = Deno.env.get('EMAILJS_PUBLIC_KEY');
+  const privateKey = Deno.env.get('EMAILJS_PRIVATE_KEY');
+  if (!serviceId || !templateId || !publicKey || !privateKey) return dryRun('email', recipient.email, message);
+
+  const response = await fetch('https://api.emailjs.com/api/v1.0/email/send', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      service_id: serviceId,
+      template_id: templateId,
+      user_id: publicKey,
+      accessToken: privateKey,
+      template_params: {
+        to_email: recipient.email,
+        to_name: recipient.name,
+        subject: message.title,
+        message: message.body,
+      },
+    }),
+  });
+
+  if (!response.ok) throw new Error(`EmailJS responded ${response.status}: ${await response.text()}`);
+};
+
+// VAPID-signed Web Push to every device the user has subscribed
+const sendPush: ChannelSender = async (recipient, message, { supabase }) => {
+  if (recipient.pushSubscriptions.length === 0) return;
+
+  const publicKey = Deno.env.get('VAPID_PUBLIC_KEY');
+  const privateKey = Deno.env.get('VAPID_PRIVATE_KEY');
+  if (!publicKey || !privateKey) return dryRun('push', recipient.userId, message);
+
+  webpush.setVapidDetails(Deno.env.get('VAPID_SUBJECT') || 'mailto:support@nutriguide.com', publicKey, privateKey);
+  const payload = JSON.stringify({ title: message.title, body: message.body, tag: message.key, kind: message.kind, data: message.data || {} });
+
+  const failures: string[] = [];
+  await Promise.all(recipient.pushSubscriptions.map(async subscription => {
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        payload,
+        { TTL: 60 * 60 }
+      );
+      await supabase
+        .from('push_subscriptions')
+        .update({ last_used_at: new Date().toISOString() })
+        .eq('endpoint', subscription.endpoint);
+    } catch (error) {
+      const statusCode = (error as { statusCode?: number }).statusCode;
+      // The browser has dropped the subscription, so forget the device
+      if (statusCode === 404 || statusCode === 410) {
+        await supabase.from('push_subscriptions').delete().eq('endpoint', subscription.endpoint);
+      } else {
+        failures.push(error instanceof Error ? error.message : String(error));
+      }
+    }
+  }));
+
+  if (failures.length > 0) throw new Error(failures.join('; '));
+};
+
+export const channelSenders: Record<Channel, ChannelSender> = {
+  push: sendPush,
+  sms: sendSmsReminder,
+  email: sendEmail,
+};
@@ -0,0 +1,144 @@
+// Server-side SMS: provider adapters, consent and rate limits, and the delivery log in
+// `sms_messages`. Provider credentials never reach the browser bundle.
+import type { SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+export type SmsStatus = 'queued' | 'sent' | 'delivered' | 'undelivered' | 'failed' | 'blocked' | 'rate_limited';
+
+export interface SmsProvider {
+  name: string;
+  send(to: string, body: string): Promise<{ id: string | null; status: SmsStatus }>;
+}
+
+export interface SmsRequest {
+  userId: string;
+  body: string;
+  kind: string;
+}
+
+export interface SmsResult {
+  status: SmsStatus;
+  error: string | null;
+}
+
+// Per-user caps; reminders alone stay well under these
+const HOURLY_LIMIT = Number(Deno.env.get('SMS_HOURLY_LIMIT') || 6);
+const DAILY_LIMIT = Number(Deno.env.get('SMS_DAILY_LIMIT') || 20);
+
+const E164 = /^\+[1-9]\d{7,14}$/;
+
+export const isE164 = (phoneNumber: string) => E164.test(phoneNumber);
+
+const twilioProvider = (accountSid: string, authToken: string, fromNumber: string): SmsProvider => ({
+  name: 'twilio',
+  async send(to, body) {
+    const params = new URLSearchParams({ From: fromNumber, To: to, Body: body });
+    const statusCallback = Deno.env.get('TWILIO_STATUS_CALLBACK_URL');
+    if (statusCallback) params.set('StatusCallback', statusCallback);
+
+    const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: params,
+    });
+
+    const result = await response.json();
+    if (!response.ok) throw new Error(result.message || `Twilio responded ${response.status}`);
+    return { id: result.sid, status: 'queued' };
+  },
+});
+
+// Local testing: append messages to SMS_SINK_FILE and/or POST them to SMS_SINK_URL
+const sinkProvider = (file?: string, url?: string): SmsProvider => ({
+  name: 'sink',
+  async send(to, body) {
+    const id = `sink-${crypto.randomUUID()}`;
+    const record = { id, to, body, sentAt: new Date().toISOString() };
+
+    if (file) await Deno.writeTextFile(file, `${JSON.stringify(record)}\n`, { append: true });
+    if (url) {
+      const response = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(record) });
+      if (!response.ok) throw new Error(`SMS sink responded ${response.status}`);
+    }
+    if (!file && !url) console.log(`[sms sink] to ${to}: ${body}`);
+
+    return { id, status: 'delivered' };
+  },
+});
+
+/**
+ * Twilio when SMS_PROVIDER=twilio (or unset and credentials exist), otherwise the sink
+ */
+export function getSmsProvider(): SmsProvider {
+  const accountSid = Deno.env.get('TWILIO_ACCOUNT_SID');
+  const authToken = Deno.env.get('TWILIO_AUTH_TOKEN');
+  const fromNumber = Deno.env.get('TWILIO_PHONE_NUMBER');
+  const configured = Deno.env.get('SMS_PROVIDER');
+
+  if (configured !== 'sink' && accountSid && authToken && fromNumber) {
+    return twilioProvider(accountSid, authToken, fromNumber);
+  }
+  if (configured === 'twilio') throw new Error('SMS_PROVIDER=twilio but Twilio credentials are missing');
+
+  return sinkProvider(Deno.env.get('SMS_SINK_FILE'), Deno.env.get('SMS_SINK_URL'));
+}
+
+const countSince = async (supabase: SupabaseClient, userId: string, since: Date) => {
+  const { count } = await supabase
+    .from('sms_messages')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .in('status', ['queued', 'sent', 'delivered'])
+    .gte('created_at', since.toISOString());
+  return count || 0;
+};
+
+/**
+ * Send a text to the user's profile number if they've opted in and are under the
+ * rate limits. Every attempt, including refused ones, lands in the delivery log.
+ */
+export async function sendSms(supabase: SupabaseClient, request: SmsRequest): Promise<SmsResult> {
+  const { data: profile } = await supabase
+    .from('profiles')
+    .select('phone_number, sms_opt_in')
+    .eq('user_id', request.userId)
+    .maybeSingle();
+
+  const to = profile?.phone_number || '';
+  let provider: SmsProvider | null = null;
+  let result: SmsResult & { id?: string | null };
+
+  if (!isE164(to)) {
+    result = { status: 'blocked', error: 'Phone number is not in E.164 format' };
+  } else if (!profile?.sms_opt_in) {
+    result = { status: 'blocked', error: 'User has not opted in to SMS' };
+  } else if (
+    (await countSince(supabase, request.userId, new Date(Date.now() - 60 * 60 * 1000))) >= HOURLY_LIMIT ||
+    (await countSince(supabase, request.userId, new Date(Date.now() - 24 * 60 * 60 * 1000))) >= DAILY_LIMIT
+  ) {
+    result = { status: 'rate_limited', error: 'SMS rate limit reached' };
+  } else {
+    try {
+      provider = getSmsProvider();
+      const sent = await provider.send(to, request.body);
+      result = { status: sent.status, error: null, id: sent.id };
+    } catch (error) {
+      result = { status: 'failed', error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  await supabase.from('sms_messages').insert({
+    user_id: request.userId,
+    to_number: to,
+    body: request.body,
+    kind: request.kind,
+    provider: provider?.name || 'none',
+    provider_message_id: result.id || null,
+    status: result.status,
+    error: result.error,
+  });
+
+  return { status: result.status, error: result.error };
+}
@@ -0,0 +1,147 @@
+// Account deletion with a grace period. Signed-in users can "request" deletion (after
+// confirming their password) or "cancel" a pending request. Called with the service-role
+// key, as the daily cron job does, it erases every account whose grace period is over.
+import { createClient, SupabaseClient } from 'npm:@supabase/supabase-js@2';
+
+const GRACE_PERIOD_DAYS = 7;
+
+// Every table holding a user's data. All of them cascade from auth.users, so deleting
+// the auth user erases them; the counts go into the audit record.
+const USER_TABLES = [
+  'profiles',
+  'diet_plans',
+  'meal_logs',
+  'weight_entries',
+  'water_intake_entries',
+  'scheduled_notifications',
+  'push_subscriptions',
+  'sms_messages',
+  'notifications',
+  'user_preferences',
+];
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const respond = (body: Record<string, unknown>, status = 200) =>
+  Response.json(body, { status, headers: corsHeaders });
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const anonKey = Deno.env.get('SUPABASE_ANON_KEY')!;
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+const countRows = async (supabase: SupabaseClient, userId: string): Promise<Record<string, number>> => {
+  const counts = await Promise.all(USER_TABLES.map(async table => {
+    const { count, error } = await supabase.from(table).select('*', { count: 'exact', head: true }).eq('user_id', userId);
+    if (error) throw new Error(`${table}: ${error.message}`);
+    return [table, count || 0] as const;
+  }));
+  return Object.fromEntries(counts);
+};
+
+const eraseDueAccounts = async (supabase: SupabaseClient) => {
+  const { data: due, error } = await supabase
+    .from('account_deletions')
+    .select('id, user_id')
+    .eq('status', 'pending')
+    .lte('scheduled_for', new Date().toISOString());
+
+  if (error) return respond({ error: error.message }, 500);
+
+  let erased = 0;
+  let failed = 0;
+
+  for (const request of due || []) {
+    try {
+      const erasedRows = await countRows(supabase, request.user_id);
+
+      const { error: deleteError } = await supabase.auth.admin.deleteUser(request.user_id);
+      if (deleteError && deleteError.status !== 404) throw deleteError;
+
+      const remaining = Object.entries(await countRows(supabase, request.user_id)).filter(([, count]) => count > 0);
+      if (remaining.length > 0) {
+        throw new Error(`Rows left after deleting the user: ${remaining.map(([table, count]) => `${table} (${count})`).join(', ')}`);
+      }
+
+      await supabase
+        .from('account_deletions')
+        .update({ status: 'completed', completed_at: new Date().toISOString(), erased_rows: erasedRows, error: null })
+        .eq('id', request.id);
+      erased++;
+    } catch (eraseError) {
+      failed++;
+      await supabase
+        .from('account_deletions')
+        .update({ error: eraseError instanceof Error ? eraseError.message : String(eraseError) })
+        .eq('id', request.id);
+    }
+  }
+
+  return respond({ due: (due || []).length, erased, failed });
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response(null, { headers: corsHeaders });
+  if (req.method !== 'POST') return respond({ error: 'Method not allowed' }, 405);
+
+  const authorization = req.headers.get('Authorization') || '';
+  const supabase = createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } });
+
+  if (authorization === `Bearer ${serviceRoleKey}`) {
+    return eraseDueAccounts(supabase);
+  }
+
+  const userClient = createClient(supabaseUrl, anonKey, {
+    global: { headers: { Authorization: authorization } },
+    auth: { persistSession: false },
+  });
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) return respond({ error: 'Unauthorized' }, 401);
+
+  const { action, password } = await req.json().catch(() => ({}));
+
+  if (action === 'request') {
+    // Re-authenticate: a stolen session alone can't delete the account
+    if (!user.email || typeof password !== 'string' || password.length === 0) {
+      return respond({ error: 'Password is required' }, 400);
+    }
+    const verifyClient = createClient(supabaseUrl, anonKey, { auth: { persistSession: false } });
+    const { error: signInError } = await verifyClient.auth.signInWithPassword({ email: user.email, password });
+    if (signInError) return respond({ error: 'Password is incorrect' }, 403);
+
+    const scheduledFor = new Date(Date.now() + GRACE_PERIOD_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const { data: request, error } = await supabase
+      .from('account_deletions')
+      .insert({ user_id: user.id, scheduled_for: scheduledFor })
+      .select()
+      .single();
+
+    if (error) {
+      // The partial unique index allows one pending request per user
+      if (error.code === '23505') return respond({ error: 'Account deletion is already scheduled' }, 409);
+      return respond({ error: error.message }, 500);
+    }
+
+    return respond({ deletion: request });
+  }
+
+  if (action === 'cancel') {
+    const { data: request, error } = await supabase
+      .from('account_deletions')
+      .update({ status: 'cancelled', cancelled_at: new Date().toISOString() })
+      .eq('user_id', user.id)
+      .eq('status', 'pending')
+      .select()
+      .maybeSingle();
+
+    if (error) return respond({ error: error.message }, 500);
+    if (!request) return respond({ error: 'No account deletion is scheduled' }, 404);
+
+    return respond({ deletion: request });
+  }
+
+  return respond({ error: `Unknown action: ${action}` }, 400);
+});
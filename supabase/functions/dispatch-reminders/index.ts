@@ -0,0 +1,138 @@
+// Sends the reminders in `scheduled_notifications` that are due. Run every minute by
+// pg_cron in production, or by `npm run reminders:worker` during development.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { Channel, channelSenders, Recipient } from '../_shared/channels.ts';
+import { ACTION_TOKEN_TTL_MS, signActionToken } from '../_shared/actionToken.ts';
+
+interface ScheduledNotification {
+  id: string;
+  user_id: string;
+  reminder_key: string;
+  kind: string;
+  title: string;
+  body: string;
+  time_zone: string;
+  channels: Channel[];
+  run_once: boolean;
+}
+
+const BATCH_SIZE = 200;
+
+// How each reminder kind appears in the in-app inbox; hydration shares the reminder type
+const INBOX_ENTRIES: Record<string, { type: string; actionUrl: string; actionRequired: boolean }> = {
+  meal: { type: 'meal_reminder', actionUrl: '/dashboard', actionRequired: true },
+  hydration: { type: 'meal_reminder', actionUrl: '/dashboard', actionRequired: false },
+  progress: { type: 'progress_update', actionUrl: '/progress', actionRequired: false },
+};
+
+const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+
+// "YYYY-MM-DD" in the user's time zone, matching the dates of their plan and meal logs
+const localDate = (timeZone: string) => new Intl.DateTimeFormat('en-CA', { timeZone }).format(new Date());
+
+// Lets push actions ("Mark eaten", "Snooze 15 min") answer the reminder without a session
+const actionData = async (reminder: ScheduledNotification): Promise<Record<string, string>> => {
+  const date = localDate(reminder.time_zone);
+  const token = await signActionToken({
+    userId: reminder.user_id,
+    reminderKey: reminder.reminder_key,
+    date,
+    expiresAt: Date.now() + ACTION_TOKEN_TTL_MS,
+  });
+  return { actionUrl: `${supabaseUrl}/functions/v1/notification-action`, token, date };
+};
+
+Deno.serve(async (req) => {
+  // Only the cron job and the local worker may trigger a dispatch
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const supabase = createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } });
+
+  const { data: due, error } = await supabase.rpc('claim_due_notifications', { batch_size: BATCH_SIZE });
+  if (error) {
+    console.error('Claim due notifications error:', error);
+    return Response.json({ error: error.message }, { status: 500 });
+  }
+
+  const reminders = (due || []) as ScheduledNotification[];
+  if (reminders.length === 0) return Response.json({ claimed: 0, sent: 0, failed: 0 });
+
+  const userIds = [...new Set(reminders.map(reminder => reminder.user_id))];
+  const [{ data: profiles }, { data: subscriptions }, { data: deletions }] = await Promise.all([
+    supabase.from('profiles').select('user_id, name, email, phone_number').in('user_id', userIds),
+    supabase.from('push_subscriptions').select('user_id, endpoint, p256dh, auth').in('user_id', userIds),
+    supabase.from('account_deletions').select('user_id').eq('status', 'pending').in('user_id', userIds),
+  ]);
+
+  // Accounts waiting out their deletion grace period get nothing until they cancel
+  const pendingDeletion = new Set((deletions || []).map(deletion => deletion.user_id));
+
+  const recipients = new Map<string, Recipient>(
+    (profiles || []).filter(profile => !pendingDeletion.has(profile.user_id)).map(profile => [profile.user_id, {
+      userId: profile.user_id,
+      name: profile.name,
+      email: profile.email,
+      phoneNumber: profile.phone_number,
+      pushSubscriptions: (subscriptions || []).filter(subscription => subscription.user_id === profile.user_id),
+    }])
+  );
+
+  let sent = 0;
+  let failed = 0;
+  const inbox: Record<string, unknown>[] = [];
+
+  for (const reminder of reminders) {
+    const recipient = recipients.get(reminder.user_id);
+    const errors: string[] = [];
+    const data = reminder.channels.includes('push') ? await actionData(reminder) : undefined;
+
+    for (const channel of reminder.channels) {
+      const send = channelSenders[channel];
+      if (!send || !recipient) continue;
+
+      try {
+        await send(
+          recipient,
+          { kind: reminder.kind, key: reminder.reminder_key, title: reminder.title, body: reminder.body, data },
+          { supabase }
+        );
+        sent++;
+      } catch (sendError) {
+        failed++;
+        errors.push(`${channel}: ${sendError instanceof Error ? sendError.message : String(sendError)}`);
+      }
+    }
+
+    const entry = INBOX_ENTRIES[reminder.kind];
+    if (recipient && entry) {
+      inbox.push({
+        user_id: reminder.user_id,
+        type: entry.type,
+        title: reminder.title,
+        message: reminder.body,
+        action_required: entry.actionRequired,
+        action_url: entry.actionUrl,
+      });
+    }
+
+    // One-off reminders (snoozes) are done once sent
+    if (reminder.run_once) {
+      await supabase.from('scheduled_notifications').delete().eq('id', reminder.id);
+    } else {
+      await supabase
+        .from('scheduled_notifications')
+        .update({ last_error: errors.length > 0 ? errors.join('; ') : null })
+        .eq('id', reminder.id);
+    }
+  }
+
+  if (inbox.length > 0) {
+    const { error: inboxError } = await supabase.from('notifications').insert(inbox);
+    if (inboxError) console.error('Inbox insert error:', inboxError);
+  }
+
+  return Response.json({ claimed: reminders.length, sent, failed });
+});
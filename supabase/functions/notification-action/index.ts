@@ -0,0 +1,115 @@
+// Handles push notification actions posted by the service worker: "mark_eaten" logs the
+// planned meal for the reminder's slot, "snooze" sends the same reminder again in 15 minutes.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { verifyActionToken } from '../_shared/actionToken.ts';
+
+const SNOOZE_MINUTES = 15;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const respond = (body: Record<string, unknown>, status = 200) =>
+  Response.json(body, { status, headers: corsHeaders });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response(null, { headers: corsHeaders });
+  if (req.method !== 'POST') return respond({ error: 'Method not allowed' }, 405);
+
+  const { action, token } = await req.json().catch(() => ({}));
+  const claims = typeof token === 'string' ? await verifyActionToken(token) : null;
+  if (!claims) return respond({ error: 'Invalid or expired action' }, 401);
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false },
+  });
+
+  // Snoozed reminders carry the original key with a ":snooze" suffix
+  const reminderKey = claims.reminderKey.split(':')[0];
+
+  if (action === 'mark_eaten') {
+    const slot = reminderKey.startsWith('meal-') ? reminderKey.slice('meal-'.length) : null;
+    if (!slot) return respond({ error: 'Not a meal reminder' }, 400);
+
+    const { data: plan } = await supabase
+      .from('diet_plans')
+      .select('id, meals_data')
+      .eq('user_id', claims.userId)
+      .eq('is_active', true)
+      .maybeSingle();
+
+    // meals_data is a { schemaVersion, days } document; plans saved before versioning hold the bare array
+    const days = Array.isArray(plan?.meals_data) ? plan.meals_data : plan?.meals_data?.days || [];
+    const day = days.find((dayMeal: { date: string }) => dayMeal.date === claims.date);
+    // Snack slots ("snack_<index>") point into the day's snacks array
+    const meal = slot.startsWith('snack_')
+      ? day?.meals?.snacks?.[Number(slot.slice('snack_'.length))]
+      : day?.meals?.[slot];
+    if (!plan || !meal) return respond({ error: 'No planned meal for this reminder' }, 404);
+
+    const { error } = await supabase
+      .from('meal_logs')
+      .upsert({
+        user_id: claims.userId,
+        diet_plan_id: plan.id,
+        log_date: claims.date,
+        slot,
+        planned_meal_id: meal.id || null,
+        planned_meal_name: meal.name,
+        planned_nutrition: meal.nutrition,
+        eaten_meal_name: meal.name,
+        eaten_nutrition: meal.nutrition,
+        portion: 1,
+        logged_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      }, { onConflict: 'user_id,log_date,slot' });
+
+    if (error) {
+      console.error('Meal log from notification error:', error);
+      return respond({ error: error.message }, 500);
+    }
+    return respond({ logged: slot, date: claims.date });
+  }
+
+  if (action === 'snooze') {
+    const { data: reminder } = await supabase
+      .from('scheduled_notifications')
+      .select('kind, title, body, time_zone')
+      .eq('user_id', claims.userId)
+      .eq('reminder_key', reminderKey)
+      .maybeSingle();
+    if (!reminder) return respond({ error: 'Reminder not found' }, 404);
+
+    const runAt = new Date(Date.now() + SNOOZE_MINUTES * 60 * 1000);
+    const { error } = await supabase
+      .from('scheduled_notifications')
+      .upsert({
+        user_id: claims.userId,
+        reminder_key: `${reminderKey}:snooze`,
+        kind: reminder.kind,
+        title: reminder.title,
+        body: reminder.body,
+        local_time: new Intl.DateTimeFormat('en-GB', {
+          timeZone: reminder.time_zone,
+          hour: '2-digit',
+          minute: '2-digit',
+          hourCycle: 'h23',
+        }).format(runAt),
+        time_zone: reminder.time_zone,
+        channels: ['push'],
+        enabled: true,
+        run_once: true,
+        next_run_at: runAt.toISOString(),
+      }, { onConflict: 'user_id,reminder_key' });
+
+    if (error) {
+      console.error('Snooze reminder error:', error);
+      return respond({ error: error.message }, 500);
+    }
+    return respond({ snoozedUntil: runAt.toISOString() });
+  }
+
+  return respond({ error: 'Unknown action' }, 400);
+});
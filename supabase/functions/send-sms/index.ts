@@ -0,0 +1,83 @@
+// Texts sent on behalf of the signed-in user. The app picks a template and its values, and
+// the wording is built here. Progress figures must be numbers; the user's name (read from
+// their profile) and the plan name (sent before the plan is saved, so it can't be looked up)
+// are cut down to a short run of letters, digits and spaces, so no links or free text can be
+// slipped into a message.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { sendSms } from '../_shared/sms.ts';
+
+interface TemplateValues {
+  numbers: Record<string, number | undefined>;
+  planName: string;
+  userName: string;
+}
+
+const NAME_MAX_LENGTH = 60;
+
+const toNumber = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : undefined);
+
+const toPlainName = (value: unknown, fallback: string) =>
+  (typeof value === 'string' ? value : '')
+    .replace(/[^\p{L}\p{N} '&-]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, NAME_MAX_LENGTH)
+    .trim() || fallback;
+
+const TEMPLATES: Record<string, (values: TemplateValues) => string | null> = {
+  progress_update: ({ numbers: { completedDays, totalDays, adherenceRate, weeklyAdherence } }) => {
+    if (completedDays === undefined || totalDays === undefined || adherenceRate === undefined) return null;
+    const weekly = weeklyAdherence !== undefined ? ` (${weeklyAdherence}% over the last 7 days)` : '';
+    return `📊 NutriGuide Progress: You've completed ${completedDays}/${totalDays} days with ${adherenceRate}% adherence rate${weekly}. Keep up the great work! 🎉`;
+  },
+  plan_generated: ({ planName }) =>
+    `🎯 NutriGuide: Your new diet plan "${planName}" has been generated! Check your dashboard to start your healthy journey. Good luck! 🌟`,
+  daily_motivation: ({ userName }) => {
+    const messages = [
+      `Good morning ${userName}! 🌅 Today is a new opportunity to nourish your body. You've got this!`,
+      `Hey ${userName}! 💪 Remember, every healthy choice you make today brings you closer to your goals.`,
+      `${userName}, you're doing amazing! 🌟 Stay consistent with your nutrition plan today.`,
+      `Rise and shine ${userName}! ☀️ Your body deserves the best fuel today. Make it count!`,
+    ];
+    return messages[Math.floor(Math.random() * messages.length)];
+  },
+};
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const respond = (body: Record<string, unknown>, status = 200) =>
+  Response.json(body, { status, headers: corsHeaders });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response(null, { headers: corsHeaders });
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') || '' } },
+  });
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) return respond({ error: 'Unauthorized' }, 401);
+
+  const { template, params } = await req.json().catch(() => ({}));
+  const render = TEMPLATES[template];
+  if (!render) return respond({ error: `Unknown template: ${template}` }, 400);
+
+  const supabase = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, { auth: { persistSession: false } });
+  const { data: profile } = await supabase.from('profiles').select('name').eq('user_id', user.id).maybeSingle();
+
+  const values = (params && typeof params === 'object' ? params : {}) as Record<string, unknown>;
+  const body = render({
+    numbers: Object.fromEntries(Object.entries(values).map(([key, value]) => [key, toNumber(value)])),
+    planName: toPlainName(values.planName, 'diet plan'),
+    userName: toPlainName(profile?.name, 'there'),
+  });
+  if (!body) return respond({ error: `Missing values for template: ${template}` }, 400);
+
+  const result = await sendSms(supabase, { userId: user.id, body, kind: template });
+
+  return respond(result, result.status === 'failed' ? 502 : 200);
+});
@@ -0,0 +1,69 @@
+// Twilio webhook for delivery status callbacks and inbound replies. STOP-style keywords
+// clear the sender's SMS consent and START-style keywords restore it.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const OPT_OUT_KEYWORDS = ['STOP', 'STOPALL', 'UNSUBSCRIBE', 'CANCEL', 'END', 'QUIT'];
+const OPT_IN_KEYWORDS = ['START', 'YES', 'UNSTOP'];
+
+// Twilio's statuses mapped onto the delivery log's; "sending" and "accepted" are still queued
+const STATUS_MAP: Record<string, string> = {
+  accepted: 'queued',
+  queued: 'queued',
+  sending: 'queued',
+  sent: 'sent',
+  delivered: 'delivered',
+  undelivered: 'undelivered',
+  failed: 'failed',
+};
+
+const twiml = () => new Response('<Response></Response>', { headers: { 'Content-Type': 'text/xml' } });
+
+// X-Twilio-Signature: base64 HMAC-SHA1 of the URL followed by the sorted form fields
+async function isValidSignature(url: string, params: URLSearchParams, signature: string | null): Promise<boolean> {
+  const authToken = Deno.env.get('TWILIO_AUTH_TOKEN');
+  if (!authToken || !signature) return false;
+
+  const data = url + [...params.keys()].sort().map(key => key + params.get(key)).join('');
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(authToken), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign']);
+  const digest = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(data));
+  return btoa(String.fromCharCode(...new Uint8Array(digest))) === signature;
+}
+
+Deno.serve(async (req) => {
+  const params = new URLSearchParams(await req.text());
+  const url = Deno.env.get('TWILIO_STATUS_CALLBACK_URL') || req.url;
+
+  if (!(await isValidSignature(url, params, req.headers.get('X-Twilio-Signature')))) {
+    return new Response('Invalid signature', { status: 403 });
+  }
+
+  const supabase = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!, {
+    auth: { persistSession: false },
+  });
+
+  const messageStatus = params.get('MessageStatus');
+  if (messageStatus) {
+    await supabase
+      .from('sms_messages')
+      .update({
+        status: STATUS_MAP[messageStatus] || 'failed',
+        error: params.get('ErrorCode') ? `Twilio error ${params.get('ErrorCode')}` : null,
+      })
+      .eq('provider_message_id', params.get('MessageSid'));
+    return twiml();
+  }
+
+  const keyword = (params.get('Body') || '').trim().toUpperCase();
+  const from = params.get('From');
+  const optIn = OPT_IN_KEYWORDS.includes(keyword) ? true : OPT_OUT_KEYWORDS.includes(keyword) ? false : null;
+
+  if (from && optIn !== null) {
+    await supabase
+      .from('profiles')
+      .update({ sms_opt_in: optIn, sms_opt_in_changed_at: new Date().toISOString() })
+      .eq('phone_number', from);
+  }
+
+  // Twilio sends the carrier-required STOP/START/HELP confirmations itself
+  return twiml();
+});
@@ -0,0 +1,15 @@
+/*
+  # Nutrition target inputs
+
+  1. Modified Tables
+    - `profiles`
+      - `body_fat_percentage` (numeric, nullable) - enables the Katch-McArdle BMR formula
+      - `bmr_formula` (text, nullable) - preferred BMR formula; null lets the app choose
+
+  2. Notes
+    - Both columns are optional so existing profiles keep working unchanged
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS body_fat_percentage numeric CHECK (body_fat_percentage >= 3 AND body_fat_percentage <= 70),
+  ADD COLUMN IF NOT EXISTS bmr_formula text CHECK (bmr_formula IN ('mifflin_st_jeor', 'katch_mcardle', 'harris_benedict'));
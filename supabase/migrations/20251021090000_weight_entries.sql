@@ -0,0 +1,63 @@
+/*
+  # Weight log
+
+  1. New Tables
+    - `weight_entries`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `entry_date` (date) - one entry per user per day
+      - `weight` (numeric, kg)
+      - `body_fat_percentage` (numeric, nullable)
+      - `note` (text, nullable)
+      - Timestamps (created_at, updated_at)
+
+  2. Security
+    - Enable RLS on `weight_entries`
+    - Add policies for authenticated users to manage their own entries
+*/
+
+CREATE TABLE IF NOT EXISTS weight_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  entry_date date NOT NULL,
+  weight numeric NOT NULL CHECK (weight > 0 AND weight < 500),
+  body_fat_percentage numeric CHECK (body_fat_percentage >= 3 AND body_fat_percentage <= 70),
+  note text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, entry_date)
+);
+
+ALTER TABLE weight_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own weight entries"
+  ON weight_entries
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own weight entries"
+  ON weight_entries
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own weight entries"
+  ON weight_entries
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own weight entries"
+  ON weight_entries
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS weight_entries_user_date_idx ON weight_entries(user_id, entry_date);
+
+CREATE TRIGGER update_weight_entries_updated_at
+  BEFORE UPDATE ON weight_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,130 @@
+/*
+  # Daily meal log
+
+  1. New Tables
+    - `meal_logs`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `diet_plan_id` (uuid, nullable, references diet_plans) - the plan the planned meal came from
+      - `log_date` (date)
+      - `slot` (text) - 'breakfast', 'lunch', 'dinner' or 'snack_<index>'; one log per user, date and slot
+      - Planned meal (planned_meal_id, planned_meal_name, planned_nutrition)
+      - What was actually eaten (eaten_meal_name, eaten_nutrition for a full portion)
+      - `portion` (numeric) - fraction of the eaten item, 1 for a full portion
+      - `notes` (text, nullable)
+      - `logged_at` (timestamptz)
+      - Timestamps (created_at, updated_at)
+
+  2. Security
+    - Enable RLS on `meal_logs`
+    - Add policies for authenticated users to manage their own logs
+
+  3. Data
+    - Backfill logs from meals already marked completed inside `diet_plans.meals_data`
+*/
+
+CREATE TABLE IF NOT EXISTS meal_logs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  diet_plan_id uuid REFERENCES diet_plans(id) ON DELETE SET NULL,
+  log_date date NOT NULL,
+  slot text NOT NULL CHECK (slot ~ '^(breakfast|lunch|dinner|snack_[0-9]+)$'),
+  planned_meal_id text,
+  planned_meal_name text,
+  planned_nutrition jsonb,
+  eaten_meal_name text NOT NULL,
+  eaten_nutrition jsonb NOT NULL,
+  portion numeric NOT NULL DEFAULT 1 CHECK (portion >= 0 AND portion <= 3),
+  notes text,
+  logged_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, log_date, slot)
+);
+
+ALTER TABLE meal_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own meal logs"
+  ON meal_logs
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own meal logs"
+  ON meal_logs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own meal logs"
+  ON meal_logs
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own meal logs"
+  ON meal_logs
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS meal_logs_user_date_idx ON meal_logs(user_id, log_date);
+CREATE INDEX IF NOT EXISTS meal_logs_diet_plan_id_idx ON meal_logs(diet_plan_id);
+
+CREATE TRIGGER update_meal_logs_updated_at
+  BEFORE UPDATE ON meal_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Malformed legacy rows are skipped by the backfill rather than failing the migration
+CREATE FUNCTION pg_temp.try_date(value text)
+RETURNS date
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN value::date;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$;
+
+-- Backfill from the completed flags in meals_data, preferring the active plan when dates overlap
+INSERT INTO meal_logs (
+  user_id, diet_plan_id, log_date, slot,
+  planned_meal_id, planned_meal_name, planned_nutrition,
+  eaten_meal_name, eaten_nutrition, portion, logged_at
+)
+SELECT
+  plan.user_id,
+  plan.id,
+  pg_temp.try_date(day.value->>'date'),
+  slot.name,
+  slot.meal->>'id',
+  COALESCE(slot.meal->>'name', 'Planned meal'),
+  slot.meal->'nutrition',
+  COALESCE(slot.meal->>'name', 'Planned meal'),
+  slot.meal->'nutrition',
+  1,
+  plan.updated_at
+FROM diet_plans plan
+CROSS JOIN LATERAL jsonb_array_elements(
+  CASE WHEN jsonb_typeof(plan.meals_data) = 'array' THEN plan.meals_data ELSE '[]'::jsonb END
+) AS day(value)
+CROSS JOIN LATERAL (
+  SELECT 'breakfast' AS name, day.value->'meals'->'breakfast' AS meal
+  UNION ALL SELECT 'lunch', day.value->'meals'->'lunch'
+  UNION ALL SELECT 'dinner', day.value->'meals'->'dinner'
+  UNION ALL
+  SELECT 'snack_' || (snack.ordinality - 1), snack.value
+  FROM jsonb_array_elements(
+    CASE WHEN jsonb_typeof(day.value->'meals'->'snacks') = 'array' THEN day.value->'meals'->'snacks' ELSE '[]'::jsonb END
+  ) WITH ORDINALITY AS snack(value, ordinality)
+) AS slot
+WHERE day.value->>'date' ~ '^\d{4}-\d{2}-\d{2}$'
+  AND pg_temp.try_date(day.value->>'date') IS NOT NULL
+  AND jsonb_typeof(slot.meal->'completed') = 'boolean'
+  AND slot.meal->'completed' = 'true'::jsonb
+  AND jsonb_typeof(slot.meal->'nutrition') = 'object'
+ORDER BY plan.is_active DESC, plan.updated_at DESC
+ON CONFLICT (user_id, log_date, slot) DO NOTHING;
@@ -0,0 +1,49 @@
+/*
+  # Water intake log
+
+  1. New Tables
+    - `water_intake_entries`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `entry_date` (date) - the day the drink counts towards
+      - `amount_ml` (integer)
+      - `drink_type` (text) - water, tea, coffee, juice or other
+      - `logged_at` (timestamptz)
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `water_intake_entries`
+    - Add policies for authenticated users to manage their own entries
+*/
+
+CREATE TABLE IF NOT EXISTS water_intake_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  entry_date date NOT NULL,
+  amount_ml integer NOT NULL CHECK (amount_ml > 0 AND amount_ml <= 5000),
+  drink_type text NOT NULL DEFAULT 'water' CHECK (drink_type IN ('water', 'tea', 'coffee', 'juice', 'other')),
+  logged_at timestamptz DEFAULT now() NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE water_intake_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own water intake"
+  ON water_intake_entries
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own water intake"
+  ON water_intake_entries
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own water intake"
+  ON water_intake_entries
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS water_intake_entries_user_date_idx ON water_intake_entries(user_id, entry_date);
@@ -0,0 +1,163 @@
+/*
+  # Server-side reminder schedule
+
+  1. New Tables
+    - `scheduled_notifications`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `reminder_key` (text) - stable key per reminder, e.g. `meal-breakfast`, `hydration-3`
+      - `kind` (text) - meal, hydration or progress
+      - `title`, `body` (text) - message content
+      - `local_time` (time) - when to fire, in `time_zone`
+      - `time_zone` (text) - IANA zone name, e.g. `Africa/Nairobi`
+      - `days_of_week` (smallint[]) - 0 = Sunday ... 6 = Saturday
+      - `channels` (text[]) - any of push, sms, email
+      - `enabled` (boolean)
+      - `next_run_at` (timestamptz) - maintained by a trigger
+      - `last_run_at` (timestamptz), `last_error` (text)
+      - Timestamps (created_at, updated_at)
+
+  2. Functions
+    - `next_reminder_at` - next occurrence of a local time on the given weekdays
+    - `claim_due_notifications` - used by the `dispatch-reminders` edge function; locks
+      due rows, moves them to their next occurrence and returns the ones that aren't stale
+
+  3. Security
+    - Enable RLS on `scheduled_notifications`
+    - Users can manage their own schedule; only the service role can claim due rows
+*/
+
+CREATE TABLE IF NOT EXISTS scheduled_notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  reminder_key text NOT NULL,
+  kind text NOT NULL CHECK (kind IN ('meal', 'hydration', 'progress')),
+  title text NOT NULL,
+  body text NOT NULL,
+  local_time time NOT NULL,
+  time_zone text NOT NULL DEFAULT 'UTC',
+  days_of_week smallint[] NOT NULL DEFAULT '{0,1,2,3,4,5,6}',
+  channels text[] NOT NULL DEFAULT '{}' CHECK (channels <@ ARRAY['push', 'sms', 'email']),
+  enabled boolean NOT NULL DEFAULT true,
+  next_run_at timestamptz,
+  last_run_at timestamptz,
+  last_error text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, reminder_key)
+);
+
+ALTER TABLE scheduled_notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own scheduled notifications"
+  ON scheduled_notifications
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own scheduled notifications"
+  ON scheduled_notifications
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own scheduled notifications"
+  ON scheduled_notifications
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own scheduled notifications"
+  ON scheduled_notifications
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS scheduled_notifications_due_idx
+  ON scheduled_notifications(next_run_at)
+  WHERE enabled;
+
+CREATE OR REPLACE FUNCTION next_reminder_at(
+  reminder_time time,
+  reminder_time_zone text,
+  reminder_days smallint[],
+  after timestamptz DEFAULT now()
+)
+RETURNS timestamptz
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT min((local_day + reminder_time) AT TIME ZONE reminder_time_zone)
+  FROM (
+    SELECT (after AT TIME ZONE reminder_time_zone)::date + offset_days AS local_day
+    FROM generate_series(0, 7) AS offset_days
+  ) AS days
+  WHERE (local_day + reminder_time) AT TIME ZONE reminder_time_zone > after
+    AND EXTRACT(DOW FROM local_day)::smallint = ANY (reminder_days);
+$$;
+
+-- Recompute the next run whenever the schedule itself changes
+CREATE OR REPLACE FUNCTION set_scheduled_notification_next_run()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT'
+    OR NEW.local_time IS DISTINCT FROM OLD.local_time
+    OR NEW.time_zone IS DISTINCT FROM OLD.time_zone
+    OR NEW.days_of_week IS DISTINCT FROM OLD.days_of_week
+    OR NEW.enabled IS DISTINCT FROM OLD.enabled
+  THEN
+    NEW.next_run_at := CASE
+      WHEN NEW.enabled THEN next_reminder_at(NEW.local_time, NEW.time_zone, NEW.days_of_week, now())
+      ELSE NULL
+    END;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_scheduled_notifications_next_run
+  BEFORE INSERT OR UPDATE ON scheduled_notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION set_scheduled_notification_next_run();
+
+CREATE TRIGGER update_scheduled_notifications_updated_at
+  BEFORE UPDATE ON scheduled_notifications
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Reminders more than `stale_after` late (e.g. the worker was down) are skipped, not sent
+CREATE OR REPLACE FUNCTION claim_due_notifications(
+  batch_size integer DEFAULT 100,
+  stale_after interval DEFAULT interval '30 minutes'
+)
+RETURNS SETOF scheduled_notifications
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH due AS (
+    SELECT id, next_run_at AS due_at
+    FROM scheduled_notifications
+    WHERE enabled AND next_run_at <= now()
+    ORDER BY next_run_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  ),
+  advanced AS (
+    UPDATE scheduled_notifications AS s
+    SET next_run_at = next_reminder_at(s.local_time, s.time_zone, s.days_of_week, now()),
+        last_run_at = now()
+    FROM due
+    WHERE s.id = due.id
+    RETURNING s.*, due.due_at
+  )
+  SELECT id, user_id, reminder_key, kind, title, body, local_time, time_zone, days_of_week,
+         channels, enabled, next_run_at, last_run_at, last_error, created_at, updated_at
+  FROM advanced
+  WHERE due_at > now() - stale_after;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_due_notifications(integer, interval) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,127 @@
+/*
+  # Web Push subscriptions and snoozed reminders
+
+  1. New Tables
+    - `push_subscriptions`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `endpoint` (text, unique) - push service URL for one browser/device
+      - `p256dh`, `auth` (text) - subscription keys used to encrypt payloads
+      - `user_agent` (text, nullable) - to tell devices apart in settings
+      - `created_at`, `last_used_at` (timestamptz)
+
+  2. Changes
+    - `scheduled_notifications.run_once` - one-off reminders (e.g. "Snooze 15 min") that
+      fire at their `next_run_at` and are then disabled instead of rescheduled
+
+  3. Security
+    - Enable RLS on `push_subscriptions`
+    - Add policies for authenticated users to manage their own devices
+*/
+
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  endpoint text UNIQUE NOT NULL,
+  p256dh text NOT NULL,
+  auth text NOT NULL,
+  user_agent text,
+  created_at timestamptz DEFAULT now(),
+  last_used_at timestamptz
+);
+
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own push subscriptions"
+  ON push_subscriptions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own push subscriptions"
+  ON push_subscriptions
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own push subscriptions"
+  ON push_subscriptions
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own push subscriptions"
+  ON push_subscriptions
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS push_subscriptions_user_id_idx ON push_subscriptions(user_id);
+
+ALTER TABLE scheduled_notifications
+  ADD COLUMN IF NOT EXISTS run_once boolean NOT NULL DEFAULT false;
+
+-- One-off reminders keep the `next_run_at` they were created with
+CREATE OR REPLACE FUNCTION set_scheduled_notification_next_run()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.run_once THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT'
+    OR NEW.local_time IS DISTINCT FROM OLD.local_time
+    OR NEW.time_zone IS DISTINCT FROM OLD.time_zone
+    OR NEW.days_of_week IS DISTINCT FROM OLD.days_of_week
+    OR NEW.enabled IS DISTINCT FROM OLD.enabled
+  THEN
+    NEW.next_run_at := CASE
+      WHEN NEW.enabled THEN next_reminder_at(NEW.local_time, NEW.time_zone, NEW.days_of_week, now())
+      ELSE NULL
+    END;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS claim_due_notifications(integer, interval);
+
+CREATE OR REPLACE FUNCTION claim_due_notifications(
+  batch_size integer DEFAULT 100,
+  stale_after interval DEFAULT interval '30 minutes'
+)
+RETURNS SETOF scheduled_notifications
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH due AS (
+    SELECT id, next_run_at AS due_at
+    FROM scheduled_notifications
+    WHERE enabled AND next_run_at <= now()
+    ORDER BY next_run_at
+    LIMIT batch_size
+    FOR UPDATE SKIP LOCKED
+  ),
+  advanced AS (
+    UPDATE scheduled_notifications AS s
+    SET next_run_at = CASE
+          WHEN s.run_once THEN NULL
+          ELSE next_reminder_at(s.local_time, s.time_zone, s.days_of_week, now())
+        END,
+        enabled = s.enabled AND NOT s.run_once,
+        last_run_at = now()
+    FROM due
+    WHERE s.id = due.id
+    RETURNING s.*, due.due_at
+  )
+  SELECT id, user_id, reminder_key, kind, title, body, local_time, time_zone, days_of_week,
+         channels, enabled, next_run_at, last_run_at, last_error, created_at, updated_at, run_once
+  FROM advanced
+  WHERE due_at > now() - stale_after;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_due_notifications(integer, interval) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,58 @@
+/*
+  # SMS consent and delivery log
+
+  1. Changes
+    - `profiles.sms_opt_in` (boolean) - the user agreed to receive texts; cleared by STOP
+    - `profiles.sms_opt_in_changed_at` (timestamptz) - when consent last changed
+
+  2. New Tables
+    - `sms_messages` - one row per text the `send-sms` function or reminder scheduler tried to send
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `to_number` (text) - E.164
+      - `body` (text)
+      - `kind` (text) - reminder, progress_update, plan_generated, daily_motivation
+      - `provider` (text) - twilio or sink
+      - `provider_message_id` (text, nullable) - e.g. Twilio's MessageSid, for status callbacks
+      - `status` (text) - queued, sent, delivered, undelivered, failed, blocked or rate_limited
+      - `error` (text, nullable)
+      - Timestamps (created_at, updated_at)
+
+  3. Security
+    - Enable RLS on `sms_messages`
+    - Users can read their own delivery log; only the edge functions (service role) write it
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS sms_opt_in boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS sms_opt_in_changed_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS sms_messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  to_number text NOT NULL,
+  body text NOT NULL,
+  kind text NOT NULL,
+  provider text NOT NULL,
+  provider_message_id text,
+  status text NOT NULL CHECK (status IN ('queued', 'sent', 'delivered', 'undelivered', 'failed', 'blocked', 'rate_limited')),
+  error text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE sms_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own sms messages"
+  ON sms_messages
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS sms_messages_user_created_idx ON sms_messages(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS sms_messages_provider_message_id_idx ON sms_messages(provider_message_id);
+
+CREATE TRIGGER update_sms_messages_updated_at
+  BEFORE UPDATE ON sms_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,71 @@
+/*
+  # Notification inbox
+
+  1. New Tables
+    - `notifications` - the in-app inbox shown on the Notifications page
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references auth.users)
+      - `type` (text) - meal_reminder, progress_update, achievement or system
+      - `title` (text)
+      - `message` (text)
+      - `action_required` (boolean) - the notification asks the user to do something, e.g. log a meal
+      - `action_url` (text, nullable) - in-app route for the "Take Action" button
+      - `dedupe_key` (text, nullable) - one notification per key, so an achievement is only announced once
+      - `read_at` (timestamptz, nullable) - null while unread
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `notifications`
+    - Users can read, update, delete and create their own notifications; the reminder
+      scheduler writes with the service role
+
+  3. Realtime
+    - Add `notifications` to the `supabase_realtime` publication so open tabs see new
+      notifications and read state as they change
+*/
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  type text NOT NULL CHECK (type IN ('meal_reminder', 'progress_update', 'achievement', 'system')),
+  title text NOT NULL,
+  message text NOT NULL,
+  action_required boolean NOT NULL DEFAULT false,
+  action_url text,
+  dedupe_key text,
+  read_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE(user_id, dedupe_key)
+);
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notifications"
+  ON notifications
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own notifications"
+  ON notifications
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own notifications"
+  ON notifications
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own notifications"
+  ON notifications
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS notifications_user_created_idx ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS notifications_user_unread_idx ON notifications(user_id) WHERE read_at IS NULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
@@ -0,0 +1,71 @@
+/*
+  # User preferences
+
+  1. New Tables
+    - `user_preferences` - one row per user, synced across devices
+      - `user_id` (uuid, primary key, references auth.users)
+      - Notification types: `meal_reminders`, `hydration_reminders`, `progress_updates`,
+        `achievements`, `system_notifications` (boolean)
+      - Channels: `push_enabled`, `sms_enabled`, `email_enabled` (boolean)
+      - `reminder_lead_minutes` (integer) - how long before a meal its reminder is sent
+      - `wake_time`, `sleep_time` (time) - the window hydration reminders are spread over
+      - `quiet_hours_enabled` (boolean), `quiet_hours_start`, `quiet_hours_end` (time) - no
+        reminders are sent in this window; it may cross midnight
+      - `unit_system` (text) - metric or imperial
+      - `language` (text) - e.g. en, es
+      - `theme` (text) - light, dark or system
+      - Timestamps (created_at, updated_at)
+
+  2. Security
+    - Enable RLS on `user_preferences`
+    - Add policies for authenticated users to manage their own preferences
+*/
+
+CREATE TABLE IF NOT EXISTS user_preferences (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  meal_reminders boolean NOT NULL DEFAULT true,
+  hydration_reminders boolean NOT NULL DEFAULT true,
+  progress_updates boolean NOT NULL DEFAULT true,
+  achievements boolean NOT NULL DEFAULT true,
+  system_notifications boolean NOT NULL DEFAULT true,
+  push_enabled boolean NOT NULL DEFAULT true,
+  sms_enabled boolean NOT NULL DEFAULT false,
+  email_enabled boolean NOT NULL DEFAULT true,
+  reminder_lead_minutes integer NOT NULL DEFAULT 15 CHECK (reminder_lead_minutes >= 0 AND reminder_lead_minutes <= 120),
+  wake_time time NOT NULL DEFAULT '07:00',
+  sleep_time time NOT NULL DEFAULT '22:00',
+  quiet_hours_enabled boolean NOT NULL DEFAULT false,
+  quiet_hours_start time NOT NULL DEFAULT '22:00',
+  quiet_hours_end time NOT NULL DEFAULT '07:00',
+  unit_system text NOT NULL DEFAULT 'metric' CHECK (unit_system IN ('metric', 'imperial')),
+  language text NOT NULL DEFAULT 'en',
+  theme text NOT NULL DEFAULT 'system' CHECK (theme IN ('light', 'dark', 'system')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE user_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own preferences"
+  ON user_preferences
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own preferences"
+  ON user_preferences
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own preferences"
+  ON user_preferences
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_user_preferences_updated_at
+  BEFORE UPDATE ON user_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
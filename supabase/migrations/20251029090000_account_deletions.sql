@@ -0,0 +1,53 @@
+/*
+  # Account deletion requests
+
+  1. New Tables
+    - `account_deletions` - one row per request to delete an account, kept after the
+      account is gone as the audit record of the erasure
+      - `id` (uuid, primary key)
+      - `user_id` (uuid) - deliberately not a foreign key so the record outlives the user
+      - `status` (text) - pending, cancelled or completed
+      - `requested_at` (timestamptz)
+      - `scheduled_for` (timestamptz) - end of the grace period; the account can be kept until then
+      - `cancelled_at` (timestamptz, nullable)
+      - `completed_at` (timestamptz, nullable)
+      - `erased_rows` (jsonb, nullable) - rows removed per table, e.g. {"meal_logs": 42}
+      - `error` (text, nullable) - last failed erasure attempt; it is retried on the next run
+      - Timestamps (created_at, updated_at)
+
+  2. Security
+    - Enable RLS on `account_deletions`
+    - Users can see their own requests; only the `delete-account` edge function
+      (service role) creates, cancels and completes them
+*/
+
+CREATE TABLE IF NOT EXISTS account_deletions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'cancelled', 'completed')),
+  requested_at timestamptz DEFAULT now() NOT NULL,
+  scheduled_for timestamptz NOT NULL,
+  cancelled_at timestamptz,
+  completed_at timestamptz,
+  erased_rows jsonb,
+  error text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE account_deletions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own account deletions"
+  ON account_deletions
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- At most one request in its grace period per user
+CREATE UNIQUE INDEX IF NOT EXISTS account_deletions_one_pending_idx ON account_deletions(user_id) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS account_deletions_due_idx ON account_deletions(scheduled_for) WHERE status = 'pending';
+
+CREATE TRIGGER update_account_deletions_updated_at
+  BEFORE UPDATE ON account_deletions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
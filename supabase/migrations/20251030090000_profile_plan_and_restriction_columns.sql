@@ -0,0 +1,34 @@
+/*
+  # Profile columns for every UserProfile field
+
+  1. Modified Tables
+    - `profiles`
+      - `sport_activities` (text[]) - sports the plan is tailored to
+      - `plan_duration_days` (integer, 7-365) - length of the plan to generate
+      - `plan_duration_type` (text) - unit the duration was entered in: days, weeks or months
+      - `intolerances` (text[]) - e.g. lactose; softer than allergies but still excluded
+      - `restrictions` (text[]) - other dietary restrictions, e.g. halal or no pork
+      - `snack_times` (text[]) - HH:MM times of snacks between meals
+
+  2. Notes
+    - The app already wrote the first three; saving a profile failed until they existed
+    - Array columns from the initial schema (allergies, cuisines, medical_conditions)
+      become NOT NULL, matching how the app reads them
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS sport_activities text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS plan_duration_days integer NOT NULL DEFAULT 30 CHECK (plan_duration_days >= 7 AND plan_duration_days <= 365),
+  ADD COLUMN IF NOT EXISTS plan_duration_type text NOT NULL DEFAULT 'days' CHECK (plan_duration_type IN ('days', 'weeks', 'months')),
+  ADD COLUMN IF NOT EXISTS intolerances text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS restrictions text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS snack_times text[] NOT NULL DEFAULT '{10:00,16:00}';
+
+UPDATE profiles SET allergies = '{}' WHERE allergies IS NULL;
+UPDATE profiles SET cuisines = '{}' WHERE cuisines IS NULL;
+UPDATE profiles SET medical_conditions = '{}' WHERE medical_conditions IS NULL;
+
+ALTER TABLE profiles
+  ALTER COLUMN allergies SET NOT NULL,
+  ALTER COLUMN cuisines SET NOT NULL,
+  ALTER COLUMN medical_conditions SET NOT NULL;
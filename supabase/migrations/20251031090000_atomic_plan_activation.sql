@@ -0,0 +1,104 @@
+/*
+  # Atomic diet plan activation
+
+  1. Functions
+    - `activate_diet_plan` - makes one of the caller's plans the active one
+    - `create_active_diet_plan` - saves a new plan as the caller's active plan
+    Each deactivates the previous plan and activates the new one in a single
+    transaction, so a failure can't leave the user without an active plan.
+
+  2. Indexes
+    - `diet_plans_one_active_idx` - at most one active plan per user, so two tabs
+      activating different plans at once can't both succeed
+
+  3. Notes
+    - Users who already have several active plans keep only the most recently updated one
+    - Both functions run as the caller (SECURITY INVOKER), so the existing RLS policies apply
+*/
+
+UPDATE diet_plans
+SET is_active = false
+WHERE is_active
+  AND id NOT IN (
+    SELECT DISTINCT ON (user_id) id
+    FROM diet_plans
+    WHERE is_active
+    ORDER BY user_id, updated_at DESC, created_at DESC
+  );
+
+DROP INDEX IF EXISTS diet_plans_is_active_idx;
+CREATE UNIQUE INDEX IF NOT EXISTS diet_plans_one_active_idx ON diet_plans(user_id) WHERE is_active;
+
+CREATE OR REPLACE FUNCTION activate_diet_plan(plan_id uuid)
+RETURNS diet_plans
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  activated diet_plans;
+BEGIN
+  UPDATE diet_plans
+  SET is_active = false
+  WHERE user_id = auth.uid() AND is_active AND id <> plan_id;
+
+  UPDATE diet_plans
+  SET is_active = true
+  WHERE id = plan_id AND user_id = auth.uid()
+  RETURNING * INTO activated;
+
+  -- Raising rolls back the deactivation above
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Diet plan % not found', plan_id USING ERRCODE = 'P0002';
+  END IF;
+
+  RETURN activated;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_active_diet_plan(
+  plan_name text,
+  plan_description text,
+  plan_duration integer,
+  plan_daily_calories integer,
+  plan_protein_g numeric,
+  plan_carbs_g numeric,
+  plan_fat_g numeric,
+  plan_meals_data jsonb,
+  plan_completed_days integer DEFAULT 0,
+  plan_adherence_rate numeric DEFAULT 0
+)
+RETURNS diet_plans
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  created diet_plans;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  UPDATE diet_plans
+  SET is_active = false
+  WHERE user_id = auth.uid() AND is_active;
+
+  INSERT INTO diet_plans (
+    user_id, name, description, duration, daily_calories, protein_g, carbs_g, fat_g,
+    meals_data, is_active, completed_days, adherence_rate
+  )
+  VALUES (
+    auth.uid(), plan_name, plan_description, plan_duration, plan_daily_calories, plan_protein_g, plan_carbs_g, plan_fat_g,
+    plan_meals_data, true, plan_completed_days, plan_adherence_rate
+  )
+  RETURNING * INTO created;
+
+  RETURN created;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION activate_diet_plan(uuid) FROM public;
+REVOKE EXECUTE ON FUNCTION create_active_diet_plan(text, text, integer, integer, numeric, numeric, numeric, jsonb, integer, numeric) FROM public;
+GRANT EXECUTE ON FUNCTION activate_diet_plan(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_active_diet_plan(text, text, integer, integer, numeric, numeric, numeric, jsonb, integer, numeric) TO authenticated;